@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { CurvePoint } from './types';
+import { bakeCurvePoints, bakeCurves, sampleCurvePoints } from './curveInterpolation';
+
+describe('curve interpolation', () => {
+  it('samples plain points linearly and bakes them to the same array', () => {
+    const points: CurvePoint[] = [
+      { time: 0, intensity: 0 },
+      { time: 1, intensity: 1, inherit: true },
+    ];
+    expect(sampleCurvePoints(points, 0.25)).toBeCloseTo(0.25);
+    expect(bakeCurvePoints(points)).toBe(points);
+    const curves = { '12': points };
+    expect(bakeCurves(curves)).toBe(curves);
+  });
+
+  it('holds step segments until the next point', () => {
+    const points: CurvePoint[] = [
+      { time: 0, intensity: 0.2, interpolation: 'step' },
+      { time: 1, intensity: 1 },
+    ];
+    expect(sampleCurvePoints(points, 0.99)).toBe(0.2);
+    expect(sampleCurvePoints(points, 1)).toBe(1);
+
+    const baked = bakeCurvePoints(points);
+    expect(baked).toHaveLength(3);
+    expect(baked[1].intensity).toBe(0.2);
+    expect(baked[1].time).toBeGreaterThan(0.99);
+    expect(baked[0]).toEqual({ time: 0, intensity: 0.2 });
+  });
+
+  it('eases bezier segments with default flat handles and honors explicit tangents', () => {
+    const eased: CurvePoint[] = [
+      { time: 0, intensity: 0, interpolation: 'bezier' },
+      { time: 1, intensity: 1 },
+    ];
+    expect(sampleCurvePoints(eased, 0.5)).toBeCloseTo(0.5);
+    expect(sampleCurvePoints(eased, 0.1)).toBeLessThan(0.1);
+    expect(sampleCurvePoints(eased, 0.9)).toBeGreaterThan(0.9);
+
+    const overshoot: CurvePoint[] = [
+      { time: 0, intensity: 0, interpolation: 'bezier', outTangent: { time: 0.3, intensity: 1 } },
+      { time: 1, intensity: 1, inTangent: { time: -0.3, intensity: 0.5 } },
+    ];
+    const peak = Math.max(...bakeCurvePoints(overshoot, 30).map((p) => p.intensity));
+    expect(peak).toBeGreaterThan(1);
+  });
+
+  it('passes Catmull-Rom segments through every point smoothly', () => {
+    const points: CurvePoint[] = [
+      { time: 0, intensity: 0, interpolation: 'catmullRom' },
+      { time: 1, intensity: 1, interpolation: 'catmullRom' },
+      { time: 2, intensity: 0 },
+    ];
+    expect(sampleCurvePoints(points, 1)).toBe(1);
+    // Zero slope at the peak, so the curve stays above the linear chord near it.
+    expect(sampleCurvePoints(points, 0.9)).toBeGreaterThan(0.9);
+    expect(sampleCurvePoints(points, 1.1)).toBeGreaterThan(0.9);
+
+    const baked = bakeCurvePoints(points, 10);
+    expect(baked.map((p) => p.time)).toContain(1);
+    expect(baked.every((p) => p.interpolation === undefined)).toBe(true);
+    expect(baked).toHaveLength(21);
+  });
+});
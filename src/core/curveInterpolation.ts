@@ -0,0 +1,147 @@
+import type { CurvePoint, CurvesMap, CurveTangent } from './types';
+
+export const DEFAULT_CURVE_SAMPLE_RATE = 60;
+
+/** Gap before the next key where a step segment jumps to the next value. */
+const STEP_EPSILON = 1e-4;
+
+const isLinearPoint = (point: CurvePoint) =>
+  point.interpolation === undefined || point.interpolation === 'linear';
+
+const withoutShape = ({ interpolation: _interpolation, inTangent: _in, outTangent: _out, ...point }: CurvePoint): CurvePoint =>
+  point;
+
+/** True when any segment of the curve needs more than straight-line keys. */
+export function hasShapedSegments(points: CurvePoint[]): boolean {
+  for (let i = 0; i < points.length - 1; i++) {
+    if (!isLinearPoint(points[i])) return true;
+  }
+  return false;
+}
+
+function clampTangent(tangent: CurveTangent | undefined, span: number, direction: 1 | -1): CurveTangent {
+  if (!tangent) return { time: (span / 3) * direction, intensity: 0 };
+  const time = direction > 0
+    ? Math.max(0, Math.min(span, tangent.time))
+    : Math.max(-span, Math.min(0, tangent.time));
+  return { time, intensity: tangent.intensity };
+}
+
+const cubic = (p0: number, p1: number, p2: number, p3: number, u: number) => {
+  const v = 1 - u;
+  return v * v * v * p0 + 3 * v * v * u * p1 + 3 * v * u * u * p2 + u * u * u * p3;
+};
+
+function sampleBezier(a: CurvePoint, b: CurvePoint, t: number): number {
+  const span = b.time - a.time;
+  const out = clampTangent(a.outTangent, span, 1);
+  const inn = clampTangent(b.inTangent, span, -1);
+  const x1 = a.time + out.time;
+  const x2 = b.time + inn.time;
+
+  // Handles are clamped inside the segment, so time is monotonic in u; bisect for it.
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 32; i++) {
+    const mid = (lo + hi) / 2;
+    if (cubic(a.time, x1, x2, b.time, mid) < t) lo = mid;
+    else hi = mid;
+  }
+  const u = (lo + hi) / 2;
+  return cubic(a.intensity, a.intensity + out.intensity, b.intensity + inn.intensity, b.intensity, u);
+}
+
+function catmullRomSlope(points: CurvePoint[], index: number): number {
+  const prev = points[Math.max(0, index - 1)];
+  const next = points[Math.min(points.length - 1, index + 1)];
+  const span = next.time - prev.time;
+  return span > 0 ? (next.intensity - prev.intensity) / span : 0;
+}
+
+function sampleCatmullRom(points: CurvePoint[], index: number, t: number): number {
+  const a = points[index];
+  const b = points[index + 1];
+  const span = b.time - a.time;
+  const s = (t - a.time) / span;
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * a.intensity
+    + (s3 - 2 * s2 + s) * span * catmullRomSlope(points, index)
+    + (-2 * s3 + 3 * s2) * b.intensity
+    + (s3 - s2) * span * catmullRomSlope(points, index + 1);
+}
+
+function sampleSegment(points: CurvePoint[], index: number, t: number): number {
+  const a = points[index];
+  const b = points[index + 1];
+  const span = b.time - a.time;
+  if (span <= 1e-6) return b.intensity;
+  switch (a.interpolation) {
+    case 'step':
+      return t < b.time ? a.intensity : b.intensity;
+    case 'bezier':
+      return sampleBezier(a, b, t);
+    case 'catmullRom':
+      return sampleCatmullRom(points, index, t);
+    default:
+      return a.intensity + (b.intensity - a.intensity) * ((t - a.time) / span);
+  }
+}
+
+/**
+ * Sample a curve at time `t`, honoring each point's interpolation mode.
+ * Holds the first/last intensity outside the curve's time range.
+ */
+export function sampleCurvePoints(points: CurvePoint[], t: number): number {
+  if (!points.length) return 0;
+  if (t <= points[0].time) return points[0].intensity;
+  const last = points[points.length - 1];
+  if (t >= last.time) return last.intensity;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (t >= points[i].time && t <= points[i + 1].time) return sampleSegment(points, i, t);
+  }
+  return 0;
+}
+
+/**
+ * Bake shaped segments into linear keys at `sampleRate` samples per second,
+ * so linear keyframe tracks play them back. Original points are kept; curves
+ * with only linear segments are returned as-is.
+ */
+export function bakeCurvePoints(points: CurvePoint[], sampleRate = DEFAULT_CURVE_SAMPLE_RATE): CurvePoint[] {
+  if (!hasShapedSegments(points)) return points;
+  const rate = sampleRate > 0 ? sampleRate : DEFAULT_CURVE_SAMPLE_RATE;
+  const baked: CurvePoint[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    baked.push(withoutShape(a));
+    const b = points[i + 1];
+    if (!b || isLinearPoint(a)) continue;
+
+    const span = b.time - a.time;
+    if (span <= 1e-6) continue;
+    if (a.interpolation === 'step') {
+      baked.push({ time: b.time - Math.min(STEP_EPSILON, span / 2), intensity: a.intensity });
+      continue;
+    }
+    const steps = Math.max(2, Math.ceil(span * rate));
+    for (let s = 1; s < steps; s++) {
+      const time = a.time + (span * s) / steps;
+      baked.push({ time, intensity: sampleSegment(points, i, time) });
+    }
+  }
+
+  return baked;
+}
+
+/** `bakeCurvePoints` over every curve in a map. */
+export function bakeCurves(curves: CurvesMap, sampleRate = DEFAULT_CURVE_SAMPLE_RATE): CurvesMap {
+  let changed = false;
+  const baked: CurvesMap = {};
+  for (const [curveId, points] of Object.entries(curves)) {
+    baked[curveId] = points ? bakeCurvePoints(points, sampleRate) : points;
+    if (baked[curveId] !== points) changed = true;
+  }
+  return changed ? baked : curves;
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Snippet } from './types';
+import { CC4_PRESET } from '../presets/cc4';
+import { SNIPPET_FORMAT, SNIPPET_FORMAT_VERSION, parseSnippet, serializeSnippet } from './snippetFormat';
+
+const snippet: Snippet = {
+  name: 'smile',
+  description: 'quick smile',
+  snippetCategory: 'auSnippet',
+  snippetPriority: 2,
+  loop: false,
+  balanceMap: { 12: -0.25 },
+  curves: {
+    12: [
+      { time: 0, intensity: 0, interpolation: 'bezier', outTangent: { time: 0.1, intensity: 0.2 } },
+      { time: 0.5, intensity: 1 },
+    ],
+    'viseme:3': [{ time: 0, intensity: 0 }, { time: 0.2, intensity: 1 }],
+  },
+};
+
+describe('snippet file format', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('round-trips a snippet with metadata', () => {
+    const json = serializeSnippet(snippet, { author: 'ana', profile: 'cc4', fps: 60 });
+    const file = JSON.parse(json);
+    expect(file.format).toBe(SNIPPET_FORMAT);
+    expect(file.version).toBe(SNIPPET_FORMAT_VERSION);
+
+    const result = parseSnippet(json, { profile: CC4_PRESET });
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.sourceVersion).toBe(1);
+    expect(result.snippet).toEqual(snippet);
+    expect(result.metadata).toEqual({ author: 'ana', profile: 'cc4', fps: 60 });
+  });
+
+  it('reports errors with the path of the bad value', () => {
+    const result = parseSnippet({
+      format: SNIPPET_FORMAT,
+      version: 1,
+      name: 'bad',
+      metadata: { fps: -1 },
+      curves: {
+        12: [{ time: 0, intensity: 0 }, { time: 'soon', intensity: 1 }],
+        Mouth_Smile_L: [{ time: 1, intensity: 0 }, { time: 0.5, intensity: 1, interpolation: 'cubic' }],
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.snippet).toBeNull();
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      "$.curves['12'][1].time",
+      '$.curves.Mouth_Smile_L[1].interpolation',
+      '$.curves.Mouth_Smile_L[1].time',
+      '$.metadata.fps',
+    ]);
+  });
+
+  it('rejects newer versions and invalid JSON', () => {
+    expect(parseSnippet({ format: SNIPPET_FORMAT, version: 99, name: 'x', curves: {} }).errors[0].code).toBe('UNSUPPORTED_VERSION');
+    expect(parseSnippet('{not json').errors[0].code).toBe('INVALID_JSON');
+  });
+
+  it('migrates legacy unversioned snippets', () => {
+    const result = parseSnippet({
+      curves: { 12: [[0.5, 1], [0, 0]] },
+      snippetCategory: 'auSnippet',
+    });
+    expect(result.valid).toBe(true);
+    expect(result.sourceVersion).toBe(0);
+    expect(result.snippet?.name).toBe('snippet');
+    expect(result.snippet?.curves['12']).toEqual([
+      { time: 0, intensity: 0 },
+      { time: 0.5, intensity: 1 },
+    ]);
+    expect(result.warnings.map((issue) => issue.code).sort()).toEqual(['MISSING_NAME', 'UNSORTED_POINTS']);
+  });
+
+  it('rejects unknown AUs and visemes in strict mode and warns otherwise', () => {
+    const input = {
+      name: 'unknown',
+      curves: {
+        999: [{ time: 0, intensity: 1 }],
+        'viseme:40': [{ time: 0, intensity: 1 }],
+        Some_Morph: [{ time: 0, intensity: 1 }],
+      },
+    };
+
+    const strict = parseSnippet(input, { profile: CC4_PRESET });
+    expect(strict.valid).toBe(false);
+    expect(strict.errors.map((issue) => issue.code).sort()).toEqual(['UNKNOWN_AU', 'UNKNOWN_VISEME']);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const lenient = parseSnippet(input, { profile: CC4_PRESET, strict: false });
+    expect(lenient.valid).toBe(true);
+    expect(lenient.warnings.map((issue) => issue.code)).toEqual(expect.arrayContaining(['UNKNOWN_AU', 'UNKNOWN_VISEME']));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[Loom3] parseSnippet:'));
+  });
+
+  it('treats numeric ids as viseme indices in viseme snippets', () => {
+    const result = parseSnippet(
+      { name: 'v', snippetCategory: 'visemeSnippet', curves: { 14: [{ time: 0, intensity: 1 }], 15: [{ time: 0, intensity: 1 }] } },
+      { profile: CC4_PRESET }
+    );
+    expect(result.errors.map((issue) => issue.path)).toEqual(["$.curves['15']"]);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Snippet file format (version 1)
+ *
+ * ```json
+ * {
+ *   "format": "loom3-snippet",
+ *   "version": 1,
+ *   "name": "smile-and-look",
+ *   "description": "optional",
+ *   "metadata": { "author": "ana", "profile": "cc4", "fps": 60, "createdAt": "2026-01-01T00:00:00Z" },
+ *   "snippetCategory": "auSnippet",
+ *   "snippetPriority": 0,
+ *   "loop": false,
+ *   "balanceMap": { "12": -0.2 },
+ *   "curves": {
+ *     "12": [{ "time": 0, "intensity": 0 }, { "time": 0.5, "intensity": 1, "interpolation": "bezier" }],
+ *     "viseme:3": [{ "time": 0, "intensity": 0 }, { "time": 0.2, "intensity": 1 }]
+ *   }
+ * }
+ * ```
+ *
+ * Curve ids follow `CurvesMap`: AU ids (`12`, `12L`), `viseme:<index>`, or morph
+ * names; in a `visemeSnippet` plain numeric ids are viseme indices. Points carry
+ * `time` (seconds, non-decreasing) and `intensity`, plus the optional
+ * `inherit`, `interpolation`, `inTangent` and `outTangent` fields of `CurvePoint`.
+ *
+ * Files without `version` are legacy snippets (the bare `Snippet` JSON saved by
+ * earlier tools) and are migrated on parse: `[time, intensity]` tuple points
+ * become objects, unsorted points are sorted and a missing name is filled in.
+ */
+
+import type { CurveInterpolation, CurvePoint, CurvesMap, Snippet } from './types';
+import type { Profile } from '../mappings/types';
+import { getProfileVisemeSlots } from '../mappings/visemeSystem';
+import { parseVisemeCurveId } from './snippetOps';
+
+export const SNIPPET_FORMAT = 'loom3-snippet';
+export const SNIPPET_FORMAT_VERSION = 1;
+
+export interface SnippetMetadata {
+  author?: string;
+  /** Preset or profile id the curves were authored for (e.g. 'cc4', 'arkit') */
+  profile?: string;
+  /** Frame rate the curves were authored or recorded at */
+  fps?: number;
+  /** ISO 8601 timestamp */
+  createdAt?: string;
+}
+
+export interface SnippetFileV1 {
+  format: typeof SNIPPET_FORMAT;
+  version: 1;
+  name: string;
+  description?: string;
+  metadata?: SnippetMetadata;
+  snippetCategory?: string;
+  snippetPriority?: number;
+  loop?: boolean;
+  balanceMap?: Record<string, number>;
+  curves: CurvesMap;
+}
+
+export type SnippetIssueSeverity = 'error' | 'warning';
+
+export interface SnippetIssue {
+  code: string;
+  severity: SnippetIssueSeverity;
+  /** Location of the problem in the document, e.g. `$.curves['12'][3].time` */
+  path: string;
+  message: string;
+}
+
+export interface ParseSnippetOptions {
+  /** Profile the curves must resolve against; AU and viseme ids are not checked without one */
+  profile?: Profile;
+  /**
+   * When true (default), curves referencing AUs or visemes the profile does not
+   * define are errors. When false they are reported as warnings and logged.
+   */
+  strict?: boolean;
+}
+
+export interface ParseSnippetResult {
+  valid: boolean;
+  /** The parsed snippet, or null when there are errors */
+  snippet: Snippet | null;
+  metadata: SnippetMetadata;
+  /** Version the input was written in (0 for legacy unversioned snippets) */
+  sourceVersion: number;
+  errors: SnippetIssue[];
+  warnings: SnippetIssue[];
+}
+
+const INTERPOLATIONS: CurveInterpolation[] = ['linear', 'step', 'bezier', 'catmullRom'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const keyPath = (base: string, key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? `${base}.${key}` : `${base}['${key}']`);
+
+class IssueCollector {
+  errors: SnippetIssue[] = [];
+  warnings: SnippetIssue[] = [];
+
+  error(code: string, path: string, message: string): void {
+    this.errors.push({ code, severity: 'error', path, message });
+  }
+
+  warn(code: string, path: string, message: string): void {
+    this.warnings.push({ code, severity: 'warning', path, message });
+  }
+}
+
+function readTangent(value: unknown, path: string, issues: IssueCollector) {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isFiniteNumber(value.time) || !isFiniteNumber(value.intensity)) {
+    issues.error('INVALID_TANGENT', path, 'Tangent must be an object with numeric time and intensity');
+    return undefined;
+  }
+  return { time: value.time, intensity: value.intensity };
+}
+
+function readPoint(value: unknown, path: string, legacy: boolean, issues: IssueCollector): CurvePoint | null {
+  if (legacy && Array.isArray(value) && value.length >= 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1])) {
+    return { time: value[0], intensity: value[1] };
+  }
+  if (!isRecord(value)) {
+    issues.error('INVALID_POINT', path, 'Curve point must be an object with time and intensity');
+    return null;
+  }
+
+  let ok = true;
+  if (!isFiniteNumber(value.time) || value.time < 0) {
+    issues.error('INVALID_TIME', `${path}.time`, 'time must be a finite number >= 0');
+    ok = false;
+  }
+  if (!isFiniteNumber(value.intensity)) {
+    issues.error('INVALID_INTENSITY', `${path}.intensity`, 'intensity must be a finite number');
+    ok = false;
+  }
+  if (!ok) return null;
+
+  const point: CurvePoint = { time: value.time as number, intensity: value.intensity as number };
+  if (value.inherit !== undefined) {
+    if (typeof value.inherit === 'boolean') point.inherit = value.inherit;
+    else issues.error('INVALID_INHERIT', `${path}.inherit`, 'inherit must be a boolean');
+  }
+  if (value.interpolation !== undefined) {
+    if (INTERPOLATIONS.includes(value.interpolation as CurveInterpolation)) {
+      point.interpolation = value.interpolation as CurveInterpolation;
+    } else {
+      issues.error('INVALID_INTERPOLATION', `${path}.interpolation`, `interpolation must be one of ${INTERPOLATIONS.join(', ')}`);
+    }
+  }
+  const inTangent = readTangent(value.inTangent, `${path}.inTangent`, issues);
+  if (inTangent) point.inTangent = inTangent;
+  const outTangent = readTangent(value.outTangent, `${path}.outTangent`, issues);
+  if (outTangent) point.outTangent = outTangent;
+  return point;
+}
+
+function readCurves(value: unknown, legacy: boolean, issues: IssueCollector): CurvesMap {
+  const curves: CurvesMap = {};
+  if (!isRecord(value)) {
+    issues.error('INVALID_CURVES', '$.curves', 'curves must be an object of curve id to point arrays');
+    return curves;
+  }
+
+  for (const [curveId, rawPoints] of Object.entries(value)) {
+    const curvePath = keyPath('$.curves', curveId);
+    if (!Array.isArray(rawPoints)) {
+      issues.error('INVALID_CURVE', curvePath, 'Curve must be an array of points');
+      continue;
+    }
+    const points: CurvePoint[] = [];
+    rawPoints.forEach((rawPoint, index) => {
+      const point = readPoint(rawPoint, `${curvePath}[${index}]`, legacy, issues);
+      if (point) points.push(point);
+    });
+
+    const outOfOrder = points.findIndex((point, index) => index > 0 && point.time < points[index - 1].time);
+    if (outOfOrder >= 0) {
+      if (legacy) {
+        points.sort((a, b) => a.time - b.time);
+        issues.warn('UNSORTED_POINTS', curvePath, 'Points were not in time order and have been sorted');
+      } else {
+        issues.error('UNSORTED_POINTS', `${curvePath}[${outOfOrder}].time`, 'Point times must not decrease');
+      }
+    }
+    curves[curveId] = points;
+  }
+  return curves;
+}
+
+function readMetadata(value: unknown, issues: IssueCollector): SnippetMetadata {
+  const metadata: SnippetMetadata = {};
+  if (value === undefined) return metadata;
+  if (!isRecord(value)) {
+    issues.error('INVALID_METADATA', '$.metadata', 'metadata must be an object');
+    return metadata;
+  }
+  for (const key of ['author', 'profile', 'createdAt'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] === 'string') metadata[key] = value[key] as string;
+    else issues.error('INVALID_METADATA', `$.metadata.${key}`, `${key} must be a string`);
+  }
+  if (value.fps !== undefined) {
+    if (isFiniteNumber(value.fps) && value.fps > 0) metadata.fps = value.fps;
+    else issues.error('INVALID_METADATA', '$.metadata.fps', 'fps must be a number > 0');
+  }
+  return metadata;
+}
+
+/**
+ * Check that a snippet's AU and viseme curve ids exist in `profile`.
+ * Morph-name curves are not checked, since they depend on the loaded model.
+ */
+export function validateSnippetAgainstProfile(
+  snippet: Pick<Snippet, 'curves' | 'snippetCategory'>,
+  profile: Profile,
+  severity: SnippetIssueSeverity = 'error'
+): SnippetIssue[] {
+  const issues: SnippetIssue[] = [];
+  const visemeCount = getProfileVisemeSlots(profile).length;
+  const isVisemeSnippet = snippet.snippetCategory === 'visemeSnippet';
+
+  for (const curveId of Object.keys(snippet.curves)) {
+    const path = keyPath('$.curves', curveId);
+    const visemeIndex = parseVisemeCurveId(curveId) ?? (isVisemeSnippet && /^\d+$/.test(curveId) ? Number(curveId) : null);
+    if (visemeIndex !== null) {
+      if (visemeIndex >= visemeCount) {
+        issues.push({
+          code: 'UNKNOWN_VISEME',
+          severity,
+          path,
+          message: `Viseme index ${visemeIndex} is outside the profile's ${visemeCount} viseme slots`,
+        });
+      }
+      continue;
+    }
+
+    const au = curveId.match(/^(\d+)[LR]?$/i);
+    if (!au) continue;
+    const auId = Number(au[1]);
+    if (!profile.auToMorphs?.[auId] && !profile.auToBones?.[auId]) {
+      issues.push({ code: 'UNKNOWN_AU', severity, path, message: `AU ${auId} has no morph or bone mapping in the profile` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Parse and validate a snippet file (JSON text or an already-parsed object).
+ * Legacy unversioned snippets are migrated to the current format.
+ */
+export function parseSnippet(input: string | unknown, options: ParseSnippetOptions = {}): ParseSnippetResult {
+  const issues = new IssueCollector();
+  const fail = (sourceVersion: number): ParseSnippetResult => ({
+    valid: false,
+    snippet: null,
+    metadata: {},
+    sourceVersion,
+    errors: issues.errors,
+    warnings: issues.warnings,
+  });
+
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      issues.error('INVALID_JSON', '$', `Snippet is not valid JSON: ${(error as Error).message}`);
+      return fail(0);
+    }
+  }
+  if (!isRecord(raw)) {
+    issues.error('NOT_OBJECT', '$', 'Snippet must be a JSON object');
+    return fail(0);
+  }
+
+  const legacy = raw.version === undefined;
+  const sourceVersion = legacy ? 0 : (raw.version as number);
+  if (!legacy) {
+    if (!Number.isInteger(raw.version) || sourceVersion < 1) {
+      issues.error('INVALID_VERSION', '$.version', 'version must be a positive integer');
+      return fail(0);
+    }
+    if (sourceVersion > SNIPPET_FORMAT_VERSION) {
+      issues.error('UNSUPPORTED_VERSION', '$.version', `Snippet version ${sourceVersion} is newer than supported version ${SNIPPET_FORMAT_VERSION}`);
+      return fail(sourceVersion);
+    }
+    if (raw.format !== SNIPPET_FORMAT) {
+      issues.error('INVALID_FORMAT', '$.format', `format must be "${SNIPPET_FORMAT}"`);
+    }
+  }
+
+  let name = raw.name;
+  if (typeof name !== 'string' || !name) {
+    if (legacy && name === undefined) {
+      name = 'snippet';
+      issues.warn('MISSING_NAME', '$.name', 'Legacy snippet has no name; using "snippet"');
+    } else {
+      issues.error('INVALID_NAME', '$.name', 'name must be a non-empty string');
+    }
+  }
+
+  const snippet: Snippet = { name: name as string, curves: readCurves(raw.curves, legacy, issues) };
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description === 'string') snippet.description = raw.description;
+    else issues.error('INVALID_DESCRIPTION', '$.description', 'description must be a string');
+  }
+  if (raw.snippetCategory !== undefined) {
+    if (typeof raw.snippetCategory === 'string') snippet.snippetCategory = raw.snippetCategory;
+    else issues.error('INVALID_CATEGORY', '$.snippetCategory', 'snippetCategory must be a string');
+  }
+  if (raw.snippetPriority !== undefined) {
+    if (isFiniteNumber(raw.snippetPriority)) snippet.snippetPriority = raw.snippetPriority;
+    else issues.error('INVALID_PRIORITY', '$.snippetPriority', 'snippetPriority must be a finite number');
+  }
+  if (raw.loop !== undefined) {
+    if (typeof raw.loop === 'boolean') snippet.loop = raw.loop;
+    else issues.error('INVALID_LOOP', '$.loop', 'loop must be a boolean');
+  }
+  if (raw.balanceMap !== undefined) {
+    if (!isRecord(raw.balanceMap)) {
+      issues.error('INVALID_BALANCE_MAP', '$.balanceMap', 'balanceMap must be an object of curve id to balance');
+    } else {
+      const balanceMap: Record<string, number> = {};
+      for (const [curveId, balance] of Object.entries(raw.balanceMap)) {
+        if (isFiniteNumber(balance) && balance >= -1 && balance <= 1) balanceMap[curveId] = balance;
+        else issues.error('INVALID_BALANCE', keyPath('$.balanceMap', curveId), 'Balance must be a number from -1 to 1');
+      }
+      snippet.balanceMap = balanceMap;
+    }
+  }
+
+  const metadata = readMetadata(raw.metadata, issues);
+
+  if (options.profile) {
+    const strict = options.strict ?? true;
+    for (const issue of validateSnippetAgainstProfile(snippet, options.profile, strict ? 'error' : 'warning')) {
+      if (strict) {
+        issues.errors.push(issue);
+      } else {
+        issues.warnings.push(issue);
+        console.warn(`[Loom3] parseSnippet: ${issue.path}: ${issue.message}`);
+      }
+    }
+  }
+
+  if (issues.errors.length) return { ...fail(sourceVersion), metadata };
+  return { valid: true, snippet, metadata, sourceVersion, errors: [], warnings: issues.warnings };
+}
+
+/** Build the current-version file object for a snippet. */
+export function toSnippetFile(snippet: Snippet, metadata?: SnippetMetadata): SnippetFileV1 {
+  return {
+    format: SNIPPET_FORMAT,
+    version: SNIPPET_FORMAT_VERSION,
+    name: snippet.name,
+    ...(snippet.description !== undefined ? { description: snippet.description } : {}),
+    ...(metadata && Object.keys(metadata).length ? { metadata: { ...metadata } } : {}),
+    ...(snippet.snippetCategory !== undefined ? { snippetCategory: snippet.snippetCategory } : {}),
+    ...(snippet.snippetPriority !== undefined ? { snippetPriority: snippet.snippetPriority } : {}),
+    ...(snippet.loop !== undefined ? { loop: snippet.loop } : {}),
+    ...(snippet.balanceMap && Object.keys(snippet.balanceMap).length ? { balanceMap: { ...snippet.balanceMap } } : {}),
+    curves: Object.fromEntries(
+      Object.entries(snippet.curves).map(([curveId, points]) => [curveId, points.map((point) => ({ ...point }))])
+    ),
+  };
+}
+
+/** Serialize a snippet to version-1 JSON text. */
+export function serializeSnippet(snippet: Snippet, metadata?: SnippetMetadata, space: number = 2): string {
+  return JSON.stringify(toSnippetFile(snippet, metadata), null, space);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CurvesMap } from './types';
+import { CC4_PRESET } from '../presets/cc4';
+import { sampleCurvePoints } from './curveInterpolation';
+import {
+  concatCurves,
+  getCurvesDuration,
+  mirrorBalanceMap,
+  mirrorCurves,
+  reduceKeyframes,
+  resampleCurves,
+  scaleCurvesIntensity,
+  spliceCurves,
+  stretchCurves,
+  trimCurves,
+} from './snippetOps';
+
+const ramp = (from: number, to: number, duration = 1) => [
+  { time: 0, intensity: from },
+  { time: duration, intensity: to },
+];
+
+describe('snippet ops: time', () => {
+  it('trims to a range with sampled boundary keys', () => {
+    const trimmed = trimCurves({ 12: ramp(0, 1, 2) }, 0.5, 1.5);
+    expect(trimmed['12']).toEqual([
+      { time: 0, intensity: 0.25 },
+      { time: 1, intensity: 0.75 },
+    ]);
+    expect(trimCurves({ 12: ramp(0, 1, 2) }, 0.5, 1.5, false)['12'][0].time).toBe(0.5);
+  });
+
+  it('stretches to a target duration including bezier handles', () => {
+    const stretched = stretchCurves({
+      12: [
+        { time: 0, intensity: 0, interpolation: 'bezier', outTangent: { time: 0.2, intensity: 0.1 } },
+        { time: 1, intensity: 1 },
+      ],
+      4: ramp(0, 1, 0.5),
+    }, 3);
+    expect(getCurvesDuration(stretched)).toBeCloseTo(3);
+    expect(stretched['4'][1].time).toBeCloseTo(1.5);
+    expect(stretched['12'][0].outTangent).toEqual({ time: expect.closeTo(0.6, 6), intensity: 0.1 });
+  });
+
+  it('concatenates with a hard cut or a crossfade', () => {
+    const a: CurvesMap = { 12: ramp(0, 1) };
+    const b: CurvesMap = { 12: ramp(1, 0), 4: ramp(0, 1) };
+
+    const cut = concatCurves(a, b);
+    expect(getCurvesDuration(cut)).toBeCloseTo(2);
+    expect(sampleCurvePoints(cut['12'], 1.5)).toBeCloseTo(0.5);
+    expect(sampleCurvePoints(cut['4'], 0.5)).toBe(0);
+
+    const faded = concatCurves({ 12: ramp(1, 1) }, { 12: ramp(0, 0) }, { crossfade: 0.5 });
+    expect(getCurvesDuration(faded)).toBeCloseTo(1.5);
+    expect(sampleCurvePoints(faded['12'], 0.5)).toBeCloseTo(1);
+    expect(sampleCurvePoints(faded['12'], 0.75)).toBeCloseTo(0.5, 1);
+    expect(sampleCurvePoints(faded['12'], 1)).toBeCloseTo(0);
+  });
+
+  it('splices an insert and pushes the rest later', () => {
+    const spliced = spliceCurves({ 12: ramp(0, 1, 2) }, { 4: ramp(1, 1, 0.5) }, 1);
+    expect(getCurvesDuration(spliced)).toBeCloseTo(2.5);
+    expect(sampleCurvePoints(spliced['12'], 0.5)).toBeCloseTo(0.25);
+    expect(sampleCurvePoints(spliced['4'], 1.25)).toBeCloseTo(1);
+    expect(sampleCurvePoints(spliced['12'], 2.5)).toBeCloseTo(1);
+  });
+
+  it('resamples at a fixed rate honoring interpolation', () => {
+    const resampled = resampleCurves({
+      12: [{ time: 0, intensity: 0, interpolation: 'step' }, { time: 1, intensity: 1 }],
+    }, 4);
+    expect(resampled['12'].map((p) => p.time)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(resampled['12'].map((p) => p.intensity)).toEqual([0, 0, 0, 0, 1]);
+  });
+});
+
+describe('snippet ops: intensity and mirror', () => {
+  it('scales intensity globally or per curve', () => {
+    const curves = { 12: ramp(0, 1), 4: ramp(0, 0.5) };
+    expect(scaleCurvesIntensity(curves, 0.5)['12'][1].intensity).toBe(0.5);
+    const perCurve = scaleCurvesIntensity(curves, { 4: 2 });
+    expect(perCurve['4'][1].intensity).toBe(1);
+    expect(perCurve['12'][1].intensity).toBe(1);
+  });
+
+  it('swaps side ids, yaw continuums and morph names but keeps pitch', () => {
+    const mirrored = mirrorCurves({
+      '12L': ramp(0, 1),
+      '61': ramp(0, 0.5),
+      '54': ramp(0, 0.3),
+      Mouth_Smile_L: ramp(0, 0.2),
+      eyeBlinkRight: ramp(0, 0.1),
+    }, CC4_PRESET);
+    expect(Object.keys(mirrored).sort()).toEqual(['12R', '54', '62', 'Mouth_Smile_R', 'eyeBlinkLeft'].sort());
+    expect(mirrored['62'][1].intensity).toBe(0.5);
+
+    expect(mirrorBalanceMap({ 12: 0.5 })).toEqual({ 12: -0.5 });
+  });
+});
+
+describe('reduceKeyframes', () => {
+  it('drops keys that linear interpolation reproduces', () => {
+    const ramp = Array.from({ length: 11 }, (_, i) => ({ time: i * 0.1, intensity: i * 0.1 }));
+    expect(reduceKeyframes(ramp)).toEqual([
+      { time: 0, intensity: 0 },
+      { time: 1, intensity: 1 },
+    ]);
+  });
+
+  it('keeps turning points beyond the tolerance', () => {
+    const points = [
+      { time: 0, intensity: 0 },
+      { time: 0.5, intensity: 0.25 },
+      { time: 1, intensity: 1 },
+      { time: 1.5, intensity: 0.5 },
+      { time: 2, intensity: 0 },
+    ];
+    const reduced = reduceKeyframes(points, 0.01);
+    expect(reduced.map((p) => p.time)).toEqual([0, 0.5, 1, 2]);
+    expect(reduceKeyframes(points, 0.3).map((p) => p.time)).toEqual([0, 1, 2]);
+  });
+});
+
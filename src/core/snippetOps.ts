@@ -0,0 +1,370 @@
+/**
+ * Pure Snippet / CurvesMap editing operations.
+ *
+ * Every function returns new curves and leaves its input untouched. Points keep
+ * their interpolation settings wherever they survive as-is; operations that cut
+ * or blend inside a segment (trim, concat, splice, resample) bake shaped
+ * segments into linear keys first so the cut lands on the rendered curve.
+ */
+
+import type { CurvePoint, CurvesMap, Snippet } from './types';
+import type { Profile } from '../mappings/types';
+import { DEFAULT_CURVE_SAMPLE_RATE, bakeCurvePoints, sampleCurvePoints } from './curveInterpolation';
+
+const EPSILON = 1e-6;
+
+/** Curve id prefix for viseme slots in mixed AU + viseme snippets. */
+export const VISEME_CURVE_PREFIX = 'viseme:';
+
+/** Curve id for a viseme slot index, e.g. `viseme:3`. */
+export function visemeCurveId(visemeIndex: number): string {
+  return `${VISEME_CURVE_PREFIX}${visemeIndex}`;
+}
+
+/** Viseme slot index for a `viseme:<index>` curve id, or null for any other id. */
+export function parseVisemeCurveId(curveId: string): number | null {
+  if (!curveId.startsWith(VISEME_CURVE_PREFIX)) return null;
+  const rest = curveId.slice(VISEME_CURVE_PREFIX.length);
+  return /^\d+$/.test(rest) ? Number(rest) : null;
+}
+
+/** Curve id for one side of an AU, e.g. `12L`. */
+export function sideCurveId(auId: number, side: 'L' | 'R'): string {
+  return `${auId}${side}`;
+}
+
+/** AU id and side for a `12L` / `12R` curve id, or null for any other id. */
+export function parseSideCurveId(curveId: string): { auId: number; side: 'L' | 'R' } | null {
+  const match = curveId.match(/^(\d+)([LR])$/i);
+  return match ? { auId: Number(match[1]), side: match[2].toUpperCase() as 'L' | 'R' } : null;
+}
+
+export interface ConcatOptions {
+  /** Seconds the end of the first take overlaps the start of the next (default: 0) */
+  crossfade?: number;
+  /** Seconds the first take holds its last values before the next starts; ignored when crossfading (default: 0) */
+  gap?: number;
+  /** Sample rate for the crossfade region in Hz (default: 60) */
+  sampleRate?: number;
+}
+
+export interface MirrorOptions {
+  /** Also swap left/right in morph curve names such as `Mouth_Smile_L` or `eyeBlinkLeft` (default: true) */
+  mirrorMorphNames?: boolean;
+}
+
+/** Last keyframe time across all curves. */
+export function getCurvesDuration(curves: CurvesMap): number {
+  let duration = 0;
+  for (const points of Object.values(curves)) {
+    const last = points?.[points.length - 1];
+    if (last && last.time > duration) duration = last.time;
+  }
+  return duration;
+}
+
+/** Apply a curves operation to a snippet, keeping its name and metadata. */
+export function mapSnippet<T extends Snippet>(snippet: T, op: (curves: CurvesMap) => CurvesMap): T {
+  return { ...snippet, curves: op(snippet.curves) };
+}
+
+/** Copy a point, transforming its time/intensity and its bezier handles alongside. */
+function mapPoint(point: CurvePoint, timeScale = 1, intensityScale = 1, timeOffset = 0): CurvePoint {
+  const result: CurvePoint = {
+    ...point,
+    time: point.time * timeScale + timeOffset,
+    intensity: point.intensity * intensityScale,
+  };
+  if (point.inTangent) {
+    result.inTangent = { time: point.inTangent.time * timeScale, intensity: point.inTangent.intensity * intensityScale };
+  }
+  if (point.outTangent) {
+    result.outTangent = { time: point.outTangent.time * timeScale, intensity: point.outTangent.intensity * intensityScale };
+  }
+  return result;
+}
+
+function mapCurves(curves: CurvesMap, fn: (points: CurvePoint[], curveId: string) => CurvePoint[]): CurvesMap {
+  const result: CurvesMap = {};
+  for (const [curveId, points] of Object.entries(curves)) {
+    if (!points) continue;
+    result[curveId] = fn(points, curveId);
+  }
+  return result;
+}
+
+// ============================================================================
+// TIME
+// ============================================================================
+
+/**
+ * Keep `[start, end]` of every curve. Boundary keys are sampled from the curve,
+ * and times are shifted so the range starts at 0 unless `rebase` is false.
+ */
+export function trimCurves(curves: CurvesMap, start: number, end: number, rebase = true): CurvesMap {
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.max(start, end);
+  const shift = rebase ? from : 0;
+
+  return mapCurves(curves, (source) => {
+    const points = bakeCurvePoints(source);
+    if (!points.length) return [];
+    const inside = points
+      .filter((point) => point.time > from + EPSILON && point.time < to - EPSILON)
+      .map((point) => ({ ...point, time: point.time - shift }));
+    return [
+      { time: from - shift, intensity: sampleCurvePoints(points, from) },
+      ...inside,
+      { time: to - shift, intensity: sampleCurvePoints(points, to) },
+    ];
+  });
+}
+
+/** Multiply every key time (and bezier handle time) by `factor`. */
+export function scaleCurvesTime(curves: CurvesMap, factor: number): CurvesMap {
+  const scale = factor > 0 ? factor : 1;
+  return mapCurves(curves, (points) => points.map((point) => mapPoint(point, scale)));
+}
+
+/** Time-scale the curves so the longest one ends at `duration` seconds. */
+export function stretchCurves(curves: CurvesMap, duration: number): CurvesMap {
+  const current = getCurvesDuration(curves);
+  if (current <= EPSILON || duration <= 0) return mapCurves(curves, (points) => points.map((point) => mapPoint(point)));
+  return scaleCurvesTime(curves, duration / current);
+}
+
+/** Shift every key by `offset` seconds. */
+export function offsetCurves(curves: CurvesMap, offset: number): CurvesMap {
+  return mapCurves(curves, (points) => points.map((point) => mapPoint(point, 1, 1, offset)));
+}
+
+/**
+ * Play `b` after `a`. With `crossfade`, the last `crossfade` seconds of `a`
+ * blend linearly into the first seconds of `b`; a curve missing from one side
+ * counts as 0 there, and each take holds its last value until it ends.
+ */
+export function concatCurves(a: CurvesMap, b: CurvesMap, options: ConcatOptions = {}): CurvesMap {
+  const durationA = getCurvesDuration(a);
+  const durationB = getCurvesDuration(b);
+  const crossfade = Math.max(0, Math.min(options.crossfade ?? 0, durationA, durationB));
+  const offset = crossfade > 0 ? durationA - crossfade : durationA + Math.max(0, options.gap ?? 0);
+  const sampleRate = options.sampleRate && options.sampleRate > 0 ? options.sampleRate : DEFAULT_CURVE_SAMPLE_RATE;
+
+  const result: CurvesMap = {};
+  const ids = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const curveId of ids) {
+    const pointsA = a[curveId]?.length ? bakeCurvePoints(a[curveId]) : null;
+    const pointsB = b[curveId]?.length ? bakeCurvePoints(b[curveId]) : null;
+    const valueA = (t: number) => (pointsA ? sampleCurvePoints(pointsA, t) : 0);
+    const valueB = (t: number) => (pointsB ? sampleCurvePoints(pointsB, t - offset) : 0);
+
+    const merged: CurvePoint[] = [];
+    // `a` alone: up to the start of the crossfade (a curve missing from `a` holds 0).
+    if (pointsA) {
+      merged.push(...pointsA.filter((point) => point.time < offset - EPSILON).map((point) => ({ ...point })));
+    }
+    merged.push({ time: 0, intensity: valueA(0) });
+
+    if (crossfade > 0) {
+      const steps = Math.max(1, Math.ceil(crossfade * sampleRate));
+      for (let s = 0; s <= steps; s++) {
+        const t = offset + (crossfade * s) / steps;
+        const w = s / steps;
+        merged.push({ time: t, intensity: valueA(t) * (1 - w) + valueB(t) * w });
+      }
+    } else {
+      // Hard cut: `a` holds to its end, `b` (or 0) starts at the offset.
+      merged.push({ time: Math.max(0, offset - (offset > 0 ? EPSILON * 100 : 0)), intensity: valueA(offset) });
+      merged.push({ time: offset, intensity: valueB(offset) });
+    }
+
+    if (pointsB) {
+      merged.push(...pointsB
+        .map((point) => ({ ...point, time: point.time + offset }))
+        .filter((point) => point.time > offset + crossfade + EPSILON));
+    }
+    merged.push({ time: offset + durationB, intensity: valueB(offset + durationB) });
+
+    result[curveId] = dedupeTimes(merged);
+  }
+  return result;
+}
+
+/**
+ * Insert `insert` into `base` at time `at`, pushing the rest of `base` later.
+ * `crossfade` blends both joins.
+ */
+export function spliceCurves(base: CurvesMap, insert: CurvesMap, at: number, options: ConcatOptions = {}): CurvesMap {
+  const duration = getCurvesDuration(base);
+  const cut = Math.max(0, Math.min(at, duration));
+  const head = trimCurves(base, 0, cut);
+  const tail = trimCurves(base, cut, duration);
+  const withInsert = cut > EPSILON ? concatCurves(head, insert, options) : insert;
+  return cut < duration - EPSILON ? concatCurves(withInsert, tail, options) : withInsert;
+}
+
+/** Play `next` after `first`; the result keeps the first snippet's name and metadata. */
+export function concatSnippets<T extends Snippet>(first: T, next: Snippet, options?: ConcatOptions): T {
+  return { ...first, curves: concatCurves(first.curves, next.curves, options) };
+}
+
+/** Sample every curve at a fixed rate from 0 to its last key, honoring interpolation modes. */
+export function resampleCurves(curves: CurvesMap, sampleRate = DEFAULT_CURVE_SAMPLE_RATE): CurvesMap {
+  const rate = sampleRate > 0 ? sampleRate : DEFAULT_CURVE_SAMPLE_RATE;
+  return mapCurves(curves, (points) => {
+    if (!points.length) return [];
+    const end = points[points.length - 1].time;
+    const steps = Math.max(1, Math.round(end * rate));
+    return Array.from({ length: steps + 1 }, (_, s) => {
+      const time = (end * s) / steps;
+      return { time, intensity: sampleCurvePoints(points, time) };
+    });
+  });
+}
+
+function dedupeTimes(points: CurvePoint[]): CurvePoint[] {
+  const sorted = [...points].sort((p, q) => p.time - q.time);
+  const result: CurvePoint[] = [];
+  for (const point of sorted) {
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.time - point.time) <= EPSILON) {
+      result[result.length - 1] = point;
+    } else {
+      result.push(point);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// INTENSITY
+// ============================================================================
+
+/**
+ * Multiply intensities (and bezier handle intensities). `scale` is one factor
+ * for every curve or a per-curve map; curves missing from the map are unchanged.
+ */
+export function scaleCurvesIntensity(curves: CurvesMap, scale: number | Record<string, number>): CurvesMap {
+  return mapCurves(curves, (points, curveId) => {
+    const factor = typeof scale === 'number' ? scale : (scale[curveId] ?? 1);
+    return points.map((point) => mapPoint(point, 1, factor));
+  });
+}
+
+// ============================================================================
+// MIRROR
+// ============================================================================
+
+const SIDE_SWAP: Record<string, string> = { L: 'R', R: 'L', l: 'r', r: 'l' };
+
+const MORPH_SIDE_PATTERNS: Array<[RegExp, (match: string) => string]> = [
+  [/[_.\- ][LRlr]$/, (m) => m.slice(0, -1) + SIDE_SWAP[m.slice(-1)]],
+  [/(Left|Right)/, (m) => (m === 'Left' ? 'Right' : 'Left')],
+  [/(left|right)/, (m) => (m === 'left' ? 'right' : 'left')],
+];
+
+function mirrorMorphName(name: string): string {
+  for (const [pattern, swap] of MORPH_SIDE_PATTERNS) {
+    if (pattern.test(name)) return name.replace(pattern, swap);
+  }
+  return name;
+}
+
+/**
+ * Map each curve id to its left/right mirror:
+ * - `12L` / `12R` side ids swap
+ * - yaw and roll continuum AUs from `profile.continuumPairs` swap with their pair (pitch is kept)
+ * - morph names with `_L`/`_R` or `Left`/`Right` swap when `mirrorMorphNames` is on
+ */
+export function getMirroredCurveId(
+  curveId: string,
+  profile?: Pick<Profile, 'continuumPairs'>,
+  options: MirrorOptions = {}
+): string {
+  const side = curveId.match(/^(\d+)([LR])$/i);
+  if (side) return `${side[1]}${SIDE_SWAP[side[2]]}`;
+  if (/^\d+$/.test(curveId)) {
+    const pair = profile?.continuumPairs?.[Number(curveId)];
+    return pair && (pair.axis === 'yaw' || pair.axis === 'roll') ? String(pair.pairId) : curveId;
+  }
+  return options.mirrorMorphNames === false ? curveId : mirrorMorphName(curveId);
+}
+
+/**
+ * Swap left and right. When two curves mirror onto each other they trade places;
+ * if only one exists it moves to the other id.
+ */
+export function mirrorCurves(
+  curves: CurvesMap,
+  profile?: Pick<Profile, 'continuumPairs'>,
+  options: MirrorOptions = {}
+): CurvesMap {
+  const result: CurvesMap = {};
+  for (const [curveId, points] of Object.entries(curves)) {
+    if (!points) continue;
+    result[getMirroredCurveId(curveId, profile, options)] = points.map((point) => mapPoint(point));
+  }
+  return result;
+}
+
+/** Mirror a per-curve balance map (ids swap, balances flip sign). */
+export function mirrorBalanceMap(
+  balanceMap: Record<string, number>,
+  profile?: Pick<Profile, 'continuumPairs'>,
+  options: MirrorOptions = {}
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [curveId, balance] of Object.entries(balanceMap)) {
+    result[getMirroredCurveId(curveId, profile, options)] = -balance;
+  }
+  return result;
+}
+
+// ============================================================================
+// KEYFRAME REDUCTION
+// ============================================================================
+
+export const DEFAULT_REDUCE_TOLERANCE = 0.005;
+
+/**
+ * Drop keyframes that linear interpolation between their neighbours already
+ * reproduces within `tolerance` (Ramer-Douglas-Peucker on intensity).
+ * The first and last keys are always kept; shaped curves are baked first.
+ */
+export function reduceKeyframes(points: CurvePoint[], tolerance = DEFAULT_REDUCE_TOLERANCE): CurvePoint[] {
+  const source = bakeCurvePoints(points);
+  if (source.length <= 2) return source.map((point) => ({ ...point }));
+
+  const keep = new Array<boolean>(source.length).fill(false);
+  keep[0] = true;
+  keep[source.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, source.length - 1]];
+
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    const a = source[start];
+    const b = source[end];
+    const span = Math.max(EPSILON, b.time - a.time);
+    let maxError = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const p = (source[i].time - a.time) / span;
+      const error = Math.abs(source[i].intensity - (a.intensity + (b.intensity - a.intensity) * p));
+      if (error > maxError) {
+        maxError = error;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex >= 0 && maxError > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return source.filter((_, i) => keep[i]).map((point) => ({ ...point }));
+}
+
+/** `reduceKeyframes` over every curve in a map. */
+export function reduceCurves(curves: CurvesMap, tolerance = DEFAULT_REDUCE_TOLERANCE): CurvesMap {
+  return mapCurves(curves, (points) => reduceKeyframes(points, tolerance));
+}
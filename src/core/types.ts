@@ -314,6 +314,26 @@ export type ClipEvent =
 
 export type ClipEventListener = (event: ClipEvent) => void;
 
+/**
+ * How a curve moves from one point to the next.
+ * - linear: straight line (default)
+ * - step: hold this point's intensity until the next point
+ * - bezier: cubic bezier shaped by `outTangent` and the next point's `inTangent`
+ * - catmullRom: smooth curve through the neighbouring points, no handles needed
+ */
+export type CurveInterpolation = 'linear' | 'step' | 'bezier' | 'catmullRom';
+
+/**
+ * Bezier handle offset from its curve point.
+ * In-handles normally have negative `time`, out-handles positive.
+ */
+export interface CurveTangent {
+  /** Seconds from the point (clamped to the segment) */
+  time: number;
+  /** Intensity offset from the point */
+  intensity: number;
+}
+
 /**
  * A single keyframe point in an animation curve.
  */
@@ -324,10 +344,18 @@ export interface CurvePoint {
   intensity: number;
   /** When true, inherit current AU value at playback start */
   inherit?: boolean;
+  /** Interpolation from this point to the next (default: 'linear') */
+  interpolation?: CurveInterpolation;
+  /** Bezier handle towards the previous point (default: flat, a third of the segment) */
+  inTangent?: CurveTangent;
+  /** Bezier handle towards the next point (default: flat, a third of the segment) */
+  outTangent?: CurveTangent;
 }
 
 /**
  * Map of curve IDs (AU numbers or morph names) to keyframe arrays.
+ * `viseme:<index>` IDs are viseme slots regardless of snippet category, and
+ * `12L` / `12R` IDs drive one side of an AU.
  */
 export type CurvesMap = Record<string, CurvePoint[]>;
 
@@ -373,6 +401,8 @@ export interface ClipOptions {
   jawScale?: number;
   /** Intensity scale multiplier (default: 1.0) */
   intensityScale?: number;
+  /** Samples per second used to bake step, bezier and Catmull-Rom segments into clip keys (default: 60) */
+  curveSampleRate?: number;
   /** Optional morph target mesh names to constrain track creation */
   meshNames?: string[];
   /** Snippet category - when 'visemeSnippet', numeric curve IDs (0-14) are viseme indices; otherwise they're AU IDs */
@@ -439,4 +469,147 @@ export interface Snippet {
   snippetPriority?: number;
   /** Whether to loop playback */
   loop?: boolean;
+  /** Per-curve left/right balance; playSnippet() uses it when ClipOptions.balanceMap is not given */
+  balanceMap?: Record<string, number>;
+}
+
+// ============================================================================
+// ANIMATION GRAPH TYPES (declarative state machine over clips and snippets)
+// ============================================================================
+
+export type AnimationGraphParameterType = 'float' | 'int' | 'bool' | 'trigger';
+
+export interface AnimationGraphParameter {
+  type: AnimationGraphParameterType;
+  /** Starting value (default: 0 / false) */
+  default?: number | boolean;
+}
+
+/**
+ * Test on a named parameter. Without `op` the parameter must be truthy
+ * (true, non-zero, or a set trigger).
+ */
+export interface AnimationGraphCondition {
+  parameter: string;
+  op?: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  value?: number | boolean;
+}
+
+/** A baked clip placed in a blend space. */
+export interface BlendSpaceSample {
+  clip: string;
+  /** Parameter value (1D) or [x, y] point (2D) where this clip has full weight */
+  position: number | [number, number];
+}
+
+export interface BlendSpace1DDefinition {
+  type: '1d';
+  /** Graph parameter that picks the position when used as a graph state */
+  parameter?: string;
+  samples: BlendSpaceSample[];
+  /** Play every clip at a shared normalized phase (default: true) */
+  syncTime?: boolean;
+}
+
+export interface BlendSpace2DDefinition {
+  type: '2d';
+  /** Graph parameters for x and y when used as a graph state */
+  parameters?: [string, string];
+  samples: BlendSpaceSample[];
+  /** Play every clip at a shared normalized phase (default: true) */
+  syncTime?: boolean;
+}
+
+export type BlendSpaceDefinition = BlendSpace1DDefinition | BlendSpace2DDefinition;
+
+/** Bones covered by an animation layer, as subtrees. */
+export interface BoneMask {
+  /** Subtree roots: bone keys from boneNodes (e.g. 'HEAD') or scene node names */
+  include: string[];
+  /** Subtree roots removed from the included bones */
+  exclude?: string[];
+}
+
+/** A user-defined animation layer; clips played on it only touch its masked bones. */
+export interface AnimationLayerDefinition {
+  name: string;
+  mask: BoneMask;
+  /** Layer weight, 0-1 (default: 1) */
+  weight?: number;
+  /** 'replace' overrides the pose below; 'additive' adds the clip's motion on top (default: 'replace') */
+  blendMode?: AnimationBlendMode;
+}
+
+/** A graph state plays one baked clip, one snippet, or one blend space. */
+export interface AnimationGraphState {
+  name: string;
+  /** Baked animation clip name */
+  clip?: string;
+  /** Snippet, inline or by key into AnimationGraphDefinition.snippets */
+  snippet?: string | Snippet;
+  /** Blend of baked clips driven by graph parameters */
+  blendSpace?: BlendSpaceDefinition;
+  /** Playback rate (default: 1) */
+  speed?: number;
+  /** Loop while in this state (default: true, or snippet.loop for snippets) */
+  loop?: boolean;
+  /** Weight once fully faded in (default: 1) */
+  weight?: number;
+}
+
+export interface AnimationGraphTransition {
+  /** Source state name, or '*' for any state */
+  from: string;
+  to: string;
+  /** All must hold (default: none) */
+  conditions?: AnimationGraphCondition[];
+  /** Crossfade duration in seconds (default: 0.25) */
+  duration?: number;
+  /**
+   * Normalized time (1 = one clip length) the source state must reach first.
+   * A looping state reaches it once per cycle (at exitTime, exitTime + 1, ...),
+   * so the conditions are checked on those ticks only.
+   * A transition with an exit time and no conditions fires on its own.
+   */
+  exitTime?: number;
+  /** Let an any-state transition restart its own target (default: false) */
+  canTransitionToSelf?: boolean;
+}
+
+/**
+ * JSON-serializable animation graph. Transitions are checked in order each
+ * update, any-state ('*') transitions first; the first match wins.
+ */
+export interface AnimationGraphDefinition {
+  /** Starting state (default: first state) */
+  initialState?: string;
+  parameters?: Record<string, AnimationGraphParameter>;
+  states: AnimationGraphState[];
+  transitions?: AnimationGraphTransition[];
+  /** Snippets that states reference by key */
+  snippets?: Record<string, Snippet>;
+}
+
+// ============================================================================
+// ROOT MOTION TYPES
+// ============================================================================
+
+/** How a baked clip's root bone motion is extracted. */
+export interface RootMotionOptions {
+  /** Root bone: a bone key from boneNodes (e.g. 'HIPS') or a scene node name (default: 'HIPS', then the first hips/pelvis node) */
+  bone?: string;
+  /** 'horizontal' leaves vertical bob on the bone, 'all' extracts the full translation (default: 'horizontal') */
+  translation?: 'horizontal' | 'all' | 'none';
+  /** Extract yaw about the character's up axis (default: true) */
+  rotation?: boolean;
+  /** Move and turn the model root by the extracted motion every update (default: true) */
+  apply?: boolean;
+}
+
+/** Root motion over some span of playback. */
+export interface RootMotionDelta {
+  /** Translation in the model's local space, relative to its facing at the start of the span */
+  translation: { x: number; y: number; z: number };
+  /** Turn in radians about the model's local Y axis */
+  yaw: number;
 }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, NumberKeyframeTrack, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { BakedAnimationController, type BakedAnimationHost } from './AnimationThree';
+
+function makeController() {
+  const model = new Object3D();
+  const profile: Profile = {
+    auToMorphs: {},
+    auToBones: {},
+    boneNodes: {},
+    morphToMesh: {},
+    visemeKeys: [],
+  };
+  const host: BakedAnimationHost = {
+    getModel: () => model,
+    getMeshes: () => [],
+    getMeshByName: () => undefined,
+    getBones: () => ({}) as any,
+    getConfig: () => profile,
+    getCompositeRotations: () => [],
+    computeSideValues: (base: number) => ({ left: base, right: base }),
+    getAUMixWeight: () => 1,
+    isMixedAU: () => false,
+  };
+  const controller = new BakedAnimationController(host);
+  // Both clips ramp x over their own length, so x reads back the synced phase.
+  controller.loadAnimationClips([
+    new AnimationClip('Idle', 1, [new NumberKeyframeTrack(`${model.uuid}.position[x]`, [0, 1], [0, 1])]),
+    new AnimationClip('Talk', 2, [new NumberKeyframeTrack(`${model.uuid}.position[x]`, [0, 2], [10, 11])]),
+  ]);
+  return { controller, model };
+}
+
+describe('BakedAnimationController blend spaces', () => {
+  it('weights partitioned baked actions and syncs their time', () => {
+    const { controller, model } = makeController();
+    const node = controller.createBlendSpace({
+      type: '1d',
+      samples: [{ clip: 'Idle', position: 0 }, { clip: 'Talk', position: 1 }],
+    })!;
+    node.setPosition(0.25);
+
+    controller.update(0.625);
+    // Cycle length 1.25 s, so phase 0.5: Idle at x=0.5, Talk at x=10.5.
+    expect(node.getPhase()).toBeCloseTo(0.5);
+    expect(controller.getAnimationState('Idle')?.time).toBeCloseTo(0.5);
+    expect(controller.getAnimationState('Talk')?.time).toBeCloseTo(1);
+    expect(model.position.x).toBeCloseTo(0.75 * 0.5 + 0.25 * 10.5);
+
+    node.stop();
+    controller.update(0.1);
+    expect(controller.getPlayingAnimations()).toEqual([]);
+  });
+
+  it('does not leave its blend weight on the clip after stopping', () => {
+    const { controller, model } = makeController();
+    const node = controller.createBlendSpace({
+      type: '1d',
+      samples: [{ clip: 'Idle', position: 0 }, { clip: 'Talk', position: 1 }],
+    })!;
+    node.setPosition(0);
+    controller.update(0.1);
+    node.stop();
+
+    controller.playAnimation('Talk');
+    controller.update(0.5);
+    expect(controller.getAnimationState('Talk')?.weight).toBe(1);
+    expect(model.position.x).toBeCloseTo(10.25);
+  });
+
+  it('drives a blend space graph state from graph parameters', () => {
+    const { controller, model } = makeController();
+    const machine = controller.setAnimationGraph({
+      parameters: { talk: { type: 'float' } },
+      states: [{
+        name: 'face',
+        blendSpace: {
+          type: '1d',
+          parameter: 'talk',
+          samples: [{ clip: 'Idle', position: 0 }, { clip: 'Talk', position: 1 }],
+        },
+      }],
+    })!;
+
+    machine.setParameter('talk', 1);
+    controller.update(0.5);
+    expect(model.position.x).toBeCloseTo(10.25);
+    expect(machine.getSnapshot().normalizedTime).toBeCloseTo(0.25);
+
+    expect(controller.setAnimationGraph({
+      parameters: {},
+      states: [{ name: 'bad', blendSpace: { type: '1d', parameter: 'missing', samples: [] } }],
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D, Quaternion } from 'three';
+import type { Profile } from '../../mappings/types';
+import type { ResolvedBones } from './types';
+import { BakedAnimationController, type BakedAnimationHost } from './AnimationThree';
+
+function makeController() {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.name = 'Face';
+  (mesh as any).morphTargetDictionary = { Smile: 0 };
+  (mesh as any).morphTargetInfluences = [0];
+
+  const head = new Object3D();
+  head.name = 'Head';
+  const bones: ResolvedBones = {
+    HEAD: {
+      obj: head,
+      basePos: { x: 0, y: 0, z: 0 },
+      baseQuat: new Quaternion(),
+      baseEuler: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    },
+  };
+
+  const profile: Profile = {
+    auToMorphs: { 12: { left: [], right: [], center: ['Smile'] } },
+    auToBones: { 51: [{ node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 30 }] },
+    boneNodes: { HEAD: 'Head' },
+    morphToMesh: { face: ['Face'] },
+    visemeKeys: [],
+    compositeRotations: [{ node: 'HEAD', pitch: null, yaw: { aus: [51], axis: 'ry' }, roll: null }],
+  };
+
+  const host: BakedAnimationHost = {
+    getModel: () => new Object3D(),
+    getMeshes: () => [mesh],
+    getMeshByName: (name) => (name === 'Face' ? mesh : undefined),
+    getBones: () => bones,
+    getConfig: () => profile,
+    getCompositeRotations: () => profile.compositeRotations || [],
+    computeSideValues: (base: number) => ({ left: base, right: base }),
+    getAUMixWeight: () => 1,
+    isMixedAU: () => false,
+  };
+  return { controller: new BakedAnimationController(host), mesh, head };
+}
+
+describe('BakedAnimationController curve interpolation', () => {
+  it('emits plain points unchanged', () => {
+    const { controller, mesh } = makeController();
+    const clip = controller.snippetToClip('plain', {
+      12: [
+        { time: 0, intensity: 0 },
+        { time: 0.5, intensity: 1 },
+        { time: 1, intensity: 0.25 },
+      ],
+    });
+    const track = clip!.tracks.find((t) => t.name === `${mesh.uuid}.morphTargetInfluences[0]`)!;
+    expect(Array.from(track.times)).toEqual([0, 0.5, 1]);
+    expect(Array.from(track.values)).toEqual([0, 1, 0.25]);
+  });
+
+  it('bakes step segments into morph tracks', () => {
+    const { controller, mesh } = makeController();
+    const clip = controller.snippetToClip('step', {
+      12: [
+        { time: 0, intensity: 0.5, interpolation: 'step' },
+        { time: 1, intensity: 1 },
+      ],
+    });
+    const track = clip!.tracks.find((t) => t.name === `${mesh.uuid}.morphTargetInfluences[0]`)!;
+    expect(track.createInterpolant().evaluate(0.9)[0]).toBeCloseTo(0.5);
+    expect(track.createInterpolant().evaluate(1)[0]).toBeCloseTo(1);
+  });
+
+  it('samples bezier segments for composite bone rotations', () => {
+    const { controller, head } = makeController();
+    const clip = controller.snippetToClip(
+      'bezier',
+      {
+        51: [
+          { time: 0, intensity: 0, interpolation: 'bezier' },
+          { time: 1, intensity: 1 },
+        ],
+      },
+      { curveSampleRate: 20 }
+    );
+    const track = clip!.tracks.find((t) => t.name === `${head.uuid}.quaternion`)!;
+    expect(track.times.length).toBe(21);
+
+    // Eased start: at 10% of the time the head has turned well under 10% of 30 degrees.
+    const q = track.createInterpolant().evaluate(0.1);
+    const yawDegrees = (2 * Math.asin(Math.abs(q[1])) * 180) / Math.PI;
+    expect(yawDegrees).toBeLessThan(3);
+  });
+});
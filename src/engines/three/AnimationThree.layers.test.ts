@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnimationClip, Object3D, Quaternion, QuaternionKeyframeTrack, Vector3, VectorKeyframeTrack } from 'three';
+import type { Profile } from '../../mappings/types';
+import { BakedAnimationController, type BakedAnimationHost } from './AnimationThree';
+
+function node(name: string, parent?: Object3D): Object3D {
+  const obj = new Object3D();
+  obj.name = name;
+  parent?.add(obj);
+  return obj;
+}
+
+function makeRig() {
+  const model = node('Armature');
+  const hips = node('Hips', model);
+  const leg = node('Leg_L', hips);
+  const spine = node('Spine', hips);
+  const arm = node('Arm_L', spine);
+  const hand = node('Hand_L', arm);
+
+  const profile: Profile = {
+    auToMorphs: {},
+    auToBones: {},
+    boneNodes: { ARM_L: 'Arm_L' },
+    morphToMesh: {},
+    visemeKeys: [],
+  };
+  const bones = {
+    ARM_L: {
+      obj: arm,
+      basePos: { x: 0, y: 0, z: 0 },
+      baseQuat: arm.quaternion.clone(),
+      baseEuler: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    },
+  };
+  const host: BakedAnimationHost = {
+    getModel: () => model,
+    getMeshes: () => [],
+    getMeshByName: () => undefined,
+    getBones: () => bones,
+    getConfig: () => profile,
+    getCompositeRotations: () => [],
+    computeSideValues: (base: number) => ({ left: base, right: base }),
+    getAUMixWeight: () => 1,
+    isMixedAU: () => false,
+  };
+
+  const positionTrack = (target: Object3D, to: Vector3, duration = 1) =>
+    new VectorKeyframeTrack(`${target.name}.position`, [0, duration], [0, 0, 0, to.x, to.y, to.z]);
+
+  const controller = new BakedAnimationController(host);
+  controller.loadAnimationClips([
+    new AnimationClip('Walk', 1, [
+      positionTrack(leg, new Vector3(2, 0, 0)),
+      positionTrack(arm, new Vector3(2, 0, 0)),
+    ]),
+    new AnimationClip('Wave', 1, [
+      positionTrack(leg, new Vector3(0, 0, 8)),
+      positionTrack(arm, new Vector3(0, 4, 0)),
+      positionTrack(hand, new Vector3(0, 0, 4)),
+      new QuaternionKeyframeTrack('Hand_L.quaternion', [0, 1], [0, 0, 0, 1, 0, 0, Math.SQRT1_2, Math.SQRT1_2]),
+    ]),
+  ]);
+  return { controller, leg, arm, hand };
+}
+
+describe('BakedAnimationController animation layers', () => {
+  it('overrides only the masked bones on top of a full-body clip', () => {
+    const { controller, leg, arm, hand } = makeRig();
+    expect(controller.defineAnimationLayer({ name: 'leftArm', mask: { include: ['ARM_L'] } })).toBe(true);
+    controller.playAnimation('Walk');
+    controller.playAnimationOnLayer('leftArm', 'Wave', { loop: false });
+
+    controller.update(0.5);
+    expect(leg.position.x).toBeCloseTo(1);
+    expect(leg.position.z).toBeCloseTo(0);
+    expect(arm.position.toArray()).toEqual([expect.closeTo(0), expect.closeTo(2), expect.closeTo(0)]);
+    expect(hand.position.z).toBeCloseTo(2);
+    expect(hand.quaternion.angleTo(new Quaternion())).toBeCloseTo(Math.PI / 4);
+
+    controller.setAnimationLayerWeight('leftArm', 0.5);
+    controller.update(0.25);
+    expect(arm.position.x).toBeCloseTo(0.75 * 2 * 0.5);
+    expect(arm.position.y).toBeCloseTo(3 * 0.5);
+    expect(controller.getAnimationLayers()).toEqual([{
+      name: 'leftArm',
+      weight: 0.5,
+      blendMode: 'replace',
+      boneNames: ['Arm_L', 'Hand_L'],
+      clips: ['Wave'],
+    }]);
+  });
+
+  it('adds motion on additive layers and undoes writes on bones the mixer leaves alone', () => {
+    const { controller, arm, hand } = makeRig();
+    controller.defineAnimationLayer({ name: 'hand', mask: { include: ['Hand_L'] }, blendMode: 'additive' });
+    hand.position.set(1, 0, 0);
+    const handle = controller.playAnimationOnLayer('hand', 'Wave')!;
+
+    controller.update(0.5);
+    expect(hand.position.toArray()).toEqual([expect.closeTo(1), expect.closeTo(0), expect.closeTo(2)]);
+    controller.update(0.25);
+    // Restored to (1, 0, 0) first, so the offset does not accumulate.
+    expect(hand.position.z).toBeCloseTo(3);
+    expect(arm.position.y).toBe(0);
+
+    handle.stop();
+    controller.update(0.1);
+    expect(hand.position.toArray()).toEqual([1, 0, 0]);
+  });
+
+  it('excludes subtrees and fades clips on stop', async () => {
+    const { controller, arm, hand } = makeRig();
+    controller.defineAnimationLayer({ name: 'armOnly', mask: { include: ['Arm_L'], exclude: ['Hand_L'] } });
+    const handle = controller.playAnimationOnLayer('armOnly', 'Wave')!;
+    controller.update(0.5);
+    expect(arm.position.y).toBeCloseTo(2);
+    expect(hand.position.z).toBe(0);
+
+    handle.stop(0.5);
+    controller.update(0.25);
+    expect(arm.position.y).toBeCloseTo(3 * 0.5);
+    controller.update(0.25);
+    await expect(handle.finished).resolves.toBeUndefined();
+    expect(arm.position.y).toBe(0);
+  });
+
+  it('warns about unknown layers and missing mask roots', () => {
+    const { controller } = makeRig();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(controller.playAnimationOnLayer('missing', 'Wave')).toBeNull();
+    controller.defineAnimationLayer({ name: 'legs', mask: { include: ['Leg_L', 'Tail'] } });
+    expect(controller.playAnimationOnLayer('legs', 'Walk')).not.toBeNull();
+    expect(warn).toHaveBeenCalledWith('[Loom3] playAnimationOnLayer: unknown layer "missing"');
+    expect(warn).toHaveBeenCalledWith('[Loom3] animation layer "legs": mask roots not found: Tail');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnimationClip, Object3D, VectorKeyframeTrack } from 'three';
+import type { Profile } from '../../mappings/types';
+import { BakedAnimationController, type BakedAnimationHost } from './AnimationThree';
+
+function makeController() {
+  const model = new Object3D();
+  const hips = new Object3D();
+  hips.name = 'Hips';
+  hips.position.set(0, 1, 0);
+  model.add(hips);
+
+  const profile: Profile = {
+    auToMorphs: {},
+    auToBones: {},
+    boneNodes: {},
+    morphToMesh: {},
+    visemeKeys: [],
+  };
+  const host: BakedAnimationHost = {
+    getModel: () => model,
+    getMeshes: () => [],
+    getMeshByName: () => undefined,
+    getBones: () => ({}),
+    getConfig: () => profile,
+    getCompositeRotations: () => [],
+    computeSideValues: (base: number) => ({ left: base, right: base }),
+    getAUMixWeight: () => 1,
+    isMixedAU: () => false,
+  };
+  const controller = new BakedAnimationController(host);
+  // Two metres forward per one-second cycle, with a small vertical bob.
+  controller.loadAnimationClips([
+    new AnimationClip('Walk', 1, [
+      new VectorKeyframeTrack('Hips.position', [0, 0.5, 1], [0, 1, 0, 0, 1.1, 1, 0, 1, 2]),
+    ]),
+  ]);
+  return { controller, model, hips };
+}
+
+describe('BakedAnimationController root motion', () => {
+  it('moves the model instead of the hips and keeps going across loops', () => {
+    const { controller, model, hips } = makeController();
+    expect(controller.setRootMotion('Walk')).toBe(true);
+    controller.playAnimation('Walk');
+
+    for (let i = 0; i < 5; i += 1) controller.update(0.5);
+    expect(model.position.z).toBeCloseTo(5);
+    expect(hips.position.z).toBeCloseTo(0);
+    expect(hips.position.y).toBeCloseTo(1.1);
+    expect(controller.getRootMotionDelta().translation.z).toBeCloseTo(1);
+    expect(controller.getAccumulatedRootMotion().translation.z).toBeCloseTo(5);
+  });
+
+  it('walks back on pingpong and reports motion without applying it', () => {
+    const { controller, model } = makeController();
+    controller.setRootMotion('Walk', { apply: false });
+    const deltas: number[] = [];
+    controller.onRootMotion((delta) => deltas.push(delta.translation.z));
+    controller.playAnimation('Walk', { loopMode: 'pingpong' });
+
+    controller.update(0.75);
+    controller.update(0.75);
+    expect(deltas.map((z) => Number(z.toFixed(3)))).toEqual([1.5, -0.5]);
+    expect(controller.getAccumulatedRootMotion().translation.z).toBeCloseTo(1);
+    expect(model.position.z).toBe(0);
+  });
+
+  it('does not jump on seek and restores the authored clip when turned off', () => {
+    const { controller, model, hips } = makeController();
+    controller.setRootMotion('Walk');
+    controller.playAnimation('Walk');
+    controller.update(0.25);
+    controller.seekAnimation('Walk', 0.75);
+    controller.update(0.1);
+    expect(model.position.z).toBeCloseTo(0.5 + 0.2);
+
+    expect(controller.setRootMotion('Walk', false)).toBe(true);
+    expect(controller.hasRootMotion('Walk')).toBe(false);
+    controller.playAnimation('Walk', { startTime: 0.5 });
+    controller.update(0);
+    expect(hips.position.z).toBeCloseTo(1);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(controller.setRootMotion('Walk', { bone: 'Tail' })).toBe(false);
+    expect(warn).toHaveBeenCalledWith('[Loom3] setRootMotion: root bone "Tail" not found');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, NumberKeyframeTrack, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { BakedAnimationController, type BakedAnimationHost } from './AnimationThree';
+
+function makeController() {
+  const model = new Object3D();
+  const profile: Profile = {
+    auToMorphs: {},
+    auToBones: {},
+    boneNodes: {},
+    morphToMesh: {},
+    visemeKeys: [],
+  };
+  const host: BakedAnimationHost = {
+    getModel: () => model,
+    getMeshes: () => [],
+    getMeshByName: () => undefined,
+    getBones: () => ({}) as any,
+    getConfig: () => profile,
+    getCompositeRotations: () => [],
+    computeSideValues: (base: number) => ({ left: base, right: base }),
+    getAUMixWeight: () => 1,
+    isMixedAU: () => false,
+  };
+  const controller = new BakedAnimationController(host);
+  controller.loadAnimationClips([
+    new AnimationClip('Idle', 1, [new NumberKeyframeTrack(`${model.uuid}.position[x]`, [0, 1], [0, 0])]),
+    new AnimationClip('Walk', 1, [new NumberKeyframeTrack(`${model.uuid}.position[x]`, [0, 1], [2, 2])]),
+  ]);
+  return { controller, model };
+}
+
+describe('BakedAnimationController animation graph', () => {
+  it('ticks the graph from update() and crossfades baked clips', () => {
+    const { controller, model } = makeController();
+    const machine = controller.setAnimationGraph({
+      parameters: { moving: { type: 'bool' } },
+      states: [
+        { name: 'idle', clip: 'Idle' },
+        { name: 'walk', clip: 'Walk' },
+      ],
+      transitions: [{ from: 'idle', to: 'walk', conditions: [{ parameter: 'moving' }], duration: 0.5 }],
+    })!;
+
+    controller.update(0.1);
+    expect(model.position.x).toBeCloseTo(0);
+
+    machine.setParameter('moving', true);
+    controller.update(0.1);
+    expect(machine.getCurrentState()).toBe('walk');
+    controller.update(0.25);
+    expect(controller.getAnimationState('Walk')?.weight).toBeCloseTo(0.5);
+    expect(model.position.x).toBeCloseTo(1);
+
+    controller.update(0.3);
+    expect(controller.getAnimationState('Idle')?.isPlaying).toBe(false);
+    expect(model.position.x).toBeCloseTo(2);
+
+    controller.clearAnimationGraph();
+    expect(controller.getPlayingAnimations()).toEqual([]);
+  });
+
+  it('rejects an invalid graph', () => {
+    const { controller } = makeController();
+    expect(controller.setAnimationGraph({ states: [] })).toBeNull();
+    expect(controller.getAnimationGraph()).toBeNull();
+  });
+});
@@ -41,8 +41,15 @@ import type {
   BakedClipChannel,
   BakedClipChannelInfo,
   AnimationEasing,
+  AnimationGraphDefinition,
+  AnimationLayerDefinition,
+  BlendSpaceDefinition,
+  RootMotionDelta,
+  RootMotionOptions,
 } from '../../core/types';
 import { getCompositeAxisBinding, getCompositeAxisValue } from '../../core/compositeAxis';
+import { bakeCurves } from '../../core/curveInterpolation';
+import { parseSideCurveId, parseVisemeCurveId, sideCurveId, visemeCurveId } from '../../core/snippetOps';
 import type { Profile } from '../../mappings/types';
 import {
   getMeshNamesForAUProfile,
@@ -52,13 +59,29 @@ import {
   getVisemeJawAmounts,
 } from '../../mappings/visemeSystem';
 import type { ResolvedBones } from './types';
-import { getSideScale, resolveCurveBalance } from './balanceUtils';
+import { getSideScale, resolveCurveBalance, withSideBaseCurves } from './balanceUtils';
 import {
   partitionBakedClip,
   resolveBakedAggregateBlendMode,
   resolveBakedChannelBlendMode,
   type PartitionedBakedClip,
 } from './bakedClipPartitioning';
+import { AnimationStateMachine, validateAnimationGraph } from './stateMachine/AnimationStateMachine';
+import {
+  AnimationLayerController,
+  type AnimationLayerInfo,
+  type LayerAnimationHandle,
+  type LayerPlayOptions,
+} from './layers/AnimationLayerController';
+import { BlendSpaceNode, validateBlendSpace, type BlendSpaceMotion, type BlendSpaceOptions } from './blendSpace/BlendSpace';
+import {
+  accumulateRootMotion,
+  emptyRootMotionDelta,
+  extractRootMotion,
+  resolveRootMotionBone,
+  type RootMotionLoopMode,
+  type RootMotionTrack,
+} from './rootMotion/RootMotion';
 
 type Transition = {
   key: string;
@@ -264,6 +287,24 @@ type BakedActionGroup = {
   resolveFinished: () => void;
 };
 
+type RootMotionClip = {
+  /** The clip as loaded, before root motion was stripped */
+  authoredClip: AnimationClip;
+  track: RootMotionTrack;
+  apply: boolean;
+  actionId: string | null;
+  /** Unwrapped playback time: keeps counting across loop wraps */
+  time: number;
+};
+
+type RootMotionStep = {
+  entry: RootMotionClip;
+  action: AnimationAction;
+  loopMode: RootMotionLoopMode;
+  previousTime: number;
+  advance: number;
+};
+
 const ADDITIVE_BAKED_RUNTIME_CLIP_SUFFIX = '__loom3_additive_delta';
 
 export class BakedAnimationController {
@@ -277,6 +318,7 @@ export class BakedAnimationController {
   private bakedSourceClips = new Map<string, PartitionedBakedClip>();
   private bakedRuntimeActions = new Map<string, AnimationAction>();
   private bakedAdditiveRuntimeClips = new Map<string, AnimationClip>();
+  private additiveLayerActions = new Map<string, AnimationAction>();
   private bakedActionGroups = new Map<string, BakedActionGroup>();
   private bakedRuntimeClipToSource = new Map<string, { sourceClipName: string; channel: BakedClipChannel }>();
   private animationActions = new Map<string, AnimationAction>();
@@ -288,9 +330,21 @@ export class BakedAnimationController {
   private actionIds = new WeakMap<AnimationAction, string>();
   private actionIdToClip = new Map<string, string>();
   private clipMonitors = new Map<string, ClipMonitor>();
+  private stateMachine: AnimationStateMachine | null = null;
+  private blendSpaces = new Set<BlendSpaceNode>();
+  private layers: AnimationLayerController;
+  private rootMotionClips = new Map<string, RootMotionClip>();
+  private rootMotionFrame: RootMotionDelta = emptyRootMotionDelta();
+  private rootMotionTotal: RootMotionDelta = emptyRootMotionDelta();
+  private rootMotionListeners = new Set<(delta: RootMotionDelta) => void>();
 
   constructor(host: BakedAnimationHost) {
     this.host = host;
+    this.layers = new AnimationLayerController({
+      getModel: () => this.host.getModel(),
+      getBones: () => this.host.getBones(),
+      getClip: (clipName) => this.getBakedSourceClip(clipName)?.sourceClip,
+    });
   }
 
   private getActionId(action?: AnimationAction | null): string | undefined {
@@ -1020,9 +1074,20 @@ export class BakedAnimationController {
   }
 
   update(dtSeconds: number): void {
+    this.layers.restore();
+    // Captured before blend spaces re-sync their clips' time.
+    const rootMotionSteps = this.prepareRootMotion(dtSeconds);
+    // Graph transitions and crossfade weights land before the mixers evaluate.
+    this.stateMachine?.update(dtSeconds);
+    for (const node of this.blendSpaces) {
+      if (node.isActive()) node.update(dtSeconds);
+      else this.blendSpaces.delete(node);
+    }
+
     if (this.animationMixer) {
       this.animationMixer.update(dtSeconds);
     }
+    this.advanceRootMotion(rootMotionSteps);
 
     if (this.clipAnimationMixer) {
       const snapshots = Array.from(this.clipMonitors.values()).map((monitor) => ({
@@ -1049,14 +1114,26 @@ export class BakedAnimationController {
       }
     }
 
+    // Masked layers blend over whatever the mixers produced.
+    this.layers.update(dtSeconds);
+
     if (this.hasActiveAdditivePlayback()) {
       this.host.reapplyProceduralState?.();
     }
   }
 
   dispose(): void {
+    this.clearAnimationGraph();
+    for (const node of this.blendSpaces) node.stop();
+    this.blendSpaces.clear();
+    this.layers.dispose();
+    this.rootMotionClips.clear();
+    this.rootMotionListeners.clear();
     this.stopAllAnimations();
     this.clearAllBakedAdditiveRuntimeClips();
+    for (const clipName of Array.from(this.additiveLayerActions.keys())) {
+      this.stopAdditiveLayer(clipName);
+    }
     if (this.animationMixer) {
       this.animationMixer.stopAllAction();
       this.animationMixer = null;
@@ -1117,6 +1194,7 @@ export class BakedAnimationController {
     this.bakedRuntimeActions.clear();
     this.bakedActionGroups.clear();
     this.bakedRuntimeClipToSource.clear();
+    this.rootMotionClips.clear();
 
     this.ensureMixer();
     const partitionedClips = (clips as AnimationClip[]).map((clip) => (
@@ -1183,6 +1261,7 @@ export class BakedAnimationController {
     this.bakedActionGroups.delete(clipName);
     this.playbackState.delete(clipName);
     this.clipSources.delete(clipName);
+    this.rootMotionClips.delete(clipName);
 
     return true;
   }
@@ -1685,9 +1764,339 @@ export class BakedAnimationController {
     });
   }
 
+  /**
+   * Replace the running animation graph and enter its initial state.
+   * Returns null (with a warning) when the definition does not validate.
+   */
+  setAnimationGraph(definition: AnimationGraphDefinition): AnimationStateMachine | null {
+    const { valid, errors } = validateAnimationGraph(definition);
+    if (!valid) {
+      console.warn(`[Loom3] setAnimationGraph: invalid graph (${errors.join('; ')})`);
+      return null;
+    }
+
+    this.clearAnimationGraph();
+    const machine = new AnimationStateMachine(definition, {
+      playClip: (clipName, { loop, speed }) => {
+        const handle = this.playAnimation(clipName, { loop, speed, source: 'baked' });
+        if (!handle) return null;
+        return {
+          setWeight: (weight) => handle.setWeight(weight),
+          stop: () => handle.stop(),
+          getDuration: () => handle.getState()?.duration ?? 0,
+        };
+      },
+      playSnippet: (snippet, { loop, speed }) => {
+        const handle = this.playSnippet(snippet, {
+          loop,
+          playbackRate: speed,
+          snippetCategory: snippet.snippetCategory === 'visemeSnippet' ? 'visemeSnippet' : undefined,
+        });
+        if (!handle) return null;
+        return {
+          setWeight: (weight) => handle.setWeight?.(weight),
+          stop: () => handle.stop(),
+          getDuration: () => handle.getDuration(),
+        };
+      },
+      playBlendSpace: (blendSpace, { loop, speed }) => {
+        const node = this.createBlendSpace(blendSpace, { loop, speed });
+        if (!node) return null;
+        return {
+          setWeight: (weight) => node.setWeight(weight),
+          stop: () => node.stop(),
+          getDuration: () => node.getDuration(),
+          setParameters: (parameters) => node.setParameters(parameters),
+        };
+      },
+    });
+    this.stateMachine = machine;
+    machine.start();
+    return machine;
+  }
+
+  getAnimationGraph(): AnimationStateMachine | null {
+    return this.stateMachine;
+  }
+
+  /**
+   * Start a blend space over baked clips. The returned node is advanced on
+   * every update() until stopped; move it with setPosition().
+   */
+  createBlendSpace(definition: BlendSpaceDefinition, options?: BlendSpaceOptions): BlendSpaceNode | null {
+    const errors = validateBlendSpace(definition);
+    if (errors.length) {
+      console.warn(`[Loom3] createBlendSpace: invalid blend space (${errors.join('; ')})`);
+      return null;
+    }
+    const node = new BlendSpaceNode(definition, {
+      playClip: (clipName) => this.playBlendSpaceClip(clipName),
+    }, options);
+    node.start();
+    this.blendSpaces.add(node);
+    return node;
+  }
+
+  /**
+   * Play a baked clip as a blend space sample: time and weight are set from outside, the mixer only evaluates.
+   * Blend weights live on the actions only; the clip's playback state is restored on stop so a later
+   * playAnimation() does not inherit the last blend weight.
+   */
+  private playBlendSpaceClip(clipName: string): BlendSpaceMotion | null {
+    const previousState = this.playbackState.get(clipName);
+    const restoreState = () => {
+      if (previousState) this.setPlaybackState(clipName, previousState);
+      else this.playbackState.delete(clipName);
+    };
+    const handle = this.playAnimation(clipName, { loop: true, weight: 0, source: 'baked' });
+    const group = this.bakedActionGroups.get(clipName);
+    if (!handle || !group) {
+      restoreState();
+      return null;
+    }
+    const duration = this.getBakedSourceClip(clipName)?.sourceClip.duration ?? 0;
+
+    return {
+      getDuration: () => duration,
+      sync: (time, weight) => {
+        for (const action of group.channelActions.values()) {
+          action.time = Math.max(0, Math.min(duration, time));
+          action.setEffectiveTimeScale(0);
+          action.setEffectiveWeight(weight);
+        }
+      },
+      stop: () => {
+        if (this.bakedActionGroups.get(clipName) !== group) return;
+        this.stopAnimation(clipName);
+        restoreState();
+      },
+    };
+  }
+
+  /** Add or replace a bone-masked animation layer. */
+  defineAnimationLayer(definition: AnimationLayerDefinition): boolean {
+    return this.layers.defineLayer(definition);
+  }
+
+  removeAnimationLayer(name: string): void {
+    this.layers.removeLayer(name);
+  }
+
+  setAnimationLayerWeight(name: string, weight: number): void {
+    this.layers.setLayerWeight(name, weight);
+  }
+
+  setAnimationLayerBlendMode(name: string, blendMode: AnimationBlendMode): void {
+    this.layers.setLayerBlendMode(name, blendMode);
+  }
+
+  getAnimationLayers(): AnimationLayerInfo[] {
+    return this.layers.getLayers();
+  }
+
+  /** Play a baked clip on a layer; only the layer's masked bones are animated. */
+  playAnimationOnLayer(layerName: string, clipName: string, options?: LayerPlayOptions): LayerAnimationHandle | null {
+    return this.layers.play(layerName, clipName, options);
+  }
+
+  stopAnimationLayer(name: string, fadeOut?: number): void {
+    this.layers.stopLayer(name, fadeOut);
+  }
+
+  /**
+   * Extract root motion from a baked clip: the root bone's horizontal travel
+   * and yaw are stripped from the played clip and reported per update instead,
+   * and (unless `apply` is false) moved onto the model root. Pass false to
+   * restore the authored clip. Stops the clip if it is playing.
+   */
+  setRootMotion(clipName: string, options: RootMotionOptions | false = {}): boolean {
+    const bakedClip = this.getBakedSourceClip(clipName);
+    const model = this.host.getModel();
+    if (!bakedClip || !model) {
+      console.warn(`[Loom3] setRootMotion: animation clip "${clipName}" not found`);
+      return false;
+    }
+
+    const current = this.rootMotionClips.get(clipName);
+    const authoredClip = current?.authoredClip ?? bakedClip.sourceClip;
+    if (options === false) {
+      if (current) {
+        this.rootMotionClips.delete(clipName);
+        this.replaceBakedSourceClip(clipName, authoredClip);
+      }
+      return true;
+    }
+
+    const bone = resolveRootMotionBone(model, this.host.getBones(), options.bone);
+    if (!bone) {
+      console.warn(`[Loom3] setRootMotion: root bone "${options.bone ?? 'HIPS'}" not found`);
+      return false;
+    }
+    const extracted = extractRootMotion(authoredClip, model, bone, options);
+    if (!extracted) {
+      console.warn(`[Loom3] setRootMotion: "${clipName}" has no root motion on "${bone.name}"`);
+      return false;
+    }
+
+    this.replaceBakedSourceClip(clipName, extracted.clip);
+    this.rootMotionClips.set(clipName, {
+      authoredClip,
+      track: extracted.track,
+      apply: options.apply ?? true,
+      actionId: null,
+      time: 0,
+    });
+    return true;
+  }
+
+  hasRootMotion(clipName: string): boolean {
+    return this.rootMotionClips.has(clipName);
+  }
+
+  /** Root motion of the last update, weighted across playing clips. */
+  getRootMotionDelta(): RootMotionDelta {
+    return {
+      translation: { ...this.rootMotionFrame.translation },
+      yaw: this.rootMotionFrame.yaw,
+    };
+  }
+
+  /** Root motion summed since the last reset, relative to the facing at that reset. */
+  getAccumulatedRootMotion(): RootMotionDelta {
+    return {
+      translation: { ...this.rootMotionTotal.translation },
+      yaw: this.rootMotionTotal.yaw,
+    };
+  }
+
+  resetAccumulatedRootMotion(): void {
+    this.rootMotionTotal = emptyRootMotionDelta();
+  }
+
+  /** Called after every update in which a root-motion clip played. */
+  onRootMotion(listener: (delta: RootMotionDelta) => void): () => void {
+    this.rootMotionListeners.add(listener);
+    return () => {
+      this.rootMotionListeners.delete(listener);
+    };
+  }
+
+  private replaceBakedSourceClip(clipName: string, clip: AnimationClip): void {
+    const previous = this.getBakedSourceClip(clipName);
+    const model = this.host.getModel();
+    if (!previous || !model) return;
+
+    this.stopAnimation(clipName);
+    for (const runtimeClip of previous.runtimeClips) {
+      this.releaseBakedRuntimeAction(runtimeClip.clip.name);
+      this.clearBakedAdditiveRuntimeClip(runtimeClip.clip.name);
+      this.uncacheClip(runtimeClip.clip);
+      this.bakedRuntimeClipToSource.delete(runtimeClip.clip.name);
+    }
+
+    const bakedClip = partitionBakedClip(clip, model, this.host.getBones());
+    this.bakedSourceClips.set(clipName, bakedClip);
+    this.animationClips = this.animationClips.map((entry) => (entry.name === clipName ? bakedClip.sourceClip : entry));
+    for (const runtimeClip of bakedClip.runtimeClips) {
+      this.bakedRuntimeClipToSource.set(runtimeClip.clip.name, {
+        sourceClipName: clipName,
+        channel: runtimeClip.channel,
+      });
+    }
+  }
+
+  private prepareRootMotion(dtSeconds: number): RootMotionStep[] {
+    const steps: RootMotionStep[] = [];
+    if (!this.animationMixer) return steps;
+
+    for (const [clipName, entry] of this.rootMotionClips) {
+      const group = this.bakedActionGroups.get(clipName);
+      const action = this.getRepresentativeBakedAction(clipName);
+      if (!group || !action) {
+        entry.actionId = null;
+        continue;
+      }
+      const loopMode = this.playbackState.get(clipName)?.loopMode ?? 'repeat';
+      // A new play or a seek restarts the unwrapped clock without moving the root.
+      if (entry.actionId !== group.actionId || Math.abs(entry.track.localTime(entry.time, loopMode) - action.time) > 1e-4) {
+        entry.actionId = group.actionId;
+        entry.time = action.time;
+      }
+      const advance = action.enabled && !action.paused && action.isRunning()
+        ? dtSeconds * this.animationMixer.timeScale * action.getEffectiveTimeScale()
+        : 0;
+      steps.push({ entry, action, loopMode, previousTime: action.time, advance });
+    }
+    return steps;
+  }
+
+  private advanceRootMotion(steps: RootMotionStep[]): void {
+    if (!steps.length) {
+      this.rootMotionFrame = emptyRootMotionDelta();
+      return;
+    }
+
+    const frame = emptyRootMotionDelta();
+    const applied = emptyRootMotionDelta();
+    for (const { entry, action, loopMode, previousTime, advance } of steps) {
+      let step = advance;
+      if (step === 0) {
+        // Time set from outside (blend spaces); a backwards jump of over half a clip is a wrap.
+        const duration = entry.track.duration;
+        step = action.time - previousTime;
+        if (loopMode === 'repeat' && Math.abs(step) > duration / 2) {
+          step -= Math.sign(step) * duration;
+        }
+      }
+      let time = entry.time + step;
+      if (loopMode === 'once') {
+        time = Math.max(0, Math.min(entry.track.duration, time));
+      }
+      const delta = entry.track.delta(entry.time, time, loopMode);
+      entry.time = time;
+
+      const weight = action.getEffectiveWeight();
+      for (const target of entry.apply ? [frame, applied] : [frame]) {
+        target.translation.x += delta.translation.x * weight;
+        target.translation.y += delta.translation.y * weight;
+        target.translation.z += delta.translation.z * weight;
+        target.yaw += delta.yaw * weight;
+      }
+    }
+
+    this.rootMotionFrame = frame;
+    accumulateRootMotion(this.rootMotionTotal, frame);
+    this.applyRootMotion(applied);
+    for (const listener of Array.from(this.rootMotionListeners)) {
+      try {
+        listener(this.getRootMotionDelta());
+      } catch (error) {
+        console.error('[Loom3] root motion listener failed', error);
+      }
+    }
+  }
+
+  private applyRootMotion(delta: RootMotionDelta): void {
+    const model = this.host.getModel();
+    if (!model) return;
+    const { x, y, z } = delta.translation;
+    if (x !== 0 || y !== 0 || z !== 0) {
+      model.position.add(new Vector3(x, y, z).multiply(model.scale).applyQuaternion(model.quaternion));
+    }
+    if (delta.yaw !== 0) {
+      model.rotateY(delta.yaw);
+    }
+  }
+
+  /** Stop the graph and every motion it started. */
+  clearAnimationGraph(): void {
+    this.stateMachine?.stop();
+    this.stateMachine = null;
+  }
+
   snippetToClip(
     clipName: string,
-    curves: CurvesMap,
+    sourceCurves: CurvesMap,
     options?: ClipOptions
   ): AnimationClip | null {
     const config = this.host.getConfig();
@@ -1695,11 +2104,18 @@ export class BakedAnimationController {
       console.warn(`[Loom3] snippetToClip: No model loaded for "${clipName}"`);
       return null;
     }
-    if (Object.keys(curves).length === 0) {
+    if (Object.keys(sourceCurves).length === 0) {
       console.warn(`[Loom3] snippetToClip: Empty curves for "${clipName}"`);
       return null;
     }
 
+    // Step/bezier/Catmull-Rom segments become dense linear keys; plain curves pass through unchanged.
+    // `12L` / `12R` side curves drive their side's morphs and bones; the plain AU curve keeps the rest.
+    const curves = withSideBaseCurves(bakeCurves(sourceCurves, options?.curveSampleRate));
+    const sideCurveAUs = new Set(
+      Object.keys(curves).map((id) => parseSideCurveId(id)?.auId).filter((auId) => auId !== undefined)
+    );
+
     const tracks: Array<NumberKeyframeTrack | QuaternionKeyframeTrack> = [];
     const intensityScale = options?.intensityScale ?? 1.0;
     const globalBalance = options?.balance ?? 0;
@@ -1714,6 +2130,13 @@ export class BakedAnimationController {
       const num = Number(id);
       return !Number.isNaN(num) && num >= 0 && num < visemeSlotCount;
     };
+    // `viseme:<index>` curves are visemes in any category, so one snippet can mix AUs and visemes.
+    const getVisemeCurve = (visemeIdx: number) =>
+      curves[visemeCurveId(visemeIdx)]
+      ?? (options?.snippetCategory === 'visemeSnippet' ? curves[String(visemeIdx)] : undefined);
+    const hasVisemeCurves =
+      options?.snippetCategory === 'visemeSnippet'
+      || Object.keys(curves).some((id) => parseVisemeCurveId(id) !== null);
 
     const sampleAt = (arr: Array<{ time: number; intensity: number }>, t: number) => {
       if (!arr.length) return 0;
@@ -1752,26 +2175,37 @@ export class BakedAnimationController {
       const curveMaxTime = keyframes[keyframes.length - 1].time;
       if (curveMaxTime > maxTime) maxTime = curveMaxTime;
 
-      if (isNumericAU(curveId)) {
+      const visemeCurveIndex = parseVisemeCurveId(curveId);
+      const sideCurve = parseSideCurveId(curveId);
+      if (visemeCurveIndex !== null) {
+        if (visemeCurveIndex < visemeSlotCount) {
+          this.addVisemeTracks(tracks, config, visemeCurveIndex, keyframes, intensityScale, meshNames);
+        }
+      } else if (sideCurve) {
+        const auMeshNames = this.getMeshNamesForAU(sideCurve.auId, config, meshNames);
+        const morphsBySide = config.auToMorphs[sideCurve.auId];
+        const mixWeight = this.host.isMixedAU(sideCurve.auId) ? this.host.getAUMixWeight(sideCurve.auId) : 1.0;
+        const sideKeys = (sideCurve.side === 'L' ? morphsBySide?.left : morphsBySide?.right) ?? [];
+        for (const morphKey of sideKeys) {
+          if (typeof morphKey === 'number') {
+            this.addMorphIndexTracks(tracks, morphKey, keyframes, intensityScale * mixWeight, auMeshNames);
+          } else {
+            this.addMorphTracks(tracks, morphKey, keyframes, intensityScale * mixWeight, auMeshNames);
+          }
+        }
+      } else if (isNumericAU(curveId)) {
         const auId = Number(curveId);
 
         if (isVisemeIndex(curveId)) {
-          const visemeMeshNames = this.getMeshNamesForViseme(config, meshNames);
-          for (const target of getVisemeBindingTargets(config, auId)) {
-            const effectiveScale = intensityScale * target.weight;
-            if (typeof target.morph === 'number') {
-              this.addMorphIndexTracks(tracks, target.morph, keyframes, effectiveScale, visemeMeshNames);
-            } else if (target.morph) {
-              this.addMorphTracks(tracks, target.morph, keyframes, effectiveScale, visemeMeshNames);
-            }
-          }
+          this.addVisemeTracks(tracks, config, auId, keyframes, intensityScale, meshNames);
         } else {
           const auMeshNames = this.getMeshNamesForAU(auId, config, meshNames);
           const morphsBySide = config.auToMorphs[auId];
           const mixWeight = this.host.isMixedAU(auId) ? this.host.getAUMixWeight(auId) : 1.0;
 
-          const leftKeys = morphsBySide?.left ?? [];
-          const rightKeys = morphsBySide?.right ?? [];
+          const hasSideCurves = sideCurveAUs.has(auId);
+          const leftKeys = hasSideCurves ? [] : morphsBySide?.left ?? [];
+          const rightKeys = hasSideCurves ? [] : morphsBySide?.right ?? [];
           const centerKeys = morphsBySide?.center ?? [];
 
           const curveBalance = resolveCurveBalance(curveId, globalBalance, balanceMap);
@@ -1818,7 +2252,7 @@ export class BakedAnimationController {
       autoVisemeJaw &&
       jawScale > 0 &&
       visemeJawAmounts &&
-      options?.snippetCategory === 'visemeSnippet' &&
+      hasVisemeCurves &&
       keyframeTimes.length > 0
     ) {
       const bones = this.host.getBones();
@@ -1833,7 +2267,7 @@ export class BakedAnimationController {
 
           // Sum contributions from all active visemes at time t
           for (let visemeIdx = 0; visemeIdx < visemeSlotCount; visemeIdx++) {
-            const visemeCurve = curves[String(visemeIdx)];
+            const visemeCurve = getVisemeCurve(visemeIdx);
             if (!visemeCurve) continue;
 
             const visemeValue = clampIntensity(sampleAt(visemeCurve, t) * intensityScale);
@@ -1891,10 +2325,13 @@ export class BakedAnimationController {
         nodeKey: BoneKey,
         t: number
       ) => {
+        const binding = config.auToBones[auId]?.find((b) => b.node === nodeKey) ?? null;
+        if (binding?.side && sideCurveAUs.has(auId)) {
+          return sampleCurve(sideCurveId(auId, binding.side === 'left' ? 'L' : 'R'), t);
+        }
+
         const rawValue = sampleCurve(String(auId), t);
         if (rawValue <= 1e-6) return 0;
-
-        const binding = config.auToBones[auId]?.find((b) => b.node === nodeKey) ?? null;
         if (!binding?.side) return rawValue;
 
         const curveBalance = resolveCurveBalance(String(auId), globalBalance, balanceMap);
@@ -1913,7 +2350,7 @@ export class BakedAnimationController {
         autoVisemeJaw &&
         jawScale > 0 &&
         visemeJawAmounts &&
-        options?.snippetCategory === 'visemeSnippet';
+        hasVisemeCurves;
 
       for (const composite of compositeRotations) {
         const nodeKey = composite.node as BoneKey;
@@ -2174,11 +2611,13 @@ export class BakedAnimationController {
     snippet: Snippet | { name: string; curves: CurvesMap },
     options?: ClipOptions
   ): ClipHandle | null {
-    const clip = this.snippetToClip(snippet.name, snippet.curves, options);
+    const balanceMap = options?.balanceMap ?? ('balanceMap' in snippet ? snippet.balanceMap : undefined);
+    const clipOptions = balanceMap ? { ...options, balanceMap } : options;
+    const clip = this.snippetToClip(snippet.name, snippet.curves, clipOptions);
     if (!clip) {
       return null;
     }
-    return this.playClip(clip, { ...options, source: options?.source ?? 'snippet' });
+    return this.playClip(clip, { ...clipOptions, source: options?.source ?? 'snippet' });
   }
 
   buildClip(
@@ -2340,6 +2779,25 @@ export class BakedAnimationController {
     }
   }
 
+  private addVisemeTracks(
+    tracks: Array<NumberKeyframeTrack | QuaternionKeyframeTrack>,
+    config: Profile,
+    visemeIndex: number,
+    keyframes: Array<{ time: number; intensity: number }>,
+    intensityScale: number,
+    meshNames?: string[]
+  ): void {
+    const visemeMeshNames = this.getMeshNamesForViseme(config, meshNames);
+    for (const target of getVisemeBindingTargets(config, visemeIndex)) {
+      const effectiveScale = intensityScale * target.weight;
+      if (typeof target.morph === 'number') {
+        this.addMorphIndexTracks(tracks, target.morph, keyframes, effectiveScale, visemeMeshNames);
+      } else if (target.morph) {
+        this.addMorphTracks(tracks, target.morph, keyframes, effectiveScale, visemeMeshNames);
+      }
+    }
+  }
+
   private addMorphIndexTracks(
     tracks: Array<NumberKeyframeTrack | QuaternionKeyframeTrack>,
     morphIndex: number,
@@ -2378,6 +2836,72 @@ export class BakedAnimationController {
     }
   }
 
+  /**
+   * Play a procedural clip on the baked mixer in additive mode so it layers on top of
+   * baked body clips. Track values must already be deltas (identity = no change).
+   * The returned action is owned by the caller for time/weight control.
+   */
+  playAdditiveLayer(clip: AnimationClip): AnimationAction | null {
+    const mixer = this.ensureMixer();
+    if (!mixer) return null;
+
+    this.stopAdditiveLayer(clip.name);
+    this.alignTrackNamesWithBakedClips(clip);
+    clip.blendMode = AdditiveAnimationBlendMode;
+    const action = mixer.clipAction(clip, undefined, AdditiveAnimationBlendMode);
+    action.setLoop(LoopRepeat, Infinity);
+    action.reset();
+    action.play();
+    this.additiveLayerActions.set(clip.name, action);
+    return action;
+  }
+
+  stopAdditiveLayer(clipName: string): void {
+    const action = this.additiveLayerActions.get(clipName);
+    if (!action) return;
+    try {
+      action.stop();
+    } catch {}
+    this.uncacheAction(action);
+    this.additiveLayerActions.delete(clipName);
+  }
+
+  /**
+   * Rename layer tracks to the names loaded baked clips use for the same bone property.
+   * The mixer keys bindings by track name, so a uuid-named layer track and a name-based
+   * baked track would get separate PropertyMixers and the layer would overwrite the clip.
+   */
+  private alignTrackNamesWithBakedClips(clip: AnimationClip): void {
+    const model = this.host.getModel();
+    if (!model || this.bakedSourceClips.size === 0) return;
+
+    const targetKey = (trackName: string): string | null => {
+      try {
+        const parsed = PropertyBinding.parseTrackName(trackName);
+        const target = this.resolveTrackTarget(model, parsed);
+        return target ? `${target.uuid}|${parsed.propertyName}|${parsed.propertyIndex ?? ''}` : null;
+      } catch {
+        return null;
+      }
+    };
+
+    const bakedNames = new Map<string, string>();
+    for (const bakedClip of this.bakedSourceClips.values()) {
+      for (const runtimeClip of bakedClip.runtimeClips) {
+        for (const track of runtimeClip.clip.tracks) {
+          const key = targetKey(track.name);
+          if (key && !bakedNames.has(key)) bakedNames.set(key, track.name);
+        }
+      }
+    }
+
+    for (const track of clip.tracks) {
+      const key = targetKey(track.name);
+      const bakedName = key ? bakedNames.get(key) : undefined;
+      if (bakedName) track.name = bakedName;
+    }
+  }
+
   private ensureMixer(): AnimationMixer | null {
     const model = this.host.getModel();
     if (!model) return null;
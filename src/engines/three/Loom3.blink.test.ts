@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { Loom3 } from './Loom3';
+
+function makeMorphMesh(name: string, dictionary: Record<string, number>): Mesh {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.name = name;
+  (mesh as any).morphTargetDictionary = dictionary;
+  const maxIndex = Object.values(dictionary).length > 0 ? Math.max(...Object.values(dictionary)) : -1;
+  (mesh as any).morphTargetInfluences = maxIndex >= 0 ? new Array(maxIndex + 1).fill(0) : [];
+  return mesh;
+}
+
+function makeProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    auToMorphs: {
+      45: { left: ['Eye_Blink_L'], right: ['Eye_Blink_R'], center: [] },
+      5: { left: ['Eye_Wide_L'], right: ['Eye_Wide_R'], center: [] },
+    },
+    auToBones: {},
+    boneNodes: {},
+    // Eyelid AUs route to the 'eye' mesh category
+    morphToMesh: { face: ['Face'], eye: ['Face'] },
+    visemeKeys: [],
+    compositeRotations: [],
+    blink: { minIntervalMs: 60000, meanIntervalMs: 60000, amplitudeJitter: 0 },
+    ...overrides,
+  };
+}
+
+function makeEngine(profile: Profile) {
+  const mesh = makeMorphMesh('Face', { Eye_Blink_L: 0, Eye_Blink_R: 1, Eye_Wide_L: 2, Eye_Wide_R: 3 });
+  const model = new Object3D();
+  model.add(mesh);
+  const engine = new Loom3({ profile });
+  engine.onReady({ model, meshes: [mesh] });
+  return { engine, infl: mesh.morphTargetInfluences! };
+}
+
+function run(engine: Loom3, seconds: number, onFrame?: () => void) {
+  for (let t = 0; t < seconds - 1e-9; t += 1 / 60) {
+    engine.update(1 / 60);
+    onFrame?.();
+  }
+}
+
+describe('Loom3 procedural blinks', () => {
+  it('is disabled unless the profile or caller enables it', () => {
+    const { engine } = makeEngine(makeProfile());
+    expect(engine.isBlinkEnabled()).toBe(false);
+
+    const enabled = makeEngine(makeProfile({ blink: { enabled: true } })).engine;
+    expect(enabled.isBlinkEnabled()).toBe(true);
+  });
+
+  it('layers blinks additively on top of user AUs without changing AU state', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+    engine.setBlinkEnabled(true);
+    engine.setAU(45, 0.2);
+
+    engine.blink({ closeMs: 50, holdMs: 100, openMs: 50 });
+    let peak = 0;
+    run(engine, 0.12, () => { peak = Math.max(peak, infl[0]); });
+    expect(peak).toBe(1);
+    expect(engine.getAU(45)).toBe(0.2);
+
+    run(engine, 0.3);
+    expect(infl[0]).toBeCloseTo(0.2);
+    expect(infl[1]).toBeCloseTo(0.2);
+  });
+
+  it('does not accumulate while a user AU stays fixed', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+    engine.setBlinkEnabled(true);
+    engine.setAU(5, 0.1);
+    engine.setBlinkConfig({ eyeNodes: [] });
+
+    engine.blink({ amplitude: 0.5, closeMs: 20, holdMs: 500, openMs: 20 });
+    run(engine, 0.2);
+    const held = infl[0];
+    run(engine, 0.2);
+    expect(infl[0]).toBeCloseTo(held);
+    expect(infl[2]).toBeCloseTo(0.1);
+  });
+
+  it('clears overlay writes on reset', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+    engine.setBlinkEnabled(true);
+    engine.blink({ closeMs: 10, holdMs: 1000, openMs: 10 });
+    run(engine, 0.1);
+    expect(infl[0]).toBeGreaterThan(0.9);
+
+    engine.resetToNeutral();
+    expect(infl[0]).toBe(0);
+    engine.update(1 / 60);
+    expect(infl[0]).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, Object3D, Quaternion, QuaternionKeyframeTrack, Vector3 } from 'three';
+import { Loom3 } from './Loom3';
+
+function makeEngine() {
+  const model = new Object3D();
+  const spine = new Object3D();
+  spine.name = 'CC_Base_Spine02';
+  model.add(spine);
+  const engine = new Loom3();
+  engine.onReady({ model, meshes: [] });
+  return { engine, spine };
+}
+
+function run(engine: Loom3, seconds: number, onFrame?: () => void) {
+  for (let t = 0; t < seconds - 1e-9; t += 1 / 60) {
+    engine.update(1 / 60);
+    onFrame?.();
+  }
+}
+
+describe('Loom3 breathing', () => {
+  it('moves CC4 spine bones while enabled and releases them when disabled', () => {
+    const { engine, spine } = makeEngine();
+    expect(engine.isBreathingEnabled()).toBe(false);
+
+    engine.setBreathingEnabled(true);
+    let maxAngle = 0;
+    run(engine, 5, () => {
+      maxAngle = Math.max(maxAngle, spine.quaternion.angleTo(new Quaternion()));
+    });
+    expect(maxAngle).toBeGreaterThan(0.01);
+
+    engine.setBreathingEnabled(false);
+    engine.update(1 / 60);
+    expect(spine.quaternion.angleTo(new Quaternion())).toBeLessThan(1e-6);
+  });
+
+  it('layers on top of a baked clip driving the same bone', () => {
+    const { engine, spine } = makeEngine();
+    const bakedPose = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), 0.6);
+    const values = [...bakedPose.toArray(), ...bakedPose.toArray()];
+    engine.loadAnimationClips([
+      new AnimationClip('lean', 1, [new QuaternionKeyframeTrack(`${spine.name}.quaternion`, [0, 1], values)]),
+    ]);
+    engine.playAnimation('lean', { loop: true });
+    engine.setBreathingConfig({ bones: [{ node: 'SPINE_02', rx: -4 }] });
+    engine.setBreathingEnabled(true);
+
+    let maxDelta = 0;
+    run(engine, 5, () => {
+      const delta = bakedPose.clone().invert().multiply(spine.quaternion);
+      expect(Math.abs(delta.y)).toBeLessThan(1e-3);
+      maxDelta = Math.max(maxDelta, spine.quaternion.angleTo(bakedPose));
+    });
+    expect(maxDelta * (180 / Math.PI)).toBeGreaterThan(3);
+  });
+
+  it('speeds up with affect arousal', () => {
+    const { engine } = makeEngine();
+    engine.setBreathingConfig({ responseMs: 0, rate: 12 });
+    engine.setBreathingEnabled(true);
+    engine.setAffect({ valence: 0, arousal: 1 });
+
+    let breaths = 0;
+    let inhaled = false;
+    run(engine, 20, () => {
+      const value = engine.getBreathValue();
+      if (!inhaled && value > 0.8) {
+        breaths += 1;
+        inhaled = true;
+      } else if (inhaled && value < 0.2) {
+        inhaled = false;
+      }
+    });
+    // 12 bpm * 1.6 over 20s
+    expect(breaths).toBeGreaterThanOrEqual(6);
+    expect(breaths).toBeLessThanOrEqual(7);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { Loom3 } from './Loom3';
+
+function makeMorphMesh(name: string, dictionary: Record<string, number>): Mesh {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.name = name;
+  (mesh as any).morphTargetDictionary = dictionary;
+  const maxIndex = Object.values(dictionary).length > 0 ? Math.max(...Object.values(dictionary)) : -1;
+  (mesh as any).morphTargetInfluences = maxIndex >= 0 ? new Array(maxIndex + 1).fill(0) : [];
+  return mesh;
+}
+
+function makeProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    auToMorphs: {
+      1: { left: [], right: [], center: ['Brow_Inner_Up'] },
+      6: { left: [], right: [], center: ['Cheek_Raise'] },
+      12: { left: ['Smile_L'], right: ['Smile_R'], center: [] },
+      15: { left: [], right: [], center: ['Mouth_Frown'] },
+    },
+    auToBones: {},
+    boneNodes: {},
+    morphToMesh: { face: ['Face'] },
+    visemeKeys: [],
+    compositeRotations: [],
+    ...overrides,
+  };
+}
+
+function makeEngine(profile: Profile) {
+  const mesh = makeMorphMesh('Face', {
+    Brow_Inner_Up: 0,
+    Cheek_Raise: 1,
+    Smile_L: 2,
+    Smile_R: 3,
+    Mouth_Frown: 4,
+  });
+  const model = new Object3D();
+  model.add(mesh);
+  const engine = new Loom3({ profile });
+  engine.onReady({ model, meshes: [mesh] });
+  return { engine, infl: mesh.morphTargetInfluences! };
+}
+
+describe('Loom3 expressions', () => {
+  it('applies a default expression scaled by intensity', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+
+    engine.setExpression('joy', 0.5);
+    expect(engine.getExpression('joy')).toBe(0.5);
+    expect(engine.getAU(12)).toBeCloseTo(0.5);
+    expect(engine.getAU(6)).toBeCloseTo(0.4);
+    expect(infl[2]).toBeCloseTo(0.5);
+    expect(infl[3]).toBeCloseTo(0.5);
+  });
+
+  it('blends co-active expressions and releases AUs when one is removed', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+
+    engine.setExpression('joy', 1);
+    engine.setExpression('sadness', 1);
+    expect(engine.getAU(12)).toBeCloseTo(1);
+    expect(engine.getAU(15)).toBeCloseTo(0.8);
+    expect(engine.getAU(1)).toBeCloseTo(0.8);
+
+    engine.setExpression('sadness', 0);
+    expect(engine.getAU(15)).toBe(0);
+    expect(infl[4]).toBe(0);
+    expect(engine.getAU(12)).toBeCloseTo(1);
+
+    engine.clearExpressions();
+    expect(engine.getAU(12)).toBe(0);
+    expect(engine.getActiveExpressions()).toEqual({});
+  });
+
+  it('leaves AUs the app set after the expression alone on release', () => {
+    const { engine, infl } = makeEngine(makeProfile());
+
+    engine.setExpression('joy', 1);
+    engine.setAU(12, 0.3, -1);
+    engine.setExpression('joy', 0);
+
+    expect(engine.getAU(12)).toBeCloseTo(0.3);
+    expect(infl[2]).toBeCloseTo(0.3);
+    expect(infl[3]).toBeCloseTo(0);
+    expect(engine.getAU(6)).toBe(0);
+  });
+
+  it('uses profile-defined expressions with side balance', () => {
+    const { engine, infl } = makeEngine(makeProfile({
+      expressions: { smirk: { aus: { 12: { value: 0.8, balance: -1 } } } },
+    }));
+
+    engine.setExpression('smirk', 1);
+    expect(infl[2]).toBeCloseTo(0.8);
+    expect(infl[3]).toBeCloseTo(0);
+  });
+
+  it('applies and restores expression mix weights', () => {
+    const { engine } = makeEngine(makeProfile({
+      auMixDefaults: { 12: 0.4 },
+      expressions: { grin: { aus: { 12: 1 }, mixWeights: { 12: 0.9 } } },
+    }));
+
+    engine.setExpression('grin', 1);
+    expect(engine.getAUMixWeight(12)).toBeCloseTo(0.9);
+
+    engine.setExpression('grin', 0);
+    expect(engine.getAUMixWeight(12)).toBeCloseTo(0.4);
+  });
+
+  it('transitions expression intensity over time', async () => {
+    const { engine } = makeEngine(makeProfile());
+
+    const handle = engine.transitionExpression('joy', 1, 100);
+    engine.update(0.05);
+    const midway = engine.getExpression('joy');
+    expect(midway).toBeGreaterThan(0);
+    expect(midway).toBeLessThan(1);
+
+    engine.update(0.1);
+    await handle.promise;
+    expect(engine.getExpression('joy')).toBe(1);
+    expect(engine.getAU(12)).toBeCloseTo(1);
+  });
+
+  it('ignores unknown expressions', () => {
+    const { engine } = makeEngine(makeProfile());
+    engine.setExpression('nope', 1);
+    expect(engine.getActiveExpressions()).toEqual({});
+  });
+});
+
+describe('Loom3 affect driver', () => {
+  const anchors = [
+    { valence: 0, arousal: 0 },
+    { expression: 'joy', valence: 1, arousal: 0 },
+    { expression: 'sadness', valence: -1, arousal: 0 },
+  ];
+
+  it('sets AU targets from an affect point', () => {
+    const { engine } = makeEngine(makeProfile({ affectAnchors: anchors }));
+
+    engine.setAffect({ valence: 1, arousal: 0 });
+    expect(engine.getAU(12)).toBeCloseTo(1);
+    expect(engine.getAffect()).toEqual({ valence: 1, arousal: 0 });
+
+    engine.setAffect({ valence: -1, arousal: 0 });
+    expect(engine.getAU(12)).toBe(0);
+    expect(engine.getAU(15)).toBeCloseTo(0.8);
+  });
+
+  it('transitions toward affect targets and releases them on clear', async () => {
+    const { engine, infl } = makeEngine(makeProfile({ affectAnchors: anchors }));
+
+    const handle = engine.transitionAffect({ valence: 1, arousal: 0 }, 100);
+    engine.update(0.05);
+    expect(infl[2]).toBeGreaterThan(0);
+    expect(infl[2]).toBeLessThan(1);
+    engine.update(0.1);
+    await handle.promise;
+    expect(infl[2]).toBeCloseTo(1);
+
+    engine.clearAffect(0);
+    expect(engine.getAU(12)).toBe(0);
+    expect(engine.getAffect()).toBeNull();
+  });
+
+  it('keeps AUs the app set after the affect driver on clear', () => {
+    const { engine, infl } = makeEngine(makeProfile({ affectAnchors: anchors }));
+
+    engine.setAffect({ valence: 1, arousal: 0 });
+    engine.setAU(12, 0.3);
+    engine.clearAffect(0);
+
+    expect(engine.getAU(12)).toBeCloseTo(0.3);
+    expect(infl[2]).toBeCloseTo(0.3);
+    expect(engine.getAU(6)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { Loom3 } from './Loom3';
+
+function makeEngine(overrides: Partial<Profile> = {}) {
+  const model = new Object3D();
+  const eye = new Object3D();
+  eye.name = 'LeftEye';
+  model.add(eye);
+
+  const profile: Profile = {
+    auToMorphs: {},
+    auToBones: {
+      61: [{ node: 'EYE_L', channel: 'rz', scale: 1, maxDegrees: 25 }],
+      62: [{ node: 'EYE_L', channel: 'rz', scale: -1, maxDegrees: 25 }],
+    },
+    boneNodes: { EYE_L: 'LeftEye' },
+    morphToMesh: { face: [], eye: [] },
+    visemeKeys: [],
+    compositeRotations: [
+      { node: 'EYE_L', pitch: null, yaw: { aus: [61, 62], axis: 'rz', negative: 61, positive: 62 }, roll: null },
+    ],
+    ...overrides,
+  };
+  const engine = new Loom3({ profile });
+  engine.onReady({ model, meshes: [] });
+  return engine;
+}
+
+function run(engine: Loom3, seconds: number, onFrame?: () => void) {
+  for (let t = 0; t < seconds - 1e-9; t += 1 / 60) {
+    engine.update(1 / 60);
+    onFrame?.();
+  }
+}
+
+const continuum = (engine: Loom3, negAU: number, posAU: number) => engine.getAU(posAU) - engine.getAU(negAU);
+/** Rendered eye yaw as a 61/62 continuum value. */
+const renderedYaw = (engine: Loom3) => -engine.getBones().EYE_L.rotation[2] / 25;
+
+describe('Loom3 gaze micro-motion', () => {
+  it('reads its defaults from the profile', () => {
+    const engine = makeEngine({ gazeMotion: { enabled: true, glanceHoldMs: 400 } });
+    expect(engine.isGazeMotionEnabled()).toBe(true);
+    expect(engine.getGazeMotionConfig().glanceHoldMs).toBe(400);
+    expect(makeEngine().isGazeMotionEnabled()).toBe(false);
+  });
+
+  it('layers small offsets on the rendered pose, not on the app\'s AU values', () => {
+    const engine = makeEngine({ gazeMotion: { enabled: true, glanceMeanIntervalMs: 0 } });
+    engine.setContinuum(61, 62, 0.4);
+
+    let moved = false;
+    run(engine, 2, () => {
+      expect(continuum(engine, 61, 62)).toBe(0.4);
+      const rendered = renderedYaw(engine);
+      expect(Math.abs(rendered - 0.4)).toBeLessThan(0.1);
+      if (Math.abs(rendered - 0.4) > 1e-4) moved = true;
+    });
+    expect(moved).toBe(true);
+
+    engine.setGazeMotionEnabled(false);
+    expect(continuum(engine, 61, 62)).toBe(0.4);
+    engine.update(1 / 60);
+    expect(renderedYaw(engine)).toBeCloseTo(0.4, 6);
+  });
+
+  it('leaves each AU\'s balance as the app set it', () => {
+    const engine = makeEngine({
+      auToBones: {
+        61: [{ node: 'EYE_L', channel: 'rz', scale: 1, maxDegrees: 25, side: 'left' }],
+        62: [{ node: 'EYE_L', channel: 'rz', scale: -1, maxDegrees: 25, side: 'left' }],
+      },
+      gazeMotion: { enabled: true, glanceMeanIntervalMs: 0 },
+    });
+    // A right-only balance on AU 62 mutes it on the left eye; AU 61 has none.
+    engine.setAU(62, 0.4, 1);
+    run(engine, 1);
+
+    engine.setGazeMotionEnabled(false);
+    engine.setContinuum(61, 62, -0.4);
+    engine.update(1 / 60);
+    expect(renderedYaw(engine)).toBeCloseTo(-0.4, 6);
+  });
+
+  it('lets app gaze writes between frames replace the base', () => {
+    const engine = makeEngine({ gazeMotion: { enabled: true, glanceMeanIntervalMs: 0 } });
+    run(engine, 0.5);
+
+    engine.setContinuum(61, 62, -0.3);
+    run(engine, 0.5);
+    expect(continuum(engine, 61, 62)).toBe(-0.3);
+    expect(Math.abs(renderedYaw(engine) + 0.3)).toBeLessThan(0.1);
+
+    engine.setGazeMotionEnabled(false);
+    engine.update(1 / 60);
+    expect(renderedYaw(engine)).toBeCloseTo(-0.3, 6);
+  });
+
+  it('starts transitions from the app\'s value rather than the jittered pose', () => {
+    const engine = makeEngine({ gazeMotion: { enabled: true, glanceMeanIntervalMs: 0 } });
+    engine.setContinuum(61, 62, 0.5);
+    run(engine, 0.5);
+
+    const seen: number[] = [];
+    engine.transitionContinuum(61, 62, 0, 1000);
+    run(engine, 0.5, () => seen.push(continuum(engine, 61, 62)));
+    // A start point with jitter baked in could begin above the app's 0.5.
+    expect(Math.max(...seen)).toBeLessThanOrEqual(0.5);
+    engine.setGazeMotionEnabled(false);
+    engine.update(1 / 60);
+    expect(renderedYaw(engine)).toBeCloseTo(continuum(engine, 61, 62), 6);
+  });
+
+  it('holds glance-aways off while the app sets eye gaze through continuums', () => {
+    const glances = { glanceMinIntervalMs: 200, glanceMeanIntervalMs: 200, glanceMinAmplitude: 10, glanceMaxAmplitude: 10 };
+    const maxDeviation = (engine: Loom3, seconds: number) => {
+      let max = 0;
+      run(engine, seconds, () => {
+        max = Math.max(max, Math.abs(renderedYaw(engine) - continuum(engine, 61, 62)));
+      });
+      return max;
+    };
+
+    const idle = makeEngine({ gazeMotion: { enabled: true, ...glances } });
+    expect(maxDeviation(idle, 3)).toBeGreaterThan(0.15);
+
+    const directed = makeEngine({ gazeMotion: { enabled: true, ...glances } });
+    directed.setContinuum(61, 62, 0.4);
+    // Only fixation jitter (at most 1.2 degrees of 25) remains.
+    expect(maxDeviation(directed, 3)).toBeLessThan(0.06);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Object3D, Vector3 } from 'three';
+import { Loom3 } from './Loom3';
+
+function makeHeadRig() {
+  const model = new Object3D();
+  const neck = new Object3D();
+  neck.name = 'CC_Base_NeckTwist01';
+  neck.position.set(0, 1.5, 0);
+  const head = new Object3D();
+  head.name = 'CC_Base_Head';
+  head.position.set(0, 0.1, 0);
+  model.add(neck);
+  neck.add(head);
+  return { model, head };
+}
+
+function step(engine: Loom3, seconds: number, dt = 1 / 60) {
+  for (let t = 0; t < seconds - 1e-9; t += dt) engine.update(dt);
+}
+
+describe('Loom3 lookAt', () => {
+  it.each([
+    { side: 1, label: '+X' },
+    { side: -1, label: '-X' },
+  ])('turns a CC4 head toward a target at $label', ({ side }) => {
+    const { model, head } = makeHeadRig();
+    const engine = new Loom3({ presetType: 'cc4' });
+    engine.onReady({ model, meshes: [] });
+
+    engine.lookAt(new Vector3(side, 1.6, 1));
+    step(engine, 3);
+
+    const facing = head.getWorldDirection(new Vector3());
+    expect(facing.x * side).toBeGreaterThan(0.2);
+    expect(engine.getAU(side > 0 ? 51 : 52)).toBeGreaterThan(0.2);
+  });
+
+  it('pitches a CC4 head up toward a target above it', () => {
+    const { model, head } = makeHeadRig();
+    const engine = new Loom3({ presetType: 'cc4' });
+    engine.onReady({ model, meshes: [] });
+
+    engine.lookAt(new Vector3(0, 2.6, 1));
+    step(engine, 3);
+
+    expect(head.getWorldDirection(new Vector3()).y).toBeGreaterThan(0.1);
+    expect(engine.getAU(53)).toBeGreaterThan(0.1);
+  });
+});
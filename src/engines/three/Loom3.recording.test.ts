@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { Loom3 } from './Loom3';
+
+function makeMorphMesh(name: string, dictionary: Record<string, number>): Mesh {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.name = name;
+  (mesh as any).morphTargetDictionary = dictionary;
+  const maxIndex = Object.values(dictionary).length > 0 ? Math.max(...Object.values(dictionary)) : -1;
+  (mesh as any).morphTargetInfluences = maxIndex >= 0 ? new Array(maxIndex + 1).fill(0) : [];
+  return mesh;
+}
+
+function makeProfile(): Profile {
+  return {
+    auToMorphs: {
+      12: { left: ['Smile_L'], right: ['Smile_R'], center: [] },
+    },
+    auToBones: {
+      26: [{ node: 'JAW', channel: 'rz', scale: 1, maxDegrees: 30 }],
+    },
+    boneNodes: { JAW: 'Jaw' },
+    morphToMesh: { face: ['Face'], viseme: ['Face'] },
+    visemeKeys: ['Viseme_AA'],
+    visemeSlots: [{ id: 'aa', label: 'AA', order: 0, defaultJawAmount: 0.8 }],
+    visemeMeshCategory: 'viseme',
+    visemeJawAmounts: [0.8],
+    compositeRotations: [
+      { node: 'JAW', pitch: { aus: [26], axis: 'rz' }, yaw: null, roll: null },
+    ],
+  };
+}
+
+function makeEngine() {
+  const mesh = makeMorphMesh('Face', { Smile_L: 0, Smile_R: 1, Viseme_AA: 2 });
+  const model = new Object3D();
+  const jaw = new Object3D();
+  jaw.name = 'Jaw';
+  model.add(jaw, mesh);
+  const engine = new Loom3({ profile: makeProfile() });
+  engine.onReady({ model, meshes: [mesh] });
+  return { engine, mesh };
+}
+
+describe('Loom3 performance recording', () => {
+  it('records AU and viseme control into one snippet', () => {
+    const { engine } = makeEngine();
+    engine.startRecording({ name: 'take' });
+    expect(engine.isRecording()).toBe(true);
+
+    for (let frame = 1; frame <= 10; frame++) {
+      engine.setAU(12, frame / 10, 0.5);
+      engine.setViseme(0, frame >= 5 ? 1 : 0);
+      engine.update(0.1);
+    }
+    const snippet = engine.stopRecording();
+
+    expect(engine.isRecording()).toBe(false);
+    expect(snippet.name).toBe('take');
+    expect(Object.keys(snippet.curves).sort()).toEqual(['12L', '12R', 'viseme:0']);
+    // A linear ramp reduces to its end points (plus the 0 held at the start).
+    expect(snippet.curves['12R'].length).toBeLessThanOrEqual(3);
+    expect(snippet.curves['12R'][snippet.curves['12R'].length - 1]).toEqual({ time: expect.closeTo(1, 6), intensity: 1 });
+    expect(snippet.curves['12L'][snippet.curves['12L'].length - 1].intensity).toBeCloseTo(0.5);
+  });
+
+  it('rebuilds the recorded morphs and viseme jaw through snippetToClip', () => {
+    const { engine } = makeEngine();
+    engine.startRecording();
+    engine.setAU(12, 1, 0.5);
+    engine.setViseme(0, 1);
+    engine.update(0.5);
+    const snippet = engine.stopRecording();
+
+    const clip = engine.snippetToClip(snippet.name, snippet.curves);
+    expect(clip).not.toBeNull();
+    const valueAtEnd = (suffix: string) => {
+      const track = clip!.tracks.find((t) => t.name.endsWith(suffix))!;
+      return track.values[track.values.length - 1];
+    };
+    expect(valueAtEnd('morphTargetInfluences[0]')).toBeCloseTo(0.5);
+    expect(valueAtEnd('morphTargetInfluences[1]')).toBeCloseTo(1);
+    expect(valueAtEnd('morphTargetInfluences[2]')).toBeCloseTo(1);
+    expect(clip!.tracks.some((t) => t.name.endsWith('.quaternion'))).toBe(true);
+  });
+
+  it('plays back a balance that moves mid-take', () => {
+    const { engine } = makeEngine();
+    engine.startRecording();
+    engine.setAU(12, 1, -1);
+    engine.update(0.5);
+    engine.setAU(12, 1, 1);
+    engine.update(0.5);
+    const snippet = engine.stopRecording();
+
+    const clip = engine.snippetToClip(snippet.name, snippet.curves)!;
+    const valueAt = (suffix: string, time: number) => {
+      const track = clip.tracks.find((t) => t.name.endsWith(suffix))!;
+      return track.values[track.times.findIndex((t) => Math.abs(t - time) < 1e-6)];
+    };
+    expect(valueAt('morphTargetInfluences[0]', 0.5)).toBeCloseTo(1);
+    expect(valueAt('morphTargetInfluences[1]', 0.5)).toBeCloseTo(0);
+    expect(valueAt('morphTargetInfluences[0]', 1)).toBeCloseTo(0);
+    expect(valueAt('morphTargetInfluences[1]', 1)).toBeCloseTo(1);
+  });
+
+  it('does not record procedural blink', () => {
+    const { engine } = makeEngine();
+    engine.startRecording();
+    engine.blink();
+    for (let i = 0; i < 5; i++) engine.update(0.05);
+    expect(engine.stopRecording().curves).toEqual({});
+  });
+
+  it('warns when stopped without recording', () => {
+    const { engine } = makeEngine();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(engine.stopRecording().curves).toEqual({});
+    expect(warn).toHaveBeenCalledWith('[Loom3] stopRecording: not recording');
+    warn.mockRestore();
+  });
+});
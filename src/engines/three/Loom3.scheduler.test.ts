@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D } from 'three';
+import type { Profile } from '../../mappings/types';
+import { Loom3 } from './Loom3';
+
+function makeMorphMesh(name: string, dictionary: Record<string, number>): Mesh {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial());
+  mesh.name = name;
+  (mesh as any).morphTargetDictionary = dictionary;
+  const maxIndex = Object.values(dictionary).length > 0 ? Math.max(...Object.values(dictionary)) : -1;
+  (mesh as any).morphTargetInfluences = maxIndex >= 0 ? new Array(maxIndex + 1).fill(0) : [];
+  return mesh;
+}
+
+function makeProfile(): Profile {
+  return {
+    auToMorphs: {
+      12: { left: ['Smile_L'], right: ['Smile_R'], center: [] },
+      45: { left: [], right: [], center: ['Blink'] },
+    },
+    auToBones: {},
+    boneNodes: {},
+    morphToMesh: { face: ['Face'] },
+    visemeKeys: [],
+    compositeRotations: [],
+  };
+}
+
+function makeEngine() {
+  const mesh = makeMorphMesh('Face', { Smile_L: 0, Smile_R: 1, Blink: 2 });
+  const model = new Object3D();
+  model.add(mesh);
+  const engine = new Loom3({ profile: makeProfile() });
+  engine.onReady({ model, meshes: [mesh] });
+  return { engine, mesh };
+}
+
+describe('Loom3 snippet scheduling', () => {
+  it('resolves overlapping snippets per AU on update()', () => {
+    const { engine, mesh } = makeEngine();
+    engine.scheduleSnippet({
+      name: 'idle',
+      snippetPriority: 1,
+      loop: true,
+      curves: {
+        12: [{ time: 0, intensity: 0.3 }, { time: 1, intensity: 0.3 }],
+        45: [{ time: 0, intensity: 0.1 }, { time: 1, intensity: 0.1 }],
+      },
+    });
+    const blink = engine.scheduleSnippet({
+      name: 'blink',
+      snippetPriority: 5,
+      curves: { 45: [{ time: 0, intensity: 1 }, { time: 0.2, intensity: 1 }] },
+    });
+
+    engine.update(0.1);
+    expect(engine.getAU(12)).toBeCloseTo(0.3);
+    expect(engine.getAU(45)).toBeCloseTo(1);
+    expect(mesh.morphTargetInfluences![0]).toBeCloseTo(0.3);
+    expect(engine.getScheduledAUContribution(45)!.contributions[0].name).toBe('blink');
+
+    engine.update(0.2);
+    expect(blink.getState()).toBe('finished');
+    expect(engine.getAU(45)).toBeCloseTo(0.1);
+    expect(engine.getScheduledSnippets().map((h) => h.name)).toEqual(['idle']);
+
+    engine.clearScheduledSnippets();
+    expect(engine.getAU(12)).toBe(0);
+    expect(engine.getScheduledContributions()).toEqual({});
+  });
+
+  it('writes both sides of a 12L / 12R pair', () => {
+    const { engine, mesh } = makeEngine();
+    const take = engine.scheduleSnippet({
+      name: 'lopsided smile',
+      curves: {
+        '12L': [{ time: 0, intensity: 0.8 }, { time: 0.2, intensity: 0.8 }, { time: 0.25, intensity: 0 }],
+        '12R': [{ time: 0, intensity: 0.4 }, { time: 1, intensity: 0.4 }],
+      },
+    });
+
+    engine.update(0.1);
+    expect(mesh.morphTargetInfluences![0]).toBeCloseTo(0.8);
+    expect(mesh.morphTargetInfluences![1]).toBeCloseTo(0.4);
+
+    // The left side relaxes; the right keeps playing on its own.
+    engine.update(0.2);
+    expect(mesh.morphTargetInfluences![0]).toBeCloseTo(0);
+    expect(mesh.morphTargetInfluences![1]).toBeCloseTo(0.4);
+
+    take.stop();
+    engine.update(0.1);
+    expect(engine.getAU(12)).toBe(0);
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, expect, it } from 'vitest';
 import { BufferGeometry, Mesh, MeshBasicMaterial, Object3D } from 'three';
 import type { Profile } from '../../mappings/types';
+import { CC4_PRESET } from '../../presets/cc4';
+import { MIXAMO_PRESET } from '../../presets/mixamo';
+import { DEFAULT_BLINK_CONFIG } from './blink/BlinkController';
+import { DEFAULT_BREATHING_CONFIG } from './breathing/BreathingController';
 import { Loom3 } from './Loom3';
 
 function makeProfile(overrides: Partial<Profile>): Profile {
@@ -261,4 +265,15 @@ describe('Loom3 setProfile runtime refresh', () => {
 
     expect(visemeMesh.morphTargetInfluences?.[0]).toBe(1);
   });
+
+  it('resets blink and breathing config the previous profile set when the new profile leaves them out', () => {
+    const engine = new Loom3({ profile: MIXAMO_PRESET });
+    expect(engine.getBlinkConfig().blinkAUs).toEqual([]);
+
+    engine.setProfile(CC4_PRESET);
+
+    expect(engine.getBlinkConfig().blinkAUs).toEqual(DEFAULT_BLINK_CONFIG.blinkAUs);
+    expect(engine.getBlinkConfig().lidRaiseAUs).toEqual(DEFAULT_BLINK_CONFIG.lidRaiseAUs);
+    expect(engine.getBreathingConfig().bones).toEqual(DEFAULT_BREATHING_CONFIG.bones);
+  });
 });
@@ -19,7 +19,7 @@ import type {
   ReadyPayload,
   LoomLargeConfig,
 } from '../../interfaces/LoomLarge';
-import type { MeshInfo, MorphTargetRef, Profile, HairPhysicsProfileConfig } from '../../mappings/types';
+import type { MeshInfo, MorphTargetRef, Profile, HairPhysicsProfileConfig, ExpressionDefinition, AffectPoint } from '../../mappings/types';
 import type {
   TransitionHandle,
   BoneKey,
@@ -37,10 +37,25 @@ import type {
   AnimationBlendMode,
   MorphTargetDelta,
   AddMorphTargetOptions,
+  AnimationGraphDefinition,
+  AnimationLayerDefinition,
+  BlendSpaceDefinition,
+  RootMotionDelta,
+  RootMotionOptions,
 } from '../../core/types';
 import { getCompositeAxisBinding, getCompositeAxisValue } from '../../core/compositeAxis';
 import { AnimationThree, BakedAnimationController } from './AnimationThree';
 import { getSideScale } from './balanceUtils';
+import { BreathingController, DEFAULT_BREATHING_CONFIG, type BreathingConfig, type BreathingConfigUpdate } from './breathing/BreathingController';
+import { BlinkController, DEFAULT_BLINK_CONFIG, type BlinkConfig, type BlinkConfigUpdate, type BlinkOptions } from './blink/BlinkController';
+import { GazeMotionController, DEFAULT_GAZE_MOTION_CONFIG, type GazeMotionConfig, type GazeMotionConfigUpdate, type GazeOffsetWrite } from './gaze/GazeMotionController';
+import { LookAtController, type LookAtConfig, type LookAtOptions, type LookAtTarget } from './gaze/LookAtController';
+import { PerformanceRecorder, type RecordedSnippet, type RecordingOptions } from './recording/PerformanceRecorder';
+import type { AnimationGraphSnapshot, AnimationStateMachine } from './stateMachine/AnimationStateMachine';
+import type { BlendSpaceNode, BlendSpaceOptions } from './blendSpace/BlendSpace';
+import type { AnimationLayerInfo, LayerAnimationHandle, LayerPlayOptions } from './layers/AnimationLayerController';
+import { retargetClip, type RetargetOptions, type RetargetResult, type RetargetSkeleton } from './retargeting/Retargeting';
+import { SnippetScheduler, type ResolvedCurve, type ScheduledSnippetHandle, type ScheduleOptions } from './scheduling/SnippetScheduler';
 import { HairPhysicsController, type HairPhysicsConfig, type HairPhysicsConfigUpdate, type HairPhysicsDirectionConfig, type HairMorphTargets } from './hair/HairPhysicsController';
 import { CC4_PRESET, CC4_MESHES, COMPOSITE_ROTATIONS as CC4_COMPOSITE_ROTATIONS } from '../../presets/cc4';
 import { getPreset } from '../../presets';
@@ -53,6 +68,8 @@ import {
   getVisemeJawAmounts,
   getVisemeSlotIndex,
 } from '../../mappings/visemeSystem';
+import { blendExpressions, getProfileExpression, getProfileExpressions, type ExpressionBlendResult } from '../../mappings/expressionSystem';
+import { resolveAffectTargets, type AffectWeightOptions } from '../../mappings/affectSpace';
 import type { NodeBase, ResolvedBones } from './types';
 
 const deg2rad = (d: number) => (d * Math.PI) / 180;
@@ -92,6 +109,8 @@ function clamp01(x: number) {
 
 type MorphTargetHandle = { infl: number[]; idx: number };
 type WeightedMorphTargetHandle = MorphTargetHandle & { weight: number };
+type AUOverlayWrite = { infl: number[]; idx: number; base: number; written: number };
+type GazeOffsetRecord = { negAU: number; posAU: number };
 type ResolvedMorphTargetsBySide = {
   left: MorphTargetHandle[];
   right: MorphTargetHandle[];
@@ -155,6 +174,24 @@ export class Loom3 implements LoomLarge {
   private visemeValues: number[] = [];
   private visemeJawScales: number[] = [];
 
+  // Expression state
+  private expressionIntensities: Record<string, number> = {};
+  /** AU values last written by the expression blend */
+  private expressionAUs = new Map<number, number>();
+  /** Continuum values last written by the expression blend */
+  private expressionContinuums = new Map<string, { negAU: number; posAU: number; value: number }>();
+  private expressionMixWeightBaseline: Record<number, number> = {};
+
+  // Affect driver state
+  private affectPoint: AffectPoint | null = null;
+  /** AU values last written by the affect driver */
+  private affectAUs = new Map<number, number>();
+  /** Continuum targets last written by the affect driver; `easing` while its transition runs */
+  private affectContinuums = new Map<string, { negAU: number; posAU: number; value: number; easing: boolean }>();
+
+  // Additive AU overlay (procedural layers such as blinking)
+  private auOverlayWrites: AUOverlayWrite[] = [];
+  private gazeOffsetWrites: GazeOffsetRecord[] = [];
 
   // Viseme jaw amounts
   private static readonly VISEME_JAW_AMOUNTS: number[] = [
@@ -164,6 +201,12 @@ export class Loom3 implements LoomLarge {
 
   private bakedAnimations: BakedAnimationController;
   private hairPhysics: HairPhysicsController;
+  private blinkController: BlinkController;
+  private lookAtController: LookAtController;
+  private gazeMotionController: GazeMotionController;
+  private breathingController: BreathingController;
+  private recorder: PerformanceRecorder;
+  private scheduler: SnippetScheduler;
 
   // Internal animation loop
   private clock = new Clock(false); // Don't auto-start
@@ -220,6 +263,51 @@ export class Loom3 implements LoomLarge {
     });
 
     this.applyHairPhysicsProfileConfig();
+
+    this.blinkController = new BlinkController({
+      getEyeRotation: (nodeKey) => this.rotations[nodeKey],
+    });
+    this.applyProfileControllerConfig(this.config.blink, DEFAULT_BLINK_CONFIG, this.blinkController);
+
+    this.lookAtController = new LookAtController({
+      getModel: () => this.model,
+      getBoneObject: (nodeKey) => this.bones[nodeKey]?.obj,
+      getCompositeRotations: () => this.compositeRotations,
+      getContinuumPairs: () => this.config.continuumPairs,
+      getBoneBindings: () => this.config.auToBones,
+      setContinuum: (negAU, posAU, value) => this.setContinuum(negAU, posAU, value),
+    });
+
+    this.gazeMotionController = new GazeMotionController({
+      getCompositeRotations: () => this.compositeRotations,
+      getBoneBindings: () => this.config.auToBones,
+      getAU: (auId) => this.auValues[auId] ?? 0,
+      isGazeDirected: () => this.lookAtController.getTarget() !== null || this.hasExplicitEyeGaze(),
+    });
+    this.applyProfileControllerConfig(this.config.gazeMotion, DEFAULT_GAZE_MOTION_CONFIG, this.gazeMotionController);
+
+    this.breathingController = new BreathingController({
+      getBoneObject: (nodeKey) => this.bones[nodeKey]?.obj,
+      getArousal: () => this.affectPoint?.arousal ?? 0,
+      playAdditiveLayer: (clip) => this.bakedAnimations.playAdditiveLayer(clip),
+      stopAdditiveLayer: (clipName) => this.bakedAnimations.stopAdditiveLayer(clipName),
+    });
+    this.applyProfileControllerConfig(this.config.breathing, DEFAULT_BREATHING_CONFIG, this.breathingController);
+
+    this.recorder = new PerformanceRecorder({
+      getAUValues: () => this.auValues,
+      getAUBalance: (auId) => this.auBalances[auId],
+      getVisemeValues: () => this.visemeValues,
+    });
+
+    this.scheduler = new SnippetScheduler({
+      setAU: (id, value, balance) => this.setAU(id, value, balance),
+      setViseme: (visemeIndex, value, jawScale) => this.setViseme(visemeIndex, value, jawScale),
+      setMorph: (key, value) => this.setMorph(key, value),
+      getAU: (id) => this.getAU(id),
+      getViseme: (visemeIndex) => this.visemeValues[visemeIndex] ?? 0,
+      getMorph: (key) => this.getMorphValue(key),
+    });
   }
 
   // ============================================================================
@@ -260,6 +348,7 @@ export class Loom3 implements LoomLarge {
     this.rigReady = true;
     this.missingBoneWarnings.clear();
     this.initBoneRotations();
+    this.breathingController.refresh();
 
     // Find primary face mesh (use head bone proximity when available)
     this.resolvedFaceMeshes = this.resolveFaceMeshes(this.meshes);
@@ -427,11 +516,27 @@ export class Loom3 implements LoomLarge {
     const dtSeconds = Math.max(0, deltaSeconds || 0);
     if (dtSeconds <= 0 || this.isPaused) return;
 
+    this.restoreAUOverlay();
+    this.restoreGazeOffsets();
     this.animation.tick(dtSeconds);
+    this.scheduler.update(dtSeconds);
+    this.lookAtController.update(dtSeconds);
+    // Sample before procedural overlays (gaze micro-motion, blink, breathing) are layered on.
+    this.recorder.sample(dtSeconds);
+    this.applyGazeOffsets(this.gazeMotionController.update(dtSeconds));
     this.flushPendingComposites();
 
+    // Breathing scrubs its additive layer before the baked mixer evaluates it.
+    const breathingOverlay = this.breathingController.update(dtSeconds);
     this.bakedAnimations.update(dtSeconds);
     this.hairPhysics.update(dtSeconds);
+
+    const overlay = this.blinkController.update(dtSeconds);
+    for (const [auIdStr, value] of Object.entries(breathingOverlay)) {
+      const auId = Number(auIdStr);
+      overlay[auId] = Math.max(overlay[auId] ?? 0, value);
+    }
+    this.applyAUOverlay(overlay);
   }
 
   /** Start the internal animation loop using Three.js Clock */
@@ -735,6 +840,424 @@ export class Loom3 implements LoomLarge {
     return this.animation.addTransition(driverKey, currentContinuum, target, durationMs, (value) => this.setContinuum(negAU, posAU, value, balance));
   }
 
+  // ============================================================================
+  // EXPRESSION CONTROL (named AU bundles, blended)
+  // ============================================================================
+
+  /**
+   * Set a named expression's intensity immediately.
+   * Expressions resolve against the active profile and are blended with any
+   * other active expressions (summed and clamped per AU).
+   *
+   * @param name - Expression name from the profile or the built-in defaults
+   * @param intensity - Value from 0 (off) to 1 (full expression)
+   */
+  setExpression(name: string, intensity: number): void {
+    if (!getProfileExpression(this.config, name)) {
+      console.warn(`[Loom3] Unknown expression: ${name}`);
+      return;
+    }
+
+    const value = clamp01(intensity);
+    if (value > 0) {
+      this.expressionIntensities[name] = value;
+    } else {
+      delete this.expressionIntensities[name];
+    }
+    this.applyExpressionState();
+  }
+
+  /**
+   * Smoothly transition a named expression's intensity.
+   *
+   * @param name - Expression name from the profile or the built-in defaults
+   * @param to - Target intensity 0-1
+   * @param durationMs - Transition duration in milliseconds
+   */
+  transitionExpression(name: string, to: number, durationMs = 300): TransitionHandle {
+    if (!getProfileExpression(this.config, name)) {
+      console.warn(`[Loom3] Unknown expression: ${name}`);
+      return { promise: Promise.resolve(), pause: () => {}, resume: () => {}, cancel: () => {} };
+    }
+
+    const from = this.expressionIntensities[name] ?? 0;
+    return this.animation.addTransition(
+      `expression_${name}`,
+      from,
+      clamp01(to),
+      durationMs,
+      (value) => this.setExpression(name, value)
+    );
+  }
+
+  getExpression(name: string): number {
+    return this.expressionIntensities[name] ?? 0;
+  }
+
+  /** Intensities of all currently active expressions. */
+  getActiveExpressions(): Record<string, number> {
+    return { ...this.expressionIntensities };
+  }
+
+  /** Expressions available for the active profile (defaults merged with profile entries). */
+  getExpressions(): Record<string, ExpressionDefinition> {
+    return getProfileExpressions(this.config);
+  }
+
+  clearExpressions(): void {
+    this.expressionIntensities = {};
+    this.applyExpressionState();
+  }
+
+  /**
+   * Re-blend all active expressions and push the result through setAU/setContinuum.
+   * AUs, continuums and mix weights that were driven by expressions but are no
+   * longer part of the blend are released back to neutral/baseline, unless the
+   * app has set them to something else since.
+   */
+  private applyExpressionState(): void {
+    const blend = blendExpressions(this.config, this.expressionIntensities);
+
+    for (const [auIdStr, baseline] of Object.entries(this.expressionMixWeightBaseline)) {
+      const auId = Number(auIdStr);
+      if (blend.mixWeights[auId] !== undefined) continue;
+      delete this.expressionMixWeightBaseline[auId];
+      this.setAUMixWeight(auId, baseline);
+    }
+    for (const [auIdStr, weight] of Object.entries(blend.mixWeights)) {
+      const auId = Number(auIdStr);
+      if (this.expressionMixWeightBaseline[auId] === undefined) {
+        this.expressionMixWeightBaseline[auId] = this.getAUMixWeight(auId);
+      }
+      this.setAUMixWeight(auId, weight);
+    }
+
+    // Release only what the app hasn't overwritten since the blend wrote it.
+    for (const [auId, written] of this.expressionAUs) {
+      if (!blend.aus[auId] && this.getAU(auId) === written) this.setAU(auId, 0, 0);
+    }
+    this.expressionAUs.clear();
+    for (const [auIdStr, target] of Object.entries(blend.aus)) {
+      const auId = Number(auIdStr);
+      this.setAU(auId, target.value, target.balance ?? 0);
+      this.expressionAUs.set(auId, this.getAU(auId));
+    }
+
+    for (const [key, pair] of this.expressionContinuums) {
+      if (blend.continuums[key]) continue;
+      if (this.getAU(pair.posAU) - this.getAU(pair.negAU) === pair.value) {
+        this.setContinuum(pair.negAU, pair.posAU, 0);
+      }
+    }
+    this.expressionContinuums.clear();
+    for (const [key, continuum] of Object.entries(blend.continuums)) {
+      const { negAU, posAU } = continuum;
+      this.setContinuum(negAU, posAU, continuum.value);
+      this.expressionContinuums.set(key, { negAU, posAU, value: this.getAU(posAU) - this.getAU(negAU) });
+    }
+  }
+
+  // ============================================================================
+  // AFFECT CONTROL (valence/arousal/dominance driver)
+  // ============================================================================
+
+  /**
+   * Drive the face from a point in affect space immediately.
+   * The point is interpolated between the profile's affect anchors
+   * (`affectAnchors`, or the built-in circumplex) into AU targets.
+   *
+   * @param point - Valence/arousal (and optional dominance), each -1 to 1
+   * @param options - Interpolation options (inverse-distance power)
+   */
+  setAffect(point: AffectPoint, options?: AffectWeightOptions): void {
+    this.affectPoint = { ...point };
+    this.driveAffectTargets(resolveAffectTargets(this.config, point, options));
+  }
+
+  /**
+   * Smoothly move the face toward a point in affect space.
+   * Each resolved AU/continuum target is fed through transitionAU/transitionContinuum,
+   * and AUs driven by the previous affect point but not the new one ease back to 0
+   * (unless the app has set them since).
+   *
+   * @param point - Valence/arousal (and optional dominance), each -1 to 1
+   * @param durationMs - Transition duration in milliseconds
+   * @param options - Interpolation options (inverse-distance power)
+   */
+  transitionAffect(point: AffectPoint, durationMs = 400, options?: AffectWeightOptions): TransitionHandle {
+    this.affectPoint = { ...point };
+    return this.driveAffectTargets(resolveAffectTargets(this.config, point, options), durationMs);
+  }
+
+  getAffect(): AffectPoint | null {
+    return this.affectPoint ? { ...this.affectPoint } : null;
+  }
+
+  /** Release every AU the affect driver is holding (instantly when durationMs is 0). */
+  clearAffect(durationMs = 400): TransitionHandle {
+    this.affectPoint = null;
+    const empty: ExpressionBlendResult = { aus: {}, continuums: {}, mixWeights: {} };
+    return this.driveAffectTargets(empty, durationMs);
+  }
+
+  private driveAffectTargets(blend: ExpressionBlendResult, durationMs?: number): TransitionHandle {
+    const animate = durationMs !== undefined && durationMs > 0;
+    const handles: TransitionHandle[] = [];
+    const driveAU = (auId: number, value: number, balance: number) => {
+      if (animate) {
+        handles.push(this.transitionAU(auId, value, durationMs, balance));
+      } else {
+        this.setAU(auId, value, balance);
+      }
+    };
+    const driveContinuum = (negAU: number, posAU: number, value: number): TransitionHandle | null => {
+      if (!animate) {
+        this.setContinuum(negAU, posAU, value);
+        return null;
+      }
+      const handle = this.transitionContinuum(negAU, posAU, value, durationMs);
+      handles.push(handle);
+      return handle;
+    };
+
+    // Release only what the app hasn't overwritten since the driver wrote it.
+    // transitionAU stores its target up front; a continuum still easing toward
+    // the driver's target is also still the driver's.
+    for (const [auId, written] of this.affectAUs) {
+      if (!blend.aus[auId] && this.getAU(auId) === written) driveAU(auId, 0, 0);
+    }
+    this.affectAUs.clear();
+    for (const [auIdStr, target] of Object.entries(blend.aus)) {
+      const auId = Number(auIdStr);
+      driveAU(auId, target.value, target.balance ?? 0);
+      this.affectAUs.set(auId, this.getAU(auId));
+    }
+
+    for (const [key, pair] of this.affectContinuums) {
+      if (blend.continuums[key]) continue;
+      const current = this.getAU(pair.posAU) - this.getAU(pair.negAU);
+      if (current === pair.value || pair.easing) {
+        driveContinuum(pair.negAU, pair.posAU, 0);
+      }
+    }
+    this.affectContinuums.clear();
+    for (const [key, continuum] of Object.entries(blend.continuums)) {
+      const { negAU, posAU } = continuum;
+      const value = Math.max(-1, Math.min(1, continuum.value));
+      const record = { negAU, posAU, value, easing: false };
+      const handle = driveContinuum(negAU, posAU, value);
+      if (handle) {
+        record.easing = true;
+        handle.promise.then(() => { record.easing = false; });
+      }
+      this.affectContinuums.set(key, record);
+    }
+
+    return this.combineHandles(handles);
+  }
+
+  // ============================================================================
+  // BLINK CONTROL (procedural blinks + eyelid follow)
+  // ============================================================================
+
+  /** Enable or disable autonomous blinking and eyelid follow. */
+  setBlinkEnabled(enabled: boolean): void {
+    this.blinkController.setEnabled(enabled);
+  }
+
+  isBlinkEnabled(): boolean {
+    return this.blinkController.isEnabled();
+  }
+
+  setBlinkConfig(config: BlinkConfigUpdate): void {
+    this.blinkController.setConfig(config);
+  }
+
+  getBlinkConfig(): BlinkConfig {
+    return this.blinkController.getConfig();
+  }
+
+  /**
+   * Play a single blink now. Options override the configured shape/amplitude
+   * for this call only; plays even while autonomous blinks are paused.
+   */
+  blink(options?: BlinkOptions): void {
+    this.blinkController.blink(options);
+  }
+
+  /**
+   * Suppress autonomous and gaze-triggered blinks.
+   * @param durationMs - Suppress for this long, or until resumeBlinks() when omitted
+   */
+  pauseBlinks(durationMs?: number): void {
+    this.blinkController.pause(durationMs);
+  }
+
+  resumeBlinks(): void {
+    this.blinkController.resume();
+  }
+
+  // ============================================================================
+  // LOOK-AT CONTROL (world-space gaze with eye/head/neck coordination)
+  // ============================================================================
+
+  /**
+   * Continuously track a world-space target with the eyes, head and neck.
+   * Eyes saccade first, then the head follows and the eyes recenter.
+   * Pass null to ease back to neutral and stop driving gaze AUs.
+   * @param target - Object3D (tracked every frame) or fixed world position
+   * @param options - Eye/head split, latency, smoothing and limit overrides
+   */
+  lookAt(target: LookAtTarget | null, options?: LookAtOptions): void {
+    if (options) this.lookAtController.setConfig(options);
+    this.lookAtController.setTarget(target);
+  }
+
+  /** Ease gaze back to neutral and stop tracking. */
+  clearLookAt(): void {
+    this.lookAtController.setTarget(null);
+  }
+
+  getLookAtTarget(): LookAtTarget | null {
+    return this.lookAtController.getTarget();
+  }
+
+  setLookAtConfig(config: LookAtOptions): void {
+    this.lookAtController.setConfig(config);
+  }
+
+  getLookAtConfig(): LookAtConfig {
+    return this.lookAtController.getConfig();
+  }
+
+  // ============================================================================
+  // GAZE MICRO-MOTION (microsaccades, drift, glance-aways)
+  // ============================================================================
+
+  /**
+   * Enable or disable idle gaze micro-motion. Offsets are added on top of the
+   * eye continuum values set by the app (setContinuum, transitions, lookAt).
+   */
+  setGazeMotionEnabled(enabled: boolean): void {
+    this.gazeMotionController.setEnabled(enabled);
+    if (!enabled) this.restoreGazeOffsets();
+  }
+
+  isGazeMotionEnabled(): boolean {
+    return this.gazeMotionController.isEnabled();
+  }
+
+  setGazeMotionConfig(config: GazeMotionConfigUpdate): void {
+    this.gazeMotionController.setConfig(config);
+  }
+
+  getGazeMotionConfig(): GazeMotionConfig {
+    return this.gazeMotionController.getConfig();
+  }
+
+  // ============================================================================
+  // BREATHING (additive spine/clavicle layer + nostril flare)
+  // ============================================================================
+
+  /**
+   * Enable or disable procedural breathing. Bone motion plays as an additive
+   * layer on the baked mixer, so it stacks on top of body clips.
+   */
+  setBreathingEnabled(enabled: boolean): void {
+    this.breathingController.setEnabled(enabled);
+  }
+
+  isBreathingEnabled(): boolean {
+    return this.breathingController.isEnabled();
+  }
+
+  /** Update rate, depth, style, bones or nostril AUs. Arousal from setAffect() modulates rate and depth. */
+  setBreathingConfig(config: BreathingConfigUpdate): void {
+    this.breathingController.setConfig(config);
+  }
+
+  getBreathingConfig(): BreathingConfig {
+    return this.breathingController.getConfig();
+  }
+
+  /** Current breath amount (0 = exhaled, 1 = full inhale; sighs go above 1). */
+  getBreathValue(): number {
+    return this.breathingController.getBreathValue();
+  }
+
+  // ============================================================================
+  // PERFORMANCE RECORDING (runtime AU/viseme control captured as a snippet)
+  // ============================================================================
+
+  /**
+   * Start recording AU, continuum and viseme values. Each update() adds a
+   * sample; procedural layers (blink, breathing, gaze micro-motion) are not
+   * recorded. Starting again discards the take in progress.
+   */
+  startRecording(options?: RecordingOptions): void {
+    this.recorder.start(options);
+  }
+
+  /**
+   * Stop recording and return the take. AU curves use AU ids (`12L` / `12R`
+   * side ids for AUs that were set with a balance), viseme curves use
+   * `viseme:<index>`; play it back with `playSnippet(snippet)`.
+   */
+  stopRecording(): RecordedSnippet {
+    const snippet = this.recorder.stop();
+    if (!snippet) {
+      console.warn('[Loom3] stopRecording: not recording');
+      return { name: 'recording', curves: {} };
+    }
+    return snippet;
+  }
+
+  /** Discard the take in progress without building a snippet. */
+  cancelRecording(): void {
+    this.recorder.cancel();
+  }
+
+  isRecording(): boolean {
+    return this.recorder.isRecording();
+  }
+
+  // ============================================================================
+  // SNIPPET SCHEDULING (priority-resolved snippets driven per frame)
+  // ============================================================================
+
+  /**
+   * Play a snippet through the scheduler. Unlike playSnippet(), overlapping
+   * scheduled snippets do not stack: each curve resolves to one value by
+   * priority and weight, written through setAU/setViseme/setMorph on update().
+   */
+  scheduleSnippet(snippet: Snippet, options?: ScheduleOptions): ScheduledSnippetHandle {
+    return this.scheduler.schedule(snippet, options);
+  }
+
+  /** Stop scheduled snippets in one group, or all of them. */
+  stopScheduledSnippets(options?: { group?: string; fadeOut?: number }): void {
+    this.scheduler.stopAll(options);
+  }
+
+  /** Drop every scheduled snippet now and release the curves they drove. */
+  clearScheduledSnippets(): void {
+    this.scheduler.clear();
+  }
+
+  getScheduledSnippets(): ScheduledSnippetHandle[] {
+    return this.scheduler.getActive();
+  }
+
+  /** Per-curve breakdown of the last scheduler update, keyed by curve id. */
+  getScheduledContributions(): Record<string, ResolvedCurve> {
+    return this.scheduler.getResolved();
+  }
+
+  /** Which scheduled snippets produced an AU's value on the last update. */
+  getScheduledAUContribution(auId: number | string): ResolvedCurve | undefined {
+    return this.scheduler.getResolvedAU(auId);
+  }
+
   // ============================================================================
   // MORPH CONTROL
   // ============================================================================
@@ -1058,6 +1581,22 @@ export class Loom3 implements LoomLarge {
 
   resetToNeutral(): void {
     this.auValues = {};
+    this.expressionIntensities = {};
+    this.expressionAUs.clear();
+    this.expressionContinuums.clear();
+    for (const [auIdStr, baseline] of Object.entries(this.expressionMixWeightBaseline)) {
+      this.mixWeights[Number(auIdStr)] = baseline;
+    }
+    this.expressionMixWeightBaseline = {};
+    this.affectPoint = null;
+    this.affectAUs.clear();
+    this.affectContinuums.clear();
+    this.auOverlayWrites = [];
+    this.gazeOffsetWrites = [];
+    this.blinkController.reset();
+    this.lookAtController.reset();
+    this.gazeMotionController.reset();
+    this.breathingController.reset();
     const visemeCount = getProfileVisemeSlots(this.config).length;
     this.visemeValues = new Array(visemeCount).fill(0);
     this.visemeJawScales = new Array(visemeCount).fill(1);
@@ -1429,11 +1968,32 @@ export class Loom3 implements LoomLarge {
     this.hairPhysics.setHairPhysicsConfig(runtimeConfig);
   }
 
+  /**
+   * Push a profile's blink/gaze/breathing section into its controller on top of
+   * the controller defaults, so keys a previous profile set do not carry over.
+   */
+  private applyProfileControllerConfig<T extends object>(
+    config: (Partial<T> & { enabled?: boolean }) | undefined,
+    defaults: T,
+    controller: { setConfig(update: T): void; setEnabled(enabled: boolean): void; isEnabled(): boolean }
+  ): void {
+    const { enabled, ...controllerConfig } = config ?? {};
+    const runtimeConfig = { ...defaults } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(controllerConfig)) {
+      if (value !== undefined) runtimeConfig[key] = value;
+    }
+    controller.setConfig(runtimeConfig as T);
+    if (enabled !== undefined && enabled !== controller.isEnabled()) {
+      controller.setEnabled(enabled);
+    }
+  }
+
   setProfile(profile: Profile): void {
     this.config = profile;
     this.compositeRotations = this.config.compositeRotations || CC4_COMPOSITE_ROTATIONS;
     this.auToCompositeMap = buildAUToCompositeMap(this.compositeRotations);
     this.mixWeights = { ...profile.auMixDefaults };
+    this.expressionMixWeightBaseline = {};
     this.syncVisemeRuntimeState();
     let staleMorphTargets: MorphTargetHandle[] = [];
     if (this.model) {
@@ -1444,7 +2004,12 @@ export class Loom3 implements LoomLarge {
     }
     this.hairPhysics.refreshMeshSelection();
     this.applyHairPhysicsProfileConfig();
+    this.applyProfileControllerConfig(this.config.blink, DEFAULT_BLINK_CONFIG, this.blinkController);
+    this.applyProfileControllerConfig(this.config.gazeMotion, DEFAULT_GAZE_MOTION_CONFIG, this.gazeMotionController);
+    this.applyProfileControllerConfig(this.config.breathing, DEFAULT_BREATHING_CONFIG, this.breathingController);
+    this.breathingController.refresh();
     this.reinitializeRuntimeStateFromCurrentControls(staleMorphTargets);
+    this.applyExpressionState();
   }
 
   getProfile(): Profile { return this.config; }
@@ -1533,6 +2098,120 @@ export class Loom3 implements LoomLarge {
   // PRIVATE METHODS
   // ============================================================================
 
+  /**
+   * Undo last frame's overlay so transitions/clips see the un-layered morph values.
+   * Slots that were rewritten since (setAU, mixer) are left alone.
+   */
+  private restoreAUOverlay(): void {
+    for (const write of this.auOverlayWrites) {
+      if (write.infl[write.idx] === write.written) {
+        write.infl[write.idx] = write.base;
+      }
+    }
+    this.auOverlayWrites = [];
+  }
+
+  /**
+   * Add per-AU overlay values on top of the current morph influences.
+   * User AU state (auValues) is untouched, so getAU() keeps reporting user values.
+   */
+  private applyAUOverlay(overlay: Record<number, number>): void {
+    this.restoreAUOverlay();
+
+    const contributions = new Map<number[], Map<number, number>>();
+    for (const [auIdStr, value] of Object.entries(overlay)) {
+      if (!(value > 0)) continue;
+      const auId = Number(auIdStr);
+      const targets = this.resolvedAUMorphTargets.get(auId);
+      if (!targets) continue;
+      const mixWeight = this.isMixedAU(auId) ? this.getAUMixWeight(auId) : 1.0;
+      const amount = clamp01(value) * mixWeight;
+      for (const target of [...targets.left, ...targets.right, ...targets.center]) {
+        let slots = contributions.get(target.infl);
+        if (!slots) {
+          slots = new Map();
+          contributions.set(target.infl, slots);
+        }
+        slots.set(target.idx, Math.max(slots.get(target.idx) ?? 0, amount));
+      }
+    }
+
+    for (const [infl, slots] of contributions) {
+      for (const [idx, amount] of slots) {
+        if (idx >= infl.length) continue;
+        const base = infl[idx] ?? 0;
+        const written = clamp01(base + amount);
+        infl[idx] = written;
+        this.auOverlayWrites.push({ infl, idx, base, written });
+      }
+    }
+  }
+
+  /**
+   * Re-render eye pairs from the app's AU values, dropping last frame's gaze
+   * micro-motion from the pose. Pairs the app set since then render its value.
+   */
+  private restoreGazeOffsets(): void {
+    const writes = this.gazeOffsetWrites;
+    this.gazeOffsetWrites = [];
+    for (const { negAU, posAU } of writes) {
+      this.renderStoredAU(negAU);
+      this.renderStoredAU(posAU);
+    }
+  }
+
+  /**
+   * Render gaze micro-motion offsets on top of the current eye continuum values.
+   * Like the blink/breathing overlay, only the pose carries the offset: auValues
+   * and auBalances keep the app's values for getAU(), transitions and the scheduler.
+   */
+  private applyGazeOffsets(offsets: GazeOffsetWrite[]): void {
+    for (const { negAU, posAU, offset } of offsets) {
+      const negValue = this.auValues[negAU];
+      const posValue = this.auValues[posAU];
+      const negBalance = this.auBalances[negAU];
+      const posBalance = this.auBalances[posAU];
+      const base = (posValue ?? 0) - (negValue ?? 0);
+      const written = Math.max(-1, Math.min(1, base + offset));
+      if (written === base) continue;
+      this.setContinuum(negAU, posAU, written, posBalance ?? negBalance);
+      this.restoreStoredAU(negAU, negValue, negBalance);
+      this.restoreStoredAU(posAU, posValue, posBalance);
+      this.gazeOffsetWrites.push({ negAU, posAU });
+    }
+  }
+
+  /**
+   * True while the app holds the eyes off-centre through setContinuum,
+   * transitionContinuum or setAU on the eye composites' yaw/pitch AUs.
+   * auValues never carry micro-motion, so this only sees the app's gaze.
+   */
+  private hasExplicitEyeGaze(): boolean {
+    const eyeNodes = this.gazeMotionController.getConfig().eyeNodes;
+    for (const composite of this.compositeRotations) {
+      if (!eyeNodes.includes(composite.node)) continue;
+      for (const axis of [composite.yaw, composite.pitch]) {
+        if (axis?.aus.some((auId) => Math.abs(this.auValues[auId] ?? 0) > 1e-3)) return true;
+      }
+    }
+    return false;
+  }
+
+  /** Re-apply an AU's stored value to morphs and bones without changing auValues or auBalances. */
+  private renderStoredAU(auId: number): void {
+    const value = this.auValues[auId];
+    const balance = this.auBalances[auId];
+    this.setAU(auId, value ?? 0, balance);
+    this.restoreStoredAU(auId, value, balance);
+  }
+
+  private restoreStoredAU(auId: number, value: number | undefined, balance: number | undefined): void {
+    if (value === undefined) delete this.auValues[auId];
+    else this.auValues[auId] = value;
+    if (balance === undefined) delete this.auBalances[auId];
+    else this.auBalances[auId] = balance;
+  }
+
   private computeSideValues(base: number, balance?: number): { left: number; right: number } {
     const b = Math.max(-1, Math.min(1, balance ?? 0));
     if (b === 0) return { left: base, right: base };
@@ -2218,6 +2897,8 @@ export class Loom3 implements LoomLarge {
 
   loadAnimationClips(clips: unknown[]): void {
     this.bakedAnimations.loadAnimationClips(clips);
+    // Rebuild the breathing layer so its tracks bind alongside the new clips.
+    this.breathingController.refresh();
   }
 
   getAnimationClips(): AnimationClipInfo[] {
@@ -2300,6 +2981,114 @@ export class Loom3 implements LoomLarge {
     return this.bakedAnimations.crossfadeTo(clipName, duration, options);
   }
 
+  /**
+   * Run an animation graph (default: the profile's `animationGraph`). The graph
+   * picks states from its parameters on every update(); load the clips it
+   * references first.
+   */
+  setAnimationGraph(definition: AnimationGraphDefinition | undefined = this.config.animationGraph): AnimationStateMachine | null {
+    if (!definition) {
+      console.warn('[Loom3] setAnimationGraph: no graph given and the profile has none');
+      return null;
+    }
+    return this.bakedAnimations.setAnimationGraph(definition);
+  }
+
+  clearAnimationGraph(): void {
+    this.bakedAnimations.clearAnimationGraph();
+  }
+
+  /**
+   * Blend several baked clips by a 1D or 2D position (idle-to-talk, lean/turn).
+   * The node keeps running on update() until you call its stop().
+   */
+  createBlendSpace(definition: BlendSpaceDefinition, options?: BlendSpaceOptions): BlendSpaceNode | null {
+    return this.bakedAnimations.createBlendSpace(definition, options);
+  }
+
+  /**
+   * Add or replace a bone-masked layer. Mask roots are bone keys from the
+   * profile's boneNodes (or node names); each root brings its whole subtree.
+   */
+  defineAnimationLayer(definition: AnimationLayerDefinition): boolean {
+    return this.bakedAnimations.defineAnimationLayer(definition);
+  }
+
+  removeAnimationLayer(name: string): void {
+    this.bakedAnimations.removeAnimationLayer(name);
+  }
+
+  setAnimationLayerWeight(name: string, weight: number): void {
+    this.bakedAnimations.setAnimationLayerWeight(name, weight);
+  }
+
+  setAnimationLayerBlendMode(name: string, blendMode: AnimationBlendMode): void {
+    this.bakedAnimations.setAnimationLayerBlendMode(name, blendMode);
+  }
+
+  getAnimationLayers(): AnimationLayerInfo[] {
+    return this.bakedAnimations.getAnimationLayers();
+  }
+
+  /** Play a baked clip on a layer (e.g. a wave on 'leftArm' while a walk runs underneath). */
+  playAnimationOnLayer(layerName: string, clipName: string, options?: LayerPlayOptions): LayerAnimationHandle | null {
+    return this.bakedAnimations.playAnimationOnLayer(layerName, clipName, options);
+  }
+
+  stopAnimationLayer(name: string, fadeOut?: number): void {
+    this.bakedAnimations.stopAnimationLayer(name, fadeOut);
+  }
+
+  /**
+   * Extract root motion from a baked clip so locomotion moves the model root
+   * instead of sliding or snapping back on loop. Pass false to turn it off.
+   */
+  setRootMotion(clipName: string, options?: RootMotionOptions | false): boolean {
+    return this.bakedAnimations.setRootMotion(clipName, options);
+  }
+
+  getRootMotionDelta(): RootMotionDelta {
+    return this.bakedAnimations.getRootMotionDelta();
+  }
+
+  getAccumulatedRootMotion(): RootMotionDelta {
+    return this.bakedAnimations.getAccumulatedRootMotion();
+  }
+
+  resetAccumulatedRootMotion(): void {
+    this.bakedAnimations.resetAccumulatedRootMotion();
+  }
+
+  /** Subscribe to per-update root motion (for moving a physics body or nav agent yourself). */
+  onRootMotion(listener: (delta: RootMotionDelta) => void): () => void {
+    return this.bakedAnimations.onRootMotion(listener);
+  }
+
+  /**
+   * Retarget a clip authored on another skeleton onto this character, pairing
+   * bones through both profiles' boneNodes. Pass the result's clip to
+   * loadAnimationClips().
+   */
+  retargetAnimationClip(clip: AnimationClip, source: RetargetSkeleton, options?: RetargetOptions): RetargetResult | null {
+    if (!this.model) {
+      console.warn('[Loom3] retargetAnimationClip: no model loaded');
+      return null;
+    }
+    return retargetClip(clip, source, { root: this.model, profile: this.config }, options);
+  }
+
+  setAnimationParameter(name: string, value: number | boolean): void {
+    this.bakedAnimations.getAnimationGraph()?.setParameter(name, value);
+  }
+
+  setAnimationTrigger(name: string): void {
+    this.bakedAnimations.getAnimationGraph()?.setTrigger(name);
+  }
+
+  getAnimationGraphState(): AnimationGraphSnapshot | null {
+    return this.bakedAnimations.getAnimationGraph()?.getSnapshot() ?? null;
+  }
+
   snippetToClip(
     clipName: string,
     curves: CurvesMap,
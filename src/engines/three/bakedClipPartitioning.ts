@@ -28,7 +28,7 @@ export interface PartitionedBakedClip {
   runtimeClips: PartitionedBakedRuntimeClip[];
 }
 
-type ParsedTrackTarget = {
+export type ParsedTrackTarget = {
   propertyName: string;
   target: Object3D | null;
   targetName: string;
@@ -38,7 +38,7 @@ function getRuntimeClipName(sourceClipName: string, channel: BakedClipChannel):
   return `${RUNTIME_CLIP_PREFIX}${sourceClipName}/${channel}`;
 }
 
-function parseTrackTarget(trackName: string, model: Object3D): ParsedTrackTarget | null {
+export function parseTrackTarget(trackName: string, model: Object3D): ParsedTrackTarget | null {
   let parsed: ReturnType<typeof PropertyBinding.parseTrackName>;
 
   try {
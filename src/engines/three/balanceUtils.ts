@@ -1,3 +1,7 @@
+import type { CurvePoint, CurvesMap } from '../../core/types';
+import { sampleCurvePoints } from '../../core/curveInterpolation';
+import { parseSideCurveId } from '../../core/snippetOps';
+
 export function clampBalance(value: number): number {
   if (!Number.isFinite(value)) return 0;
   return Math.max(-1, Math.min(1, value));
@@ -26,3 +30,29 @@ export function resolveCurveBalance(
   }
   return clampBalance(globalBalance);
 }
+
+/**
+ * Add a plain curve for every AU that only has `12L` / `12R` side curves.
+ * It holds the larger side at each key, which is the value setAU stores for
+ * that AU, so center morphs and unsided bones still follow it.
+ */
+export function withSideBaseCurves(curves: CurvesMap): CurvesMap {
+  const sideCurves = new Map<number, CurvePoint[][]>();
+  for (const [curveId, points] of Object.entries(curves)) {
+    const side = parseSideCurveId(curveId);
+    if (!side || !points?.length || curves[String(side.auId)]) continue;
+    sideCurves.set(side.auId, [...(sideCurves.get(side.auId) ?? []), points]);
+  }
+  if (sideCurves.size === 0) return curves;
+
+  const result: CurvesMap = { ...curves };
+  for (const [auId, sides] of sideCurves) {
+    const times = Array.from(new Set(sides.flatMap((points) => points.map((point) => point.time))))
+      .sort((a, b) => a - b);
+    result[String(auId)] = times.map((time) => ({
+      time,
+      intensity: Math.max(...sides.map((points) => sampleCurvePoints(points, time))),
+    }));
+  }
+  return result;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BlendSpaceNode,
+  computeBlendSpace1DWeights,
+  computeBlendSpace2DWeights,
+  triangulateBlendSpace,
+  validateBlendSpace,
+  type BlendSpaceHost,
+} from './BlendSpace';
+
+function makeHost(durations: Record<string, number>) {
+  const synced: Record<string, { time: number; weight: number }> = {};
+  const host: BlendSpaceHost = {
+    playClip: (clipName) => ({
+      getDuration: () => durations[clipName],
+      sync: (time, weight) => { synced[clipName] = { time, weight }; },
+      stop: () => { delete synced[clipName]; },
+    }),
+  };
+  return { host, synced };
+}
+
+describe('blend space weights', () => {
+  it('interpolates between the neighbouring 1D samples and clamps at the ends', () => {
+    expect(computeBlendSpace1DWeights([0, 1, 2], 1.25)).toEqual([0, 0.75, 0.25]);
+    expect(computeBlendSpace1DWeights([2, 0], -1)).toEqual([0, 1]);
+    expect(computeBlendSpace1DWeights([2, 0], 5)).toEqual([1, 0]);
+  });
+
+  it('uses barycentric weights inside the triangulation', () => {
+    const points: Array<[number, number]> = [[0, 0], [1, 0], [0, 1], [1, 1]];
+    const triangles = triangulateBlendSpace(points);
+    expect(triangles).toHaveLength(2);
+
+    const center = computeBlendSpace2DWeights(points, triangles, 0.25, 0.25);
+    expect(center.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1);
+    expect(center[0]).toBeCloseTo(0.5);
+    expect(computeBlendSpace2DWeights(points, triangles, 1, 1)[3]).toBeCloseTo(1);
+  });
+
+  it('snaps outside points to the nearest hull edge', () => {
+    const points: Array<[number, number]> = [[-1, 0], [1, 0], [0, 1]];
+    const weights = computeBlendSpace2DWeights(points, triangulateBlendSpace(points), 0, -2);
+    expect(weights[0]).toBeCloseTo(0.5);
+    expect(weights[1]).toBeCloseTo(0.5);
+    expect(weights[2]).toBe(0);
+
+    // Collinear samples still blend along their line.
+    const line: Array<[number, number]> = [[0, 0], [1, 0], [2, 0]];
+    expect(triangulateBlendSpace(line)).toEqual([]);
+    const onLine = computeBlendSpace2DWeights(line, [], 1.5, 1);
+    expect(onLine[1]).toBeCloseTo(0.5);
+    expect(onLine[2]).toBeCloseTo(0.5);
+  });
+
+  it('reports samples that do not fit the blend space type', () => {
+    expect(validateBlendSpace({ type: '1d', samples: [] })).toEqual(['blend space has no samples']);
+    expect(validateBlendSpace({ type: '2d', samples: [{ clip: 'A', position: 1 }] })).toEqual([
+      'sample 0 position does not fit a 2d blend space',
+    ]);
+    expect(validateBlendSpace({
+      type: '1d',
+      samples: [{ clip: 'Walk', position: 0 }, { clip: 'Walk', position: 1 }],
+    })).toEqual(['sample 1 repeats clip "Walk"']);
+  });
+});
+
+describe('BlendSpaceNode', () => {
+  it('keeps clips of different length on one normalized phase', () => {
+    const { host, synced } = makeHost({ Idle: 1, Talk: 2 });
+    const node = new BlendSpaceNode({
+      type: '1d',
+      parameter: 'talk',
+      samples: [{ clip: 'Idle', position: 0 }, { clip: 'Talk', position: 1 }],
+    }, host);
+    node.start();
+    node.setParameters({ talk: 0.5 });
+    expect(node.getDuration()).toBeCloseTo(1.5);
+
+    node.update(0.75);
+    expect(node.getPhase()).toBeCloseTo(0.5);
+    expect(synced.Idle).toEqual({ time: 0.5, weight: 0.5 });
+    expect(synced.Talk).toEqual({ time: 1, weight: 0.5 });
+
+    node.setWeight(0.5);
+    node.update(0.75);
+    expect(node.getPhase()).toBeCloseTo(0);
+    expect(synced.Talk.weight).toBeCloseTo(0.25);
+
+    node.stop();
+    expect(synced).toEqual({});
+    expect(node.isActive()).toBe(false);
+  });
+
+  it('runs each clip on its own clock when time sync is off', () => {
+    const { host, synced } = makeHost({ Idle: 1, Talk: 2 });
+    const node = new BlendSpaceNode({
+      type: '1d',
+      syncTime: false,
+      samples: [{ clip: 'Idle', position: 0 }, { clip: 'Talk', position: 1 }],
+    }, host);
+    node.start();
+    node.update(1.5);
+    expect(synced.Idle.time).toBeCloseTo(0.5);
+    expect(synced.Talk.time).toBeCloseTo(1.5);
+  });
+});
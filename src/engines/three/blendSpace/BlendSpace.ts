@@ -0,0 +1,355 @@
+import type { BlendSpaceDefinition } from '../../../core/types';
+
+type Point = [number, number];
+type Triangle = [number, number, number];
+
+/** One playing sample clip; the blend space owns its time and weight. */
+export interface BlendSpaceMotion {
+  getDuration: () => number;
+  /** Pose the clip at `time` seconds with `weight` for the next mixer evaluation. */
+  sync: (time: number, weight: number) => void;
+  stop: () => void;
+}
+
+export interface BlendSpaceHost {
+  playClip: (clipName: string) => BlendSpaceMotion | null;
+}
+
+export interface BlendSpaceOptions {
+  /** Wrap the shared phase instead of holding the last frame (default: true) */
+  loop?: boolean;
+  /** Playback rate (default: 1) */
+  speed?: number;
+  /** Master weight applied on top of the sample weights (default: 1) */
+  weight?: number;
+}
+
+const EPSILON = 1e-9;
+
+/** Structural problems with a blend space definition; empty when it is usable. */
+export function validateBlendSpace(definition: BlendSpaceDefinition): string[] {
+  const errors: string[] = [];
+  if (!definition?.samples?.length) {
+    errors.push('blend space has no samples');
+    return errors;
+  }
+  const seenClips = new Set<string>();
+  definition.samples.forEach((sample, index) => {
+    if (!sample.clip) errors.push(`sample ${index} has no clip`);
+    // Each clip plays as one action group, so a clip can only hold one sample's weight.
+    else if (seenClips.has(sample.clip)) errors.push(`sample ${index} repeats clip "${sample.clip}"`);
+    else seenClips.add(sample.clip);
+    const valid = definition.type === '1d'
+      ? typeof sample.position === 'number' && Number.isFinite(sample.position)
+      : Array.isArray(sample.position) && sample.position.length === 2 && sample.position.every(Number.isFinite);
+    if (!valid) errors.push(`sample ${index} position does not fit a ${definition.type} blend space`);
+  });
+  return errors;
+}
+
+/**
+ * Weights for a 1D blend space: the two samples around `x` share the weight
+ * linearly; outside the range the nearest end sample takes it all.
+ */
+export function computeBlendSpace1DWeights(positions: number[], x: number): number[] {
+  const weights = positions.map(() => 0);
+  if (!positions.length) return weights;
+  const order = positions.map((_, index) => index).sort((a, b) => positions[a] - positions[b]);
+  const first = order[0];
+  const last = order[order.length - 1];
+  if (x <= positions[first]) {
+    weights[first] = 1;
+    return weights;
+  }
+  if (x >= positions[last]) {
+    weights[last] = 1;
+    return weights;
+  }
+  for (let k = 0; k < order.length - 1; k++) {
+    const a = order[k];
+    const b = order[k + 1];
+    if (x < positions[a] || x > positions[b]) continue;
+    const span = positions[b] - positions[a];
+    const t = span > EPSILON ? (x - positions[a]) / span : 0;
+    weights[a] = 1 - t;
+    weights[b] = t;
+    break;
+  }
+  return weights;
+}
+
+function circumcircle(points: Point[], [a, b, c]: Triangle) {
+  const [ax, ay] = points[a];
+  const [bx, by] = points[b];
+  const [cx, cy] = points[c];
+  const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by));
+  if (Math.abs(d) < EPSILON) return { x: 0, y: 0, r2: Infinity };
+  const a2 = ax * ax + ay * ay;
+  const b2 = bx * bx + by * by;
+  const c2 = cx * cx + cy * cy;
+  const x = (a2 * (by - cy) + b2 * (cy - ay) + c2 * (ay - by)) / d;
+  const y = (a2 * (cx - bx) + b2 * (ax - cx) + c2 * (bx - ax)) / d;
+  return { x, y, r2: (ax - x) ** 2 + (ay - y) ** 2 };
+}
+
+/** Delaunay triangulation (Bowyer-Watson) of 2D sample points, as index triples. */
+export function triangulateBlendSpace(points: Point[]): Triangle[] {
+  if (points.length < 3) return [];
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  const midX = minX + size / 2;
+  const midY = minY + size / 2;
+
+  const n = points.length;
+  const all: Point[] = [
+    ...points,
+    [midX - 20 * size, midY - size],
+    [midX, midY + 20 * size],
+    [midX + 20 * size, midY - size],
+  ];
+  let triangles: Triangle[] = [[n, n + 1, n + 2]];
+
+  for (let i = 0; i < n; i++) {
+    const [px, py] = all[i];
+    const bad: Triangle[] = [];
+    const kept: Triangle[] = [];
+    for (const triangle of triangles) {
+      const circle = circumcircle(all, triangle);
+      if ((px - circle.x) ** 2 + (py - circle.y) ** 2 < circle.r2 - EPSILON) bad.push(triangle);
+      else kept.push(triangle);
+    }
+
+    const edgeCounts = new Map<string, [number, number]>();
+    const seen = new Map<string, number>();
+    for (const [a, b, c] of bad) {
+      for (const [u, v] of [[a, b], [b, c], [c, a]] as Array<[number, number]>) {
+        const key = u < v ? `${u},${v}` : `${v},${u}`;
+        seen.set(key, (seen.get(key) ?? 0) + 1);
+        edgeCounts.set(key, [u, v]);
+      }
+    }
+    triangles = kept;
+    for (const [key, [u, v]] of edgeCounts) {
+      if (seen.get(key) === 1) triangles.push([u, v, i]);
+    }
+  }
+
+  return triangles.filter(([a, b, c]) => {
+    if (a >= n || b >= n || c >= n) return false;
+    return Number.isFinite(circumcircle(points, [a, b, c]).r2);
+  });
+}
+
+function barycentric(points: Point[], [a, b, c]: Triangle, x: number, y: number): [number, number, number] | null {
+  const [ax, ay] = points[a];
+  const [bx, by] = points[b];
+  const [cx, cy] = points[c];
+  const det = (by - cy) * (ax - cx) + (cx - bx) * (ay - cy);
+  if (Math.abs(det) < EPSILON) return null;
+  const l1 = ((by - cy) * (x - cx) + (cx - bx) * (y - cy)) / det;
+  const l2 = ((cy - ay) * (x - cx) + (ax - cx) * (y - cy)) / det;
+  return [l1, l2, 1 - l1 - l2];
+}
+
+/**
+ * Weights for a 2D blend space. Inside the triangulation the containing
+ * triangle's barycentric coordinates are used; outside it the position snaps
+ * to the nearest hull edge and its two samples share the weight.
+ */
+export function computeBlendSpace2DWeights(points: Point[], triangles: Triangle[], x: number, y: number): number[] {
+  const weights = points.map(() => 0);
+  if (!points.length) return weights;
+  if (points.length === 1) {
+    weights[0] = 1;
+    return weights;
+  }
+
+  for (const triangle of triangles) {
+    const coords = barycentric(points, triangle, x, y);
+    if (!coords || coords.some((value) => value < -1e-6)) continue;
+    const total = coords.reduce((sum, value) => sum + Math.max(0, value), 0);
+    triangle.forEach((index, k) => { weights[index] = Math.max(0, coords[k]) / total; });
+    return weights;
+  }
+
+  // Outside the hull (or all samples collinear): nearest point on a boundary edge.
+  const edges: Array<[number, number]> = [];
+  if (triangles.length) {
+    const counts = new Map<string, { edge: [number, number]; count: number }>();
+    for (const [a, b, c] of triangles) {
+      for (const [u, v] of [[a, b], [b, c], [c, a]] as Array<[number, number]>) {
+        const key = u < v ? `${u},${v}` : `${v},${u}`;
+        const entry = counts.get(key) ?? { edge: [u, v], count: 0 };
+        entry.count += 1;
+        counts.set(key, entry);
+      }
+    }
+    for (const { edge, count } of counts.values()) if (count === 1) edges.push(edge);
+  } else {
+    for (let a = 0; a < points.length; a++) {
+      for (let b = a + 1; b < points.length; b++) edges.push([a, b]);
+    }
+  }
+
+  let best = { distance: Infinity, length: Infinity, a: 0, b: 0, t: 0 };
+  for (const [a, b] of edges) {
+    const [ax, ay] = points[a];
+    const dx = points[b][0] - ax;
+    const dy = points[b][1] - ay;
+    const length2 = dx * dx + dy * dy;
+    const t = length2 > EPSILON ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / length2)) : 0;
+    const distance = (ax + dx * t - x) ** 2 + (ay + dy * t - y) ** 2;
+    if (distance < best.distance - EPSILON || (Math.abs(distance - best.distance) <= EPSILON && length2 < best.length)) {
+      best = { distance, length: length2, a, b, t };
+    }
+  }
+  weights[best.a] += 1 - best.t;
+  weights[best.b] += best.t;
+  return weights;
+}
+
+/**
+ * Blends several baked clips by a 1D or 2D position.
+ *
+ * The node owns clip time: with `syncTime` every sample plays at one shared
+ * normalized phase, advanced by the weight-averaged duration, so a 1 s idle
+ * and a 1.6 s talk loop stay aligned at any blend.
+ */
+export class BlendSpaceNode {
+  private definition: BlendSpaceDefinition;
+  private host: BlendSpaceHost;
+  private points: Point[];
+  private triangles: Triangle[];
+  private motions: Array<BlendSpaceMotion | null> = [];
+  private durations: number[] = [];
+  private times: number[] = [];
+  private weights: number[];
+  private position: Point = [0, 0];
+  private phase = 0;
+  private loop: boolean;
+  private speed: number;
+  private weight: number;
+  private active = false;
+
+  constructor(definition: BlendSpaceDefinition, host: BlendSpaceHost, options: BlendSpaceOptions = {}) {
+    this.definition = definition;
+    this.host = host;
+    this.points = definition.samples.map((sample) =>
+      typeof sample.position === 'number' ? [sample.position, 0] : [sample.position[0], sample.position[1]]
+    );
+    this.triangles = definition.type === '2d' ? triangulateBlendSpace(this.points) : [];
+    this.weights = this.computeWeights();
+    this.loop = options.loop ?? true;
+    this.speed = options.speed ?? 1;
+    this.weight = options.weight ?? 1;
+  }
+
+  getDefinition(): BlendSpaceDefinition {
+    return this.definition;
+  }
+
+  /** Start every sample clip at phase 0. */
+  start(): void {
+    this.stop();
+    this.motions = this.definition.samples.map((sample) => this.host.playClip(sample.clip));
+    this.durations = this.motions.map((motion) => motion?.getDuration() ?? 0);
+    this.times = this.durations.map(() => 0);
+    this.phase = 0;
+    this.active = true;
+    this.apply();
+  }
+
+  stop(): void {
+    for (const motion of this.motions) motion?.stop();
+    this.motions = [];
+    this.active = false;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  setPosition(x: number, y = 0): void {
+    this.position = [x, y];
+    this.weights = this.computeWeights();
+  }
+
+  getPosition(): Point {
+    return [...this.position];
+  }
+
+  /** Read the position from named parameters (the definition's `parameter` / `parameters`). */
+  setParameters(parameters: Record<string, number | boolean>): void {
+    if (this.definition.type === '1d') {
+      if (this.definition.parameter) this.setPosition(Number(parameters[this.definition.parameter] ?? 0));
+      return;
+    }
+    if (this.definition.parameters) {
+      const [xName, yName] = this.definition.parameters;
+      this.setPosition(Number(parameters[xName] ?? 0), Number(parameters[yName] ?? 0));
+    }
+  }
+
+  setWeight(weight: number): void {
+    this.weight = Math.max(0, weight);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+
+  /** Current weight of each sample clip (before the master weight), keyed by clip name. */
+  getSampleWeights(): Record<string, number> {
+    const result: Record<string, number> = {};
+    this.definition.samples.forEach((sample, index) => {
+      result[sample.clip] = (result[sample.clip] ?? 0) + this.weights[index];
+    });
+    return result;
+  }
+
+  /** Shared normalized phase (0-1) when time sync is on. */
+  getPhase(): number {
+    return this.phase;
+  }
+
+  /** Weight-averaged clip duration, i.e. the length of one synced cycle. */
+  getDuration(): number {
+    return this.weights.reduce((sum, weight, index) => sum + weight * (this.durations[index] ?? 0), 0);
+  }
+
+  update(dtSeconds: number): void {
+    if (!this.active) return;
+    const step = dtSeconds * this.speed;
+
+    if (this.definition.syncTime ?? true) {
+      const duration = this.getDuration();
+      if (duration > EPSILON) this.phase += step / duration;
+      this.phase = this.loop ? this.phase % 1 : Math.min(1, this.phase);
+      this.times = this.durations.map((clipDuration) => this.phase * clipDuration);
+    } else {
+      this.times = this.times.map((time, index) => {
+        const clipDuration = this.durations[index];
+        const next = time + step;
+        if (clipDuration <= EPSILON) return 0;
+        return this.loop ? next % clipDuration : Math.min(clipDuration, next);
+      });
+    }
+    this.apply();
+  }
+
+  private computeWeights(): number[] {
+    if (this.definition.type === '1d') {
+      return computeBlendSpace1DWeights(this.points.map((point) => point[0]), this.position[0]);
+    }
+    return computeBlendSpace2DWeights(this.points, this.triangles, this.position[0], this.position[1]);
+  }
+
+  private apply(): void {
+    this.motions.forEach((motion, index) => {
+      motion?.sync(this.times[index] ?? 0, this.weight * this.weights[index]);
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { BlinkController, sampleBlinkShape, type BlinkHost } from './BlinkController';
+
+function makeHost(rotations: Record<string, { yaw: number; pitch: number }> = {}): BlinkHost {
+  return { getEyeRotation: (nodeKey) => rotations[nodeKey] };
+}
+
+function step(controller: BlinkController, seconds: number, dt = 1 / 60): Array<Record<number, number>> {
+  const frames: Array<Record<number, number>> = [];
+  for (let t = 0; t < seconds - 1e-9; t += dt) {
+    frames.push(controller.update(dt));
+  }
+  return frames;
+}
+
+describe('BlinkController', () => {
+  it('samples an asymmetric close/hold/open lid curve', () => {
+    const shape = { closeMs: 80, holdMs: 40, openMs: 160 };
+    expect(sampleBlinkShape(0, shape)).toBe(0);
+    expect(sampleBlinkShape(40, shape)).toBeCloseTo(0.25);
+    expect(sampleBlinkShape(100, shape)).toBe(1);
+    expect(sampleBlinkShape(160, shape)).toBeCloseTo(0.42, 2);
+    expect(sampleBlinkShape(400, shape)).toBe(0);
+  });
+
+  it('emits nothing while disabled', () => {
+    const controller = new BlinkController(makeHost(), () => 0.5);
+    expect(step(controller, 10).every((frame) => Object.keys(frame).length === 0)).toBe(true);
+  });
+
+  it('blinks autonomously within the configured interval range', () => {
+    const controller = new BlinkController(makeHost(), () => 0.5);
+    controller.setConfig({ minIntervalMs: 1000, meanIntervalMs: 2000, doubleBlinkChance: 0 });
+    controller.setEnabled(true);
+
+    const frames = step(controller, 3);
+    const firstBlinkFrame = frames.findIndex((frame) => (frame[45] ?? 0) > 0);
+    // 1000 + ln(2) * 1000 ≈ 1693ms
+    expect(firstBlinkFrame / 60).toBeGreaterThan(1.6);
+    expect(firstBlinkFrame / 60).toBeLessThan(1.8);
+    expect(Math.max(...frames.map((frame) => frame[45] ?? 0))).toBeGreaterThan(0.85);
+  });
+
+  it('suppresses autonomous blinks while paused but still plays manual blinks', () => {
+    const controller = new BlinkController(makeHost(), () => 0.5);
+    controller.setConfig({ minIntervalMs: 100, meanIntervalMs: 200 });
+    controller.setEnabled(true);
+    controller.pause();
+
+    expect(step(controller, 2).some((frame) => (frame[45] ?? 0) > 0)).toBe(false);
+
+    controller.blink({ amplitude: 0.6, closeMs: 50, holdMs: 50, openMs: 50 });
+    const frames = step(controller, 0.2);
+    expect(Math.max(...frames.map((frame) => frame[45] ?? 0))).toBeCloseTo(0.6);
+  });
+
+  it('triggers a blink on a large eye saccade', () => {
+    const rotations = { EYE_L: { yaw: 0, pitch: 0 }, EYE_R: { yaw: 0, pitch: 0 } };
+    const controller = new BlinkController(makeHost(rotations), () => 0.1);
+    controller.setConfig({ minIntervalMs: 60000, meanIntervalMs: 60000, lidFollowDown: 0, lidFollowUp: 0 });
+    controller.setEnabled(true);
+
+    step(controller, 0.5);
+    rotations.EYE_L.yaw = 0.6;
+    rotations.EYE_R.yaw = 0.6;
+    const frames = step(controller, 0.2);
+    expect(Math.max(...frames.map((frame) => frame[45] ?? 0))).toBeGreaterThan(0.5);
+  });
+
+  it('follows eye pitch with the upper lid', () => {
+    const rotations = { EYE_L: { yaw: 0, pitch: -1 }, EYE_R: { yaw: 0, pitch: -1 } };
+    const controller = new BlinkController(makeHost(rotations), () => 0.5);
+    controller.setConfig({ minIntervalMs: 60000, meanIntervalMs: 60000, gazeBlinkChance: 0 });
+    controller.setEnabled(true);
+
+    expect(controller.update(1 / 60)[45]).toBeCloseTo(0.45);
+
+    rotations.EYE_L.pitch = 1;
+    rotations.EYE_R.pitch = 1;
+    const overlay = controller.update(1 / 60);
+    expect(overlay[45]).toBeUndefined();
+    expect(overlay[5]).toBeCloseTo(0.3);
+  });
+});
@@ -0,0 +1,267 @@
+import type { BlinkProfileConfig } from '../../../mappings/types';
+
+export type BlinkConfig = Required<Omit<BlinkProfileConfig, 'enabled'>>;
+export type BlinkConfigUpdate = Partial<BlinkConfig>;
+
+/** Per-call overrides for a single blink. */
+export interface BlinkOptions {
+  closeMs?: number;
+  holdMs?: number;
+  openMs?: number;
+  /** Peak value (0-1) for this blink */
+  amplitude?: number;
+}
+
+export interface BlinkShape {
+  closeMs: number;
+  holdMs: number;
+  openMs: number;
+}
+
+export interface BlinkHost {
+  /** Current eye rotation state (-1..1) for a composite node, or undefined if the node is unknown. */
+  getEyeRotation: (nodeKey: string) => { yaw: number; pitch: number } | undefined;
+}
+
+export const DEFAULT_BLINK_CONFIG: BlinkConfig = {
+  blinkAUs: [45],
+  lidRaiseAUs: [5],
+  eyeNodes: ['EYE_L', 'EYE_R'],
+  minIntervalMs: 1200,
+  meanIntervalMs: 3800,
+  doubleBlinkChance: 0.12,
+  closeMs: 80,
+  holdMs: 40,
+  openMs: 170,
+  amplitude: 1,
+  amplitudeJitter: 0.1,
+  gazeBlinkThreshold: 0.35,
+  gazeBlinkChance: 0.7,
+  gazeWindowMs: 120,
+  lidFollowDown: 0.45,
+  lidFollowUp: 0.3,
+};
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+/**
+ * Blink lid curve: accelerating close, short hold, then a fast-then-settling open.
+ * Returns 0 (open) to 1 (closed) for a time since blink start.
+ */
+export function sampleBlinkShape(elapsedMs: number, shape: BlinkShape): number {
+  if (elapsedMs < 0) return 0;
+  const closeMs = Math.max(1, shape.closeMs);
+  const holdMs = Math.max(0, shape.holdMs);
+  const openMs = Math.max(1, shape.openMs);
+
+  if (elapsedMs < closeMs) {
+    const u = elapsedMs / closeMs;
+    return u * u;
+  }
+  if (elapsedMs < closeMs + holdMs) return 1;
+
+  const u = (elapsedMs - closeMs - holdMs) / openMs;
+  if (u >= 1) return 0;
+  return Math.pow(1 - u, 3);
+}
+
+interface ActiveBlink {
+  startMs: number;
+  shape: BlinkShape;
+  amplitude: number;
+}
+
+/**
+ * Autonomous blink and eyelid-follow layer.
+ *
+ * Produces an additive AU overlay each tick. It never writes AU state itself;
+ * Loom3 adds the overlay on top of whatever user AUs, transitions and clips set.
+ */
+export class BlinkController {
+  private host: BlinkHost;
+  private random: () => number;
+  private config: BlinkConfig = { ...DEFAULT_BLINK_CONFIG };
+  private enabled = false;
+  private nowMs = 0;
+  private nextBlinkAtMs: number | null = null;
+  private suppressedUntilMs = 0;
+  private activeBlinks: ActiveBlink[] = [];
+  private pendingDoubleBlinkAtMs: number | null = null;
+  private gazeHistory: Array<{ timeMs: number; yaw: number; pitch: number }> = [];
+  private lastGazeBlinkMs = -Infinity;
+
+  constructor(host: BlinkHost, random: () => number = Math.random) {
+    this.host = host;
+    this.random = random;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.nextBlinkAtMs = enabled ? this.nowMs + this.sampleInterval() : null;
+    this.pendingDoubleBlinkAtMs = null;
+    if (!enabled) {
+      this.activeBlinks = [];
+      this.gazeHistory = [];
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setConfig(update: BlinkConfigUpdate): void {
+    this.config = { ...this.config, ...update };
+  }
+
+  getConfig(): BlinkConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Suppress autonomous and gaze-triggered blinks. Manual `blink()` calls still play.
+   * @param durationMs - Suppress for this long, or until resume() when omitted
+   */
+  pause(durationMs?: number): void {
+    this.suppressedUntilMs = durationMs === undefined ? Infinity : this.nowMs + Math.max(0, durationMs);
+    this.pendingDoubleBlinkAtMs = null;
+  }
+
+  resume(): void {
+    this.suppressedUntilMs = 0;
+    if (this.enabled && (this.nextBlinkAtMs === null || this.nextBlinkAtMs < this.nowMs)) {
+      this.nextBlinkAtMs = this.nowMs + this.sampleInterval();
+    }
+  }
+
+  isPaused(): boolean {
+    return this.nowMs < this.suppressedUntilMs;
+  }
+
+  /** Trigger a blink now, overriding shape/amplitude for this call only. */
+  blink(options: BlinkOptions = {}): void {
+    this.startBlink(options);
+  }
+
+  /** Current blink closure (0-1), excluding lid follow. */
+  getBlinkValue(): number {
+    let value = 0;
+    for (const blink of this.activeBlinks) {
+      value = Math.max(value, sampleBlinkShape(this.nowMs - blink.startMs, blink.shape) * blink.amplitude);
+    }
+    return value;
+  }
+
+  reset(): void {
+    this.activeBlinks = [];
+    this.gazeHistory = [];
+    this.pendingDoubleBlinkAtMs = null;
+    this.nextBlinkAtMs = this.enabled ? this.nowMs + this.sampleInterval() : null;
+  }
+
+  /**
+   * Advance the blink clock and return the additive AU overlay for this frame.
+   */
+  update(dtSeconds: number): Record<number, number> {
+    this.nowMs += Math.max(0, dtSeconds) * 1000;
+    if (!this.enabled) return {};
+
+    const gaze = this.sampleGaze();
+    const suppressed = this.isPaused();
+
+    if (!suppressed) {
+      if (this.detectSaccade(gaze) && this.random() < this.config.gazeBlinkChance) {
+        this.lastGazeBlinkMs = this.nowMs;
+        this.startBlink();
+        this.nextBlinkAtMs = this.nowMs + this.sampleInterval();
+      }
+
+      if (this.pendingDoubleBlinkAtMs !== null && this.nowMs >= this.pendingDoubleBlinkAtMs) {
+        this.pendingDoubleBlinkAtMs = null;
+        this.startBlink();
+      }
+
+      if (this.nextBlinkAtMs !== null && this.nowMs >= this.nextBlinkAtMs) {
+        this.startBlink();
+        if (this.random() < this.config.doubleBlinkChance) {
+          const { closeMs, holdMs, openMs } = this.config;
+          this.pendingDoubleBlinkAtMs = this.nowMs + closeMs + holdMs + openMs * 0.6;
+        }
+        this.nextBlinkAtMs = this.nowMs + this.sampleInterval();
+      }
+    }
+
+    const blinkValue = this.getBlinkValue();
+    this.activeBlinks = this.activeBlinks.filter((blink) => {
+      const { closeMs, holdMs, openMs } = blink.shape;
+      return this.nowMs - blink.startMs < closeMs + holdMs + openMs;
+    });
+
+    const lidDown = Math.max(0, -gaze.pitch) * this.config.lidFollowDown;
+    const lidUp = Math.max(0, gaze.pitch) * this.config.lidFollowUp;
+    const closure = clamp01(blinkValue + lidDown * (1 - blinkValue));
+    const raise = clamp01(lidUp * (1 - blinkValue));
+
+    const overlay: Record<number, number> = {};
+    if (closure > 1e-6) {
+      for (const auId of this.config.blinkAUs) overlay[auId] = closure;
+    }
+    if (raise > 1e-6) {
+      for (const auId of this.config.lidRaiseAUs) overlay[auId] = Math.max(overlay[auId] ?? 0, raise);
+    }
+    return overlay;
+  }
+
+  private startBlink(options: BlinkOptions = {}): void {
+    const jitter = this.config.amplitudeJitter * this.random();
+    const amplitude = options.amplitude ?? this.config.amplitude - jitter;
+    this.activeBlinks.push({
+      startMs: this.nowMs,
+      shape: {
+        closeMs: options.closeMs ?? this.config.closeMs,
+        holdMs: options.holdMs ?? this.config.holdMs,
+        openMs: options.openMs ?? this.config.openMs,
+      },
+      amplitude: clamp01(amplitude),
+    });
+  }
+
+  /** Exponential inter-blink interval with a refractory minimum. */
+  private sampleInterval(): number {
+    const { minIntervalMs, meanIntervalMs } = this.config;
+    const spread = Math.max(0, meanIntervalMs - minIntervalMs);
+    const u = Math.min(0.999999, this.random());
+    return minIntervalMs - Math.log(1 - u) * spread;
+  }
+
+  private sampleGaze(): { yaw: number; pitch: number } {
+    let yaw = 0;
+    let pitch = 0;
+    let count = 0;
+    for (const node of this.config.eyeNodes) {
+      const rotation = this.host.getEyeRotation(node);
+      if (!rotation) continue;
+      yaw += rotation.yaw;
+      pitch += rotation.pitch;
+      count += 1;
+    }
+    return count > 0 ? { yaw: yaw / count, pitch: pitch / count } : { yaw: 0, pitch: 0 };
+  }
+
+  private detectSaccade(gaze: { yaw: number; pitch: number }): boolean {
+    const windowMs = this.config.gazeWindowMs;
+    this.gazeHistory.push({ timeMs: this.nowMs, ...gaze });
+    this.gazeHistory = this.gazeHistory.filter((sample) => this.nowMs - sample.timeMs <= windowMs);
+
+    if (this.nowMs - this.lastGazeBlinkMs < windowMs * 4) return false;
+
+    let maxDelta = 0;
+    for (const sample of this.gazeHistory) {
+      const delta = Math.hypot(gaze.yaw - sample.yaw, gaze.pitch - sample.pitch);
+      maxDelta = Math.max(maxDelta, delta);
+    }
+    if (maxDelta < this.config.gazeBlinkThreshold) return false;
+
+    this.gazeHistory = [{ timeMs: this.nowMs, ...gaze }];
+    return true;
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { AdditiveAnimationBlendMode, AnimationAction, AnimationMixer, Object3D, Quaternion, Vector3 } from 'three';
+import { BreathingController, sampleBreathCurve, type BreathingHost } from './BreathingController';
+
+function makeRig(state: { arousal: number } = { arousal: 0 }) {
+  const model = new Object3D();
+  const spine = new Object3D();
+  spine.name = 'Spine02';
+  model.add(spine);
+  const mixer = new AnimationMixer(model);
+  const layers = new Map<string, AnimationAction>();
+  const host: BreathingHost = {
+    getBoneObject: (nodeKey) => (nodeKey === 'SPINE_02' ? spine : undefined),
+    getArousal: () => state.arousal,
+    playAdditiveLayer: (clip) => {
+      const action = mixer.clipAction(clip, undefined, AdditiveAnimationBlendMode);
+      action.play();
+      layers.set(clip.name, action);
+      return action;
+    },
+    stopAdditiveLayer: (clipName) => layers.get(clipName)?.stop(),
+  };
+  return { host, mixer, spine, state };
+}
+
+function run(controller: BreathingController, mixer: AnimationMixer, seconds: number, onFrame?: () => void) {
+  for (let t = 0; t < seconds - 1e-9; t += 1 / 60) {
+    controller.update(1 / 60);
+    mixer.update(1 / 60);
+    onFrame?.();
+  }
+}
+
+function countBreaths(controller: BreathingController, mixer: AnimationMixer, seconds: number): number {
+  let breaths = 0;
+  let inhaled = false;
+  run(controller, mixer, seconds, () => {
+    const value = controller.getBreathValue();
+    if (!inhaled && value > 0.8) {
+      breaths += 1;
+      inhaled = true;
+    } else if (inhaled && value < 0.2) {
+      inhaled = false;
+    }
+  });
+  return breaths;
+}
+
+describe('sampleBreathCurve', () => {
+  it('inhales to 1, exhales and rests at 0', () => {
+    expect(sampleBreathCurve(0, 'calm')).toBe(0);
+    expect(sampleBreathCurve(0.4, 'calm')).toBeCloseTo(1);
+    expect(sampleBreathCurve(0.95, 'calm')).toBe(0);
+    expect(sampleBreathCurve(1.4, 'calm')).toBeCloseTo(1);
+  });
+
+  it('adds a deeper sigh to the sighing loop', () => {
+    const samples = Array.from({ length: 500 }, (_, i) => sampleBreathCurve((i / 500) * 5, 'sighing'));
+    expect(Math.max(...samples.slice(0, 300))).toBeCloseTo(1, 2);
+    expect(Math.max(...samples.slice(300))).toBeGreaterThan(1.5);
+  });
+});
+
+describe('BreathingController', () => {
+  it('rotates configured bones additively on top of their current pose', () => {
+    const { host, mixer, spine } = makeRig();
+    spine.quaternion.setFromAxisAngle(new Vector3(0, 1, 0), 0.5);
+    const pose = spine.quaternion.clone();
+
+    const controller = new BreathingController(host);
+    controller.setConfig({ bones: [{ node: 'SPINE_02', rx: -4 }], rate: 12 });
+    controller.setEnabled(true);
+
+    let maxAngle = 0;
+    run(controller, mixer, 5, () => {
+      maxAngle = Math.max(maxAngle, spine.quaternion.angleTo(pose));
+    });
+    expect(maxAngle * (180 / Math.PI)).toBeGreaterThan(3.5);
+    expect(maxAngle * (180 / Math.PI)).toBeLessThan(4.5);
+
+    const delta = pose.clone().invert().multiply(spine.quaternion);
+    expect(Math.abs(delta.y)).toBeLessThan(1e-3);
+
+    controller.setEnabled(false);
+    mixer.update(1 / 60);
+    expect(spine.quaternion.angleTo(new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), 0.5))).toBeLessThan(1e-6);
+  });
+
+  it('breathes faster and deeper with higher arousal', () => {
+    const calm = makeRig();
+    const calmController = new BreathingController(calm.host);
+    calmController.setEnabled(true);
+    const calmBreaths = countBreaths(calmController, calm.mixer, 30);
+
+    const excited = makeRig({ arousal: 1 });
+    const excitedController = new BreathingController(excited.host);
+    excitedController.setConfig({ responseMs: 0 });
+    excitedController.setEnabled(true);
+    const excitedBreaths = countBreaths(excitedController, excited.mixer, 30);
+
+    expect(calmBreaths).toBeGreaterThanOrEqual(6);
+    expect(calmBreaths).toBeLessThanOrEqual(8);
+    expect(excitedBreaths).toBeGreaterThan(calmBreaths + 2);
+  });
+
+  it('flares nostril AUs with the inhale', () => {
+    const { host, mixer } = makeRig();
+    const controller = new BreathingController(host);
+    controller.setConfig({ nostrilAUs: [38], nostrilAmount: 0.5, rate: 60 });
+    controller.setEnabled(true);
+
+    let peak = 0;
+    for (let i = 0; i < 60; i += 1) {
+      const overlay = controller.update(1 / 60);
+      mixer.update(1 / 60);
+      peak = Math.max(peak, overlay[38] ?? 0);
+    }
+    expect(peak).toBeCloseTo(0.5, 2);
+  });
+
+  it('scales the nostril flare with breath depth and style', () => {
+    const peakFlare = (config: Parameters<BreathingController['setConfig']>[0]) => {
+      const { host, mixer } = makeRig();
+      const controller = new BreathingController(host);
+      controller.setConfig({ nostrilAUs: [38], nostrilAmount: 0.2, rate: 60, ...config });
+      controller.setEnabled(true);
+      let peak = 0;
+      for (let i = 0; i < 60; i += 1) {
+        const overlay = controller.update(1 / 60);
+        mixer.update(1 / 60);
+        peak = Math.max(peak, overlay[38] ?? 0);
+      }
+      return peak;
+    };
+
+    expect(peakFlare({ depth: 0 })).toBe(0);
+    expect(peakFlare({ depth: 0.5 })).toBeCloseTo(0.1, 2);
+    // 'heavy' breathes 1.7x deeper than 'calm', and flares as much more.
+    expect(peakFlare({ style: 'heavy' })).toBeCloseTo(0.2 * 1.7, 2);
+  });
+});
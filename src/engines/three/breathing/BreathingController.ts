@@ -0,0 +1,245 @@
+import { AnimationClip, Euler, Quaternion, QuaternionKeyframeTrack } from 'three';
+import type { AnimationAction, Object3D } from 'three';
+import type { BreathingBoneConfig, BreathingProfileConfig, BreathingStyle } from '../../../mappings/types';
+
+export type BreathingConfig = Required<Omit<BreathingProfileConfig, 'enabled'>>;
+export type BreathingConfigUpdate = Partial<BreathingConfig>;
+
+export interface BreathingHost {
+  getBoneObject: (nodeKey: string) => Object3D | undefined;
+  /** Current affect arousal (-1..1); 0 when no affect is set. */
+  getArousal: () => number;
+  playAdditiveLayer: (clip: AnimationClip) => AnimationAction | null;
+  stopAdditiveLayer: (clipName: string) => void;
+}
+
+export const DEFAULT_BREATHING_BONES: BreathingBoneConfig[] = [
+  { node: 'SPINE_01', rx: -0.6 },
+  { node: 'SPINE_02', rx: -1.4 },
+  { node: 'CLAVICLE_L', rz: 1.2 },
+  { node: 'CLAVICLE_R', rz: -1.2 },
+];
+
+export const DEFAULT_BREATHING_CONFIG: BreathingConfig = {
+  style: 'calm',
+  rate: 14,
+  depth: 1,
+  bones: DEFAULT_BREATHING_BONES,
+  nostrilAUs: [],
+  nostrilAmount: 0.25,
+  arousalRate: 0.6,
+  arousalDepth: 0.4,
+  responseMs: 1500,
+};
+
+interface BreathingStyleShape {
+  /** Breath periods covered by one clip loop */
+  cycles: number;
+  /** Multiplier on the configured rate */
+  rateScale: number;
+  /** Multiplier on the configured depth */
+  depthScale: number;
+  /** Fraction of a breath spent inhaling */
+  inhale: number;
+  /** Fraction of a breath spent at rest after exhaling */
+  rest: number;
+}
+
+const BREATHING_STYLES: Record<BreathingStyle, BreathingStyleShape> = {
+  calm: { cycles: 1, rateScale: 1, depthScale: 1, inhale: 0.4, rest: 0.1 },
+  heavy: { cycles: 1, rateScale: 0.8, depthScale: 1.7, inhale: 0.45, rest: 0.02 },
+  // Three calm breaths, then a sigh that spans two breath periods.
+  sighing: { cycles: 5, rateScale: 1, depthScale: 1, inhale: 0.4, rest: 0.1 },
+};
+
+const SAMPLES_PER_CYCLE = 24;
+const SIGH_PEAK = 1.8;
+
+const ease = (u: number) => 0.5 - 0.5 * Math.cos(Math.PI * Math.max(0, Math.min(1, u)));
+
+function sampleSingleBreath(u: number, shape: BreathingStyleShape): number {
+  if (u < shape.inhale) return ease(u / shape.inhale);
+  const exhale = Math.max(1e-3, 1 - shape.inhale - shape.rest);
+  return 1 - ease((u - shape.inhale) / exhale);
+}
+
+function sampleSigh(u: number): number {
+  // Normal inhale, a short second top-up inhale, then a long exhale.
+  if (u < 0.2) return ease(u / 0.2);
+  if (u < 0.3) return 1 + (SIGH_PEAK - 1) * ease((u - 0.2) / 0.1);
+  if (u < 0.85) return SIGH_PEAK * (1 - ease((u - 0.3) / 0.55));
+  return 0;
+}
+
+/**
+ * Breath amount (0 = exhaled, 1 = full inhale; sighs go above 1)
+ * at a time measured in breath periods from the start of a style loop.
+ */
+export function sampleBreathCurve(cycleTime: number, style: BreathingStyle): number {
+  const shape = BREATHING_STYLES[style] ?? BREATHING_STYLES.calm;
+  const t = ((cycleTime % shape.cycles) + shape.cycles) % shape.cycles;
+  if (style === 'sighing' && t >= 3) return sampleSigh((t - 3) / 2);
+  return sampleSingleBreath(t - Math.floor(t), shape);
+}
+
+const deg2rad = (d: number) => (d * Math.PI) / 180;
+
+function smoothToward(current: number, target: number, dtMs: number, timeConstantMs: number): number {
+  if (timeConstantMs <= 0) return target;
+  return current + (target - current) * (1 - Math.exp(-dtMs / timeConstantMs));
+}
+
+/**
+ * Procedural breathing layer.
+ *
+ * Bakes one loop of the selected style into bone-delta quaternion tracks and plays
+ * it as an additive layer on the baked mixer, so it stacks on top of body clips.
+ * The controller owns the breath clock: it scrubs the action each tick, which lets
+ * arousal change the rate without rebuilding the clip.
+ */
+export class BreathingController {
+  private host: BreathingHost;
+  private config: BreathingConfig = { ...DEFAULT_BREATHING_CONFIG };
+  private enabled = false;
+  private action: AnimationAction | null = null;
+  private clipDirty = true;
+  private clipDepth = 1;
+  private cycleTime = 0;
+  private rateScale = 1;
+  private depthScale = 1;
+  private breathValue = 0;
+  readonly clipName = 'loom3_breathing';
+
+  constructor(host: BreathingHost) {
+    this.host = host;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.stopLayer();
+    this.clipDirty = true;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setConfig(update: BreathingConfigUpdate): void {
+    this.config = { ...this.config, ...update };
+    if (update.style !== undefined || update.depth !== undefined || update.bones !== undefined
+      || update.arousalDepth !== undefined) {
+      this.clipDirty = true;
+    }
+  }
+
+  getConfig(): BreathingConfig {
+    return { ...this.config, bones: this.config.bones.map((bone) => ({ ...bone })) };
+  }
+
+  /** Current breath amount (0 = exhaled, 1 = full inhale) after depth and arousal scaling. */
+  getBreathValue(): number {
+    return this.breathValue;
+  }
+
+  /** Rebuild the clip on the next tick (e.g. after the model or profile changes). */
+  refresh(): void {
+    this.stopLayer();
+    this.clipDirty = true;
+  }
+
+  reset(): void {
+    this.cycleTime = 0;
+    this.rateScale = 1;
+    this.depthScale = 1;
+    this.breathValue = 0;
+  }
+
+  /**
+   * Advance the breath clock, scrub the additive layer and return the nostril AU overlay.
+   * Call before the baked mixer updates.
+   */
+  update(dtSeconds: number): Record<number, number> {
+    if (!this.enabled) return {};
+    const dtMs = Math.max(0, dtSeconds) * 1000;
+    const shape = BREATHING_STYLES[this.config.style] ?? BREATHING_STYLES.calm;
+
+    const arousal = Math.max(-1, Math.min(1, this.host.getArousal() || 0));
+    const targetRate = Math.max(0.2, 1 + arousal * this.config.arousalRate);
+    const targetDepth = Math.max(0, 1 + arousal * this.config.arousalDepth);
+    this.rateScale = smoothToward(this.rateScale, targetRate, dtMs, this.config.responseMs);
+    this.depthScale = smoothToward(this.depthScale, targetDepth, dtMs, this.config.responseMs);
+
+    const breathsPerSecond = (Math.max(0, this.config.rate) * shape.rateScale * this.rateScale) / 60;
+    this.cycleTime = (this.cycleTime + breathsPerSecond * (dtMs / 1000)) % shape.cycles;
+
+    if (this.clipDirty) this.startLayer(shape);
+
+    // The clip is baked at the deepest arousal-scaled depth; weight scales it back down.
+    const weight = this.clipDepth > 0 ? Math.min(1, (this.config.depth * this.depthScale) / this.clipDepth) : 0;
+    if (this.action) {
+      this.action.time = this.cycleTime;
+      this.action.setEffectiveWeight(weight);
+    }
+
+    const curve = sampleBreathCurve(this.cycleTime, this.config.style);
+    this.breathValue = curve * shape.depthScale * this.config.depth * this.depthScale;
+
+    const overlay: Record<number, number> = {};
+    const nostril = Math.min(1, Math.max(0, this.breathValue * this.config.nostrilAmount));
+    if (nostril > 1e-6) {
+      for (const auId of this.config.nostrilAUs) overlay[auId] = nostril;
+    }
+    return overlay;
+  }
+
+  private startLayer(shape: BreathingStyleShape): void {
+    this.stopLayer();
+    this.clipDirty = false;
+
+    this.clipDepth = Math.max(0, this.config.depth) * (1 + Math.max(0, this.config.arousalDepth));
+    const clip = this.buildClip(shape, this.clipDepth * shape.depthScale);
+    if (!clip) return;
+    this.action = this.host.playAdditiveLayer(clip);
+    this.action?.setEffectiveTimeScale(0);
+  }
+
+  private stopLayer(): void {
+    if (!this.action) return;
+    this.host.stopAdditiveLayer(this.clipName);
+    this.action = null;
+  }
+
+  /**
+   * One style loop as delta quaternions, sampled on a unit time base
+   * (1 second per breath period); the clock maps real time onto it.
+   */
+  private buildClip(shape: BreathingStyleShape, amplitude: number): AnimationClip | null {
+    const sampleCount = shape.cycles * SAMPLES_PER_CYCLE;
+    const times: number[] = [];
+    const curve: number[] = [];
+    for (let i = 0; i <= sampleCount; i += 1) {
+      const cycleTime = (i / sampleCount) * shape.cycles;
+      times.push(cycleTime);
+      curve.push(i === sampleCount ? sampleBreathCurve(0, this.config.style) : sampleBreathCurve(cycleTime, this.config.style));
+    }
+
+    const tracks: QuaternionKeyframeTrack[] = [];
+    const euler = new Euler();
+    const quaternion = new Quaternion();
+    for (const bone of this.config.bones) {
+      const obj = this.host.getBoneObject(bone.node);
+      if (!obj) continue;
+      const values: number[] = [];
+      for (const amount of curve) {
+        const scale = amount * amplitude;
+        euler.set(deg2rad((bone.rx ?? 0) * scale), deg2rad((bone.ry ?? 0) * scale), deg2rad((bone.rz ?? 0) * scale));
+        quaternion.setFromEuler(euler);
+        values.push(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+      }
+      tracks.push(new QuaternionKeyframeTrack(`${obj.uuid}.quaternion`, times, values));
+    }
+
+    if (tracks.length === 0) return null;
+    return new AnimationClip(this.clipName, shape.cycles, tracks);
+  }
+}
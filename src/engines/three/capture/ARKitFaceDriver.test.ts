@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ARKitFaceDriver, arkitFrameToAUs, normalizeARKitFrame } from './ARKitFaceDriver';
+
+function createHost() {
+  const aus = new Map<number, { value: number; balance?: number }>();
+  const continuums = new Map<string, number>();
+  return {
+    aus,
+    continuums,
+    setAU: (id: number, value: number, balance?: number) => aus.set(id, { value, balance }),
+    setContinuum: (negAU: number, posAU: number, value: number) => continuums.set(`${negAU}/${posAU}`, value),
+  };
+}
+
+describe('normalizeARKitFrame', () => {
+  it('accepts Live Link Face, wrapped and category-list payloads', () => {
+    expect(normalizeARKitFrame({ JawOpen: 0.4, EyeBlinkLeft: 1, Timecode: '00:00' })).toEqual({ jawOpen: 0.4, eyeBlinkLeft: 1 });
+    expect(normalizeARKitFrame({ blendShapes: { mouthPucker: 0.5 }, HeadYaw: 0.2 })).toEqual({ mouthPucker: 0.5, headYaw: 0.2 });
+    expect(normalizeARKitFrame([
+      { categoryName: 'browInnerUp', score: 0.3 },
+      { name: 'mouthLeft', value: 0.9 },
+      { key: 'cheekPuff', value: 0.1 },
+    ])).toEqual({ browInnerUp: 0.3, cheekPuff: 0.1 });
+  });
+});
+
+describe('arkitFrameToAUs', () => {
+  it('folds left/right shapes into one AU with a balance that restores both sides', () => {
+    const { aus } = arkitFrameToAUs({ mouthSmileLeft: 0.8, mouthSmileRight: 0.4, eyeBlinkLeft: 0.5, eyeBlinkRight: 1 });
+    const smile = aus.find((au) => au.id === 12)!;
+    const blink = aus.find((au) => au.id === 43)!;
+
+    expect(smile.value).toBe(0.8);
+    expect(smile.value * (1 + smile.balance!)).toBeCloseTo(0.4);
+    expect(blink.value).toBe(1);
+    expect(blink.value * (1 - blink.balance!)).toBeCloseTo(0.5);
+  });
+
+  it('maps gaze, jaw and head onto continuum pairs', () => {
+    const shared = arkitFrameToAUs({ eyeLookInLeft: 0.6, eyeLookOutRight: 0.6, eyeLookUpLeft: 0.2, eyeLookUpRight: 0.2, jawLeft: 0.3, headYaw: -0.5 });
+    expect(shared.continuums).toContainEqual({ negAU: 61, posAU: 62, value: 0.6 });
+    expect(shared.continuums).toContainEqual({ negAU: 64, posAU: 63, value: 0.2 });
+    expect(shared.continuums).toContainEqual({ negAU: 30, posAU: 35, value: -0.3 });
+    expect(shared.continuums).toContainEqual({ negAU: 51, posAU: 52, value: -0.5 });
+
+    const independent = arkitFrameToAUs({ eyeLookOutLeft: 0.4, eyeLookInRight: 0.7 }, { independentEyes: true, includeHead: false });
+    expect(independent.continuums).toContainEqual({ negAU: 65, posAU: 66, value: -0.4 });
+    expect(independent.continuums).toContainEqual({ negAU: 69, posAU: 70, value: -0.7 });
+    expect(independent.continuums.some((pair) => pair.negAU === 61 || pair.negAU === 51)).toBe(false);
+  });
+
+  it('writes AU28 before AU32 so shared lower-lip morphs keep the lower roll', () => {
+    const order = arkitFrameToAUs({}).aus.map((au) => au.id);
+    expect(order.indexOf(28)).toBeLessThan(order.indexOf(32));
+    expect(order.indexOf(8)).toBeLessThan(order.indexOf(24));
+  });
+});
+
+describe('ARKitFaceDriver', () => {
+  it('applies every managed AU each frame and resets to neutral', () => {
+    const host = createHost();
+    const driver = new ARKitFaceDriver(host);
+
+    driver.apply({ JawOpen: 0.7, MouthFunnel: 0.2 });
+    expect(host.aus.get(26)?.value).toBe(0.7);
+    expect(host.aus.get(22)?.value).toBe(0.2);
+
+    driver.apply({ JawOpen: 0.1 });
+    expect(host.aus.get(22)?.value).toBe(0);
+
+    driver.reset();
+    expect([...host.aus.values()].every((au) => au.value === 0)).toBe(true);
+    expect([...host.continuums.values()].every((value) => value === 0)).toBe(true);
+  });
+
+  it('smooths coefficients between frames', () => {
+    const host = createHost();
+    const driver = new ARKitFaceDriver(host, { smoothing: 0.5 });
+
+    driver.apply({ jawOpen: 0 });
+    driver.apply({ jawOpen: 1 });
+    expect(host.aus.get(26)?.value).toBeCloseTo(0.5);
+    driver.setOptions({ intensity: 0.5 });
+    expect(driver.getOptions().intensity).toBe(0.5);
+  });
+});
@@ -0,0 +1,257 @@
+import type { ARKitBlendshape } from '../../../presets/arkit';
+
+/** Per-frame ARKit coefficients (0-1) keyed by blendshape name, plus optional head angles (-1..1). */
+export type ARKitFrame = Partial<Record<ARKitBlendshape | ARKitHeadChannel, number>>;
+
+export type ARKitHeadChannel = 'headYaw' | 'headPitch' | 'headRoll';
+
+/**
+ * Raw capture payloads accepted by `normalizeARKitFrame`:
+ * - flat dictionaries (`{ jawOpen: 0.4 }`, Live Link Face `{ JawOpen: 0.4 }`)
+ * - wrapped dictionaries (`{ blendShapes: {...} }` / `{ blendshapes: {...} }`)
+ * - category lists (`[{ categoryName: 'jawOpen', score: 0.4 }]`, `[{ name, value }]`)
+ */
+export type ARKitFrameInput =
+  | Record<string, unknown>
+  | Array<{ name?: string; key?: string; categoryName?: string; value?: number; score?: number }>;
+
+export interface ARKitFaceDriverOptions {
+  /** Global gain on every coefficient (default 1) */
+  intensity?: number;
+  /** Exponential smoothing 0 (none) to <1 (heavy), applied per coefficient between frames (default 0) */
+  smoothing?: number;
+  /** Drive each eye through AUs 65-72 instead of the shared gaze AUs 61-64 (default false) */
+  independentEyes?: boolean;
+  /** Apply headYaw/headPitch/headRoll through AUs 51-56 when present (default true) */
+  includeHead?: boolean;
+  /** Multiplier on head angles (default 1) */
+  headScale?: number;
+}
+
+export interface ARKitFaceDriverHost {
+  setAU: (id: number, value: number, balance?: number) => void;
+  setContinuum: (negAU: number, posAU: number, value: number, balance?: number) => void;
+}
+
+export interface ARKitAUValue {
+  id: number;
+  value: number;
+  /** -1 (left only) to 1 (right only); omitted for center shapes */
+  balance?: number;
+}
+
+export interface ARKitContinuumValue {
+  negAU: number;
+  posAU: number;
+  value: number;
+}
+
+/** AU commands derived from one ARKit frame, in the order they should be applied. */
+export interface ARKitAUFrame {
+  aus: ARKitAUValue[];
+  continuums: ARKitContinuumValue[];
+}
+
+export const DEFAULT_ARKIT_FACE_DRIVER_OPTIONS: Required<ARKitFaceDriverOptions> = {
+  intensity: 1,
+  smoothing: 0,
+  independentEyes: false,
+  includeHead: true,
+  headScale: 1,
+};
+
+type BilateralSource = { au: number; left: ARKitBlendshape; right: ARKitBlendshape };
+type CenterSource = { au: number; shapes: ARKitBlendshape[] };
+
+/**
+ * ARKit shapes to FACS AUs. Order matters where presets map two AUs onto the same
+ * morph (AU28/AU32 both roll the lower lip, AU8/AU24 both press): the broader AU
+ * is written first so the narrower one lands its exact value.
+ */
+const AU_SOURCES: Array<BilateralSource | CenterSource> = [
+  { au: 1, shapes: ['browInnerUp'] },
+  { au: 2, left: 'browOuterUpLeft', right: 'browOuterUpRight' },
+  { au: 4, left: 'browDownLeft', right: 'browDownRight' },
+  { au: 5, left: 'eyeWideLeft', right: 'eyeWideRight' },
+  { au: 6, left: 'cheekSquintLeft', right: 'cheekSquintRight' },
+  { au: 7, left: 'eyeSquintLeft', right: 'eyeSquintRight' },
+  { au: 8, shapes: ['mouthClose'] },
+  { au: 9, left: 'noseSneerLeft', right: 'noseSneerRight' },
+  { au: 10, left: 'mouthUpperUpLeft', right: 'mouthUpperUpRight' },
+  { au: 12, left: 'mouthSmileLeft', right: 'mouthSmileRight' },
+  { au: 14, left: 'mouthDimpleLeft', right: 'mouthDimpleRight' },
+  { au: 15, left: 'mouthFrownLeft', right: 'mouthFrownRight' },
+  { au: 16, left: 'mouthLowerDownLeft', right: 'mouthLowerDownRight' },
+  { au: 17, shapes: ['mouthShrugLower', 'mouthShrugUpper'] },
+  { au: 18, shapes: ['mouthPucker'] },
+  { au: 19, shapes: ['tongueOut'] },
+  { au: 20, left: 'mouthStretchLeft', right: 'mouthStretchRight' },
+  { au: 22, shapes: ['mouthFunnel'] },
+  { au: 24, left: 'mouthPressLeft', right: 'mouthPressRight' },
+  { au: 26, shapes: ['jawOpen'] },
+  { au: 28, shapes: ['mouthRollUpper'] },
+  { au: 32, shapes: ['mouthRollLower'] },
+  { au: 29, shapes: ['jawForward'] },
+  { au: 34, shapes: ['cheekPuff'] },
+  { au: 43, left: 'eyeBlinkLeft', right: 'eyeBlinkRight' },
+];
+
+/** Every channel the driver reads, used for smoothing state and name normalization. */
+const KNOWN_CHANNELS: string[] = [
+  ...AU_SOURCES.flatMap((source) => ('shapes' in source ? source.shapes : [source.left, source.right])),
+  'jawLeft', 'jawRight',
+  'eyeLookInLeft', 'eyeLookOutLeft', 'eyeLookUpLeft', 'eyeLookDownLeft',
+  'eyeLookInRight', 'eyeLookOutRight', 'eyeLookUpRight', 'eyeLookDownRight',
+  'headYaw', 'headPitch', 'headRoll',
+];
+
+const CHANNEL_BY_LOWER = new Map(KNOWN_CHANNELS.map((name) => [name.toLowerCase(), name]));
+
+const clamp = (value: number, min: number, max: number) => (value < min ? min : value > max ? max : value);
+
+const read = (frame: ARKitFrame, key: string): number => {
+  const value = (frame as Record<string, number | undefined>)[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+/** Balance that reproduces distinct left/right values through a single `setAU` call. */
+function sideBalance(left: number, right: number): number {
+  if (left === right) return 0;
+  return left > right ? -(1 - right / left) : 1 - left / right;
+}
+
+/**
+ * Normalize a capture payload into an `ARKitFrame`. Names are matched
+ * case-insensitively, so Live Link Face's PascalCase keys work as-is.
+ * Unknown names (including mouthLeft/mouthRight, which have no AU) are dropped.
+ */
+export function normalizeARKitFrame(input: ARKitFrameInput): ARKitFrame {
+  const frame: Record<string, number> = {};
+  const assign = (name: unknown, value: unknown) => {
+    if (typeof name !== 'string' || typeof value !== 'number' || !Number.isFinite(value)) return;
+    const channel = CHANNEL_BY_LOWER.get(name.toLowerCase());
+    if (channel) frame[channel] = value;
+  };
+
+  if (Array.isArray(input)) {
+    for (const entry of input) {
+      assign(entry.categoryName ?? entry.name ?? entry.key, entry.score ?? entry.value);
+    }
+    return frame as ARKitFrame;
+  }
+
+  const wrapped = input.blendShapes ?? input.blendshapes;
+  if (wrapped && typeof wrapped === 'object') {
+    const nested = normalizeARKitFrame(wrapped as ARKitFrameInput);
+    Object.assign(frame, nested);
+  }
+  for (const [name, value] of Object.entries(input)) assign(name, value);
+  return frame as ARKitFrame;
+}
+
+/**
+ * Convert one ARKit frame into AU values and continuum pairs.
+ * Every managed AU is emitted (missing shapes read as 0), so applying a frame
+ * fully replaces the previous one.
+ */
+export function arkitFrameToAUs(frame: ARKitFrame, options: ARKitFaceDriverOptions = {}): ARKitAUFrame {
+  const { intensity, independentEyes, includeHead, headScale } = { ...DEFAULT_ARKIT_FACE_DRIVER_OPTIONS, ...options };
+  const shape = (key: string) => clamp(read(frame, key) * intensity, 0, 1);
+  const aus: ARKitAUValue[] = [];
+  const continuums: ARKitContinuumValue[] = [];
+
+  for (const source of AU_SOURCES) {
+    if ('shapes' in source) {
+      aus.push({ id: source.au, value: Math.max(...source.shapes.map(shape)) });
+      continue;
+    }
+    const left = shape(source.left);
+    const right = shape(source.right);
+    aus.push({ id: source.au, value: Math.max(left, right), balance: sideBalance(left, right) });
+  }
+
+  continuums.push({ negAU: 30, posAU: 35, value: shape('jawRight') - shape('jawLeft') });
+
+  // Positive yaw looks toward the character's right, positive pitch looks up.
+  const yawLeft = shape('eyeLookInLeft') - shape('eyeLookOutLeft');
+  const yawRight = shape('eyeLookOutRight') - shape('eyeLookInRight');
+  const pitchLeft = shape('eyeLookUpLeft') - shape('eyeLookDownLeft');
+  const pitchRight = shape('eyeLookUpRight') - shape('eyeLookDownRight');
+  if (independentEyes) {
+    continuums.push(
+      { negAU: 65, posAU: 66, value: yawLeft },
+      { negAU: 68, posAU: 67, value: pitchLeft },
+      { negAU: 69, posAU: 70, value: yawRight },
+      { negAU: 72, posAU: 71, value: pitchRight },
+    );
+  } else {
+    continuums.push(
+      { negAU: 61, posAU: 62, value: (yawLeft + yawRight) / 2 },
+      { negAU: 64, posAU: 63, value: (pitchLeft + pitchRight) / 2 },
+    );
+  }
+
+  if (includeHead) {
+    const head = (key: ARKitHeadChannel) => clamp(read(frame, key) * headScale, -1, 1);
+    continuums.push(
+      { negAU: 51, posAU: 52, value: head('headYaw') },
+      { negAU: 54, posAU: 53, value: head('headPitch') },
+      { negAU: 55, posAU: 56, value: head('headRoll') },
+    );
+  }
+
+  return { aus, continuums };
+}
+
+/**
+ * Applies live ARKit face-capture frames (Live Link Face, MediaPipe, ARKit
+ * sessions) through the AU layer, so capture data retargets to any profile.
+ */
+export class ARKitFaceDriver {
+  private host: ARKitFaceDriverHost;
+  private options: Required<ARKitFaceDriverOptions>;
+  private smoothed: Record<string, number> = {};
+
+  constructor(host: ARKitFaceDriverHost, options: ARKitFaceDriverOptions = {}) {
+    this.host = host;
+    this.options = { ...DEFAULT_ARKIT_FACE_DRIVER_OPTIONS, ...options };
+  }
+
+  getOptions(): Required<ARKitFaceDriverOptions> {
+    return { ...this.options };
+  }
+
+  setOptions(options: ARKitFaceDriverOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Apply one frame. Accepts a normalized frame or any raw `ARKitFrameInput`. */
+  apply(input: ARKitFrame | ARKitFrameInput): ARKitAUFrame {
+    const frame = this.smooth(normalizeARKitFrame(input as ARKitFrameInput));
+    const result = arkitFrameToAUs(frame, this.options);
+    for (const au of result.aus) this.host.setAU(au.id, au.value, au.balance);
+    for (const pair of result.continuums) this.host.setContinuum(pair.negAU, pair.posAU, pair.value);
+    return result;
+  }
+
+  /** Drop smoothing history and return every driven AU to neutral. */
+  reset(): void {
+    this.smoothed = {};
+    const neutral = arkitFrameToAUs({}, this.options);
+    for (const au of neutral.aus) this.host.setAU(au.id, 0);
+    for (const pair of neutral.continuums) this.host.setContinuum(pair.negAU, pair.posAU, 0);
+  }
+
+  private smooth(frame: ARKitFrame): ARKitFrame {
+    const alpha = clamp(this.options.smoothing, 0, 0.99);
+    const out: Record<string, number> = {};
+    for (const channel of KNOWN_CHANNELS) {
+      const target = read(frame, channel);
+      const previous = this.smoothed[channel];
+      const value = previous === undefined ? target : previous * alpha + target * (1 - alpha);
+      this.smoothed[channel] = value;
+      out[channel] = value;
+    }
+    return out as ARKitFrame;
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { BoneBinding, CompositeRotation } from '../../../core/types';
+import { GazeMotionController, type GazeMotionHost, type GazeOffsetWrite } from './GazeMotionController';
+
+const COMPOSITES: CompositeRotation[] = ['EYE_L', 'EYE_R'].map((node, i) => ({
+  node,
+  pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+  yaw: {
+    aus: [61, 62, 65 + i * 4, 66 + i * 4],
+    axis: 'rz',
+    negative: [61, 65 + i * 4],
+    positive: [62, 66 + i * 4],
+  },
+  roll: null,
+}));
+
+const eyeBinding = (maxDegrees: number): BoneBinding[] => [
+  { node: 'EYE_L', channel: 'rz', scale: 1, maxDegrees },
+  { node: 'EYE_R', channel: 'rz', scale: 1, maxDegrees },
+];
+
+const BINDINGS: Record<number, BoneBinding[]> = {
+  61: eyeBinding(25),
+  62: eyeBinding(25),
+  65: [{ node: 'EYE_L', channel: 'rz', scale: 1, maxDegrees: 25 }],
+  66: [{ node: 'EYE_L', channel: 'rz', scale: 1, maxDegrees: 25 }],
+};
+
+function seeded(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function makeHost(state: { aus?: Record<number, number>; directed?: boolean } = {}): GazeMotionHost {
+  return {
+    getCompositeRotations: () => COMPOSITES,
+    getBoneBindings: () => BINDINGS,
+    getAU: (auId) => state.aus?.[auId] ?? 0,
+    isGazeDirected: () => state.directed ?? false,
+  };
+}
+
+function run(controller: GazeMotionController, seconds: number, onFrame?: (writes: GazeOffsetWrite[]) => void) {
+  for (let t = 0; t < seconds - 1e-9; t += 1 / 60) {
+    const writes = controller.update(1 / 60);
+    onFrame?.(writes);
+  }
+}
+
+describe('GazeMotionController', () => {
+  it('emits nothing while disabled', () => {
+    const controller = new GazeMotionController(makeHost(), seeded(1));
+    run(controller, 2, (writes) => expect(writes).toEqual([]));
+  });
+
+  it('keeps fixation jitter small but moving', () => {
+    const controller = new GazeMotionController(makeHost(), seeded(2));
+    controller.setConfig({ glanceMeanIntervalMs: 0 });
+    controller.setEnabled(true);
+
+    let maxDistance = 0;
+    let travelled = 0;
+    let last = controller.getOffset();
+    run(controller, 10, () => {
+      const offset = controller.getOffset();
+      maxDistance = Math.max(maxDistance, Math.hypot(offset.yaw, offset.pitch));
+      travelled += Math.hypot(offset.yaw - last.yaw, offset.pitch - last.pitch);
+      last = offset;
+    });
+
+    expect(maxDistance).toBeLessThanOrEqual(1.2 + 1e-6);
+    expect(travelled).toBeGreaterThan(2);
+  });
+
+  it('glances away and returns', () => {
+    const controller = new GazeMotionController(makeHost(), seeded(3));
+    controller.setConfig({
+      glanceMinIntervalMs: 1000,
+      glanceMeanIntervalMs: 1000,
+      glanceMinAmplitude: 10,
+      glanceMaxAmplitude: 10,
+      glanceHoldMs: 500,
+    });
+    controller.setEnabled(true);
+
+    run(controller, 0.9);
+    const before = controller.getOffset();
+    expect(Math.hypot(before.yaw, before.pitch)).toBeLessThan(2);
+
+    run(controller, 0.25);
+    const away = controller.getOffset();
+    expect(Math.hypot(away.yaw, away.pitch)).toBeGreaterThan(4);
+
+    run(controller, 1);
+    const back = controller.getOffset();
+    expect(Math.hypot(back.yaw, back.pitch)).toBeLessThan(2);
+  });
+
+  it('holds glance-aways off while gaze is directed', () => {
+    const state = { directed: true };
+    const controller = new GazeMotionController(makeHost(state), seeded(4));
+    controller.setConfig({ glanceMinIntervalMs: 200, glanceMeanIntervalMs: 200, glanceMinAmplitude: 10 });
+    controller.setEnabled(true);
+
+    let maxDistance = 0;
+    run(controller, 3, () => {
+      const offset = controller.getOffset();
+      maxDistance = Math.max(maxDistance, Math.hypot(offset.yaw, offset.pitch));
+    });
+    expect(maxDistance).toBeLessThan(2);
+  });
+
+  it('writes offsets to whichever eye pair currently carries the gaze', () => {
+    const state = { aus: {} as Record<number, number> };
+    const controller = new GazeMotionController(makeHost(state), seeded(5));
+    controller.setConfig({ glanceMeanIntervalMs: 0 });
+    controller.setEnabled(true);
+
+    const shared = controller.update(0.1);
+    expect(shared.map((write) => `${write.negAU}-${write.posAU}`).sort()).toEqual(['61-62', '64-63']);
+
+    state.aus[66] = 0.5;
+    const independent = controller.update(0.1);
+    const keys = independent.map((write) => `${write.negAU}-${write.posAU}`).sort();
+    expect(keys).toEqual(['61-62', '64-63', '65-66']);
+    const yaw = independent.find((write) => write.negAU === 65)!;
+    expect(yaw.offset).toBeCloseTo(controller.getOffset().yaw / 25);
+  });
+});
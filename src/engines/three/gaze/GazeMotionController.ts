@@ -0,0 +1,235 @@
+import type { BoneBinding, CompositeRotation } from '../../../core/types';
+import type { GazeMotionProfileConfig } from '../../../mappings/types';
+import { resolveGazeAxisPairs, type GazeAxisPair } from './gazeAxes';
+
+export type GazeMotionConfig = Required<Omit<GazeMotionProfileConfig, 'enabled'>>;
+export type GazeMotionConfigUpdate = Partial<GazeMotionConfig>;
+
+export interface GazeMotionHost {
+  getCompositeRotations: () => CompositeRotation[];
+  getBoneBindings: () => Record<number, BoneBinding[]>;
+  getAU: (auId: number) => number;
+  /** True while the app is explicitly steering gaze (glance-aways are held off). */
+  isGazeDirected: () => boolean;
+}
+
+/** Continuum offset to add on top of an eye pair's current value. */
+export interface GazeOffsetWrite {
+  negAU: number;
+  posAU: number;
+  offset: number;
+}
+
+export const DEFAULT_GAZE_MOTION_CONFIG: GazeMotionConfig = {
+  eyeNodes: ['EYE_L', 'EYE_R'],
+  microsaccadeRate: 1.4,
+  microsaccadeAmplitude: 0.5,
+  driftSpeed: 0.4,
+  maxFixationOffset: 1.2,
+  glanceMinIntervalMs: 3000,
+  glanceMeanIntervalMs: 9000,
+  glanceMinAmplitude: 4,
+  glanceMaxAmplitude: 12,
+  glanceHoldMs: 700,
+  saccadeMs: 18,
+  fallbackRange: 25,
+};
+
+type Angles = { yaw: number; pitch: number };
+
+function smoothToward(current: number, target: number, dtMs: number, timeConstantMs: number): number {
+  if (timeConstantMs <= 0) return target;
+  return current + (target - current) * (1 - Math.exp(-dtMs / timeConstantMs));
+}
+
+/**
+ * Idle gaze micro-motion layer.
+ *
+ * Keeps a small fixation offset that drifts and snaps back with microsaccades,
+ * plus occasional glance-aways that hold and return. The combined offset is
+ * emitted per eye continuum pair so Loom3 can add it to the app's own gaze.
+ */
+export class GazeMotionController {
+  private host: GazeMotionHost;
+  private random: () => number;
+  private config: GazeMotionConfig = { ...DEFAULT_GAZE_MOTION_CONFIG };
+  private enabled = false;
+  private nowMs = 0;
+  private fixation: Angles = { yaw: 0, pitch: 0 };
+  private driftVelocity: Angles = { yaw: 0, pitch: 0 };
+  private glance: Angles = { yaw: 0, pitch: 0 };
+  private glanceReturnAtMs: number | null = null;
+  private nextGlanceAtMs: number | null = null;
+  private offset: Angles = { yaw: 0, pitch: 0 };
+
+  constructor(host: GazeMotionHost, random: () => number = Math.random) {
+    this.host = host;
+    this.random = random;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.reset();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setConfig(update: GazeMotionConfigUpdate): void {
+    this.config = { ...this.config, ...update };
+  }
+
+  getConfig(): GazeMotionConfig {
+    return { ...this.config };
+  }
+
+  /** Current conjugate gaze offset in degrees. */
+  getOffset(): Angles {
+    return { ...this.offset };
+  }
+
+  reset(): void {
+    this.fixation = { yaw: 0, pitch: 0 };
+    this.driftVelocity = { yaw: 0, pitch: 0 };
+    this.glance = { yaw: 0, pitch: 0 };
+    this.glanceReturnAtMs = null;
+    this.offset = { yaw: 0, pitch: 0 };
+    this.nextGlanceAtMs = this.enabled ? this.nowMs + this.sampleGlanceInterval() : null;
+  }
+
+  /**
+   * Advance the micro-motion clock and return the continuum offsets for this frame.
+   */
+  update(dtSeconds: number): GazeOffsetWrite[] {
+    const dtMs = Math.max(0, dtSeconds) * 1000;
+    this.nowMs += dtMs;
+    if (!this.enabled) return [];
+
+    this.updateFixation(dtMs);
+    this.updateGlance();
+
+    const target = {
+      yaw: this.fixation.yaw + this.glance.yaw,
+      pitch: this.fixation.pitch + this.glance.pitch,
+    };
+    this.offset = {
+      yaw: smoothToward(this.offset.yaw, target.yaw, dtMs, this.config.saccadeMs),
+      pitch: smoothToward(this.offset.pitch, target.pitch, dtMs, this.config.saccadeMs),
+    };
+
+    return this.resolveWrites();
+  }
+
+  private updateFixation(dtMs: number): void {
+    const { driftSpeed, maxFixationOffset, microsaccadeRate, microsaccadeAmplitude } = this.config;
+    const dt = dtMs / 1000;
+
+    // Drift: a slow random walk whose velocity direction wanders.
+    const jitter = driftSpeed * 4 * Math.sqrt(dt);
+    this.driftVelocity.yaw += (this.random() * 2 - 1) * jitter;
+    this.driftVelocity.pitch += (this.random() * 2 - 1) * jitter;
+    const speed = Math.hypot(this.driftVelocity.yaw, this.driftVelocity.pitch);
+    if (speed > driftSpeed && speed > 0) {
+      this.driftVelocity.yaw *= driftSpeed / speed;
+      this.driftVelocity.pitch *= driftSpeed / speed;
+    }
+    this.fixation.yaw += this.driftVelocity.yaw * dt;
+    this.fixation.pitch += this.driftVelocity.pitch * dt;
+
+    // Microsaccades: Poisson-timed jumps, biased back toward the intended gaze.
+    if (this.random() < 1 - Math.exp(-microsaccadeRate * dt)) {
+      const angle = this.random() * Math.PI * 2;
+      const size = microsaccadeAmplitude * (0.5 + this.random());
+      this.fixation = {
+        yaw: this.fixation.yaw * 0.3 + Math.cos(angle) * size,
+        pitch: this.fixation.pitch * 0.3 + Math.sin(angle) * size,
+      };
+    }
+
+    const distance = Math.hypot(this.fixation.yaw, this.fixation.pitch);
+    if (distance > maxFixationOffset && distance > 0) {
+      this.fixation.yaw *= maxFixationOffset / distance;
+      this.fixation.pitch *= maxFixationOffset / distance;
+      this.driftVelocity = { yaw: 0, pitch: 0 };
+    }
+  }
+
+  private updateGlance(): void {
+    if (this.glanceReturnAtMs !== null && this.nowMs >= this.glanceReturnAtMs) {
+      this.glance = { yaw: 0, pitch: 0 };
+      this.glanceReturnAtMs = null;
+      this.nextGlanceAtMs = this.nowMs + this.sampleGlanceInterval();
+    }
+
+    if (this.host.isGazeDirected()) {
+      if (this.glanceReturnAtMs !== null) {
+        this.glance = { yaw: 0, pitch: 0 };
+        this.glanceReturnAtMs = null;
+      }
+      this.nextGlanceAtMs = this.nowMs + this.sampleGlanceInterval();
+      return;
+    }
+
+    if (this.nextGlanceAtMs === null || this.glanceReturnAtMs !== null || this.nowMs < this.nextGlanceAtMs) return;
+    if (!(this.config.glanceMeanIntervalMs > 0)) return;
+
+    const { glanceMinAmplitude, glanceMaxAmplitude, glanceHoldMs } = this.config;
+    const angle = this.random() * Math.PI * 2;
+    const size = glanceMinAmplitude + (glanceMaxAmplitude - glanceMinAmplitude) * this.random();
+    // Vertical glances are smaller than horizontal ones.
+    this.glance = { yaw: Math.cos(angle) * size, pitch: Math.sin(angle) * size * 0.5 };
+    this.glanceReturnAtMs = this.nowMs + glanceHoldMs * (0.6 + this.random() * 0.8);
+  }
+
+  private sampleGlanceInterval(): number {
+    const { glanceMinIntervalMs, glanceMeanIntervalMs } = this.config;
+    const spread = Math.max(0, glanceMeanIntervalMs - glanceMinIntervalMs);
+    const u = Math.min(0.999999, this.random());
+    return glanceMinIntervalMs - Math.log(1 - u) * spread;
+  }
+
+  /**
+   * Convert the degree offset into per-pair continuum offsets. Each eye gets the
+   * offset on whichever of its pairs currently carries the most gaze, so it
+   * layers on top of shared (61/62) or independent (65-72) eye controls alike.
+   */
+  private resolveWrites(): GazeOffsetWrite[] {
+    const composites = this.host.getCompositeRotations();
+    const bindings = this.host.getBoneBindings();
+    const writes = new Map<string, GazeOffsetWrite>();
+
+    for (const nodeKey of this.config.eyeNodes) {
+      const composite = composites.find((entry) => entry.node === nodeKey);
+      if (!composite) continue;
+
+      for (const axis of ['yaw', 'pitch'] as const) {
+        const degrees = this.offset[axis];
+        const pair = this.pickActivePair(resolveGazeAxisPairs(nodeKey, composite[axis], bindings));
+        if (!pair) continue;
+
+        const key = `${pair.negAU}-${pair.posAU}`;
+        if (writes.has(key)) continue;
+
+        const range = (degrees < 0 ? pair.negDegrees : pair.posDegrees) || this.config.fallbackRange;
+        if (!(range > 0)) continue;
+        writes.set(key, { negAU: pair.negAU, posAU: pair.posAU, offset: degrees / range });
+      }
+    }
+
+    return Array.from(writes.values());
+  }
+
+  private pickActivePair(pairs: GazeAxisPair[]): GazeAxisPair | null {
+    let best: GazeAxisPair | null = null;
+    let bestMagnitude = -1;
+    for (const pair of pairs) {
+      const magnitude = Math.abs(this.host.getAU(pair.posAU) - this.host.getAU(pair.negAU));
+      if (magnitude > bestMagnitude) {
+        best = pair;
+        bestMagnitude = magnitude;
+      }
+    }
+    return best;
+  }
+}
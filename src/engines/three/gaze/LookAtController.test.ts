@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { Object3D, Vector3 } from 'three';
+import type { BoneBinding, CompositeRotation } from '../../../core/types';
+import type { Profile } from '../../../mappings/types';
+import { LookAtController, computeLookAtAngles, type LookAtHost } from './LookAtController';
+
+const COMPOSITES: CompositeRotation[] = [
+  {
+    node: 'HEAD',
+    pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+    yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+    roll: null,
+  },
+  {
+    node: 'EYE_L',
+    pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+    yaw: { aus: [61, 62], axis: 'rz', negative: 61, positive: 62 },
+    roll: null,
+  },
+  {
+    node: 'EYE_R',
+    pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+    yaw: { aus: [61, 62], axis: 'rz', negative: 61, positive: 62 },
+    roll: null,
+  },
+];
+
+const binding = (node: string, channel: BoneBinding['channel'], maxDegrees: number): BoneBinding[] => [
+  { node, channel, scale: 1, maxDegrees },
+];
+
+const BINDINGS: Record<number, BoneBinding[]> = {
+  51: binding('HEAD', 'ry', 40),
+  52: binding('HEAD', 'ry', 40),
+  53: binding('HEAD', 'rx', 20),
+  54: binding('HEAD', 'rx', 20),
+  61: [...binding('EYE_L', 'rz', 30), ...binding('EYE_R', 'rz', 30)],
+  62: [...binding('EYE_L', 'rz', 30), ...binding('EYE_R', 'rz', 30)],
+  63: [...binding('EYE_L', 'rx', 20), ...binding('EYE_R', 'rx', 20)],
+  64: [...binding('EYE_L', 'rx', 20), ...binding('EYE_R', 'rx', 20)],
+};
+
+function makeHost(
+  composites: CompositeRotation[] = COMPOSITES,
+  bindings: Record<number, BoneBinding[]> = BINDINGS,
+  continuumPairs?: Profile['continuumPairs']
+) {
+  const model = new Object3D();
+  const head = new Object3D();
+  head.position.set(0, 1, 0);
+  model.add(head);
+  const continuums: Record<string, number> = {};
+  const host: LookAtHost = {
+    getModel: () => model,
+    getBoneObject: (nodeKey) => (nodeKey === 'HEAD' ? head : undefined),
+    getCompositeRotations: () => composites,
+    getContinuumPairs: () => continuumPairs,
+    getBoneBindings: () => bindings,
+    setContinuum: (negAU, posAU, value) => { continuums[`${negAU}-${posAU}`] = value; },
+  };
+  return { host, model, continuums };
+}
+
+function step(controller: LookAtController, seconds: number, dt = 1 / 60) {
+  for (let t = 0; t < seconds - 1e-9; t += dt) controller.update(dt);
+}
+
+describe('computeLookAtAngles', () => {
+  it('measures yaw toward +X and pitch toward +Y in model space', () => {
+    const model = new Object3D();
+    const origin = new Vector3(0, 0, 0);
+    expect(computeLookAtAngles(model, origin, new Vector3(1, 0, 1)).yaw).toBeCloseTo(45);
+    expect(computeLookAtAngles(model, origin, new Vector3(0, 1, 1)).pitch).toBeCloseTo(45);
+
+    model.rotation.y = Math.PI / 2;
+    expect(computeLookAtAngles(model, origin, new Vector3(1, 0, 0)).yaw).toBeCloseTo(0);
+  });
+});
+
+describe('LookAtController', () => {
+  it('saccades the eyes before the head turns', () => {
+    const { host, continuums } = makeHost();
+    const controller = new LookAtController(host);
+    controller.setTarget(new Vector3(Math.tan((20 * Math.PI) / 180), 1, 1));
+
+    step(controller, 0.1);
+    expect(continuums['61-62'] ?? 0).toBe(0);
+
+    step(controller, 0.1);
+    expect(continuums['61-62']).toBeGreaterThan(0.5);
+    expect(Math.abs(continuums['51-52'] ?? 0)).toBeLessThan(0.01);
+  });
+
+  it('settles with the head carrying most of the turn and eyes recentered', () => {
+    const { host, continuums } = makeHost();
+    const controller = new LookAtController(host);
+    controller.setConfig({ eyeShare: 0.25 });
+    controller.setTarget(new Vector3(Math.tan((20 * Math.PI) / 180), 1, 1));
+
+    step(controller, 3);
+    const { eyes, head } = controller.getState();
+    expect(head.yaw).toBeCloseTo(15, 1);
+    expect(eyes.yaw).toBeCloseTo(5, 1);
+    expect(continuums['51-52']).toBeCloseTo(15 / 40, 2);
+    expect(continuums['61-62']).toBeCloseTo(5 / 30, 2);
+    expect(eyes.pitch).toBeCloseTo(0, 3);
+  });
+
+  it('clamps each node to its binding limits and lets the eyes cover the remainder', () => {
+    const { host } = makeHost();
+    const controller = new LookAtController(host);
+    controller.setConfig({ eyeShare: 0, limits: { head: { yaw: 10 } } });
+    controller.setTarget(new Vector3(1, 1, 1)); // 45 degrees right
+
+    step(controller, 3);
+    const { eyes, head } = controller.getState();
+    expect(head.yaw).toBeCloseTo(10, 1);
+    expect(eyes.yaw).toBeCloseTo(30, 1);
+  });
+
+  it('tracks moving Object3D targets and eases back to neutral when cleared', () => {
+    const { host, model, continuums } = makeHost();
+    const target = new Object3D();
+    target.position.set(0, 1, 1);
+    model.add(target);
+    const controller = new LookAtController(host);
+    controller.setTarget(target);
+
+    step(controller, 1);
+    expect(Math.abs(controller.getState().head.yaw)).toBeLessThan(0.01);
+
+    target.position.set(-0.3, 1, 1);
+    step(controller, 3);
+    expect(controller.getState().head.yaw).toBeLessThan(-5);
+    expect(continuums['51-52']).toBeLessThan(0);
+
+    controller.setTarget(null);
+    step(controller, 4);
+    expect(controller.isActive()).toBe(false);
+    expect(continuums['51-52']).toBe(0);
+    expect(continuums['61-62']).toBe(0);
+  });
+
+  it('gives the neck a share of the head turn when the profile has a neck composite', () => {
+    const composites: CompositeRotation[] = [
+      ...COMPOSITES,
+      { node: 'NECK', pitch: null, yaw: { aus: [81, 82], axis: 'ry', negative: 81, positive: 82 }, roll: null },
+    ];
+    const { host, continuums } = makeHost(composites, {
+      ...BINDINGS,
+      81: binding('NECK', 'ry', 30),
+      82: binding('NECK', 'ry', 30),
+    });
+    const controller = new LookAtController(host);
+    controller.setConfig({ eyeShare: 0, neckShare: 0.5 });
+    controller.setTarget(new Vector3(Math.tan((20 * Math.PI) / 180), 1, 1));
+
+    step(controller, 3);
+    const { neck, head, eyes } = controller.getState();
+    expect(neck.yaw).toBeCloseTo(10, 1);
+    expect(head.yaw).toBeCloseTo(10, 1);
+    expect(eyes.yaw).toBeCloseTo(0, 1);
+    expect(continuums['81-82']).toBeCloseTo(10 / 30, 2);
+  });
+
+  it('resolves axes through continuumPairs and reads the turn direction from the head bone', () => {
+    const { host, continuums } = makeHost([], {
+      ...BINDINGS,
+      51: [{ node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 40 }],
+      52: [{ node: 'HEAD', channel: 'ry', scale: -1, maxDegrees: 40 }],
+    }, {
+      51: { pairId: 52, isNegative: true, axis: 'yaw', node: 'HEAD' },
+      52: { pairId: 51, isNegative: false, axis: 'yaw', node: 'HEAD' },
+    });
+    const controller = new LookAtController(host);
+    controller.setConfig({ eyeShare: 0 });
+    controller.setTarget(new Vector3(Math.tan((20 * Math.PI) / 180), 1, 1));
+
+    step(controller, 3);
+    expect(controller.getState().head.yaw).toBeCloseTo(20, 1);
+    expect(continuums['51-52']).toBeCloseTo(-20 / 40, 2);
+  });
+});
@@ -0,0 +1,352 @@
+import { Object3D, Quaternion, Vector3 } from 'three';
+import type { BoneBinding, CompositeRotation, RotationAxis } from '../../../core/types';
+import type { Profile } from '../../../mappings/types';
+import { resolveContinuumAxisPairs, resolveGazeAxisPairs, type GazeAxisPair } from './gazeAxes';
+
+export type LookAtTarget = Object3D | Vector3;
+
+export interface LookAtAngleLimits {
+  /** Max yaw in degrees (applies to both directions) */
+  yaw?: number;
+  /** Max pitch in degrees (applies to both directions) */
+  pitch?: number;
+}
+
+export interface LookAtConfig {
+  /** Fraction of the gaze angle the eyes keep once the head has settled (0-1) */
+  eyeShare: number;
+  /** Fraction of the head/neck rotation given to the neck when the profile has a neck node (0-1) */
+  neckShare: number;
+  /** Delay before the eyes start a saccade toward a new target */
+  eyeLatencyMs: number;
+  /** Delay before the head starts following a new target */
+  headLatencyMs: number;
+  /** Eye smoothing time constant (saccades are fast) */
+  eyeSmoothingMs: number;
+  /** Head/neck smoothing time constant */
+  headSmoothingMs: number;
+  /** Optional tighter limits (degrees) on top of the bindings' maxDegrees */
+  limits: { eyes?: LookAtAngleLimits; head?: LookAtAngleLimits; neck?: LookAtAngleLimits };
+  /**
+   * Extra yaw flip. Which AU of a pair turns toward +X is read from the bone
+   * bindings and the bone's orientation; flip only if the model faces away from +Z.
+   */
+  yawSign: 1 | -1;
+  /** Extra pitch flip, on top of the direction read from the bone bindings */
+  pitchSign: 1 | -1;
+  /** Composite rotation nodes treated as eyes */
+  eyeNodes: string[];
+  /** Composite rotation node treated as the head */
+  headNode: string;
+  /** Composite rotation node treated as the neck (ignored when the profile has none) */
+  neckNode: string;
+}
+
+export type LookAtOptions = Partial<LookAtConfig>;
+
+export interface LookAtHost {
+  getModel: () => Object3D | null;
+  getBoneObject: (nodeKey: string) => Object3D | undefined;
+  getCompositeRotations: () => CompositeRotation[];
+  getContinuumPairs: () => Profile['continuumPairs'];
+  getBoneBindings: () => Record<number, BoneBinding[]>;
+  setContinuum: (negAU: number, posAU: number, value: number) => void;
+}
+
+export const DEFAULT_LOOK_AT_CONFIG: LookAtConfig = {
+  eyeShare: 0.35,
+  neckShare: 0.3,
+  eyeLatencyMs: 120,
+  headLatencyMs: 220,
+  eyeSmoothingMs: 25,
+  headSmoothingMs: 260,
+  limits: {},
+  yawSign: 1,
+  pitchSign: 1,
+  eyeNodes: ['EYE_L', 'EYE_R'],
+  headNode: 'HEAD',
+  neckNode: 'NECK',
+};
+
+type Angles = { yaw: number; pitch: number };
+
+/** An AU pair plus the way it turns: 1 when its positive AU turns toward +X (yaw) or +Y (pitch). */
+type LookAtAxis = GazeAxisPair & { sign: 1 | -1 };
+
+interface NodeAxes {
+  yaw: LookAtAxis | null;
+  pitch: LookAtAxis | null;
+}
+
+const SETTLE_EPSILON = 0.05;
+/** Goal jumps larger than this (degrees) restart saccade/head latency. */
+const RETARGET_DEGREES = 20;
+
+const rad2deg = (r: number) => (r * 180) / Math.PI;
+const CHANNEL_AXES = { rx: new Vector3(1, 0, 0), ry: new Vector3(0, 1, 0), rz: new Vector3(0, 0, 1) };
+const tmpModelQuat = new Quaternion();
+const tmpBoneQuat = new Quaternion();
+
+/**
+ * Yaw/pitch (degrees) of a world-space target relative to the model's forward (+Z)
+ * as seen from a world-space origin. Positive yaw is toward +X, positive pitch toward +Y,
+ * matching computeCameraRelativeGazeOffset.
+ */
+export function computeLookAtAngles(model: Object3D, origin: Vector3, target: Vector3): Angles {
+  const direction = new Vector3().subVectors(target, origin);
+  if (direction.lengthSq() < 1e-8) return { yaw: 0, pitch: 0 };
+
+  model.updateWorldMatrix(true, false);
+  const worldQuaternion = new Quaternion();
+  model.getWorldQuaternion(worldQuaternion);
+  direction.applyQuaternion(worldQuaternion.invert()).normalize();
+
+  return {
+    yaw: rad2deg(Math.atan2(direction.x, direction.z)),
+    pitch: rad2deg(Math.atan2(direction.y, Math.max(Math.hypot(direction.x, direction.z), 1e-6))),
+  };
+}
+
+function smoothToward(current: number, target: number, dtMs: number, timeConstantMs: number): number {
+  if (timeConstantMs <= 0) return target;
+  return current + (target - current) * (1 - Math.exp(-dtMs / timeConstantMs));
+}
+
+/** Largest angle the axis can turn toward +X/+Y (positive) or away (negative). */
+function axisRange(axis: LookAtAxis, positive: boolean): number {
+  return positive === (axis.sign > 0) ? axis.posDegrees : axis.negDegrees;
+}
+
+function clampAngle(value: number, axis: LookAtAxis | null, limit?: number): number {
+  if (!axis) return 0;
+  const negMax = limit !== undefined ? Math.min(axisRange(axis, false), limit) : axisRange(axis, false);
+  const posMax = limit !== undefined ? Math.min(axisRange(axis, true), limit) : axisRange(axis, true);
+  return Math.max(-negMax, Math.min(posMax, value));
+}
+
+function toContinuum(value: number, axis: LookAtAxis): number {
+  const auValue = value * axis.sign;
+  const max = auValue < 0 ? axis.negDegrees : axis.posDegrees;
+  if (max <= 0) return 0;
+  return Math.max(-1, Math.min(1, auValue / max));
+}
+
+/**
+ * World-space look-at driver.
+ *
+ * Splits the target angle across eyes, head and (optional) neck. The head and
+ * neck chase their share with latency and smoothing; the eyes saccade to cover
+ * whatever the head has not yet turned, then drift back to their resting share
+ * as the head catches up.
+ */
+export class LookAtController {
+  private host: LookAtHost;
+  private config: LookAtConfig = { ...DEFAULT_LOOK_AT_CONFIG, limits: {} };
+  private target: LookAtTarget | null = null;
+  private active = false;
+  private nowMs = 0;
+  private switchedAtMs = 0;
+  private goal: Angles = { yaw: 0, pitch: 0 };
+  private eyeGoal: Angles = { yaw: 0, pitch: 0 };
+  private headGoal: Angles = { yaw: 0, pitch: 0 };
+  private eyes: Angles = { yaw: 0, pitch: 0 };
+  private head: Angles = { yaw: 0, pitch: 0 };
+  private neck: Angles = { yaw: 0, pitch: 0 };
+
+  constructor(host: LookAtHost) {
+    this.host = host;
+  }
+
+  setConfig(update: LookAtOptions): void {
+    this.config = {
+      ...this.config,
+      ...update,
+      limits: update.limits ? { ...this.config.limits, ...update.limits } : this.config.limits,
+    };
+  }
+
+  getConfig(): LookAtConfig {
+    return { ...this.config, limits: { ...this.config.limits } };
+  }
+
+  /**
+   * Start tracking a target, or return to neutral when target is null.
+   */
+  setTarget(target: LookAtTarget | null): void {
+    this.target = target;
+    this.switchedAtMs = this.nowMs;
+    if (target) this.active = true;
+  }
+
+  getTarget(): LookAtTarget | null {
+    return this.target;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /** Current distributed angles in degrees. */
+  getState(): { eyes: Angles; head: Angles; neck: Angles } {
+    return { eyes: { ...this.eyes }, head: { ...this.head }, neck: { ...this.neck } };
+  }
+
+  /** Drop all tracking state without writing AUs. */
+  reset(): void {
+    this.target = null;
+    this.active = false;
+    this.goal = { yaw: 0, pitch: 0 };
+    this.eyeGoal = { yaw: 0, pitch: 0 };
+    this.headGoal = { yaw: 0, pitch: 0 };
+    this.eyes = { yaw: 0, pitch: 0 };
+    this.head = { yaw: 0, pitch: 0 };
+    this.neck = { yaw: 0, pitch: 0 };
+  }
+
+  update(dtSeconds: number): void {
+    const dtMs = Math.max(0, dtSeconds) * 1000;
+    this.nowMs += dtMs;
+    if (!this.active) return;
+
+    const eyeAxes = this.config.eyeNodes.map((node) => this.resolveNodeAxes(node));
+    const headAxes = this.resolveNodeAxes(this.config.headNode);
+    const neckAxes = this.resolveNodeAxes(this.config.neckNode);
+    const hasNeck = Boolean(neckAxes.yaw || neckAxes.pitch);
+
+    const nextGoal = this.computeGoal();
+    if (nextGoal) {
+      const jump = Math.hypot(nextGoal.yaw - this.goal.yaw, nextGoal.pitch - this.goal.pitch);
+      // A big jump while tracking counts as a new target and restarts the saccade timing.
+      if (jump > RETARGET_DEGREES && this.nowMs - this.switchedAtMs > this.config.headLatencyMs) {
+        this.switchedAtMs = this.nowMs - dtMs;
+      }
+      this.goal = nextGoal;
+    }
+
+    const sinceSwitch = this.nowMs - this.switchedAtMs;
+    if (sinceSwitch >= this.config.eyeLatencyMs) this.eyeGoal = { ...this.goal };
+    if (sinceSwitch >= this.config.headLatencyMs) this.headGoal = { ...this.goal };
+
+    const { eyeShare, neckShare, limits } = this.config;
+    for (const axis of ['yaw', 'pitch'] as const) {
+      const bodyShare = this.headGoal[axis] * (1 - eyeShare);
+      const neckTarget = hasNeck ? clampAngle(bodyShare * neckShare, neckAxes[axis], limits.neck?.[axis]) : 0;
+      const headTarget = clampAngle(bodyShare - neckTarget, headAxes[axis], limits.head?.[axis]);
+
+      this.neck[axis] = smoothToward(this.neck[axis], neckTarget, dtMs, this.config.headSmoothingMs);
+      this.head[axis] = smoothToward(this.head[axis], headTarget, dtMs, this.config.headSmoothingMs);
+
+      const eyeTarget = this.eyeGoal[axis] - this.head[axis] - this.neck[axis];
+      const eyeLimit = eyeAxes.reduce<LookAtAxis | null>((acc, axes) => acc ?? axes[axis], null);
+      const clampedEye = clampAngle(eyeTarget, eyeLimit, limits.eyes?.[axis]);
+      this.eyes[axis] = smoothToward(this.eyes[axis], clampedEye, dtMs, this.config.eyeSmoothingMs);
+    }
+
+    this.applyAngles(eyeAxes, headAxes, hasNeck ? neckAxes : null);
+
+    if (!this.target) {
+      const settled = [this.eyes, this.head, this.neck].every(
+        (angles) => Math.abs(angles.yaw) < SETTLE_EPSILON && Math.abs(angles.pitch) < SETTLE_EPSILON
+      );
+      if (settled) {
+        this.eyes = { yaw: 0, pitch: 0 };
+        this.head = { yaw: 0, pitch: 0 };
+        this.neck = { yaw: 0, pitch: 0 };
+        this.applyAngles(eyeAxes, headAxes, hasNeck ? neckAxes : null);
+        this.active = false;
+      }
+    }
+  }
+
+  private computeGoal(): Angles | null {
+    if (!this.target) return { yaw: 0, pitch: 0 };
+
+    const model = this.host.getModel();
+    if (!model) return null;
+
+    const targetPosition = this.target instanceof Vector3
+      ? this.target.clone()
+      : this.target.getWorldPosition(new Vector3());
+
+    const originObject = this.host.getBoneObject(this.config.headNode);
+    const origin = originObject
+      ? originObject.getWorldPosition(new Vector3())
+      : model.getWorldPosition(new Vector3());
+
+    const angles = computeLookAtAngles(model, origin, targetPosition);
+    return {
+      yaw: angles.yaw * this.config.yawSign,
+      pitch: angles.pitch * this.config.pitchSign,
+    };
+  }
+
+  private applyAngles(eyeAxes: NodeAxes[], headAxes: NodeAxes, neckAxes: NodeAxes | null): void {
+    const written = new Set<string>();
+    const write = (pair: LookAtAxis | null, degrees: number) => {
+      if (!pair) return;
+      const key = `${pair.negAU}-${pair.posAU}`;
+      if (written.has(key)) return;
+      written.add(key);
+      this.host.setContinuum(pair.negAU, pair.posAU, toContinuum(degrees, pair));
+    };
+
+    if (neckAxes) {
+      write(neckAxes.yaw, this.neck.yaw);
+      write(neckAxes.pitch, this.neck.pitch);
+    }
+    write(headAxes.yaw, this.head.yaw);
+    write(headAxes.pitch, this.head.pitch);
+    for (const axes of eyeAxes) {
+      write(axes.yaw, this.eyes.yaw);
+      write(axes.pitch, this.eyes.pitch);
+    }
+  }
+
+  private resolveNodeAxes(nodeKey: string): NodeAxes {
+    const composite = this.host.getCompositeRotations().find((entry) => entry.node === nodeKey);
+    return {
+      yaw: this.resolveAxis(nodeKey, 'yaw', composite?.yaw),
+      pitch: this.resolveAxis(nodeKey, 'pitch', composite?.pitch),
+    };
+  }
+
+  /** The profile's continuum pair for the axis, falling back to the composite rotation's first pair. */
+  private resolveAxis(
+    nodeKey: string,
+    axis: 'yaw' | 'pitch',
+    axisConfig: RotationAxis | null | undefined
+  ): LookAtAxis | null {
+    const bindings = this.host.getBoneBindings();
+    const pair = resolveContinuumAxisPairs(nodeKey, axis, this.host.getContinuumPairs(), bindings)[0]
+      ?? resolveGazeAxisPairs(nodeKey, axisConfig, bindings)[0];
+    if (!pair || (pair.negDegrees <= 0 && pair.posDegrees <= 0)) return null;
+    return { ...pair, sign: this.resolveAxisSign(nodeKey, axis, pair, bindings) };
+  }
+
+  /**
+   * Rotate the bone's binding axis into model space and see which way its
+   * positive AU turns the model's forward (+Z). A positive turn about axis a
+   * moves +Z along a × Z, whose x is a.y (yaw) and whose y is -a.x (pitch).
+   * Without a resolved bone the positive AU is assumed to turn toward +X/+Y.
+   */
+  private resolveAxisSign(
+    nodeKey: string,
+    axis: 'yaw' | 'pitch',
+    pair: GazeAxisPair,
+    bindings: Record<number, BoneBinding[]>
+  ): 1 | -1 {
+    const model = this.host.getModel();
+    const bone = this.host.getBoneObject(nodeKey);
+    const posBinding = bindings[pair.posAU]?.find((binding) => binding.node === nodeKey);
+    const negBinding = bindings[pair.negAU]?.find((binding) => binding.node === nodeKey);
+    const binding = posBinding ?? negBinding;
+    if (!model || !bone || !binding || !(binding.channel in CHANNEL_AXES)) return 1;
+
+    const scale = (binding.scale < 0 ? -1 : 1) * (posBinding ? 1 : -1);
+    model.getWorldQuaternion(tmpModelQuat).invert();
+    const modelAxis = CHANNEL_AXES[binding.channel as keyof typeof CHANNEL_AXES].clone()
+      .applyQuaternion(tmpModelQuat.multiply(bone.getWorldQuaternion(tmpBoneQuat)));
+    const turn = (axis === 'yaw' ? modelAxis.y : -modelAxis.x) * scale;
+    return turn < 0 ? -1 : 1;
+  }
+}
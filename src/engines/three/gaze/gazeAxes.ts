@@ -0,0 +1,69 @@
+import type { BoneBinding, RotationAxis } from '../../../core/types';
+import { toAUList } from '../../../core/compositeAxis';
+import type { Profile } from '../../../mappings/types';
+
+/** One negative/positive AU pair on a composite rotation axis, with its bone range. */
+export interface GazeAxisPair {
+  negAU: number;
+  posAU: number;
+  /** Max degrees toward the negative AU (0 when the AU has no bone binding on the node) */
+  negDegrees: number;
+  /** Max degrees toward the positive AU (0 when the AU has no bone binding on the node) */
+  posDegrees: number;
+}
+
+function nodeMaxDegrees(nodeKey: string, auId: number, bindings: Record<number, BoneBinding[]>): number {
+  return bindings[auId]?.find((binding) => binding.node === nodeKey)?.maxDegrees ?? 0;
+}
+
+/**
+ * Resolve the AU pairs a profile's continuumPairs declare for one axis, keeping
+ * those with a bone binding on the node, lowest negative AU first. The pair's
+ * own `node` is not required to match: CC4 lists the both-eyes pair 61/62
+ * under EYE_L only, though it binds EYE_R too.
+ */
+export function resolveContinuumAxisPairs(
+  nodeKey: string,
+  axis: 'pitch' | 'yaw' | 'roll',
+  continuumPairs: Profile['continuumPairs'],
+  bindings: Record<number, BoneBinding[]>
+): GazeAxisPair[] {
+  const pairs: GazeAxisPair[] = [];
+  for (const [auIdStr, info] of Object.entries(continuumPairs ?? {})) {
+    if (!info.isNegative || info.axis !== axis) continue;
+    const negAU = Number(auIdStr);
+    const pair = {
+      negAU,
+      posAU: info.pairId,
+      negDegrees: nodeMaxDegrees(nodeKey, negAU, bindings),
+      posDegrees: nodeMaxDegrees(nodeKey, info.pairId, bindings),
+    };
+    if (pair.negDegrees > 0 || pair.posDegrees > 0) pairs.push(pair);
+  }
+  return pairs.sort((a, b) => a.negAU - b.negAU);
+}
+
+/**
+ * Resolve the AU pairs on a composite axis for one node.
+ * Negative and positive selectors are paired by index, so CC4's
+ * `negative: [61, 65]` / `positive: [62, 66]` yields 61/62 then 65/66.
+ */
+export function resolveGazeAxisPairs(
+  nodeKey: string,
+  axisConfig: RotationAxis | null | undefined,
+  bindings: Record<number, BoneBinding[]>
+): GazeAxisPair[] {
+  if (!axisConfig) return [];
+  const negativeAUs = toAUList(axisConfig.negative);
+  const positiveAUs = toAUList(axisConfig.positive);
+  const maxDegrees = (auId: number) => nodeMaxDegrees(nodeKey, auId, bindings);
+
+  const pairs: GazeAxisPair[] = [];
+  const count = Math.min(negativeAUs.length, positiveAUs.length);
+  for (let i = 0; i < count; i += 1) {
+    const negAU = negativeAUs[i];
+    const posAU = positiveAUs[i];
+    pairs.push({ negAU, posAU, negDegrees: maxDegrees(negAU), posDegrees: maxDegrees(posAU) });
+  }
+  return pairs;
+}
@@ -0,0 +1,407 @@
+import { Quaternion, Vector3 } from 'three';
+import type { AnimationClip, Interpolant, Object3D } from 'three';
+import type { AnimationBlendMode, AnimationLayerDefinition } from '../../../core/types';
+import { parseTrackTarget } from '../bakedClipPartitioning';
+import type { ResolvedBones } from '../types';
+
+export interface AnimationLayerHost {
+  getModel: () => Object3D | null;
+  getBones: () => ResolvedBones;
+  /** Authored baked clip by name */
+  getClip: (clipName: string) => AnimationClip | undefined;
+}
+
+export interface LayerPlayOptions {
+  /** Playback rate (default: 1) */
+  speed?: number;
+  /** Loop instead of leaving the layer at the end (default: true) */
+  loop?: boolean;
+  /** Clip weight within the layer, 0-1 (default: 1) */
+  weight?: number;
+  /** Seconds to fade this clip in while the layer's other clips fade out (default: 0) */
+  crossfade?: number;
+  /** Start time in seconds (default: 0) */
+  startTime?: number;
+}
+
+export interface LayerAnimationHandle {
+  layer: string;
+  clipName: string;
+  /** Fade out over `fadeOut` seconds (default: 0) and leave the layer */
+  stop: (fadeOut?: number) => void;
+  setWeight: (weight: number) => void;
+  setSpeed: (speed: number) => void;
+  getTime: () => number;
+  getDuration: () => number;
+  /** Resolves when the clip leaves the layer */
+  finished: Promise<void>;
+}
+
+export interface AnimationLayerInfo {
+  name: string;
+  weight: number;
+  blendMode: AnimationBlendMode;
+  /** Names of the masked nodes (empty until a model is loaded) */
+  boneNames: string[];
+  /** Clips currently on the layer */
+  clips: string[];
+}
+
+type LayerProperty = 'quaternion' | 'position' | 'scale';
+
+type LayerTrack = {
+  target: Object3D;
+  property: LayerProperty;
+  interpolant: Interpolant;
+  /** First-frame value, the reference pose for additive layers */
+  reference: number[];
+};
+
+type LayerPlayback = {
+  handle: LayerAnimationHandle;
+  tracks: LayerTrack[];
+  duration: number;
+  time: number;
+  speed: number;
+  loop: boolean;
+  weight: number;
+  fadeIn: number;
+  elapsed: number;
+  fadeOut: { elapsed: number; duration: number; from: number } | null;
+  resolve: () => void;
+};
+
+type LayerRuntime = {
+  definition: AnimationLayerDefinition;
+  weight: number;
+  blendMode: AnimationBlendMode;
+  maskModel: Object3D | null;
+  mask: Set<Object3D>;
+  playing: LayerPlayback[];
+};
+
+type LayerWrite = {
+  target: Object3D;
+  property: LayerProperty;
+  base: Quaternion | Vector3;
+  written: Quaternion | Vector3 | null;
+};
+
+type ReplaceAccumulator = {
+  target: Object3D;
+  property: LayerProperty;
+  weight: number;
+  value: Quaternion | Vector3;
+};
+
+const LAYER_PROPERTIES = new Set<string>(['quaternion', 'position', 'scale']);
+const tmpQuat = new Quaternion();
+const tmpRefQuat = new Quaternion();
+const tmpVec = new Vector3();
+const tmpRefVec = new Vector3();
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function readValue(property: LayerProperty, values: ArrayLike<number>, out?: Quaternion | Vector3): Quaternion | Vector3 {
+  if (property === 'quaternion') {
+    const quat = (out as Quaternion | undefined) ?? new Quaternion();
+    return quat.set(values[0], values[1], values[2], values[3]);
+  }
+  const vec = (out as Vector3 | undefined) ?? new Vector3();
+  return vec.set(values[0], values[1], values[2]);
+}
+
+/**
+ * User-defined bone-masked animation layers over baked clips.
+ *
+ * Layers are evaluated after the mixer, in definition order: a replace layer
+ * blends its masked bones from the pose below toward its clips by the layer
+ * weight, an additive layer adds each clip's motion relative to its first
+ * frame. Writes are undone before the next mixer pass so bones the mixer does
+ * not drive do not accumulate.
+ */
+export class AnimationLayerController {
+  private host: AnimationLayerHost;
+  private layers = new Map<string, LayerRuntime>();
+  private writes = new Map<string, LayerWrite>();
+
+  constructor(host: AnimationLayerHost) {
+    this.host = host;
+  }
+
+  /** Add or replace a layer. Returns false (with a warning) for an unusable definition. */
+  defineLayer(definition: AnimationLayerDefinition): boolean {
+    if (!definition?.name || !definition.mask?.include?.length) {
+      console.warn('[Loom3] defineAnimationLayer: a layer needs a name and at least one mask root');
+      return false;
+    }
+    this.removeLayer(definition.name);
+    this.layers.set(definition.name, {
+      definition,
+      weight: clamp01(definition.weight ?? 1),
+      blendMode: definition.blendMode ?? 'replace',
+      maskModel: null,
+      mask: new Set(),
+      playing: [],
+    });
+    return true;
+  }
+
+  removeLayer(name: string): void {
+    const layer = this.layers.get(name);
+    if (!layer) return;
+    for (const playback of [...layer.playing]) this.finish(layer, playback);
+    this.layers.delete(name);
+  }
+
+  hasLayer(name: string): boolean {
+    return this.layers.has(name);
+  }
+
+  setLayerWeight(name: string, weight: number): void {
+    const layer = this.layers.get(name);
+    if (layer) layer.weight = clamp01(weight);
+  }
+
+  setLayerBlendMode(name: string, blendMode: AnimationBlendMode): void {
+    const layer = this.layers.get(name);
+    if (layer) layer.blendMode = blendMode;
+  }
+
+  getLayers(): AnimationLayerInfo[] {
+    return Array.from(this.layers.values()).map((layer) => ({
+      name: layer.definition.name,
+      weight: layer.weight,
+      blendMode: layer.blendMode,
+      boneNames: Array.from(this.resolveMask(layer)).map((node) => node.name),
+      clips: layer.playing.map((playback) => playback.handle.clipName),
+    }));
+  }
+
+  /** Play a baked clip on a layer, restricted to the layer's masked bones. */
+  play(layerName: string, clipName: string, options: LayerPlayOptions = {}): LayerAnimationHandle | null {
+    const layer = this.layers.get(layerName);
+    if (!layer) {
+      console.warn(`[Loom3] playAnimationOnLayer: unknown layer "${layerName}"`);
+      return null;
+    }
+    const clip = this.host.getClip(clipName);
+    const model = this.host.getModel();
+    if (!clip || !model) {
+      console.warn(`[Loom3] playAnimationOnLayer: animation clip "${clipName}" not found`);
+      return null;
+    }
+
+    const mask = this.resolveMask(layer);
+    const tracks: LayerTrack[] = [];
+    for (const track of clip.tracks) {
+      const parsed = parseTrackTarget(track.name, model);
+      if (!parsed?.target || !LAYER_PROPERTIES.has(parsed.propertyName) || !mask.has(parsed.target)) continue;
+      // Whole-value tracks only; component tracks such as position[x] are skipped.
+      if (track.getValueSize() !== (parsed.propertyName === 'quaternion' ? 4 : 3)) continue;
+      const interpolant = track.createInterpolant();
+      tracks.push({
+        target: parsed.target,
+        property: parsed.propertyName as LayerProperty,
+        interpolant,
+        reference: Array.from(interpolant.evaluate(0)),
+      });
+    }
+    if (!tracks.length) {
+      console.warn(`[Loom3] playAnimationOnLayer: "${clipName}" has no tracks inside layer "${layerName}"`);
+      return null;
+    }
+
+    const crossfade = Math.max(0, options.crossfade ?? 0);
+    for (const other of [...layer.playing]) this.stopPlayback(layer, other, crossfade);
+
+    let resolve!: () => void;
+    const finished = new Promise<void>((res) => { resolve = res; });
+    const playback: LayerPlayback = {
+      handle: {
+        layer: layerName,
+        clipName,
+        stop: (fadeOut = 0) => this.stopPlayback(layer, playback, fadeOut),
+        setWeight: (weight) => { playback.weight = clamp01(weight); },
+        setSpeed: (speed) => { playback.speed = Math.max(0, speed); },
+        getTime: () => playback.time,
+        getDuration: () => playback.duration,
+        finished,
+      },
+      tracks,
+      duration: clip.duration,
+      time: Math.max(0, Math.min(clip.duration, options.startTime ?? 0)),
+      speed: options.speed ?? 1,
+      loop: options.loop ?? true,
+      weight: clamp01(options.weight ?? 1),
+      fadeIn: crossfade,
+      elapsed: 0,
+      fadeOut: null,
+      resolve,
+    };
+    layer.playing.push(playback);
+    return playback.handle;
+  }
+
+  /** Stop every clip on a layer. */
+  stopLayer(name: string, fadeOut = 0): void {
+    const layer = this.layers.get(name);
+    if (!layer) return;
+    for (const playback of [...layer.playing]) this.stopPlayback(layer, playback, fadeOut);
+  }
+
+  /** Undo last frame's layer writes; call before the mixer evaluates. */
+  restore(): void {
+    for (const write of this.writes.values()) {
+      const current = write.target[write.property];
+      if (write.written && (current as Quaternion & Vector3).equals(write.written as Quaternion & Vector3)) {
+        (current as Quaternion & Vector3).copy(write.base as Quaternion & Vector3);
+      }
+    }
+    this.writes.clear();
+  }
+
+  /** Advance layer clips and blend them over the current pose; call after the mixer evaluates. */
+  update(dtSeconds: number): void {
+    for (const layer of this.layers.values()) {
+      for (const playback of [...layer.playing]) this.advance(layer, playback, dtSeconds);
+      if (layer.weight <= 0 || !layer.playing.length) continue;
+      if (layer.blendMode === 'additive') this.applyAdditive(layer);
+      else this.applyReplace(layer);
+    }
+    for (const write of this.writes.values()) {
+      write.written = write.target[write.property].clone();
+    }
+  }
+
+  dispose(): void {
+    this.restore();
+    for (const name of Array.from(this.layers.keys())) this.removeLayer(name);
+  }
+
+  private resolveMask(layer: LayerRuntime): Set<Object3D> {
+    const model = this.host.getModel();
+    if (layer.maskModel === model) return layer.mask;
+
+    const bones = this.host.getBones();
+    const resolveRoot = (key: string) => bones[key]?.obj ?? model?.getObjectByName(key) ?? null;
+    const mask = new Set<Object3D>();
+    const missing: string[] = [];
+    for (const key of layer.definition.mask.include) {
+      const root = resolveRoot(key);
+      if (root) root.traverse((node) => { mask.add(node); });
+      else missing.push(key);
+    }
+    for (const key of layer.definition.mask.exclude ?? []) {
+      const root = resolveRoot(key);
+      if (root) root.traverse((node) => { mask.delete(node); });
+      else missing.push(key);
+    }
+    if (model && missing.length) {
+      console.warn(`[Loom3] animation layer "${layer.definition.name}": mask roots not found: ${missing.join(', ')}`);
+    }
+
+    layer.maskModel = model;
+    layer.mask = mask;
+    return mask;
+  }
+
+  private stopPlayback(layer: LayerRuntime, playback: LayerPlayback, fadeOut: number): void {
+    if (!layer.playing.includes(playback)) return;
+    if (fadeOut <= 0) {
+      this.finish(layer, playback);
+      return;
+    }
+    if (!playback.fadeOut) {
+      playback.fadeOut = { elapsed: 0, duration: fadeOut, from: this.getWeight(playback) };
+    }
+  }
+
+  private finish(layer: LayerRuntime, playback: LayerPlayback): void {
+    const index = layer.playing.indexOf(playback);
+    if (index >= 0) layer.playing.splice(index, 1);
+    playback.resolve();
+  }
+
+  private advance(layer: LayerRuntime, playback: LayerPlayback, dtSeconds: number): void {
+    playback.elapsed += dtSeconds;
+    playback.time += dtSeconds * playback.speed;
+    if (playback.fadeOut) {
+      playback.fadeOut.elapsed += dtSeconds;
+      if (playback.fadeOut.elapsed >= playback.fadeOut.duration) {
+        this.finish(layer, playback);
+        return;
+      }
+    }
+    if (playback.duration <= 0) {
+      playback.time = 0;
+    } else if (playback.loop) {
+      playback.time %= playback.duration;
+    } else if (playback.time >= playback.duration) {
+      this.finish(layer, playback);
+    }
+  }
+
+  private getWeight(playback: LayerPlayback): number {
+    if (playback.fadeOut) {
+      return playback.fadeOut.from * (1 - playback.fadeOut.elapsed / playback.fadeOut.duration);
+    }
+    const fade = playback.fadeIn > 0 ? Math.min(1, playback.elapsed / playback.fadeIn) : 1;
+    return playback.weight * fade;
+  }
+
+  private recordBase(target: Object3D, property: LayerProperty): void {
+    const key = `${target.uuid}.${property}`;
+    if (!this.writes.has(key)) {
+      this.writes.set(key, { target, property, base: target[property].clone(), written: null });
+    }
+  }
+
+  private applyReplace(layer: LayerRuntime): void {
+    const accumulators = new Map<string, ReplaceAccumulator>();
+    for (const playback of layer.playing) {
+      const weight = this.getWeight(playback);
+      if (weight <= 0) continue;
+      for (const track of playback.tracks) {
+        const key = `${track.target.uuid}.${track.property}`;
+        const sampled = track.interpolant.evaluate(playback.time);
+        const entry = accumulators.get(key);
+        if (!entry) {
+          accumulators.set(key, { target: track.target, property: track.property, weight, value: readValue(track.property, sampled) });
+          continue;
+        }
+        entry.weight += weight;
+        const t = weight / entry.weight;
+        if (entry.value instanceof Quaternion) entry.value.slerp(readValue('quaternion', sampled, tmpQuat) as Quaternion, t);
+        else entry.value.lerp(readValue(track.property, sampled, tmpVec) as Vector3, t);
+      }
+    }
+
+    for (const { target, property, weight, value } of accumulators.values()) {
+      const alpha = layer.weight * Math.min(1, weight);
+      this.recordBase(target, property);
+      if (value instanceof Quaternion) target.quaternion.slerp(value, alpha);
+      else target[property as 'position' | 'scale'].lerp(value, alpha);
+    }
+  }
+
+  private applyAdditive(layer: LayerRuntime): void {
+    for (const playback of layer.playing) {
+      const alpha = layer.weight * this.getWeight(playback);
+      if (alpha <= 0) continue;
+      for (const track of playback.tracks) {
+        const sampled = track.interpolant.evaluate(playback.time);
+        this.recordBase(track.target, track.property);
+        if (track.property === 'quaternion') {
+          const reference = readValue('quaternion', track.reference, tmpRefQuat) as Quaternion;
+          const delta = reference.invert().multiply(readValue('quaternion', sampled, tmpQuat) as Quaternion);
+          track.target.quaternion.multiply(new Quaternion().slerp(delta, alpha));
+        } else {
+          const reference = readValue(track.property, track.reference, tmpRefVec) as Vector3;
+          const delta = (readValue(track.property, sampled, tmpVec) as Vector3).sub(reference);
+          track.target[track.property].addScaledVector(delta, alpha);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { parseVisemeCurveId, visemeCurveId } from '../../../core/snippetOps';
+import { PerformanceRecorder } from './PerformanceRecorder';
+
+function makeHost() {
+  const state = {
+    aus: {} as Record<number, number>,
+    balances: {} as Record<number, number>,
+    visemes: [0, 0, 0],
+  };
+  const recorder = new PerformanceRecorder({
+    getAUValues: () => state.aus,
+    getAUBalance: (auId) => state.balances[auId],
+    getVisemeValues: () => state.visemes,
+  });
+  return { state, recorder };
+}
+
+describe('PerformanceRecorder', () => {
+  it('records changed channels relative to start and omits silent ones', () => {
+    const { state, recorder } = makeHost();
+    state.aus = { 12: 0, 45: 0 };
+    recorder.start({ name: 'take' });
+
+    state.aus[12] = 0.5;
+    recorder.sample(0.1);
+    state.aus[12] = 1;
+    state.visemes[2] = 0.8;
+    recorder.sample(0.1);
+
+    const snippet = recorder.stop()!;
+    expect(snippet.name).toBe('take');
+    expect(Object.keys(snippet.curves).sort()).toEqual(['12', visemeCurveId(2)]);
+    expect(snippet.curves['12']).toEqual([
+      { time: 0, intensity: 0 },
+      { time: 0.2, intensity: 1 },
+    ]);
+    expect(snippet.curves[visemeCurveId(2)].map((p) => p.intensity)).toEqual([0, 0, 0.8]);
+    expect(recorder.isRecording()).toBe(false);
+  });
+
+  it('holds a channel first seen mid-take at 0 until the previous sample', () => {
+    const { state, recorder } = makeHost();
+    recorder.start();
+    recorder.sample(0.5);
+    recorder.sample(0.5);
+    state.aus[4] = 1;
+    recorder.sample(0.1);
+
+    const curve = recorder.stop()!.curves['4'];
+    expect(curve[0]).toEqual({ time: 0, intensity: 0 });
+    expect(curve[curve.length - 2]).toEqual({ time: 1, intensity: 0 });
+    expect(curve[curve.length - 1].intensity).toBe(1);
+  });
+
+  it('splits balanced AUs into side curves and respects channel filters', () => {
+    const { state, recorder } = makeHost();
+    recorder.start({ includeVisemes: false });
+    state.aus[12] = 1;
+    state.balances[12] = -0.5;
+    state.visemes[0] = 1;
+    recorder.sample(0.1);
+
+    const snippet = recorder.stop()!;
+    expect(Object.keys(snippet.curves).sort()).toEqual(['12L', '12R']);
+    expect(snippet.curves['12L'].map((p) => p.intensity)).toEqual([0, 1]);
+    expect(snippet.curves['12R'].map((p) => p.intensity)).toEqual([0, 0.5]);
+    expect(snippet.balanceMap).toBeUndefined();
+    expect(recorder.stop()).toBeNull();
+  });
+
+  it('keeps balance changes within a take', () => {
+    const { state, recorder } = makeHost();
+    recorder.start();
+    state.aus[45] = 1;
+    state.balances[45] = -1;
+    recorder.sample(0.1);
+    state.aus[45] = 0;
+    recorder.sample(0.1);
+    state.aus[45] = 1;
+    state.balances[45] = 1;
+    recorder.sample(0.1);
+
+    const { curves } = recorder.stop()!;
+    expect(curves['45']).toBeUndefined();
+    expect(curves['45L'].map((p) => p.intensity)).toEqual([0, 1, 0, 0]);
+    expect(curves['45R'].map((p) => p.intensity)).toEqual([0, 0, 1]);
+  });
+
+  it('parses only well-formed viseme curve ids', () => {
+    expect(parseVisemeCurveId('viseme:3')).toBe(3);
+    expect(parseVisemeCurveId('viseme_aa')).toBeNull();
+    expect(parseVisemeCurveId('3')).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import type { CurvePoint, CurvesMap, Snippet } from '../../../core/types';
+import { DEFAULT_REDUCE_TOLERANCE, reduceKeyframes, sideCurveId, visemeCurveId } from '../../../core/snippetOps';
+
+export interface RecordingOptions {
+  /** Snippet name (default: 'recording') */
+  name?: string;
+  description?: string;
+  /** Max intensity error allowed when dropping keyframes (default: 0.005) */
+  tolerance?: number;
+  /** Record AU values, which includes continuum pairs (default: true) */
+  includeAUs?: boolean;
+  /** Record viseme values (default: true) */
+  includeVisemes?: boolean;
+}
+
+/** Recorder output; AUs recorded with a balance are split into `12L` / `12R` side curves. */
+export type RecordedSnippet = Snippet;
+
+export interface PerformanceRecorderHost {
+  /** Current user AU values (procedural overlays excluded). */
+  getAUValues: () => Record<number, number>;
+  /** Balance last set for an AU, if any. */
+  getAUBalance: (auId: number) => number | undefined;
+  getVisemeValues: () => number[];
+}
+
+export const DEFAULT_RECORDING_TOLERANCE = DEFAULT_REDUCE_TOLERANCE;
+
+const EPSILON = 1e-6;
+
+interface RecordingChannel {
+  points: CurvePoint[];
+  /** AU behind a plain or side AU curve */
+  auId?: number;
+}
+
+/**
+ * Captures runtime AU and viseme state into snippet curves.
+ *
+ * Loom3 calls sample() once per update() with the elapsed time; the recorder
+ * never writes state itself. Continuums are recorded through their two AUs,
+ * which snippetToClip turns back into composite bone rotation. Each AU is also
+ * recorded per side, and an AU whose balance was ever non-zero while active
+ * comes back as its side curves, so balance changes mid-take play back.
+ */
+export class PerformanceRecorder {
+  private host: PerformanceRecorderHost;
+  private options: (Required<Omit<RecordingOptions, 'description'>> & Pick<RecordingOptions, 'description'>) | null = null;
+  private elapsed = 0;
+  private previousSampleTime = 0;
+  private channels = new Map<string, RecordingChannel>();
+  /** AUs that were active with a non-zero balance at some sample */
+  private balancedAUs = new Set<number>();
+
+  constructor(host: PerformanceRecorderHost) {
+    this.host = host;
+  }
+
+  isRecording(): boolean {
+    return this.options !== null;
+  }
+
+  /** Seconds recorded so far. */
+  getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /** Begin a new take at time 0, discarding any take in progress. */
+  start(options: RecordingOptions = {}): void {
+    this.options = {
+      name: options.name ?? 'recording',
+      description: options.description,
+      tolerance: Math.max(0, options.tolerance ?? DEFAULT_RECORDING_TOLERANCE),
+      includeAUs: options.includeAUs ?? true,
+      includeVisemes: options.includeVisemes ?? true,
+    };
+    this.elapsed = 0;
+    this.previousSampleTime = 0;
+    this.channels.clear();
+    this.balancedAUs.clear();
+    this.capture();
+  }
+
+  sample(dtSeconds: number): void {
+    if (!this.options || !(dtSeconds > 0)) return;
+    this.previousSampleTime = this.elapsed;
+    this.elapsed += dtSeconds;
+    this.capture();
+  }
+
+  /**
+   * End the take and return it as a snippet. Channels that stayed at 0 the
+   * whole take are left out, and each AU keeps either its plain curve or its
+   * side curves. Returns null when not recording.
+   */
+  stop(): RecordedSnippet | null {
+    const options = this.options;
+    if (!options) return null;
+    this.options = null;
+
+    const curves: CurvesMap = {};
+    for (const [curveId, channel] of this.channels) {
+      const { auId } = channel;
+      if (auId !== undefined && this.balancedAUs.has(auId) === (curveId === String(auId))) continue;
+      if (!channel.points.some((point) => Math.abs(point.intensity) > EPSILON)) continue;
+      curves[curveId] = reduceKeyframes(channel.points, options.tolerance);
+    }
+    this.channels.clear();
+    this.balancedAUs.clear();
+
+    const snippet: RecordedSnippet = { name: options.name, curves };
+    if (options.description) snippet.description = options.description;
+    return snippet;
+  }
+
+  /** Abandon the take in progress. */
+  cancel(): void {
+    this.options = null;
+    this.channels.clear();
+    this.balancedAUs.clear();
+  }
+
+  private capture(): void {
+    const options = this.options;
+    if (!options) return;
+    const seen = new Set<string>();
+
+    if (options.includeAUs) {
+      for (const [auIdStr, value] of Object.entries(this.host.getAUValues())) {
+        const auId = Number(auIdStr);
+        const balance = Math.max(-1, Math.min(1, this.host.getAUBalance(auId) ?? 0));
+        if (Math.abs(balance) > EPSILON && value > EPSILON) this.balancedAUs.add(auId);
+        // Same split as Loom3.setAU: the side the balance leans toward keeps the full value.
+        const sides = {
+          [String(auId)]: value,
+          [sideCurveId(auId, 'L')]: balance > 0 ? value * (1 - balance) : value,
+          [sideCurveId(auId, 'R')]: balance < 0 ? value * (1 + balance) : value,
+        };
+        for (const [curveId, sideValue] of Object.entries(sides)) {
+          seen.add(curveId);
+          this.push(curveId, sideValue).auId = auId;
+        }
+      }
+    }
+
+    if (options.includeVisemes) {
+      this.host.getVisemeValues().forEach((value, index) => {
+        const curveId = visemeCurveId(index);
+        seen.add(curveId);
+        this.push(curveId, value);
+      });
+    }
+
+    // Channels cleared since the last sample (e.g. resetToNeutral) drop to 0.
+    for (const [curveId, channel] of this.channels) {
+      if (!seen.has(curveId) && channel.points.length) this.push(curveId, 0);
+    }
+  }
+
+  private push(curveId: string, value: number): RecordingChannel {
+    let channel = this.channels.get(curveId);
+    if (!channel) {
+      // Channels first seen mid-take were 0 up to the previous sample.
+      const points: CurvePoint[] = this.elapsed > 0 ? [{ time: 0, intensity: 0 }] : [];
+      if (this.previousSampleTime > 0) points.push({ time: this.previousSampleTime, intensity: 0 });
+      channel = { points };
+      this.channels.set(curveId, channel);
+    }
+    const last = channel.points[channel.points.length - 1];
+    const point = { time: this.elapsed, intensity: Number.isFinite(value) ? value : 0 };
+    if (last && Math.abs(last.time - point.time) <= EPSILON) {
+      last.intensity = point.intensity;
+    } else {
+      channel.points.push(point);
+    }
+    return channel;
+  }
+}
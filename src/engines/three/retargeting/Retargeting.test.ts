@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, Object3D, Quaternion, QuaternionKeyframeTrack, Vector3, VectorKeyframeTrack } from 'three';
+import type { Profile } from '../../../mappings/types';
+import { CC4_PRESET } from '../../../presets/cc4';
+import { MIXAMO_PRESET } from '../../../presets/mixamo';
+import { RPM_PRESET } from '../../../presets/readyPlayerMe';
+import { BakedAnimationController, type BakedAnimationHost } from '../AnimationThree';
+import { retargetClip, type RetargetSkeleton } from './Retargeting';
+
+const yAxis = new Vector3(0, 1, 0);
+const xAxis = new Vector3(1, 0, 0);
+
+function node(name: string, parent: Object3D, position: [number, number, number]): Object3D {
+  const obj = new Object3D();
+  obj.name = name;
+  obj.position.set(...position);
+  parent.add(obj);
+  return obj;
+}
+
+/** Hips at `hipsHeight`, a spine above and two legs down to the floor, named by the preset's bone keys. */
+function makeSkeleton(preset: Profile, hipsHeight: number): RetargetSkeleton {
+  const name = (key: string) => `${preset.bonePrefix ?? ''}${preset.boneNodes[key]}`;
+  const root = new Object3D();
+  const hips = node(name('HIPS'), root, [0, hipsHeight, 0]);
+  node(name('SPINE_01'), hips, [0, 0.2, 0]);
+  for (const [side, x] of [['L', 0.1], ['R', -0.1]] as const) {
+    const upper = node(name(`UPPERLEG_${side}`), hips, [x * hipsHeight, 0, 0]);
+    const lower = node(name(`LOWERLEG_${side}`), upper, [0, -hipsHeight / 2, 0]);
+    node(name(`FOOT_${side}`), lower, [0, -hipsHeight / 2, 0]);
+  }
+  return { root, profile: preset };
+}
+
+const quarterTurnY = new Quaternion().setFromAxisAngle(yAxis, Math.PI / 2);
+const leanX = new Quaternion().setFromAxisAngle(xAxis, Math.PI / 4);
+
+const sourceClip = () => new AnimationClip('Walk', 1, [
+  new VectorKeyframeTrack('mixamorigHips.position', [0, 1], [0, 1, 0, 0, 1, 1]),
+  new QuaternionKeyframeTrack('mixamorigSpine.quaternion', [0, 1], [0, 0, 0, 1, ...leanX.toArray()]),
+  new QuaternionKeyframeTrack('mixamorigLeftUpLeg.quaternion', [0, 1], [0, 0, 0, 1, ...leanX.toArray()]),
+  new QuaternionKeyframeTrack('mixamorigLeftLeg.quaternion', [0, 1], [0, 0, 0, 1, ...leanX.toArray()]),
+  new VectorKeyframeTrack('mixamorigSpine.position', [0, 1], [0, 0.2, 0, 0, 0.3, 0]),
+  new VectorKeyframeTrack('mixamorigSpine.scale', [0, 1], [1, 1, 1, 2, 2, 2]),
+]);
+
+describe('retargetClip', () => {
+  it('pairs Mixamo and CC4 bones by key and scales hip travel by leg length', () => {
+    const source = makeSkeleton(MIXAMO_PRESET, 1);
+    const target = makeSkeleton(CC4_PRESET, 2);
+    const { clip, bones, skippedTracks, hipsScale } = retargetClip(sourceClip(), source, target, { fps: 4 });
+
+    expect(bones).toEqual([
+      { key: 'HIPS', source: 'mixamorigHips', target: 'CC_Base_Hip' },
+      { key: 'SPINE_01', source: 'mixamorigSpine', target: 'CC_Base_Spine01' },
+      { key: 'UPPERLEG_L', source: 'mixamorigLeftUpLeg', target: 'CC_Base_L_Thigh' },
+      { key: 'UPPERLEG_R', source: 'mixamorigRightUpLeg', target: 'CC_Base_R_Thigh' },
+      { key: 'LOWERLEG_L', source: 'mixamorigLeftLeg', target: 'CC_Base_L_Calf' },
+      { key: 'LOWERLEG_R', source: 'mixamorigRightLeg', target: 'CC_Base_R_Calf' },
+      { key: 'FOOT_L', source: 'mixamorigLeftFoot', target: 'CC_Base_L_Foot' },
+      { key: 'FOOT_R', source: 'mixamorigRightFoot', target: 'CC_Base_R_Foot' },
+    ]);
+    expect(skippedTracks).toEqual(['mixamorigSpine.position', 'mixamorigSpine.scale']);
+    expect(hipsScale).toBeCloseTo(2);
+    // The foot only follows its leg, so it stays at rest and gets no track.
+    expect(clip.tracks.map((track) => track.name)).toEqual([
+      'CC_Base_Spine01.quaternion',
+      'CC_Base_L_Thigh.quaternion',
+      'CC_Base_L_Calf.quaternion',
+      'CC_Base_Hip.position',
+    ]);
+
+    const hips = clip.tracks[3];
+    expect(hips.times).toHaveLength(5);
+    expect(Array.from(hips.values.slice(-3))).toEqual([0, 2, expect.closeTo(2)]);
+    // The source skeleton is put back in its rest pose.
+    expect(source.root.getObjectByName('mixamorigSpine')!.quaternion.equals(new Quaternion())).toBe(true);
+  });
+
+  it('keeps the model-space rotation when rest orientations differ', () => {
+    const source = makeSkeleton(MIXAMO_PRESET, 1);
+    const target = makeSkeleton(CC4_PRESET, 1);
+    const targetSpine = target.root.getObjectByName('CC_Base_Spine01')!;
+    targetSpine.quaternion.copy(quarterTurnY);
+
+    const { clip } = retargetClip(sourceClip(), source, target, { fps: 1 });
+    const spineTrack = clip.tracks.find((track) => track.name === 'CC_Base_Spine01.quaternion')!;
+    const end = new Quaternion().fromArray(spineTrack.values, 4);
+    expect(end.angleTo(leanX.clone().multiply(quarterTurnY))).toBeCloseTo(0);
+  });
+
+  it('pairs bones without a key by their unprefixed names', () => {
+    const source = makeSkeleton(MIXAMO_PRESET, 1);
+    const target = makeSkeleton(RPM_PRESET, 1);
+    node('mixamorigLeftToe_End', source.root.getObjectByName('mixamorigLeftFoot')!, [0, 0, 0.1]);
+    node('LeftToe_End', target.root.getObjectByName('LeftFoot')!, [0, 0, 0.1]);
+
+    const { bones } = retargetClip(sourceClip(), source, target);
+    expect(bones).toContainEqual({ source: 'mixamorigLeftToe_End', target: 'LeftToe_End' });
+    expect(bones).toContainEqual({ key: 'LOWERLEG_L', source: 'mixamorigLeftLeg', target: 'LeftLeg' });
+  });
+
+  it('produces a clip the baked controller plays on the target', () => {
+    const source = makeSkeleton(MIXAMO_PRESET, 1);
+    const target = makeSkeleton(CC4_PRESET, 2);
+    const { clip } = retargetClip(sourceClip(), source, target);
+    const host: BakedAnimationHost = {
+      getModel: () => target.root,
+      getMeshes: () => [],
+      getMeshByName: () => undefined,
+      getBones: () => ({}),
+      getConfig: () => CC4_PRESET,
+      getCompositeRotations: () => [],
+      computeSideValues: (base: number) => ({ left: base, right: base }),
+      getAUMixWeight: () => 1,
+      isMixedAU: () => false,
+    };
+    const controller = new BakedAnimationController(host);
+    controller.loadAnimationClips([clip]);
+    controller.playAnimation('Walk', { loop: false });
+    controller.update(0.5);
+    expect(target.root.getObjectByName('CC_Base_Hip')!.position.z).toBeCloseTo(1);
+  });
+});
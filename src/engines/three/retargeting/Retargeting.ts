@@ -0,0 +1,295 @@
+import {
+  AnimationClip,
+  Quaternion,
+  QuaternionKeyframeTrack,
+  Vector3,
+  VectorKeyframeTrack,
+} from 'three';
+import type { Interpolant, KeyframeTrack, Object3D } from 'three';
+import { resolveBoneNames, type BoneResolutionProfile } from '../../../regions/regionMapping';
+import { parseTrackTarget } from '../bakedClipPartitioning';
+
+/** A skeleton to retarget from or to: its model root and the profile naming its bones. */
+export interface RetargetSkeleton {
+  root: Object3D;
+  profile: BoneResolutionProfile;
+}
+
+export interface RetargetOptions {
+  /** Name of the output clip (default: the source clip's name) */
+  name?: string;
+  /** Samples per second of the output tracks (default: 30) */
+  fps?: number;
+  /** Explicit source node name to target node name pairs, checked before bone keys */
+  boneMap?: Record<string, string>;
+  /**
+   * Also pair bones whose names match once each profile's bonePrefix and
+   * boneSuffix are removed, e.g. `mixamorigLeftUpLeg` and `LeftUpLeg` (default: true)
+   */
+  matchByName?: boolean;
+  /** Bone key of the hips; its translation is the only one carried over (default: 'HIPS') */
+  hipsKey?: string;
+  /** Hip translation scale; overrides the leg length ratio */
+  hipsScale?: number;
+}
+
+export interface RetargetBonePair {
+  /** Semantic bone key when the pair came from boneNodes */
+  key?: string;
+  source: string;
+  target: string;
+}
+
+export interface RetargetResult {
+  /** Plain clip on the target's node names, ready for loadAnimationClips() */
+  clip: AnimationClip;
+  bones: RetargetBonePair[];
+  /** Source tracks with no target: unpaired nodes, non-hip translation, scale and morph tracks */
+  skippedTracks: string[];
+  /** Factor applied to hip translation */
+  hipsScale: number;
+}
+
+type BonePair = RetargetBonePair & {
+  sourceNode: Object3D;
+  targetNode: Object3D;
+  depth: number;
+  /** Rest rotations relative to each model root */
+  sourceRest: Quaternion;
+  targetRest: Quaternion;
+  values: number[];
+  animated: boolean;
+};
+
+type SourceChannel = {
+  node: Object3D;
+  property: 'quaternion' | 'position';
+  interpolant: Interpolant;
+};
+
+const DEFAULT_FPS = 30;
+const LEG_KEYS = ['FOOT_L', 'FOOT_R'];
+const REST_EPSILON = 1e-5;
+
+const tmpQuat = new Quaternion();
+const tmpParent = new Quaternion();
+const tmpRootInverse = new Quaternion();
+
+function findBone(skeleton: RetargetSkeleton, key: string): Object3D | null {
+  if (!skeleton.profile.boneNodes?.[key]) return null;
+  for (const name of resolveBoneNames([key], skeleton.profile)) {
+    const node = skeleton.root.getObjectByName(name);
+    if (node) return node;
+  }
+  return null;
+}
+
+function stripAffixes(name: string, profile: BoneResolutionProfile): string {
+  let base = name;
+  if (profile.bonePrefix && base.startsWith(profile.bonePrefix)) base = base.slice(profile.bonePrefix.length);
+  if (profile.boneSuffix && base.endsWith(profile.boneSuffix)) base = base.slice(0, -profile.boneSuffix.length);
+  return base;
+}
+
+function depthOf(node: Object3D, root: Object3D): number {
+  let depth = 0;
+  for (let current: Object3D | null = node; current && current !== root; current = current.parent) depth += 1;
+  return depth;
+}
+
+/** World rotation relative to the model root. */
+function rootRelativeQuaternion(node: Object3D, root: Object3D, out: Quaternion): Quaternion {
+  root.getWorldQuaternion(tmpRootInverse).invert();
+  return node.getWorldQuaternion(out).premultiply(tmpRootInverse);
+}
+
+function rootRelativePosition(node: Object3D, root: Object3D, out: Vector3): Vector3 {
+  return root.worldToLocal(node.getWorldPosition(out));
+}
+
+/** Hips-to-foot distance in model space, or the hips height when no foot is mapped. */
+function legLength(skeleton: RetargetSkeleton, hips: Object3D): number {
+  const hipsPosition = rootRelativePosition(hips, skeleton.root, new Vector3());
+  for (const key of LEG_KEYS) {
+    const foot = findBone(skeleton, key);
+    if (foot) return hipsPosition.distanceTo(rootRelativePosition(foot, skeleton.root, new Vector3()));
+  }
+  return Math.abs(hipsPosition.y);
+}
+
+function pairBones(source: RetargetSkeleton, target: RetargetSkeleton, options: RetargetOptions): BonePair[] {
+  const pairs = new Map<Object3D, BonePair>();
+  const usedTargets = new Set<Object3D>();
+  const add = (sourceNode: Object3D | null | undefined, targetNode: Object3D | null | undefined, key?: string) => {
+    if (!sourceNode || !targetNode || pairs.has(sourceNode) || usedTargets.has(targetNode)) return;
+    usedTargets.add(targetNode);
+    pairs.set(sourceNode, {
+      key,
+      source: sourceNode.name,
+      target: targetNode.name,
+      sourceNode,
+      targetNode,
+      depth: depthOf(targetNode, target.root),
+      sourceRest: rootRelativeQuaternion(sourceNode, source.root, new Quaternion()),
+      targetRest: rootRelativeQuaternion(targetNode, target.root, new Quaternion()),
+      values: [],
+      animated: false,
+    });
+  };
+
+  for (const [sourceName, targetName] of Object.entries(options.boneMap ?? {})) {
+    add(source.root.getObjectByName(sourceName), target.root.getObjectByName(targetName));
+  }
+  for (const key of Object.keys(source.profile.boneNodes ?? {})) {
+    add(findBone(source, key), findBone(target, key), key);
+  }
+  if (options.matchByName ?? true) {
+    const targetsByName = new Map<string, Object3D>();
+    target.root.traverse((node) => {
+      if (node !== target.root && node.name) targetsByName.set(stripAffixes(node.name, target.profile), node);
+    });
+    source.root.traverse((node) => {
+      if (node !== source.root && node.name) add(node, targetsByName.get(stripAffixes(node.name, source.profile)));
+    });
+  }
+
+  return Array.from(pairs.values()).sort((a, b) => a.depth - b.depth);
+}
+
+/**
+ * Retarget a baked clip from one skeleton to another.
+ *
+ * Bones are paired through explicit `boneMap` entries, then shared semantic
+ * bone keys (`boneNodes`), then matching base names. Each paired bone copies
+ * the source bone's rotation change from rest in model space, which absorbs
+ * differences in rest pose and bone orientation between the rigs. Only the
+ * hips keep their translation, scaled by the ratio of leg lengths so feet
+ * still reach the ground.
+ *
+ * Both skeletons are read in their current pose as the rest pose; they are
+ * posed while sampling and put back afterwards.
+ */
+export function retargetClip(
+  clip: AnimationClip,
+  source: RetargetSkeleton,
+  target: RetargetSkeleton,
+  options: RetargetOptions = {}
+): RetargetResult {
+  source.root.updateMatrixWorld(true);
+  target.root.updateMatrixWorld(true);
+
+  const pairs = pairBones(source, target, options);
+  const pairBySource = new Map(pairs.map((pair) => [pair.sourceNode, pair]));
+  const hipsKey = options.hipsKey ?? 'HIPS';
+  const sourceHips = findBone(source, hipsKey);
+  const hipsPair = sourceHips ? pairBySource.get(sourceHips) : undefined;
+
+  const channels: SourceChannel[] = [];
+  const skippedTracks: string[] = [];
+  let hipsTranslated = false;
+  for (const track of clip.tracks) {
+    const parsed = parseTrackTarget(track.name, source.root);
+    const property = parsed?.propertyName;
+    const size = property === 'quaternion' ? 4 : 3;
+    if (!parsed?.target || (property !== 'quaternion' && property !== 'position') || track.getValueSize() !== size) {
+      skippedTracks.push(track.name);
+      continue;
+    }
+    // Every rotation and translation poses the source, even on unpaired nodes,
+    // so paired bones below them see the right model-space rotation.
+    channels.push({ node: parsed.target, property, interpolant: track.createInterpolant() });
+    const pair = pairBySource.get(parsed.target);
+    if (!pair || (property === 'position' && pair !== hipsPair)) {
+      skippedTracks.push(track.name);
+    } else if (property === 'position') {
+      hipsTranslated = true;
+    } else {
+      pair.animated = true;
+    }
+  }
+
+  let hipsScale = options.hipsScale ?? 1;
+  if (options.hipsScale === undefined && hipsPair) {
+    const sourceLeg = legLength(source, hipsPair.sourceNode);
+    const targetLeg = legLength(target, hipsPair.targetNode);
+    if (sourceLeg > 0 && targetLeg > 0) hipsScale = targetLeg / sourceLeg;
+  }
+
+  const restPoses = new Map<Object3D, { quaternion: Quaternion; position: Vector3 }>();
+  const remember = (node: Object3D) => {
+    if (!restPoses.has(node)) restPoses.set(node, { quaternion: node.quaternion.clone(), position: node.position.clone() });
+  };
+  channels.forEach((channel) => remember(channel.node));
+  pairs.forEach((pair) => remember(pair.targetNode));
+
+  const sourceHipsRest = hipsPair ? rootRelativePosition(hipsPair.sourceNode, source.root, new Vector3()) : null;
+  const targetHipsRest = hipsPair ? rootRelativePosition(hipsPair.targetNode, target.root, new Vector3()) : null;
+  const hipsValues: number[] = [];
+
+  const fps = options.fps && options.fps > 0 ? options.fps : DEFAULT_FPS;
+  const frameCount = Math.max(2, Math.ceil(clip.duration * fps) + 1);
+  const times: number[] = [];
+  const hipsOffset = new Vector3();
+  try {
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      const time = Math.min(clip.duration, frame / fps);
+      times.push(time);
+      for (const channel of channels) {
+        const value = channel.interpolant.evaluate(time);
+        if (channel.property === 'quaternion') channel.node.quaternion.fromArray(value);
+        else channel.node.position.fromArray(value);
+      }
+
+      for (const pair of pairs) {
+        // Model-space change from rest, applied on top of the target's rest.
+        rootRelativeQuaternion(pair.sourceNode, source.root, tmpQuat)
+          .multiply(tmpParent.copy(pair.sourceRest).invert())
+          .multiply(pair.targetRest);
+        const parent = pair.targetNode.parent;
+        if (parent && parent !== target.root) {
+          tmpQuat.premultiply(rootRelativeQuaternion(parent, target.root, tmpParent).invert());
+        }
+        const previous = pair.values.length - 4;
+        if (previous >= 0 && tmpQuat.dot(tmpParent.fromArray(pair.values, previous)) < 0) {
+          tmpQuat.set(-tmpQuat.x, -tmpQuat.y, -tmpQuat.z, -tmpQuat.w);
+        }
+        pair.targetNode.quaternion.copy(tmpQuat);
+        pair.values.push(tmpQuat.x, tmpQuat.y, tmpQuat.z, tmpQuat.w);
+        if (!pair.animated && tmpQuat.angleTo(restPoses.get(pair.targetNode)!.quaternion) > REST_EPSILON) {
+          pair.animated = true;
+        }
+      }
+
+      if (hipsTranslated && hipsPair && sourceHipsRest && targetHipsRest) {
+        rootRelativePosition(hipsPair.sourceNode, source.root, hipsOffset).sub(sourceHipsRest).multiplyScalar(hipsScale);
+        const position = target.root.localToWorld(hipsOffset.add(targetHipsRest));
+        hipsPair.targetNode.parent?.worldToLocal(position);
+        hipsValues.push(position.x, position.y, position.z);
+      }
+    }
+  } finally {
+    for (const [node, rest] of restPoses) {
+      node.quaternion.copy(rest.quaternion);
+      node.position.copy(rest.position);
+    }
+    source.root.updateMatrixWorld(true);
+    target.root.updateMatrixWorld(true);
+  }
+
+  const tracks: KeyframeTrack[] = [];
+  for (const pair of pairs) {
+    if (pair.animated) tracks.push(new QuaternionKeyframeTrack(`${pair.target}.quaternion`, times, pair.values));
+  }
+  if (hipsTranslated && hipsPair && hipsValues.length) {
+    tracks.push(new VectorKeyframeTrack(`${hipsPair.target}.position`, times, hipsValues));
+  }
+
+  return {
+    clip: new AnimationClip(options.name ?? clip.name, clip.duration, tracks),
+    bones: pairs.map(({ key, source: sourceName, target: targetName }) => (
+      key ? { key, source: sourceName, target: targetName } : { source: sourceName, target: targetName }
+    )),
+    skippedTracks,
+    hipsScale,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AnimationClip, Object3D, Quaternion, QuaternionKeyframeTrack, Vector3, VectorKeyframeTrack } from 'three';
+import { accumulateRootMotion, extractRootMotion, resolveRootMotionBone } from './RootMotion';
+
+const quarterTurn = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+
+function makeRig(turn = false) {
+  const model = new Object3D();
+  const hips = new Object3D();
+  hips.name = 'Hips';
+  model.add(hips);
+  const tracks = [
+    new VectorKeyframeTrack('Hips.position', [0, 0.5, 1], [0, 1, 0, 0, 1.1, 1, 0, 1, 2]),
+  ];
+  if (turn) {
+    tracks.push(new QuaternionKeyframeTrack('Hips.quaternion', [0, 1], [0, 0, 0, 1, ...quarterTurn.toArray()]));
+  }
+  return { model, hips, clip: new AnimationClip('Walk', 1, tracks) };
+}
+
+describe('extractRootMotion', () => {
+  it('strips horizontal travel and yaw but keeps the vertical bob', () => {
+    const { model, hips, clip } = makeRig(true);
+    expect(resolveRootMotionBone(model, {})).toBe(hips);
+    const extracted = extractRootMotion(clip, model, hips)!;
+
+    expect(Array.from(extracted.clip.tracks[0].values)).toEqual([0, 1, 0, 0, expect.closeTo(1.1), 0, 0, 1, 0]);
+    const lastRotation = new Quaternion().fromArray(extracted.clip.tracks[1].values, 4);
+    expect(lastRotation.angleTo(new Quaternion())).toBeCloseTo(0);
+    // The authored clip is untouched.
+    expect(clip.tracks[0].values[8]).toBe(2);
+  });
+
+  it('accumulates across repeat wraps and walks back on pingpong', () => {
+    const { model, hips, clip } = makeRig();
+    const { track } = extractRootMotion(clip, model, hips)!;
+
+    expect(track.delta(0.5, 2.5, 'repeat').translation.z).toBeCloseTo(4);
+    expect(track.delta(2.5, 0.5, 'repeat').translation.z).toBeCloseTo(-4);
+    expect(track.delta(0.5, 1.5, 'pingpong').translation.z).toBeCloseTo(0);
+    expect(track.delta(0, 1.5, 'pingpong').translation.z).toBeCloseTo(1);
+    expect(track.delta(0.5, 3, 'once').translation.z).toBeCloseTo(1);
+    expect(track.delta(0, 1, 'repeat').translation.y).toBe(0);
+  });
+
+  it('turns later travel by the yaw gained earlier in the same span', () => {
+    const { model, hips, clip } = makeRig(true);
+    const { track } = extractRootMotion(clip, model, hips)!;
+
+    const oneCycle = track.delta(0, 1, 'repeat');
+    expect(oneCycle.yaw).toBeCloseTo(Math.PI / 2);
+    expect(oneCycle.translation.z).toBeCloseTo(2);
+
+    const twoCycles = track.delta(0, 2, 'repeat');
+    expect(twoCycles.yaw).toBeCloseTo(Math.PI);
+    expect(twoCycles.translation.x).toBeCloseTo(2);
+    expect(twoCycles.translation.z).toBeCloseTo(2);
+
+    const total = accumulateRootMotion(accumulateRootMotion({ translation: { x: 0, y: 0, z: 0 }, yaw: 0 }, oneCycle), oneCycle);
+    expect(total.translation.x).toBeCloseTo(2);
+    expect(total.translation.z).toBeCloseTo(2);
+  });
+
+  it('returns null without root tracks', () => {
+    const { model, hips } = makeRig();
+    expect(extractRootMotion(new AnimationClip('Empty', 1, []), model, hips)).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { Matrix3, Matrix4, Quaternion, Vector3 } from 'three';
+import type { AnimationClip, Interpolant, KeyframeTrack, Object3D } from 'three';
+import type { RootMotionDelta, RootMotionOptions } from '../../../core/types';
+import { parseTrackTarget } from '../bakedClipPartitioning';
+import type { ResolvedBones } from '../types';
+
+export type RootMotionLoopMode = 'repeat' | 'pingpong' | 'once';
+
+export interface ExtractedRootMotion {
+  /** Copy of the clip with root translation and yaw removed from the root bone */
+  clip: AnimationClip;
+  track: RootMotionTrack;
+}
+
+const ROOT_NODE_RE = /(hips|pelvis)/i;
+const MODEL_UP = new Vector3(0, 1, 0);
+const CYCLE_EPSILON = 1e-9;
+const tmpQuat = new Quaternion();
+const tmpVec = new Vector3();
+const tmpFrom = new Vector3();
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/** Twist angle of a rotation about a unit axis (swing-twist decomposition). */
+function twistAngle(x: number, y: number, z: number, w: number, axis: Vector3): number {
+  return 2 * Math.atan2(x * axis.x + y * axis.y + z * axis.z, w);
+}
+
+export function emptyRootMotionDelta(): RootMotionDelta {
+  return { translation: { x: 0, y: 0, z: 0 }, yaw: 0 };
+}
+
+/**
+ * Add `delta` to `total`. The delta is expressed in the facing reached at the
+ * end of `total`, so it is turned by the yaw accumulated so far.
+ */
+export function accumulateRootMotion(total: RootMotionDelta, delta: RootMotionDelta): RootMotionDelta {
+  tmpVec.set(delta.translation.x, delta.translation.y, delta.translation.z).applyAxisAngle(MODEL_UP, total.yaw);
+  total.translation.x += tmpVec.x;
+  total.translation.y += tmpVec.y;
+  total.translation.z += tmpVec.z;
+  total.yaw = wrapAngle(total.yaw + delta.yaw);
+  return total;
+}
+
+/** Resolve the root bone by bone key or node name, falling back to HIPS and then a hips/pelvis node. */
+export function resolveRootMotionBone(model: Object3D, bones: ResolvedBones, name?: string): Object3D | null {
+  if (name) return bones[name]?.obj ?? model.getObjectByName(name) ?? null;
+  if (bones.HIPS?.obj) return bones.HIPS.obj;
+  let found: Object3D | null = null;
+  model.traverse((node) => {
+    if (!found && node !== model && ROOT_NODE_RE.test(node.name)) found = node;
+  });
+  return found;
+}
+
+/**
+ * Root bone motion sampled from the authored tracks. Deltas are integrated
+ * over unwrapped playback time, so a repeat loop keeps adding one cycle's
+ * displacement per wrap and a pingpong loop walks back over the same path.
+ */
+export class RootMotionTrack {
+  readonly duration: number;
+  private position: Interpolant | null;
+  private rotation: Interpolant | null;
+  /** Up axis in the root bone's parent space */
+  private axis: Vector3;
+  /** Root bone parent space to model space */
+  private toModel: Matrix3;
+  private translationMode: NonNullable<RootMotionOptions['translation']>;
+  private referenceYaw = 0;
+
+  constructor(
+    duration: number,
+    position: KeyframeTrack | null,
+    rotation: KeyframeTrack | null,
+    axis: Vector3,
+    toModel: Matrix3,
+    translationMode: NonNullable<RootMotionOptions['translation']>
+  ) {
+    this.duration = duration;
+    this.position = position?.createInterpolant() ?? null;
+    this.rotation = rotation?.createInterpolant() ?? null;
+    this.axis = axis;
+    this.toModel = toModel;
+    this.translationMode = translationMode;
+    this.referenceYaw = this.sampleTwist(0);
+  }
+
+  /** Map unwrapped time to clip time the way the mixer's loop mode does. */
+  localTime(time: number, loopMode: RootMotionLoopMode): number {
+    const duration = this.duration;
+    if (!(duration > 0)) return 0;
+    if (loopMode === 'once') return Math.max(0, Math.min(duration, time));
+    const cycle = Math.floor(time / duration);
+    const local = time - cycle * duration;
+    return loopMode === 'pingpong' && Math.abs(cycle % 2) === 1 ? duration - local : local;
+  }
+
+  /** Root motion between two unwrapped playback times, in model space. */
+  delta(from: number, to: number, loopMode: RootMotionLoopMode): RootMotionDelta {
+    const result = emptyRootMotionDelta();
+    const duration = this.duration;
+    if (!(duration > 0)) return result;
+    if (loopMode === 'once') {
+      from = Math.max(0, Math.min(duration, from));
+      to = Math.max(0, Math.min(duration, to));
+    }
+    if (from === to) return result;
+
+    const forward = to > from;
+    const sum = new Vector3();
+    let yaw = 0;
+    let time = from;
+    while (time !== to) {
+      // Split at cycle boundaries; each piece stays inside one pass of the clip.
+      const cycle = forward
+        ? Math.floor(time / duration + CYCLE_EPSILON)
+        : Math.ceil(time / duration - CYCLE_EPSILON) - 1;
+      const boundary = (forward ? cycle + 1 : cycle) * duration;
+      const end = forward ? Math.min(to, boundary) : Math.max(to, boundary);
+      const a = this.cycleTime(time, cycle, loopMode);
+      const b = this.cycleTime(end, cycle, loopMode);
+      yaw += this.addSegment(a, b, yaw, sum);
+      time = end;
+    }
+
+    result.translation = { x: sum.x, y: sum.y, z: sum.z };
+    result.yaw = wrapAngle(yaw);
+    return result;
+  }
+
+  private cycleTime(time: number, cycle: number, loopMode: RootMotionLoopMode): number {
+    const local = Math.max(0, Math.min(this.duration, time - cycle * this.duration));
+    return loopMode === 'pingpong' && Math.abs(cycle % 2) === 1 ? this.duration - local : local;
+  }
+
+  /** Add the motion from clip time a to b, turned by the yaw before it; returns the segment's yaw. */
+  private addSegment(a: number, b: number, yawBefore: number, sum: Vector3): number {
+    const yawA = this.sampleYaw(a);
+    const yawB = this.sampleYaw(b);
+
+    if (this.position && this.translationMode !== 'none') {
+      this.samplePosition(a, tmpFrom);
+      this.samplePosition(b, tmpVec).sub(tmpFrom);
+      if (this.translationMode === 'horizontal') {
+        tmpVec.addScaledVector(this.axis, -tmpVec.dot(this.axis));
+      }
+      // Into the root's facing at a, then into model space.
+      tmpVec.applyAxisAngle(this.axis, -yawA).applyMatrix3(this.toModel).applyAxisAngle(MODEL_UP, yawBefore);
+      sum.add(tmpVec);
+    }
+
+    return wrapAngle(yawB - yawA);
+  }
+
+  private samplePosition(time: number, out: Vector3): Vector3 {
+    const values = this.position!.evaluate(time);
+    return out.set(values[0], values[1], values[2]);
+  }
+
+  private sampleTwist(time: number): number {
+    if (!this.rotation) return 0;
+    const values = this.rotation.evaluate(time);
+    return twistAngle(values[0], values[1], values[2], values[3], this.axis);
+  }
+
+  /** Yaw at clip time, relative to the first frame */
+  private sampleYaw(time: number): number {
+    if (!this.rotation) return 0;
+    return wrapAngle(this.sampleTwist(time) - this.referenceYaw);
+  }
+}
+
+/**
+ * Pull root motion out of a baked clip. The returned clip keeps the root bone
+ * at its first-frame horizontal position and facing; the motion itself is
+ * sampled from the original tracks through the returned RootMotionTrack.
+ * Returns null when the clip has no whole-value position or quaternion track
+ * on the root bone.
+ */
+export function extractRootMotion(
+  clip: AnimationClip,
+  model: Object3D,
+  bone: Object3D,
+  options: RootMotionOptions = {}
+): ExtractedRootMotion | null {
+  const translationMode = options.translation ?? 'horizontal';
+  const extractRotation = options.rotation ?? true;
+
+  model.updateMatrixWorld(true);
+  const parent = bone.parent ?? model;
+  const toModel = new Matrix3().setFromMatrix4(
+    new Matrix4().copy(model.matrixWorld).invert().multiply(parent.matrixWorld)
+  );
+  const axis = MODEL_UP.clone().applyMatrix3(toModel.clone().invert()).normalize();
+
+  const stripped = clip.clone();
+  let positionTrack: KeyframeTrack | null = null;
+  let rotationTrack: KeyframeTrack | null = null;
+  stripped.tracks.forEach((track, index) => {
+    const parsed = parseTrackTarget(track.name, model);
+    if (parsed?.target !== bone) return;
+    if (parsed.propertyName === 'position' && track.getValueSize() === 3 && translationMode !== 'none') {
+      positionTrack = clip.tracks[index];
+      stripTranslation(track, axis, translationMode);
+    } else if (parsed.propertyName === 'quaternion' && track.getValueSize() === 4 && extractRotation) {
+      rotationTrack = clip.tracks[index];
+      stripYaw(track, axis);
+    }
+  });
+  if (!positionTrack && !rotationTrack) return null;
+
+  return {
+    clip: stripped,
+    track: new RootMotionTrack(clip.duration, positionTrack, rotationTrack, axis, toModel, translationMode),
+  };
+}
+
+function stripTranslation(track: KeyframeTrack, axis: Vector3, mode: 'horizontal' | 'all'): void {
+  const values = track.values;
+  const origin = new Vector3(values[0], values[1], values[2]);
+  for (let i = 0; i < values.length; i += 3) {
+    tmpVec.set(values[i], values[i + 1], values[i + 2]).sub(origin);
+    if (mode === 'horizontal') tmpVec.addScaledVector(axis, -tmpVec.dot(axis));
+    values[i] -= tmpVec.x;
+    values[i + 1] -= tmpVec.y;
+    values[i + 2] -= tmpVec.z;
+  }
+}
+
+function stripYaw(track: KeyframeTrack, axis: Vector3): void {
+  const values = track.values;
+  const reference = twistAngle(values[0], values[1], values[2], values[3], axis);
+  for (let i = 0; i < values.length; i += 4) {
+    const twist = twistAngle(values[i], values[i + 1], values[i + 2], values[i + 3], axis);
+    // Undo the turn since the first frame; the twist is the left factor, so premultiply.
+    tmpQuat.setFromAxisAngle(axis, -(twist - reference));
+    const result = new Quaternion(values[i], values[i + 1], values[i + 2], values[i + 3]).premultiply(tmpQuat);
+    values[i] = result.x;
+    values[i + 1] = result.y;
+    values[i + 2] = result.z;
+    values[i + 3] = result.w;
+  }
+}
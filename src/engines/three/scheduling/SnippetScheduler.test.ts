@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { Snippet } from '../../../core/types';
+import { SnippetScheduler } from './SnippetScheduler';
+
+function makeScheduler() {
+  const aus: Record<string, number> = {};
+  const balances: Record<string, number | undefined> = {};
+  const visemes: Record<number, number> = {};
+  const morphs: Record<string, number> = {};
+  const scheduler = new SnippetScheduler({
+    setAU: (id, value, balance) => {
+      aus[String(id)] = value;
+      balances[String(id)] = balance;
+    },
+    setViseme: (index, value) => { visemes[index] = value; },
+    setMorph: (key, value) => { morphs[key] = value; },
+    getAU: (id) => aus[String(id)] ?? 0,
+    getViseme: (index) => visemes[index] ?? 0,
+    getMorph: (key) => morphs[key] ?? 0,
+  });
+  return { scheduler, aus, balances, visemes, morphs };
+}
+
+const hold = (name: string, values: Record<string, number>, duration = 2, extra: Partial<Snippet> = {}): Snippet => ({
+  name,
+  curves: Object.fromEntries(Object.entries(values).map(([id, v]) => [
+    id,
+    [{ time: 0, intensity: v }, { time: duration, intensity: v }],
+  ])),
+  ...extra,
+});
+
+describe('SnippetScheduler', () => {
+  it('lets a higher priority override only the curves it drives', () => {
+    const { scheduler, aus } = makeScheduler();
+    scheduler.schedule(hold('idle', { 45: 0.2, 12: 0.4 }, 2, { snippetPriority: 0, loop: true }));
+    scheduler.schedule(hold('blink', { 45: 1 }, 1), { priority: 10 });
+    scheduler.update(0.1);
+
+    expect(aus['45']).toBeCloseTo(1);
+    expect(aus['12']).toBeCloseTo(0.4);
+
+    const au45 = scheduler.getResolvedAU(45)!;
+    expect(au45.contributions.map((c) => [c.name, c.share])).toEqual([['blink', 1], ['idle', 0]]);
+  });
+
+  it('averages same-priority snippets by weight and layers partial weights', () => {
+    const { scheduler, aus } = makeScheduler();
+    scheduler.schedule(hold('a', { 1: 1 }), { weight: 0.5 });
+    scheduler.schedule(hold('b', { 1: 0 }), { weight: 0.5 });
+    scheduler.update(0.1);
+    expect(aus['1']).toBeCloseTo(0.5);
+
+    scheduler.schedule(hold('top', { 1: 0 }), { priority: 1, weight: 0.5 });
+    scheduler.update(0.1);
+    expect(aus['1']).toBeCloseTo(0.25);
+  });
+
+  it('fades in, fades out on stop and releases the curve to 0', async () => {
+    const { scheduler, aus } = makeScheduler();
+    const handle = scheduler.schedule(hold('smile', { 12: 1 }, 5), { fadeIn: 1, fadeOut: 0.5 });
+    scheduler.update(0.5);
+    expect(aus['12']).toBeCloseTo(0.5);
+    scheduler.update(0.5);
+    expect(aus['12']).toBeCloseTo(1);
+
+    handle.stop();
+    expect(handle.getState()).toBe('stopping');
+    scheduler.update(0.25);
+    expect(aus['12']).toBeCloseTo(0.5);
+    scheduler.update(0.25);
+    expect(aus['12']).toBe(0);
+    expect(handle.getState()).toBe('finished');
+    await expect(handle.finished).resolves.toBeUndefined();
+    expect(scheduler.getResolved()).toEqual({});
+  });
+
+  it('leaves channels written elsewhere since its last write on release', () => {
+    const { scheduler, aus, morphs } = makeScheduler();
+    const handle = scheduler.schedule(hold('smile', { 12: 1, Tongue_Out: 0.5 }, 5));
+    scheduler.update(0.1);
+    expect(aus['12']).toBeCloseTo(1);
+
+    aus['12'] = 0.3;
+    handle.stop();
+    scheduler.update(0.1);
+    expect(aus['12']).toBeCloseTo(0.3);
+    expect(morphs.Tongue_Out).toBe(0);
+  });
+
+  it('queues, interrupts and skips within a group', () => {
+    const { scheduler, aus } = makeScheduler();
+    const first = scheduler.schedule(hold('first', { 1: 1 }, 1), { group: 'talk' });
+    const queued = scheduler.schedule(hold('second', { 1: 0.3 }, 1), { group: 'talk', policy: 'queue' });
+    const skipped = scheduler.schedule(hold('third', { 1: 0.6 }, 1), { group: 'talk', policy: 'skip' });
+    expect(queued.getState()).toBe('queued');
+    expect(skipped.getState()).toBe('cancelled');
+
+    scheduler.update(0.5);
+    expect(aus['1']).toBeCloseTo(1);
+    scheduler.update(0.5);
+    expect(first.getState()).toBe('finished');
+    expect(queued.getState()).toBe('playing');
+    scheduler.update(0.1);
+    expect(aus['1']).toBeCloseTo(0.3);
+
+    const urgent = scheduler.schedule(hold('urgent', { 1: 0.9 }, 1), { group: 'talk', policy: 'interrupt' });
+    expect(queued.getState()).toBe('finished');
+    scheduler.update(0.1);
+    expect(urgent.getState()).toBe('playing');
+    expect(aus['1']).toBeCloseTo(0.9);
+  });
+
+  it('crossfades interrupted snippets out over the new snippet\'s fadeIn', () => {
+    const { scheduler, aus } = makeScheduler();
+    const first = scheduler.schedule(hold('first', { 1: 1 }, 2), { group: 'talk', fadeOut: 1 });
+    scheduler.update(0.1);
+
+    const urgent = scheduler.schedule(hold('urgent', { 1: 0 }, 2), { group: 'talk', policy: 'interrupt', fadeIn: 0.4 });
+    expect(urgent.getState()).toBe('playing');
+    expect(first.getState()).toBe('stopping');
+
+    scheduler.update(0.2);
+    expect(aus['1']).toBeGreaterThan(0.1);
+    expect(aus['1']).toBeLessThan(0.9);
+
+    scheduler.update(0.2);
+    expect(first.getState()).toBe('finished');
+    expect(aus['1']).toBeCloseTo(0);
+  });
+
+  it('routes viseme, side-specific AU and morph curves and applies balance', () => {
+    const { scheduler, aus, balances, visemes, morphs } = makeScheduler();
+    scheduler.schedule(hold('mixed', { 'viseme:2': 0.7, '12l': 0.4, 6: 0.5, Tongue_Out: 0.2 }, 1, { balanceMap: { 6: -1 } }));
+    scheduler.schedule(hold('lips', { 3: 0.9 }, 1, { snippetCategory: 'visemeSnippet' }));
+    scheduler.update(0.1);
+
+    expect(visemes[2]).toBeCloseTo(0.7);
+    expect(visemes[3]).toBeCloseTo(0.9);
+    // A lone left side is the AU at full value, balanced all the way left.
+    expect(aus['12']).toBeCloseTo(0.4);
+    expect(balances['12']).toBe(-1);
+    expect(aus['6']).toBeCloseTo(0.5);
+    expect(balances['6']).toBe(-1);
+    expect(morphs.Tongue_Out).toBeCloseTo(0.2);
+    expect(Object.keys(scheduler.getResolved()).sort()).toEqual(['12L', '6', 'Tongue_Out', 'viseme:2', 'viseme:3']);
+  });
+});
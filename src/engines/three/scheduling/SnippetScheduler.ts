@@ -0,0 +1,438 @@
+import type { Snippet } from '../../../core/types';
+import { sampleCurvePoints } from '../../../core/curveInterpolation';
+import { getCurvesDuration, parseSideCurveId, parseVisemeCurveId, sideCurveId, visemeCurveId } from '../../../core/snippetOps';
+
+/**
+ * How a new snippet treats snippets already playing in its group:
+ * - 'blend': play alongside them; overlapping curves resolve by priority and weight
+ * - 'queue': wait until the group is idle, then start
+ * - 'interrupt': start now and crossfade out group members with equal or lower
+ *   priority over the new snippet's fadeIn (their own fadeOut is not used)
+ * - 'skip': do nothing if the group is busy
+ */
+export type SchedulePolicy = 'blend' | 'queue' | 'interrupt' | 'skip';
+
+export type ScheduledSnippetState = 'queued' | 'playing' | 'stopping' | 'finished' | 'cancelled';
+
+export interface ScheduleOptions {
+  /** Conflict priority; higher wins per curve (default: snippet.snippetPriority ?? 0) */
+  priority?: number;
+  /** Blend weight within the priority level, 0-1 (default: 1) */
+  weight?: number;
+  /** Group that queue/interrupt/skip policies act on (default: snippet.snippetCategory ?? 'default') */
+  group?: string;
+  /** Policy against the group's other snippets (default: 'blend') */
+  policy?: SchedulePolicy;
+  /** Seconds to ramp the weight up from 0 (default: 0) */
+  fadeIn?: number;
+  /** Seconds to ramp the weight down at the end or on stop() (default: 0) */
+  fadeOut?: number;
+  /** Loop instead of finishing at the last key (default: snippet.loop ?? false) */
+  loop?: boolean;
+  /** Curve time per second of wall time (default: 1) */
+  playbackRate?: number;
+  /** Multiplier on every sampled intensity (default: 1) */
+  intensityScale?: number;
+  /** Per-curve balance for AU curves (default: snippet.balanceMap) */
+  balanceMap?: Record<string, number>;
+  /** Jaw scale passed with viseme values (default: 1) */
+  jawScale?: number;
+}
+
+export interface ScheduledSnippetHandle {
+  id: number;
+  name: string;
+  priority: number;
+  group: string;
+  getState: () => ScheduledSnippetState;
+  /** Current curve time in seconds */
+  getTime: () => number;
+  /** Current weight after fades */
+  getEffectiveWeight: () => number;
+  setWeight: (weight: number) => void;
+  /** Fade out over `fadeOut` seconds (default: the schedule's fadeOut), or cancel if still queued */
+  stop: (fadeOut?: number) => void;
+  /** Resolves when the snippet finishes, is stopped, or is cancelled */
+  finished: Promise<void>;
+}
+
+/** One snippet's share of a resolved curve. */
+export interface CurveContribution {
+  handleId: number;
+  name: string;
+  priority: number;
+  /** Weight after fades */
+  weight: number;
+  /** Sampled intensity before blending */
+  value: number;
+  /** Fraction of the resolved value this snippet supplied (0 when overridden) */
+  share: number;
+}
+
+export interface ResolvedCurve {
+  /** AU id ('12', '12L'), `viseme:<index>`, or morph name */
+  curveId: string;
+  value: number;
+  contributions: CurveContribution[];
+}
+
+export interface SnippetSchedulerHost {
+  setAU: (id: number | string, value: number, balance?: number) => void;
+  setViseme: (visemeIndex: number, value: number, jawScale?: number) => void;
+  setMorph: (key: string, value: number) => void;
+  /** Current values, so a release leaves channels someone else has written since */
+  getAU: (id: number) => number;
+  getViseme: (visemeIndex: number) => number;
+  getMorph: (key: string) => number;
+}
+
+type CurveTarget =
+  | { kind: 'au'; id: number | string }
+  | { kind: 'viseme'; index: number }
+  | { kind: 'morph'; key: string };
+
+interface ScheduledEntry {
+  handle: ScheduledSnippetHandle;
+  snippet: Snippet;
+  curves: Array<{ curveId: string; target: CurveTarget; sourceId: string }>;
+  state: ScheduledSnippetState;
+  weight: number;
+  fadeIn: number;
+  fadeOut: number;
+  loop: boolean;
+  playbackRate: number;
+  intensityScale: number;
+  balanceMap?: Record<string, number>;
+  jawScale: number;
+  duration: number;
+  order: number;
+  elapsed: number;
+  time: number;
+  stopElapsed: number;
+  stopDuration: number;
+  /** Weight when stop() was called; the stop fade ramps down from here */
+  stopFrom: number;
+  effectiveWeight: number;
+  resolve: () => void;
+}
+
+const EPSILON = 1e-6;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/** AU id and side when the target is a `12L` / `12R` side curve. */
+const sideOf = (target: CurveTarget) =>
+  (target.kind === 'au' && typeof target.id === 'string' ? parseSideCurveId(target.id) : null);
+
+function resolveCurveTarget(curveId: string, snippet: Snippet): { curveId: string; target: CurveTarget } {
+  const visemeIndex = parseVisemeCurveId(curveId);
+  if (visemeIndex !== null) return { curveId, target: { kind: 'viseme', index: visemeIndex } };
+  if (/^\d+$/.test(curveId)) {
+    const id = Number(curveId);
+    return snippet.snippetCategory === 'visemeSnippet'
+      ? { curveId: visemeCurveId(id), target: { kind: 'viseme', index: id } }
+      : { curveId, target: { kind: 'au', id } };
+  }
+  if (/^\d+[LR]$/i.test(curveId)) {
+    const id = curveId.toUpperCase();
+    return { curveId: id, target: { kind: 'au', id } };
+  }
+  return { curveId, target: { kind: 'morph', key: curveId } };
+}
+
+/**
+ * Owns scheduled snippets and writes one resolved value per curve each tick.
+ *
+ * Within a priority level, snippets average by weight; each level covers the
+ * levels below it by its summed weight (capped at 1). A full-weight blink at
+ * a higher priority therefore replaces an idle's AU 45 while the idle keeps
+ * driving every other curve. Curves are sampled directly, so step, bezier and
+ * Catmull-Rom segments play exactly; the mixer is not involved.
+ */
+export class SnippetScheduler {
+  private host: SnippetSchedulerHost;
+  private entries: ScheduledEntry[] = [];
+  private nextId = 1;
+  private resolved = new Map<string, ResolvedCurve>();
+  /** Curves the scheduler drives, with the value read back after its last write */
+  private driven = new Map<string, { target: CurveTarget; written: number }>();
+
+  constructor(host: SnippetSchedulerHost) {
+    this.host = host;
+  }
+
+  schedule(snippet: Snippet, options: ScheduleOptions = {}): ScheduledSnippetHandle {
+    const id = this.nextId++;
+    const priority = options.priority ?? snippet.snippetPriority ?? 0;
+    const group = options.group ?? snippet.snippetCategory ?? 'default';
+    const policy = options.policy ?? 'blend';
+
+    let resolve!: () => void;
+    const finished = new Promise<void>((res) => { resolve = res; });
+    const entry: ScheduledEntry = {
+      handle: {
+        id,
+        name: snippet.name,
+        priority,
+        group,
+        getState: () => entry.state,
+        getTime: () => entry.time,
+        getEffectiveWeight: () => entry.effectiveWeight,
+        setWeight: (weight) => { entry.weight = clamp01(weight); },
+        stop: (fadeOut) => this.stopEntry(entry, fadeOut ?? entry.fadeOut),
+        finished,
+      },
+      snippet,
+      curves: Object.keys(snippet.curves)
+        .filter((curveId) => snippet.curves[curveId]?.length)
+        .map((sourceId) => ({ ...resolveCurveTarget(sourceId, snippet), sourceId })),
+      state: 'queued',
+      weight: clamp01(options.weight ?? 1),
+      fadeIn: Math.max(0, options.fadeIn ?? 0),
+      fadeOut: Math.max(0, options.fadeOut ?? 0),
+      loop: options.loop ?? snippet.loop ?? false,
+      playbackRate: options.playbackRate ?? 1,
+      intensityScale: options.intensityScale ?? 1,
+      balanceMap: options.balanceMap ?? snippet.balanceMap,
+      jawScale: options.jawScale ?? 1,
+      duration: getCurvesDuration(snippet.curves),
+      order: id,
+      elapsed: 0,
+      time: 0,
+      stopElapsed: 0,
+      stopDuration: 0,
+      stopFrom: 0,
+      effectiveWeight: 0,
+      resolve,
+    };
+
+    const busy = this.entries.some((other) => other.handle.group === group);
+    if (policy === 'skip' && busy) {
+      this.finishEntry(entry, 'cancelled');
+      return entry.handle;
+    }
+    if (policy === 'interrupt') {
+      for (const other of [...this.entries]) {
+        if (other.handle.group === group && other.handle.priority <= priority) {
+          this.stopEntry(other, entry.fadeIn);
+        }
+      }
+    }
+    if (policy !== 'queue' || !busy) entry.state = 'playing';
+    this.entries.push(entry);
+    return entry.handle;
+  }
+
+  /** Advance every scheduled snippet by `dt` seconds and write the resolved values. */
+  update(dt: number): void {
+    for (const entry of [...this.entries]) {
+      if (entry.state === 'queued') continue;
+      this.advance(entry, dt);
+    }
+    this.promoteQueued();
+    this.resolveAndApply();
+  }
+
+  /** Stop every scheduled snippet in `group` (or all when omitted). */
+  stopAll(options: { group?: string; fadeOut?: number } = {}): void {
+    for (const entry of [...this.entries]) {
+      if (options.group === undefined || entry.handle.group === options.group) {
+        this.stopEntry(entry, options.fadeOut ?? 0);
+      }
+    }
+  }
+
+  /** Drop everything immediately and release driven curves to 0 (unless written elsewhere since). */
+  clear(): void {
+    for (const entry of [...this.entries]) {
+      this.finishEntry(entry, entry.state === 'queued' ? 'cancelled' : 'finished');
+    }
+    this.resolveAndApply();
+  }
+
+  getActive(): ScheduledSnippetHandle[] {
+    return this.entries.map((entry) => entry.handle);
+  }
+
+  /** Per-curve breakdown from the last update. */
+  getResolved(): Record<string, ResolvedCurve> {
+    return Object.fromEntries(this.resolved);
+  }
+
+  getResolvedAU(auId: number | string): ResolvedCurve | undefined {
+    return this.resolved.get(String(auId).toUpperCase());
+  }
+
+  private advance(entry: ScheduledEntry, dt: number): void {
+    entry.elapsed += dt;
+    entry.time += dt * entry.playbackRate;
+
+    if (entry.state === 'stopping') {
+      entry.stopElapsed += dt;
+      if (entry.stopElapsed >= entry.stopDuration - EPSILON) {
+        this.finishEntry(entry, 'finished');
+        return;
+      }
+    }
+
+    if (entry.duration <= EPSILON) {
+      entry.time = 0;
+    } else if (entry.loop) {
+      entry.time = ((entry.time % entry.duration) + entry.duration) % entry.duration;
+    } else if (entry.time >= entry.duration - EPSILON) {
+      this.finishEntry(entry, 'finished');
+    }
+  }
+
+  private promoteQueued(): void {
+    const busyGroups = new Set<string>();
+    for (const entry of this.entries) {
+      if (entry.state !== 'queued') busyGroups.add(entry.handle.group);
+    }
+    for (const entry of this.entries) {
+      if (entry.state !== 'queued' || busyGroups.has(entry.handle.group)) continue;
+      entry.state = 'playing';
+      busyGroups.add(entry.handle.group);
+    }
+  }
+
+  private stopEntry(entry: ScheduledEntry, fadeOut: number): void {
+    if (entry.state === 'queued') {
+      this.finishEntry(entry, 'cancelled');
+      return;
+    }
+    if (entry.state !== 'playing') return;
+    if (fadeOut <= EPSILON) {
+      this.finishEntry(entry, 'finished');
+      return;
+    }
+    entry.state = 'stopping';
+    entry.stopElapsed = 0;
+    entry.stopDuration = fadeOut;
+    entry.stopFrom = this.envelope(entry);
+  }
+
+  private finishEntry(entry: ScheduledEntry, state: 'finished' | 'cancelled'): void {
+    entry.state = state;
+    entry.effectiveWeight = 0;
+    const index = this.entries.indexOf(entry);
+    if (index >= 0) this.entries.splice(index, 1);
+    entry.resolve();
+  }
+
+  /** Weight after fade-in and the automatic fade-out before a non-looping end. */
+  private envelope(entry: ScheduledEntry): number {
+    let factor = entry.fadeIn > EPSILON ? Math.min(1, entry.elapsed / entry.fadeIn) : 1;
+    if (!entry.loop && entry.fadeOut > EPSILON && entry.playbackRate > 0) {
+      const remaining = (entry.duration - entry.time) / entry.playbackRate;
+      factor = Math.min(factor, clamp01(remaining / entry.fadeOut));
+    }
+    return entry.weight * factor;
+  }
+
+  private resolveAndApply(): void {
+    const byCurve = new Map<string, { target: CurveTarget; items: Array<{ entry: ScheduledEntry; value: number }> }>();
+
+    for (const entry of this.entries) {
+      if (entry.state === 'queued') continue;
+      entry.effectiveWeight = entry.state === 'stopping'
+        ? entry.stopFrom * clamp01(1 - entry.stopElapsed / entry.stopDuration)
+        : this.envelope(entry);
+
+      for (const { curveId, target, sourceId } of entry.curves) {
+        const value = sampleCurvePoints(entry.snippet.curves[sourceId], entry.time) * entry.intensityScale;
+        const slot = byCurve.get(curveId) ?? { target, items: [] };
+        slot.items.push({ entry, value });
+        byCurve.set(curveId, slot);
+      }
+    }
+
+    const resolved = new Map<string, ResolvedCurve>();
+    const sideValues = new Map<number, { L: number; R: number }>();
+    for (const [curveId, { target, items }] of byCurve) {
+      items.sort((a, b) => b.entry.handle.priority - a.entry.handle.priority || a.entry.order - b.entry.order);
+
+      const contributions: CurveContribution[] = [];
+      let remaining = 1;
+      let value = 0;
+      let balanceSource: ScheduledEntry | null = null;
+      let bestShare = 0;
+
+      for (let i = 0; i < items.length;) {
+        const priority = items[i].entry.handle.priority;
+        const level = [];
+        while (i < items.length && items[i].entry.handle.priority === priority) level.push(items[i++]);
+
+        const weightSum = level.reduce((sum, item) => sum + item.entry.effectiveWeight, 0);
+        const levelWeight = Math.min(1, weightSum);
+        for (const item of level) {
+          const share = weightSum > EPSILON ? remaining * levelWeight * (item.entry.effectiveWeight / weightSum) : 0;
+          value += share * item.value;
+          contributions.push({
+            handleId: item.entry.handle.id,
+            name: item.entry.handle.name,
+            priority,
+            weight: item.entry.effectiveWeight,
+            value: item.value,
+            share,
+          });
+          if (share > bestShare) {
+            bestShare = share;
+            balanceSource = item.entry;
+          }
+        }
+        remaining *= 1 - levelWeight;
+      }
+
+      resolved.set(curveId, { curveId, value, contributions });
+      const side = sideOf(target);
+      if (side) {
+        const sides = sideValues.get(side.auId) ?? { L: 0, R: 0 };
+        sides[side.side] = value;
+        sideValues.set(side.auId, sides);
+        continue;
+      }
+      const sourceId = balanceSource?.curves.find((curve) => curve.curveId === curveId)?.sourceId;
+      const jawScale = balanceSource?.jawScale ?? 1;
+      this.write(target, value, sourceId ? balanceSource?.balanceMap?.[sourceId] : undefined, jawScale);
+      this.driven.set(curveId, { target, written: this.read(target) });
+    }
+
+    // Both sides of an AU go out in one setAU, as the larger side plus the balance
+    // that scales the other down: separate 12L / 12R writes would replace each other.
+    for (const [auId, { L, R }] of sideValues) {
+      const base = Math.max(L, R);
+      const balance = base > EPSILON ? (L >= R ? R / base - 1 : 1 - L / base) : 0;
+      this.host.setAU(auId, base, balance);
+      const written = this.host.getAU(auId);
+      for (const side of ['L', 'R'] as const) {
+        const curveId = sideCurveId(auId, side);
+        if (resolved.has(curveId)) this.driven.set(curveId, { target: { kind: 'au', id: curveId }, written });
+      }
+    }
+
+    // Curves nobody drives any more go back to rest, unless the app or another
+    // layer has written the channel since the scheduler last did.
+    for (const [curveId, { target, written }] of [...this.driven]) {
+      if (resolved.has(curveId)) continue;
+      this.driven.delete(curveId);
+      const side = sideOf(target);
+      // The other side still drives the AU and already wrote this side as 0.
+      if (side && sideValues.has(side.auId)) continue;
+      if (this.read(target) === written) this.write(side ? { kind: 'au', id: side.auId } : target, 0, undefined, 1);
+    }
+    this.resolved = resolved;
+  }
+
+  private read(target: CurveTarget): number {
+    if (target.kind === 'au') return this.host.getAU(typeof target.id === 'number' ? target.id : parseInt(target.id, 10));
+    if (target.kind === 'viseme') return this.host.getViseme(target.index);
+    return this.host.getMorph(target.key);
+  }
+
+  private write(target: CurveTarget, value: number, balance: number | undefined, jawScale: number): void {
+    if (target.kind === 'au') this.host.setAU(target.id, value, balance);
+    else if (target.kind === 'viseme') this.host.setViseme(target.index, value, jawScale);
+    else this.host.setMorph(target.key, value);
+  }
+}
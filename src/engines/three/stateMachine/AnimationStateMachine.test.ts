@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AnimationGraphDefinition } from '../../../core/types';
+import { AnimationStateMachine, validateAnimationGraph, type AnimationStateMachineHost } from './AnimationStateMachine';
+
+function makeHost(durations: Record<string, number> = {}) {
+  const weights: Record<string, number> = {};
+  const playing = new Set<string>();
+  const host: AnimationStateMachineHost = {
+    playClip: (clipName) => {
+      playing.add(clipName);
+      return {
+        setWeight: (weight) => { weights[clipName] = weight; },
+        stop: () => { playing.delete(clipName); },
+        getDuration: () => durations[clipName] ?? 1,
+      };
+    },
+    playSnippet: (snippet) => {
+      playing.add(snippet.name);
+      return {
+        setWeight: (weight) => { weights[snippet.name] = weight; },
+        stop: () => { playing.delete(snippet.name); },
+        getDuration: () => 1,
+      };
+    },
+    playBlendSpace: () => null,
+  };
+  return { host, weights, playing };
+}
+
+const graph = (): AnimationGraphDefinition => ({
+  parameters: {
+    speed: { type: 'float' },
+    grounded: { type: 'bool', default: true },
+    wave: { type: 'trigger' },
+  },
+  states: [
+    { name: 'idle', clip: 'Idle' },
+    { name: 'walk', clip: 'Walk' },
+    { name: 'wave', clip: 'Wave', loop: false },
+    { name: 'fall', snippet: 'fallFace' },
+  ],
+  transitions: [
+    { from: 'idle', to: 'walk', conditions: [{ parameter: 'speed', op: '>', value: 0.1 }], duration: 0.5 },
+    { from: 'walk', to: 'idle', conditions: [{ parameter: 'speed', op: '<=', value: 0.1 }], duration: 0.5 },
+    { from: 'idle', to: 'wave', conditions: [{ parameter: 'wave' }], duration: 0 },
+    { from: 'wave', to: 'idle', exitTime: 1, duration: 0 },
+    { from: '*', to: 'fall', conditions: [{ parameter: 'grounded', op: '==', value: false }], duration: 0 },
+  ],
+  snippets: {
+    fallFace: { name: 'fallFace', curves: { 26: [{ time: 0, intensity: 1 }, { time: 1, intensity: 1 }] } },
+  },
+});
+
+describe('AnimationStateMachine', () => {
+  it('crossfades on parameter conditions', () => {
+    const { host, weights, playing } = makeHost();
+    const machine = new AnimationStateMachine(graph(), host);
+    machine.start();
+    expect(machine.getCurrentState()).toBe('idle');
+    expect(weights.Idle).toBe(1);
+
+    machine.setParameter('speed', 1);
+    machine.update(0.1);
+    expect(machine.getCurrentState()).toBe('walk');
+    machine.update(0.25);
+    expect(weights.Walk).toBeCloseTo(0.5);
+    expect(weights.Idle).toBeCloseTo(0.5);
+    expect(machine.getSnapshot().transition).toEqual({ from: 'idle', to: 'walk', progress: 0.5 });
+
+    machine.update(0.25);
+    expect(weights.Walk).toBeCloseTo(1);
+    expect(playing.has('Idle')).toBe(false);
+  });
+
+  it('consumes triggers and leaves on exit time', () => {
+    const { host } = makeHost({ Wave: 2 });
+    const machine = new AnimationStateMachine(graph(), host);
+    const changes: string[] = [];
+    machine.onStateChange(({ to }) => changes.push(to));
+    machine.start();
+
+    machine.setTrigger('wave');
+    machine.update(0.1);
+    expect(machine.getCurrentState()).toBe('wave');
+    expect(machine.getParameter('wave')).toBe(false);
+
+    machine.update(1);
+    expect(machine.getSnapshot().normalizedTime).toBeCloseTo(0.5);
+    machine.update(1);
+    expect(changes).toEqual(['idle', 'wave', 'idle']);
+  });
+
+  it('waits for the exit point of the next cycle in a looping state', () => {
+    const { host } = makeHost();
+    const machine = new AnimationStateMachine({
+      parameters: { stop: { type: 'bool' } },
+      states: [{ name: 'walk', clip: 'Walk' }, { name: 'idle', clip: 'Idle' }],
+      transitions: [{ from: 'walk', to: 'idle', exitTime: 0.8, conditions: [{ parameter: 'stop' }], duration: 0 }],
+    }, host);
+    machine.start();
+
+    machine.update(1.1);
+    machine.setParameter('stop', true);
+    machine.update(0.1);
+    expect(machine.getCurrentState()).toBe('walk');
+    machine.update(0.5);
+    expect(machine.getCurrentState()).toBe('walk');
+    machine.update(0.15);
+    expect(machine.getCurrentState()).toBe('idle');
+  });
+
+  it('takes any-state transitions into snippet states', () => {
+    const { host, playing } = makeHost();
+    const machine = new AnimationStateMachine(graph(), host);
+    machine.start();
+    machine.setParameter('grounded', false);
+    machine.update(0.1);
+    expect(machine.getCurrentState()).toBe('fall');
+    expect(playing).toEqual(new Set(['fallFace']));
+
+    // No self-transition: the state keeps playing.
+    machine.update(0.1);
+    expect(machine.getSnapshot().time).toBeCloseTo(0.1);
+  });
+
+  it('validates the definition and warns on unknown parameters', () => {
+    const broken = graph();
+    broken.states.push({ name: 'idle', clip: 'Again' });
+    broken.transitions!.push({ from: 'nowhere', to: 'walk', conditions: [{ parameter: 'missing' }] });
+    const result = validateAnimationGraph(broken);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'duplicate state "idle"',
+      'transition 5 comes from unknown state "nowhere"',
+      'transition 5 tests unknown parameter "missing"',
+    ]);
+    expect(validateAnimationGraph(JSON.parse(JSON.stringify(graph()))).valid).toBe(true);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    new AnimationStateMachine(graph(), makeHost().host).setParameter('missing', 1);
+    expect(warn).toHaveBeenCalledWith('[Loom3] setAnimationParameter: unknown parameter "missing"');
+    warn.mockRestore();
+  });
+});
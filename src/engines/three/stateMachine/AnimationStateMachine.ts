@@ -0,0 +1,360 @@
+import type {
+  AnimationGraphCondition,
+  AnimationGraphDefinition,
+  AnimationGraphState,
+  AnimationGraphTransition,
+  BlendSpaceDefinition,
+  Snippet,
+} from '../../../core/types';
+import { validateBlendSpace } from '../blendSpace/BlendSpace';
+
+/** Playing motion behind a graph state; the machine drives its weight. */
+export interface StateMotionHandle {
+  setWeight: (weight: number) => void;
+  stop: () => void;
+  getDuration: () => number;
+  /** Parameter-driven motions (blend spaces) read the graph parameters each update. */
+  setParameters?: (parameters: Record<string, number | boolean>) => void;
+}
+
+export interface AnimationStateMachineHost {
+  playClip: (clipName: string, options: { loop: boolean; speed: number }) => StateMotionHandle | null;
+  playSnippet: (snippet: Snippet, options: { loop: boolean; speed: number }) => StateMotionHandle | null;
+  playBlendSpace: (definition: BlendSpaceDefinition, options: { loop: boolean; speed: number }) => StateMotionHandle | null;
+}
+
+export interface AnimationGraphValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface AnimationGraphSnapshot {
+  state: string;
+  /** Seconds of clip time spent in the current state */
+  time: number;
+  /** time / clip duration (0 when the duration is unknown) */
+  normalizedTime: number;
+  /** Crossfade into the current state, if one is running */
+  transition: { from: string; to: string; progress: number } | null;
+  parameters: Record<string, number | boolean>;
+}
+
+export type AnimationStateChangeListener = (event: { from: string | null; to: string }) => void;
+
+export const DEFAULT_GRAPH_TRANSITION_DURATION = 0.25;
+
+const ANY_STATE = '*';
+
+type ActiveState = {
+  state: AnimationGraphState;
+  motion: StateMotionHandle | null;
+  motionKey: string;
+  time: number;
+  duration: number;
+  loop: boolean;
+  fadeElapsed: number;
+  fadeDuration: number;
+  fadeFrom: string | null;
+};
+
+type FadingMotion = {
+  motion: StateMotionHandle;
+  motionKey: string;
+  startWeight: number;
+  elapsed: number;
+  duration: number;
+};
+
+/** Check a graph definition before building a machine from it. */
+export function validateAnimationGraph(definition: AnimationGraphDefinition): AnimationGraphValidation {
+  const errors: string[] = [];
+  const states = definition?.states ?? [];
+  const parameters = definition?.parameters ?? {};
+  const names = new Set<string>();
+
+  if (!states.length) errors.push('graph has no states');
+  for (const state of states) {
+    if (names.has(state.name)) errors.push(`duplicate state "${state.name}"`);
+    names.add(state.name);
+    if ([state.clip, state.snippet, state.blendSpace].filter(Boolean).length !== 1) {
+      errors.push(`state "${state.name}" must set exactly one of clip, snippet or blendSpace`);
+    }
+    if (state.blendSpace) {
+      for (const error of validateBlendSpace(state.blendSpace)) errors.push(`state "${state.name}": ${error}`);
+      const blendParameters = state.blendSpace.type === '1d'
+        ? [state.blendSpace.parameter]
+        : state.blendSpace.parameters ?? [];
+      for (const name of blendParameters) {
+        if (name !== undefined && !parameters[name]) {
+          errors.push(`state "${state.name}" blends on unknown parameter "${name}"`);
+        }
+      }
+    }
+    if (typeof state.snippet === 'string' && !definition.snippets?.[state.snippet]) {
+      errors.push(`state "${state.name}" references unknown snippet "${state.snippet}"`);
+    }
+  }
+  if (definition?.initialState !== undefined && !names.has(definition.initialState)) {
+    errors.push(`unknown initial state "${definition.initialState}"`);
+  }
+  (definition?.transitions ?? []).forEach((transition, index) => {
+    if (transition.from !== ANY_STATE && !names.has(transition.from)) {
+      errors.push(`transition ${index} comes from unknown state "${transition.from}"`);
+    }
+    if (!names.has(transition.to)) {
+      errors.push(`transition ${index} goes to unknown state "${transition.to}"`);
+    }
+    for (const condition of transition.conditions ?? []) {
+      if (!parameters[condition.parameter]) {
+        errors.push(`transition ${index} tests unknown parameter "${condition.parameter}"`);
+      }
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+function compare(actual: number | boolean, condition: AnimationGraphCondition): boolean {
+  if (!condition.op) return Boolean(actual);
+  const a = Number(actual);
+  const b = Number(condition.value ?? 0);
+  switch (condition.op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+}
+
+/**
+ * Declarative animation graph over baked clips, snippets and blend spaces.
+ *
+ * Each update advances the current state, takes the first transition whose
+ * exit time and conditions hold, and drives crossfade weights itself so an
+ * interrupted crossfade fades every outgoing motion from where it was.
+ */
+export class AnimationStateMachine {
+  private host: AnimationStateMachineHost;
+  private definition: AnimationGraphDefinition;
+  private statesByName = new Map<string, AnimationGraphState>();
+  private parameters: Record<string, number | boolean> = {};
+  private current: ActiveState | null = null;
+  private fading: FadingMotion[] = [];
+  private listeners = new Set<AnimationStateChangeListener>();
+
+  constructor(definition: AnimationGraphDefinition, host: AnimationStateMachineHost) {
+    this.host = host;
+    this.definition = definition;
+    for (const state of definition.states) this.statesByName.set(state.name, state);
+    for (const [name, parameter] of Object.entries(definition.parameters ?? {})) {
+      this.parameters[name] = parameter.default ?? (parameter.type === 'bool' || parameter.type === 'trigger' ? false : 0);
+    }
+  }
+
+  getDefinition(): AnimationGraphDefinition {
+    return this.definition;
+  }
+
+  /** Enter the initial state. */
+  start(): void {
+    const initial = this.definition.initialState ?? this.definition.states[0]?.name;
+    if (initial) this.enter(initial, 0);
+  }
+
+  /** Stop every motion the machine started. */
+  stop(): void {
+    for (const fading of this.fading) fading.motion.stop();
+    this.fading = [];
+    this.current?.motion?.stop();
+    this.current = null;
+  }
+
+  getCurrentState(): string | null {
+    return this.current?.state.name ?? null;
+  }
+
+  setParameter(name: string, value: number | boolean): void {
+    const parameter = this.definition.parameters?.[name];
+    if (!parameter) {
+      console.warn(`[Loom3] setAnimationParameter: unknown parameter "${name}"`);
+      return;
+    }
+    if (parameter.type === 'bool' || parameter.type === 'trigger') this.parameters[name] = Boolean(value);
+    else if (parameter.type === 'int') this.parameters[name] = Math.round(Number(value));
+    else this.parameters[name] = Number(value);
+  }
+
+  getParameter(name: string): number | boolean | undefined {
+    return this.parameters[name];
+  }
+
+  /** Set a trigger; it stays set until a transition that tests it fires. */
+  setTrigger(name: string): void {
+    this.setParameter(name, true);
+  }
+
+  resetTrigger(name: string): void {
+    if (this.definition.parameters?.[name]?.type === 'trigger') this.parameters[name] = false;
+  }
+
+  /** Crossfade to a state directly, bypassing transitions. */
+  goTo(stateName: string, duration = DEFAULT_GRAPH_TRANSITION_DURATION): void {
+    if (!this.statesByName.has(stateName)) {
+      console.warn(`[Loom3] animation graph: unknown state "${stateName}"`);
+      return;
+    }
+    this.enter(stateName, duration);
+  }
+
+  onStateChange(listener: AnimationStateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): AnimationGraphSnapshot {
+    const current = this.current;
+    return {
+      state: current?.state.name ?? '',
+      time: current?.time ?? 0,
+      normalizedTime: current ? this.getNormalizedTime(current) : 0,
+      transition: current && current.fadeFrom !== null && current.fadeElapsed < current.fadeDuration
+        ? { from: current.fadeFrom, to: current.state.name, progress: current.fadeElapsed / current.fadeDuration }
+        : null,
+      parameters: { ...this.parameters },
+    };
+  }
+
+  update(dtSeconds: number): void {
+    const current = this.current;
+    if (!current) return;
+
+    // Nothing has played yet on the first tick, so an exit time of 0 still counts as reached.
+    const previousTime = current.time > 0 ? this.getNormalizedTime(current) : -Infinity;
+    current.time += dtSeconds * (current.state.speed ?? 1);
+    if (current.motion?.setParameters) {
+      current.motion.setParameters(this.parameters);
+      current.duration = current.motion.getDuration();
+    }
+    current.fadeElapsed += dtSeconds;
+    for (const fading of this.fading) fading.elapsed += dtSeconds;
+
+    const transition = this.findTransition(current, previousTime);
+    if (transition) {
+      this.consumeTriggers(transition);
+      this.enter(transition.to, transition.duration ?? DEFAULT_GRAPH_TRANSITION_DURATION);
+    }
+    this.applyWeights();
+  }
+
+  private getNormalizedTime(active: ActiveState): number {
+    return active.duration > 0 ? active.time / active.duration : 0;
+  }
+
+  /**
+   * A one-shot state stays past its exit time once it gets there. A looping
+   * state reaches it once per cycle: only on the tick that crosses exitTime,
+   * exitTime + 1, exitTime + 2, ...
+   */
+  private reachedExitTime(current: ActiveState, exitTime: number, previousTime: number): boolean {
+    const time = this.getNormalizedTime(current);
+    if (!current.loop || previousTime < exitTime) return time >= exitTime;
+    return Math.floor(time - exitTime) > Math.floor(previousTime - exitTime);
+  }
+
+  private findTransition(current: ActiveState, previousTime: number): AnimationGraphTransition | null {
+    const transitions = this.definition.transitions ?? [];
+    const ordered = [
+      ...transitions.filter((t) => t.from === ANY_STATE),
+      ...transitions.filter((t) => t.from === current.state.name),
+    ];
+    for (const transition of ordered) {
+      if (transition.from === ANY_STATE && transition.to === current.state.name && !transition.canTransitionToSelf) continue;
+      const conditions = transition.conditions ?? [];
+      if (transition.exitTime === undefined && !conditions.length) continue;
+      if (transition.exitTime !== undefined && !this.reachedExitTime(current, transition.exitTime, previousTime)) continue;
+      if (conditions.every((condition) => compare(this.parameters[condition.parameter] ?? 0, condition))) {
+        return transition;
+      }
+    }
+    return null;
+  }
+
+  private consumeTriggers(transition: AnimationGraphTransition): void {
+    for (const condition of transition.conditions ?? []) this.resetTrigger(condition.parameter);
+  }
+
+  private resolveSnippet(state: AnimationGraphState): Snippet | undefined {
+    return typeof state.snippet === 'string' ? this.definition.snippets?.[state.snippet] : state.snippet;
+  }
+
+  private enter(stateName: string, duration: number): void {
+    const state = this.statesByName.get(stateName)!;
+    const previous = this.current;
+    const snippet = this.resolveSnippet(state);
+    const motionKey = state.clip
+      ? `clip:${state.clip}`
+      : state.blendSpace ? `blendSpace:${state.name}` : `snippet:${snippet?.name ?? ''}`;
+    const fadeDuration = previous ? Math.max(0, duration) : 0;
+
+    if (previous?.motion) {
+      if (fadeDuration > 0 && previous.motionKey !== motionKey) {
+        this.fading.push({
+          motion: previous.motion,
+          motionKey: previous.motionKey,
+          startWeight: this.getCurrentWeight(previous),
+          elapsed: 0,
+          duration: fadeDuration,
+        });
+      } else if (previous.motionKey !== motionKey) {
+        previous.motion.stop();
+      }
+    }
+    if (fadeDuration <= 0) {
+      for (const fading of this.fading) fading.motion.stop();
+      this.fading = [];
+    }
+    // Replaying a motion restarts it, so it can no longer fade out separately.
+    this.fading = this.fading.filter((fading) => fading.motionKey !== motionKey);
+
+    const options = { loop: state.loop ?? snippet?.loop ?? true, speed: state.speed ?? 1 };
+    let motion: StateMotionHandle | null = null;
+    if (state.clip) motion = this.host.playClip(state.clip, options);
+    else if (state.blendSpace) motion = this.host.playBlendSpace(state.blendSpace, options);
+    else if (snippet) motion = this.host.playSnippet(snippet, options);
+    motion?.setParameters?.(this.parameters);
+
+    this.current = {
+      state,
+      motion,
+      motionKey,
+      time: 0,
+      duration: motion?.getDuration() ?? 0,
+      loop: options.loop,
+      fadeElapsed: 0,
+      fadeDuration,
+      fadeFrom: previous?.state.name ?? null,
+    };
+    this.applyWeights();
+    for (const listener of this.listeners) listener({ from: previous?.state.name ?? null, to: stateName });
+  }
+
+  private getCurrentWeight(active: ActiveState): number {
+    const weight = active.state.weight ?? 1;
+    if (active.fadeDuration <= 0) return weight;
+    return weight * Math.min(1, active.fadeElapsed / active.fadeDuration);
+  }
+
+  private applyWeights(): void {
+    this.fading = this.fading.filter((fading) => {
+      if (fading.elapsed >= fading.duration) {
+        fading.motion.stop();
+        return false;
+      }
+      fading.motion.setWeight(fading.startWeight * (1 - fading.elapsed / fading.duration));
+      return true;
+    });
+    if (this.current?.motion) this.current.motion.setWeight(this.getCurrentWeight(this.current));
+  }
+}
@@ -33,6 +33,75 @@
 
 export { Loom3, collectMorphMeshes } from './engines/three/Loom3';
 export { AnimationThree } from './engines/three/AnimationThree';
+export type { BlinkConfig, BlinkConfigUpdate, BlinkOptions } from './engines/three/blink/BlinkController';
+export { DEFAULT_BREATHING_BONES, sampleBreathCurve } from './engines/three/breathing/BreathingController';
+export type { BreathingConfig, BreathingConfigUpdate } from './engines/three/breathing/BreathingController';
+export { ARKitFaceDriver, arkitFrameToAUs, normalizeARKitFrame, DEFAULT_ARKIT_FACE_DRIVER_OPTIONS } from './engines/three/capture/ARKitFaceDriver';
+export type {
+  ARKitAUFrame,
+  ARKitAUValue,
+  ARKitContinuumValue,
+  ARKitFaceDriverHost,
+  ARKitFaceDriverOptions,
+  ARKitFrame,
+  ARKitFrameInput,
+  ARKitHeadChannel,
+} from './engines/three/capture/ARKitFaceDriver';
+export { computeLookAtAngles } from './engines/three/gaze/LookAtController';
+export type { GazeMotionConfig, GazeMotionConfigUpdate } from './engines/three/gaze/GazeMotionController';
+export type { LookAtAngleLimits, LookAtConfig, LookAtOptions, LookAtTarget } from './engines/three/gaze/LookAtController';
+export {
+  PerformanceRecorder,
+  DEFAULT_RECORDING_TOLERANCE,
+} from './engines/three/recording/PerformanceRecorder';
+export type { PerformanceRecorderHost, RecordedSnippet, RecordingOptions } from './engines/three/recording/PerformanceRecorder';
+export { SnippetScheduler } from './engines/three/scheduling/SnippetScheduler';
+export { AnimationStateMachine, validateAnimationGraph, DEFAULT_GRAPH_TRANSITION_DURATION } from './engines/three/stateMachine/AnimationStateMachine';
+export type {
+  AnimationGraphSnapshot,
+  AnimationGraphValidation,
+  AnimationStateChangeListener,
+  AnimationStateMachineHost,
+  StateMotionHandle,
+} from './engines/three/stateMachine/AnimationStateMachine';
+export {
+  BlendSpaceNode,
+  computeBlendSpace1DWeights,
+  computeBlendSpace2DWeights,
+  triangulateBlendSpace,
+  validateBlendSpace,
+} from './engines/three/blendSpace/BlendSpace';
+export type { BlendSpaceHost, BlendSpaceMotion, BlendSpaceOptions } from './engines/three/blendSpace/BlendSpace';
+export { AnimationLayerController } from './engines/three/layers/AnimationLayerController';
+export {
+  RootMotionTrack,
+  accumulateRootMotion,
+  extractRootMotion,
+  resolveRootMotionBone,
+} from './engines/three/rootMotion/RootMotion';
+export type { ExtractedRootMotion, RootMotionLoopMode } from './engines/three/rootMotion/RootMotion';
+export { retargetClip } from './engines/three/retargeting/Retargeting';
+export type {
+  RetargetBonePair,
+  RetargetOptions,
+  RetargetResult,
+  RetargetSkeleton,
+} from './engines/three/retargeting/Retargeting';
+export type {
+  AnimationLayerHost,
+  AnimationLayerInfo,
+  LayerAnimationHandle,
+  LayerPlayOptions,
+} from './engines/three/layers/AnimationLayerController';
+export type {
+  CurveContribution,
+  ResolvedCurve,
+  ScheduledSnippetHandle,
+  ScheduledSnippetState,
+  ScheduleOptions,
+  SchedulePolicy,
+  SnippetSchedulerHost,
+} from './engines/three/scheduling/SnippetScheduler';
 
 // Legacy aliases (deprecated - use Loom3 instead)
 export { Loom3 as Loom3Three } from './engines/three/Loom3';
@@ -94,17 +163,84 @@ export type {
   AnimationActionHandle,
   // Snippet-to-clip types
   CurvePoint,
+  CurveInterpolation,
+  CurveTangent,
   CurvesMap,
   ClipOptions,
   ClipEvent,
   ClipEventListener,
   ClipHandle,
   Snippet,
+  // Animation graph types
+  AnimationGraphParameterType,
+  AnimationGraphParameter,
+  AnimationGraphCondition,
+  AnimationGraphState,
+  AnimationGraphTransition,
+  AnimationGraphDefinition,
+  BlendSpaceSample,
+  BlendSpace1DDefinition,
+  BlendSpace2DDefinition,
+  BlendSpaceDefinition,
+  BoneMask,
+  AnimationLayerDefinition,
+  // Root motion types
+  RootMotionOptions,
+  RootMotionDelta,
   MorphTargetAttributeData,
   MorphTargetDelta,
   AddMorphTargetOptions,
 } from './core/types';
 
+export {
+  sampleCurvePoints,
+  bakeCurvePoints,
+  bakeCurves,
+  hasShapedSegments,
+  DEFAULT_CURVE_SAMPLE_RATE,
+} from './core/curveInterpolation';
+export {
+  getCurvesDuration,
+  mapSnippet,
+  trimCurves,
+  scaleCurvesTime,
+  stretchCurves,
+  offsetCurves,
+  concatCurves,
+  concatSnippets,
+  spliceCurves,
+  resampleCurves,
+  scaleCurvesIntensity,
+  getMirroredCurveId,
+  mirrorCurves,
+  mirrorBalanceMap,
+  reduceKeyframes,
+  reduceCurves,
+  DEFAULT_REDUCE_TOLERANCE,
+  visemeCurveId,
+  parseVisemeCurveId,
+  VISEME_CURVE_PREFIX,
+  sideCurveId,
+  parseSideCurveId,
+} from './core/snippetOps';
+export type { ConcatOptions, MirrorOptions } from './core/snippetOps';
+export {
+  parseSnippet,
+  serializeSnippet,
+  toSnippetFile,
+  validateSnippetAgainstProfile,
+  SNIPPET_FORMAT,
+  SNIPPET_FORMAT_VERSION,
+} from './core/snippetFormat';
+export type {
+  ParseSnippetOptions,
+  ParseSnippetResult,
+  SnippetFileV1,
+  SnippetIssue,
+  SnippetIssueSeverity,
+  SnippetMetadata,
+} from './core/snippetFormat';
+
 // ============================================================================
 // MAPPINGS
 // ============================================================================
@@ -131,6 +267,16 @@ export type {
   BlendingMode,
   MeshMaterialSettings,
   MeshInfo,
+  ExpressionAUWeight,
+  ExpressionContinuumWeight,
+  ExpressionDefinition,
+  AffectPoint,
+  AffectAnchor,
+  BlinkProfileConfig,
+  GazeMotionProfileConfig,
+  BreathingStyle,
+  BreathingBoneConfig,
+  BreathingProfileConfig,
 } from './mappings/types';
 
 export { BLENDING_MODES } from './mappings/types';
@@ -154,6 +300,73 @@ export type {
   ResolvedVisemeBindingTarget,
 } from './mappings/visemeSystem';
 
+export {
+  POLLY_VISEME_PHONEMES,
+  RHUBARB_SHAPE_PHONEMES,
+  alignmentToVisemeCurves,
+  buildVisemeCurves,
+  parseAzureVisemeEvents,
+  parsePhonemeTimings,
+  parsePollySpeechMarks,
+  parseRhubarbCues,
+} from './mappings/visemeAlignment';
+
+export type {
+  AzureVisemeEvent,
+  PhonemeTiming,
+  PollySpeechMark,
+  RhubarbMouthCues,
+  VisemeAlignmentInput,
+  VisemeAlignmentOptions,
+  VisemeCue,
+} from './mappings/visemeAlignment';
+
+export { coarticulateVisemeCurves } from './mappings/visemeCoarticulation';
+
+export type { CoarticulationOptions } from './mappings/visemeCoarticulation';
+
+export { G2P_LEXICON, textToPhonemes, textToVisemeTimeline } from './mappings/textToViseme';
+
+export type { TextToVisemeOptions, TextVisemeTimeline } from './mappings/textToViseme';
+
+export {
+  AudioLipSyncAnalyzer,
+  analyzeAudioToVisemeCurves,
+  extractAudioLipSyncFeatures,
+} from './mappings/audioLipSync';
+
+export type {
+  AudioLipSyncFeatures,
+  AudioLipSyncFrame,
+  AudioLipSyncOfflineOptions,
+  AudioLipSyncOptions,
+  VisemeTarget,
+} from './mappings/audioLipSync';
+
+export {
+  DEFAULT_EXPRESSIONS,
+  blendExpressions,
+  getProfileExpression,
+  getProfileExpressions,
+  isProfileAUMapped,
+  resolveExpression,
+} from './mappings/expressionSystem';
+
+export type {
+  ExpressionBlendResult,
+  ResolvedExpression,
+  ResolvedExpressionAU,
+} from './mappings/expressionSystem';
+
+export {
+  DEFAULT_AFFECT_ANCHORS,
+  computeAffectWeights,
+  getProfileAffectAnchors,
+  resolveAffectTargets,
+} from './mappings/affectSpace';
+
+export type { AffectWeightOptions } from './mappings/affectSpace';
+
 // ============================================================================
 // PROFILES
 // ============================================================================
@@ -278,6 +491,87 @@ export {
   hasLeftRightMorphs,
 } from './presets/cc4';
 
+// ARKit preset (Apple's 52 blendshape names)
+export {
+  ARKIT_PRESET,
+  ARKIT_BLENDSHAPES,
+  ARKIT_AU_TO_MORPHS,
+  ARKIT_BONE_AU_TO_BINDINGS,
+  ARKIT_BONE_NODES,
+  ARKIT_COMPOSITE_ROTATIONS,
+  ARKIT_CONTINUUM_PAIRS_MAP,
+  ARKIT_VISEME_SYSTEM_ID,
+  ARKIT_VISEME_SLOTS,
+  ARKIT_VISEME_BINDINGS,
+  ARKIT_VISEME_KEYS,
+} from './presets/arkit';
+export type { ARKitBlendshape } from './presets/arkit';
+
+// VRM preset and glTF extension reader
+export {
+  VRM_PRESET,
+  VRM_EXPRESSION_NAMES,
+  VRM0_EXPRESSION_ALIASES,
+  VRM_AU_TO_MORPHS,
+  VRM_HUMAN_BONE_KEYS,
+  VRM_BONE_NODES,
+  VRM_BONE_AU_TO_BINDINGS,
+  VRM_COMPOSITE_ROTATIONS,
+  VRM_CONTINUUM_PAIRS_MAP,
+  VRM_VISEME_SYSTEM_ID,
+  VRM_VISEME_SLOTS,
+  VRM_VISEME_BINDINGS,
+  VRM_VISEME_KEYS,
+  normalizeVRMExpressionName,
+} from './presets/vrm';
+export type { VRMExpressionName } from './presets/vrm';
+export { profileFromVRM, readVRMExtension } from './mappings/vrmProfile';
+export type { VRMExtensionData, VRMGltfJson, VRMMorphBind } from './mappings/vrmProfile';
+
+// Mixamo preset (body-only skeletal rigs)
+export {
+  MIXAMO_PRESET,
+  MIXAMO_BONE_PREFIX,
+  MIXAMO_BONE_NODES,
+  MIXAMO_BONE_BINDINGS,
+  MIXAMO_AU_INFO,
+  MIXAMO_CONTINUUM_PAIRS_MAP,
+  MIXAMO_COMPOSITE_ROTATIONS,
+  detectMixamoBonePrefix,
+  mixamoHasLeftRightBones,
+} from './presets/mixamo';
+
+// Daz Genesis presets (Genesis 9 FACS units, Genesis 8.1 bones)
+export {
+  GENESIS9_PRESET,
+  GENESIS8_PRESET,
+  GENESIS_MORPH_PREFIX,
+  GENESIS_SUFFIX_PATTERN,
+  GENESIS_AU_TO_MORPHS,
+  GENESIS9_BONE_NODES,
+  GENESIS8_BONE_NODES,
+  GENESIS_BONE_AU_TO_BINDINGS,
+  GENESIS_AU_MIX_DEFAULTS,
+  GENESIS_COMPOSITE_ROTATIONS,
+  GENESIS_CONTINUUM_PAIRS_MAP,
+  GENESIS_VISEME_SYSTEM_ID,
+  GENESIS_VISEME_SLOTS,
+  GENESIS_VISEME_KEYS,
+  GENESIS9_MORPH_TO_MESH,
+  GENESIS9_MESHES,
+} from './presets/genesis';
+
+// Ready Player Me preset (ARKit shapes plus Oculus visemes)
+export {
+  RPM_PRESET,
+  RPM_BONE_NODES,
+  RPM_MORPH_TO_MESH,
+  RPM_AU_FACEPART_TO_MESH_CATEGORY,
+  OCULUS_VISEME_SYSTEM_ID,
+  OCULUS_VISEME_SLOTS,
+  OCULUS_VISEME_KEYS,
+} from './presets/readyPlayerMe';
+
 // Fish/skeletal preset
 export { BETTA_FISH_PRESET, AU_MAPPING_CONFIG, FISH_AU_MAPPING_CONFIG } from './presets/bettaFish';
 
@@ -18,6 +18,7 @@ import type {
   MorphTargetDelta,
   AddMorphTargetOptions,
 } from '../core/types';
+import type { AffectPoint } from '../mappings/types';
 
 /** Loop mode for mixer clips */
 export type MixerLoopMode = 'once' | 'repeat' | 'pingpong';
@@ -72,6 +73,53 @@ export interface Animation {
    */
   transitionContinuum(negAU: number, posAU: number, continuumValue: number, durationMs?: number, balance?: number): TransitionHandle;
 
+  // ============================================================================
+  // EXPRESSIONS (named AU bundles stored in the profile)
+  // ============================================================================
+
+  /**
+   * Set a named expression's intensity immediately. Active expressions are
+   * blended together rather than overwriting each other.
+   * @param name - Expression name (e.g., 'joy', or a profile-defined name)
+   * @param intensity - Value 0-1 (0 deactivates the expression)
+   */
+  setExpression?(name: string, intensity: number): void;
+
+  /**
+   * Transition a named expression's intensity smoothly over time.
+   * @param name - Expression name
+   * @param to - Target intensity 0-1
+   * @param durationMs - Transition duration in milliseconds
+   */
+  transitionExpression?(name: string, to: number, durationMs?: number): TransitionHandle;
+
+  /**
+   * Get the current intensity of a named expression.
+   */
+  getExpression?(name: string): number;
+
+  /**
+   * Deactivate all expressions, releasing the AUs they were driving.
+   */
+  clearExpressions?(): void;
+
+  // ============================================================================
+  // AFFECT (valence/arousal/dominance driver)
+  // ============================================================================
+
+  /**
+   * Drive AU targets from a point in affect space immediately.
+   * @param point - Valence/arousal (and optional dominance), each -1 to 1
+   */
+  setAffect?(point: AffectPoint): void;
+
+  /**
+   * Transition AU targets toward a point in affect space.
+   * @param point - Valence/arousal (and optional dominance), each -1 to 1
+   * @param durationMs - Transition duration in milliseconds
+   */
+  transitionAffect?(point: AffectPoint, durationMs?: number): TransitionHandle;
+
   // ============================================================================
   // MORPH
   // ============================================================================
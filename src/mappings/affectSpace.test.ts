@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { CC4_PRESET } from '../presets/cc4';
+import { BETTA_FISH_PRESET } from '../presets/bettaFish';
+import {
+  DEFAULT_AFFECT_ANCHORS,
+  computeAffectWeights,
+  getProfileAffectAnchors,
+  resolveAffectTargets,
+} from './affectSpace';
+
+describe('affectSpace', () => {
+  it('returns no expression weight at the neutral origin', () => {
+    expect(computeAffectWeights(DEFAULT_AFFECT_ANCHORS, { valence: 0, arousal: 0, dominance: 0 })).toEqual({});
+  });
+
+  it('returns a single anchor when the point sits on it', () => {
+    const weights = computeAffectWeights(DEFAULT_AFFECT_ANCHORS, { valence: 0.76, arousal: 0.48, dominance: 0.35 });
+    expect(weights).toEqual({ joy: 1 });
+  });
+
+  it('interpolates between nearby anchors with weights that sum to at most 1', () => {
+    const weights = computeAffectWeights(DEFAULT_AFFECT_ANCHORS, { valence: 0.6, arousal: 0.6 });
+    expect(weights.joy).toBeGreaterThan(weights.surprise);
+    expect(weights.surprise).toBeGreaterThan(weights.sadness);
+    const total = Object.values(weights).reduce((sum, value) => sum + value, 0);
+    expect(total).toBeLessThanOrEqual(1 + 1e-9);
+  });
+
+  it('uses dominance to separate anger from fear', () => {
+    const dominant = computeAffectWeights(DEFAULT_AFFECT_ANCHORS, { valence: -0.55, arousal: 0.6, dominance: 0.6 });
+    const submissive = computeAffectWeights(DEFAULT_AFFECT_ANCHORS, { valence: -0.55, arousal: 0.6, dominance: -0.6 });
+    expect(dominant.anger).toBeGreaterThan(dominant.fear);
+    expect(submissive.fear).toBeGreaterThan(submissive.anger);
+  });
+
+  it('maps the same affect point to different rigs through profile anchors', () => {
+    expect(getProfileAffectAnchors(CC4_PRESET)).toBe(DEFAULT_AFFECT_ANCHORS);
+    expect(getProfileAffectAnchors(BETTA_FISH_PRESET)).not.toBe(DEFAULT_AFFECT_ANCHORS);
+
+    const point = { valence: 0.76, arousal: 0.48, dominance: 0.35 };
+    const human = resolveAffectTargets(CC4_PRESET, point);
+    const fish = resolveAffectTargets(BETTA_FISH_PRESET, point);
+    expect(human.aus[12]?.value).toBeCloseTo(1);
+    expect(fish.aus[14]?.value).toBeCloseTo(0.5);
+    expect(fish.aus[12]).toBeUndefined();
+  });
+});
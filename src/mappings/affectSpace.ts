@@ -0,0 +1,87 @@
+import type { AffectAnchor, AffectPoint, Profile } from './types';
+import { blendExpressions, type ExpressionBlendResult } from './expressionSystem';
+
+/**
+ * Circumplex/PAD placements for the default basic-emotion expressions
+ * (after Russell 1980 and Mehrabian 1996). The anchor at the origin has no
+ * expression, so a neutral affect point resolves to the neutral pose.
+ */
+export const DEFAULT_AFFECT_ANCHORS: AffectAnchor[] = [
+  { valence: 0, arousal: 0, dominance: 0 },
+  { expression: 'joy', valence: 0.76, arousal: 0.48, dominance: 0.35 },
+  { expression: 'surprise', valence: 0.4, arousal: 0.67, dominance: -0.13 },
+  { expression: 'fear', valence: -0.64, arousal: 0.6, dominance: -0.43 },
+  { expression: 'anger', valence: -0.51, arousal: 0.59, dominance: 0.25 },
+  { expression: 'disgust', valence: -0.6, arousal: 0.35, dominance: 0.11 },
+  { expression: 'contempt', valence: -0.4, arousal: 0.1, dominance: 0.6 },
+  { expression: 'sadness', valence: -0.63, arousal: -0.27, dominance: -0.33 },
+];
+
+export interface AffectWeightOptions {
+  /** Inverse-distance falloff exponent (default: 2). Higher = crisper anchors. */
+  power?: number;
+}
+
+const clampAxis = (value: number | undefined) => Math.max(-1, Math.min(1, value ?? 0));
+
+export function getProfileAffectAnchors(profile: Profile): AffectAnchor[] {
+  return profile.affectAnchors ?? DEFAULT_AFFECT_ANCHORS;
+}
+
+/**
+ * Inverse-distance weights for each anchored expression at an affect point.
+ *
+ * Weights across all anchors sum to 1, so the result can be passed straight
+ * to `blendExpressions`. Dominance only counts when the point provides it.
+ * A point that sits on an anchor returns that anchor alone.
+ */
+export function computeAffectWeights(
+  anchors: AffectAnchor[],
+  point: AffectPoint,
+  options: AffectWeightOptions = {}
+): Record<string, number> {
+  const power = options.power ?? 2;
+  const useDominance = point.dominance !== undefined;
+  const target = {
+    valence: clampAxis(point.valence),
+    arousal: clampAxis(point.arousal),
+    dominance: clampAxis(point.dominance),
+  };
+
+  const distances = anchors.map((anchor) => {
+    const dv = clampAxis(anchor.valence) - target.valence;
+    const da = clampAxis(anchor.arousal) - target.arousal;
+    const dd = useDominance ? clampAxis(anchor.dominance) - target.dominance : 0;
+    return Math.sqrt(dv * dv + da * da + dd * dd);
+  });
+
+  const exactIndex = distances.findIndex((distance) => distance < 1e-6);
+  const rawWeights = exactIndex >= 0
+    ? distances.map((_, index) => (index === exactIndex ? 1 : 0))
+    : distances.map((distance) => 1 / Math.pow(distance, power));
+  const total = rawWeights.reduce((sum, weight) => sum + weight, 0);
+
+  const weights: Record<string, number> = {};
+  if (total <= 0) return weights;
+
+  anchors.forEach((anchor, index) => {
+    if (!anchor.expression) return;
+    const weight = (rawWeights[index] / total) * (anchor.intensity ?? 1);
+    if (weight <= 0) return;
+    weights[anchor.expression] = (weights[anchor.expression] ?? 0) + weight;
+  });
+
+  return weights;
+}
+
+/**
+ * Resolve an affect point into blended AU/continuum targets for a profile.
+ */
+export function resolveAffectTargets(
+  profile: Profile,
+  point: AffectPoint,
+  options: AffectWeightOptions = {}
+): ExpressionBlendResult {
+  const weights = computeAffectWeights(getProfileAffectAnchors(profile), point, options);
+  return blendExpressions(profile, weights);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { CC4_PRESET } from '../presets/cc4';
+import { AudioLipSyncAnalyzer, analyzeAudioToVisemeCurves, extractAudioLipSyncFeatures } from './audioLipSync';
+import { getVisemeSlotIndex } from './visemeSystem';
+
+const SAMPLE_RATE = 16000;
+
+/** Harmonic source at 120 Hz shaped by two Gaussian formants. */
+function vowel(f1: number, f2: number, seconds = 0.3, amplitude = 0.1): Float32Array {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let harmonic = 120; harmonic < 5000; harmonic += 120) {
+    const gain = Math.exp(-((harmonic - f1) ** 2) / (2 * 120 ** 2))
+      + 0.6 * Math.exp(-((harmonic - f2) ** 2) / (2 * 150 ** 2))
+      + 0.02;
+    for (let i = 0; i < out.length; i += 1) {
+      out[i] += amplitude * gain * Math.sin((2 * Math.PI * harmonic * i) / SAMPLE_RATE);
+    }
+  }
+  return out;
+}
+
+function noise(seconds = 0.3, amplitude = 0.1): Float32Array {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let state = 7;
+  for (let i = 0; i < out.length; i += 1) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    out[i] = amplitude * ((state / 2 ** 32) * 2 - 1);
+  }
+  return out;
+}
+
+function strongestSlot(signal: Float32Array): number {
+  const analyzer = new AudioLipSyncAnalyzer(CC4_PRESET);
+  let weights: Record<number, number> = {};
+  for (let i = 0; i + 160 <= signal.length; i += 160) {
+    weights = analyzer.process(signal.subarray(i, i + 160), SAMPLE_RATE).weights;
+  }
+  return Number(Object.entries(weights).sort((a, b) => b[1] - a[1])[0][0]);
+}
+
+const slot = (id: string) => getVisemeSlotIndex(CC4_PRESET, id);
+
+describe('extractAudioLipSyncFeatures', () => {
+  it('reports silence as a closed mouth', () => {
+    const features = extractAudioLipSyncFeatures(new Float32Array(400), SAMPLE_RATE);
+    expect(features.loudness).toBe(0);
+    expect(features.jawOpen).toBe(0);
+  });
+
+  it('separates voiced vowels from fricative noise', () => {
+    const open = extractAudioLipSyncFeatures(vowel(750, 1100).subarray(0, 400), SAMPLE_RATE);
+    const hiss = extractAudioLipSyncFeatures(noise().subarray(0, 400), SAMPLE_RATE);
+    expect(open.jawOpen).toBeGreaterThan(0.8);
+    expect(open.fricative).toBeLessThan(0.1);
+    expect(hiss.fricative).toBeGreaterThan(0.9);
+  });
+});
+
+describe('AudioLipSyncAnalyzer', () => {
+  it('matches vowel and fricative spectra to feature-tagged slots', () => {
+    expect(strongestSlot(vowel(750, 1100))).toBe(slot('ah'));
+    expect(strongestSlot(vowel(280, 2250))).toBe(slot('ee'));
+    expect([slot('w-oo'), slot('oh')]).toContain(strongestSlot(vowel(300, 870)));
+    expect([slot('s-z'), slot('f-v')]).toContain(strongestSlot(noise()));
+  });
+
+  it('never drives closure or tongue-tip slots', () => {
+    const driven = new AudioLipSyncAnalyzer(CC4_PRESET).getDrivenSlots();
+    expect(driven).not.toContain(slot('b-m-p'));
+    expect(driven).not.toContain(slot('t-l-d-n'));
+    expect(driven).toContain(slot('ah'));
+  });
+
+  it('streams frames into setViseme and releases in silence', () => {
+    const calls = new Map<number, number>();
+    const target = { setViseme: (index: number, value: number) => calls.set(index, value) };
+    const analyzer = new AudioLipSyncAnalyzer(CC4_PRESET);
+    const speech = vowel(750, 1100, 0.2);
+
+    let frame = analyzer.drive(target, speech.subarray(0, 320), SAMPLE_RATE);
+    for (let i = 320; i + 320 <= speech.length; i += 320) frame = analyzer.drive(target, speech.subarray(i, i + 320), SAMPLE_RATE);
+    expect(calls.get(slot('ah'))).toBeGreaterThan(0.3);
+    expect(frame.jaw).toBeGreaterThan(0.2);
+    expect(frame.time).toBeCloseTo(0.2);
+
+    for (let i = 0; i < 20; i += 1) analyzer.drive(target, new Float32Array(320), SAMPLE_RATE);
+    expect(calls.get(slot('ah'))).toBe(0);
+  });
+});
+
+describe('analyzeAudioToVisemeCurves', () => {
+  it('builds curves that follow speech and silence', () => {
+    const samples = new Float32Array(Math.round(0.6 * SAMPLE_RATE));
+    samples.set(vowel(750, 1100, 0.3), 0);
+    const curves = analyzeAudioToVisemeCurves(CC4_PRESET, samples, SAMPLE_RATE);
+    const ah = curves[String(slot('ah'))];
+
+    expect(ah).toBeDefined();
+    expect(ah[0]).toEqual({ time: 0, intensity: 0 });
+    const at = (time: number) => ah.reduce((best, point) => (point.time <= time ? point : best), ah[0]).intensity;
+    expect(at(0.2)).toBeGreaterThan(0.3);
+    expect(at(0.59)).toBeLessThan(0.05);
+    expect(ah[ah.length - 1].time).toBeCloseTo(0.6);
+    expect(curves[String(slot('b-m-p'))]).toBeUndefined();
+  });
+});
@@ -0,0 +1,318 @@
+import type { CurvePoint, CurvesMap } from '../core/types';
+import type { Profile, VisemeSlotFeatures } from './types';
+import { getProfileVisemeSlots, getVisemeJawAmounts } from './visemeSystem';
+
+export interface AudioLipSyncOptions {
+  /** Level mapped to a closed mouth, in dBFS (default: -50) */
+  noiseFloorDb?: number;
+  /** Level mapped to a fully open mouth, in dBFS (default: -12) */
+  fullScaleDb?: number;
+  /** Overall gain on the output weights (default: 1) */
+  gain?: number;
+  /** Number of slots blended per frame (default: 2) */
+  maxSlots?: number;
+  /** Smoothing time constant while a weight rises, in ms (default: 30) */
+  attackMs?: number;
+  /** Smoothing time constant while a weight falls, in ms (default: 90) */
+  releaseMs?: number;
+  /**
+   * Width of the feature match; smaller values commit harder to the closest slot (default: 0.35).
+   */
+  matchWidth?: number;
+}
+
+export interface AudioLipSyncOfflineOptions extends AudioLipSyncOptions {
+  /** Analysis window length in ms (default: 25) */
+  windowMs?: number;
+  /** Step between analysis windows in ms (default: 10) */
+  hopMs?: number;
+}
+
+/** Acoustic features of one analysis frame (all 0-1 except rms). */
+export interface AudioLipSyncFeatures {
+  rms: number;
+  loudness: number;
+  zeroCrossingRate: number;
+  jawOpen: number;
+  lipRound: number;
+  lipSpread: number;
+  fricative: number;
+}
+
+export interface AudioLipSyncFrame {
+  /** Analyzer time at the end of the frame, in seconds */
+  time: number;
+  features: AudioLipSyncFeatures;
+  /** Smoothed weight for every driven slot, keyed by viseme slot index */
+  weights: Record<number, number>;
+  /** Resulting jaw opening (0-1) from the weighted slot jaw amounts */
+  jaw: number;
+}
+
+/** Anything with Loom3's `setViseme` signature. */
+export interface VisemeTarget {
+  setViseme: (visemeIndex: number, value: number, jawScale?: number) => void;
+}
+
+interface DrivenSlot {
+  index: number;
+  features: Required<Pick<VisemeSlotFeatures, 'jawOpen' | 'lipRound' | 'lipSpread' | 'fricative'>>;
+  jawAmount: number;
+}
+
+// Probe frequencies (Hz) for the formant-ish bands.
+const LOW_BAND = [250, 350, 450];
+const MID_BAND = [600, 800, 1000];
+const HIGH_MID_BAND = [1600, 2000, 2400];
+const HIGH_BAND = [4000, 5000, 6000];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function goertzelPower(samples: Float32Array, window: Float32Array, sampleRate: number, frequency: number): number {
+  if (frequency >= sampleRate / 2) return 0;
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let prev = 0;
+  let prev2 = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    const s = samples[i] * window[i] + coeff * prev - prev2;
+    prev2 = prev;
+    prev = s;
+  }
+  return Math.max(0, prev * prev + prev2 * prev2 - coeff * prev * prev2) / (samples.length * samples.length);
+}
+
+const windowCache = new Map<number, Float32Array>();
+
+function hannWindow(length: number): Float32Array {
+  let window = windowCache.get(length);
+  if (!window) {
+    window = new Float32Array(length);
+    for (let i = 0; i < length; i += 1) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, length - 1));
+    windowCache.set(length, window);
+  }
+  return window;
+}
+
+/**
+ * Compute energy, band balance and zero-crossing features for one PCM frame.
+ * Band fractions stand in for formants: a strong low band with little 1.5-2.5 kHz
+ * energy reads as rounded, strong 1.5-2.5 kHz as spread, a dominant mid band as open,
+ * and high-band noise with many zero crossings as a fricative.
+ */
+export function extractAudioLipSyncFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Pick<AudioLipSyncOptions, 'noiseFloorDb' | 'fullScaleDb'> = {}
+): AudioLipSyncFeatures {
+  const noiseFloorDb = options.noiseFloorDb ?? -50;
+  const fullScaleDb = options.fullScaleDb ?? -12;
+  const silent: AudioLipSyncFeatures = {
+    rms: 0, loudness: 0, zeroCrossingRate: 0, jawOpen: 0, lipRound: 0, lipSpread: 0, fricative: 0,
+  };
+  if (samples.length < 2 || !(sampleRate > 0)) return silent;
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings += 1;
+  }
+  const rms = Math.sqrt(sumSquares / samples.length);
+  const db = 20 * Math.log10(Math.max(rms, 1e-9));
+  const loudness = clamp01((db - noiseFloorDb) / Math.max(1e-6, fullScaleDb - noiseFloorDb));
+  const zeroCrossingRate = crossings / (samples.length - 1);
+  if (loudness <= 0) return { ...silent, rms, zeroCrossingRate };
+
+  const window = hannWindow(samples.length);
+  const band = (frequencies: number[]) =>
+    frequencies.reduce((sum, frequency) => sum + goertzelPower(samples, window, sampleRate, frequency), 0);
+  const low = band(LOW_BAND);
+  const mid = band(MID_BAND);
+  const highMid = band(HIGH_MID_BAND);
+  const high = band(HIGH_BAND);
+  const total = low + mid + highMid + high + 1e-12;
+
+  // F2 pushed up into 1.5-2.5 kHz marks spread lips even when F1 keeps the low band strong.
+  // Speech spectra tilt downward, so compare in dB: around -10 dB relative to F1 is a clear front vowel.
+  const spread = clamp01((10 * Math.log10((highMid + 1e-12) / (low + mid + 1e-12)) + 22) / 12);
+  const fricative = clamp01(Math.max((zeroCrossingRate - 0.15) / 0.25, (high / total - 0.3) / 0.4));
+  return {
+    rms,
+    loudness,
+    zeroCrossingRate,
+    jawOpen: clamp01((mid / total) * 1.6) * (1 - 0.7 * fricative),
+    lipRound: clamp01((low / total - 0.45) / 0.4) * (1 - spread) * (1 - fricative),
+    lipSpread: spread * (1 - fricative),
+    fricative,
+  };
+}
+
+/**
+ * Audio-driven lip-sync for voices that come without phoneme data.
+ *
+ * Works on raw PCM (Float32Array + sample rate) with no WebAudio dependency. Each frame is
+ * matched against the profile's `VisemeSlotFeatures`; slots that audio cannot reveal
+ * (lip closures, tongue-tip shapes) are left alone. Loudness scales the blend, and the
+ * jaw follows through each slot's jaw amount. Use `process()`/`drive()` for streaming
+ * or `analyzeAudioToVisemeCurves()` for a clip.
+ */
+export class AudioLipSyncAnalyzer {
+  private options: Required<AudioLipSyncOptions>;
+  private slots: DrivenSlot[];
+  private weights = new Map<number, number>();
+  private time = 0;
+
+  constructor(profile: Profile, options: AudioLipSyncOptions = {}) {
+    this.options = {
+      noiseFloorDb: options.noiseFloorDb ?? -50,
+      fullScaleDb: options.fullScaleDb ?? -12,
+      gain: options.gain ?? 1,
+      maxSlots: Math.max(1, Math.floor(options.maxSlots ?? 2)),
+      attackMs: Math.max(0, options.attackMs ?? 30),
+      releaseMs: Math.max(0, options.releaseMs ?? 90),
+      matchWidth: Math.max(1e-3, options.matchWidth ?? 0.35),
+    };
+    this.slots = resolveDrivenSlots(profile);
+    if (this.slots.length === 0) {
+      console.warn('[Loom3] AudioLipSyncAnalyzer: Profile has no viseme slots to drive');
+    }
+    for (const slot of this.slots) this.weights.set(slot.index, 0);
+  }
+
+  /** Slot indices this analyzer writes. */
+  getDrivenSlots(): number[] {
+    return this.slots.map((slot) => slot.index);
+  }
+
+  reset(): void {
+    this.time = 0;
+    for (const index of this.weights.keys()) this.weights.set(index, 0);
+  }
+
+  /**
+   * Analyze the next chunk of audio. By default the chunk length sets the smoothing step,
+   * so pass consecutive frames as they arrive; pass `advanceSeconds` for overlapping windows.
+   */
+  process(samples: Float32Array, sampleRate: number, advanceSeconds?: number): AudioLipSyncFrame {
+    const seconds = advanceSeconds ?? (sampleRate > 0 ? samples.length / sampleRate : 0);
+    return this.step(extractAudioLipSyncFeatures(samples, sampleRate, this.options), Math.max(0, seconds) * 1000);
+  }
+
+  /** `process()` and write every driven slot to the target (e.g. a Loom3 instance). */
+  drive(target: VisemeTarget, samples: Float32Array, sampleRate: number, jawScale = 1): AudioLipSyncFrame {
+    const frame = this.process(samples, sampleRate);
+    for (const [index, value] of Object.entries(frame.weights)) target.setViseme(Number(index), value, jawScale);
+    return frame;
+  }
+
+  private step(features: AudioLipSyncFeatures, dtMs: number): AudioLipSyncFrame {
+    this.time += dtMs / 1000;
+
+    const targets = new Map<number, number>();
+    if (features.loudness > 0 && this.slots.length > 0) {
+      const scored = this.slots
+        .map((slot) => ({ index: slot.index, score: this.matchScore(slot, features) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, this.options.maxSlots);
+      const total = scored.reduce((sum, entry) => sum + entry.score, 0);
+      if (total > 0) {
+        const level = clamp01(features.loudness * this.options.gain);
+        for (const entry of scored) targets.set(entry.index, level * (entry.score / total));
+      }
+    }
+
+    const weights: Record<number, number> = {};
+    let jaw = 0;
+    for (const slot of this.slots) {
+      const current = this.weights.get(slot.index) ?? 0;
+      const target = targets.get(slot.index) ?? 0;
+      const timeConstant = target > current ? this.options.attackMs : this.options.releaseMs;
+      const next = timeConstant > 0 ? current + (target - current) * (1 - Math.exp(-dtMs / timeConstant)) : target;
+      const value = next < 0.01 ? 0 : next;
+      this.weights.set(slot.index, value);
+      weights[slot.index] = value;
+      jaw = Math.max(jaw, value * slot.jawAmount);
+    }
+
+    return { time: this.time, features, weights, jaw };
+  }
+
+  private matchScore(slot: DrivenSlot, features: AudioLipSyncFeatures): number {
+    const distance = Math.hypot(
+      slot.features.jawOpen - features.jawOpen,
+      slot.features.lipRound - features.lipRound,
+      slot.features.lipSpread - features.lipSpread,
+      slot.features.fricative - features.fricative
+    );
+    return Math.exp(-(distance * distance) / (this.options.matchWidth * this.options.matchWidth));
+  }
+}
+
+function resolveDrivenSlots(profile: Profile): DrivenSlot[] {
+  const jawAmounts = getVisemeJawAmounts(profile) ?? [];
+  const slots = getProfileVisemeSlots(profile);
+  const driven: DrivenSlot[] = [];
+  slots.forEach((slot, index) => {
+    const features = slot.features;
+    if (!features) return;
+    if ((features.lipClosed ?? 0) >= 0.5 || (features.tongueTip ?? 0) >= 0.5) return;
+    driven.push({
+      index,
+      jawAmount: jawAmounts[index] ?? features.jawOpen ?? 0,
+      features: {
+        jawOpen: features.jawOpen ?? jawAmounts[index] ?? 0,
+        lipRound: features.lipRound ?? 0,
+        lipSpread: features.lipSpread ?? 0,
+        fricative: features.fricative ?? 0,
+      },
+    });
+  });
+  if (driven.length > 0) return driven;
+
+  // Profiles without authored features: drive the most open slot from loudness alone.
+  let openest = -1;
+  jawAmounts.forEach((amount, index) => {
+    if (openest < 0 || amount > jawAmounts[openest]) openest = index;
+  });
+  if (openest < 0 && slots.length > 0) openest = 0;
+  return openest < 0
+    ? []
+    : [{ index: openest, jawAmount: jawAmounts[openest] ?? 0, features: { jawOpen: 0, lipRound: 0, lipSpread: 0, fricative: 0 } }];
+}
+
+/**
+ * Analyze a whole PCM buffer into a visemeSnippet curves map (curve id = slot index),
+ * ready for `snippetToClip(..., { snippetCategory: 'visemeSnippet' })`.
+ */
+export function analyzeAudioToVisemeCurves(
+  profile: Profile,
+  samples: Float32Array,
+  sampleRate: number,
+  options: AudioLipSyncOfflineOptions = {}
+): CurvesMap {
+  const analyzer = new AudioLipSyncAnalyzer(profile, options);
+  const windowSize = Math.max(2, Math.round(((options.windowMs ?? 25) / 1000) * sampleRate));
+  const hopSize = Math.max(1, Math.round(((options.hopMs ?? 10) / 1000) * sampleRate));
+
+  const curves: Record<string, CurvePoint[]> = {};
+  for (const index of analyzer.getDrivenSlots()) curves[String(index)] = [{ time: 0, intensity: 0 }];
+
+  for (let start = 0; start < samples.length; start += hopSize) {
+    const window = samples.subarray(start, Math.min(samples.length, start + windowSize));
+    // Advance by the hop, not the window, so overlapping windows keep real time.
+    const frame = analyzer.process(window, sampleRate, hopSize / sampleRate);
+    const time = Math.min(samples.length, start + hopSize) / sampleRate;
+    for (const [index, value] of Object.entries(frame.weights)) {
+      const points = curves[index];
+      const last = points[points.length - 1];
+      const beforeLast = points[points.length - 2];
+      // Collapse flat runs to their end points.
+      if (beforeLast && beforeLast.intensity === value && last.intensity === value) last.time = time;
+      else points.push({ time, intensity: value });
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(curves).filter(([, points]) => points.some((point) => point.intensity > 0))
+  );
+}
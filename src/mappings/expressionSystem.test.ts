@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Profile } from './types';
+import { CC4_PRESET } from '../presets/cc4';
+import { BETTA_FISH_PRESET } from '../presets/bettaFish';
+import { extendPresetWithProfile } from './extendPresetWithProfile';
+import {
+  DEFAULT_EXPRESSIONS,
+  blendExpressions,
+  getProfileExpressions,
+  resolveExpression,
+} from './expressionSystem';
+
+const makeProfile = (overrides: Partial<Profile> = {}): Profile => ({
+  auToMorphs: {
+    6: { left: ['Cheek_L'], right: ['Cheek_R'], center: [] },
+    12: { left: ['Smile_L'], right: ['Smile_R'], center: [] },
+    1: { left: [], right: [], center: ['Brow_Inner_Up'] },
+  },
+  auToBones: {
+    53: [{ node: 'HEAD', channel: 'rx', scale: -1, maxDegrees: 30 }],
+    54: [{ node: 'HEAD', channel: 'rx', scale: 1, maxDegrees: 30 }],
+  },
+  boneNodes: { HEAD: 'Head' },
+  morphToMesh: { face: ['Face'] },
+  visemeKeys: [],
+  continuumPairs: {
+    54: { pairId: 53, isNegative: true, axis: 'pitch', node: 'HEAD' },
+    53: { pairId: 54, isNegative: false, axis: 'pitch', node: 'HEAD' },
+  },
+  ...overrides,
+});
+
+describe('expressionSystem', () => {
+  it('ships the basic emotions and lets profiles override them by name', () => {
+    expect(Object.keys(DEFAULT_EXPRESSIONS)).toEqual(
+      expect.arrayContaining(['joy', 'sadness', 'surprise', 'fear', 'anger', 'disgust', 'contempt'])
+    );
+
+    const profile = makeProfile({
+      expressions: {
+        joy: { aus: { 12: 0.5 } },
+        smirk: { aus: { 12: { value: 0.4, balance: -1 } } },
+      },
+    });
+    const expressions = getProfileExpressions(profile);
+    expect(expressions.joy.aus).toEqual({ 12: 0.5 });
+    expect(expressions.smirk).toBeDefined();
+    expect(expressions.anger).toBe(DEFAULT_EXPRESSIONS.anger);
+  });
+
+  it('drops AUs the profile does not map', () => {
+    const resolved = resolveExpression(makeProfile(), DEFAULT_EXPRESSIONS.joy);
+    expect(Object.keys(resolved.aus).map(Number).sort((a, b) => a - b)).toEqual([6, 12]);
+  });
+
+  it('resolves every default against CC4 and uses fish-specific emotions on the fish rig', () => {
+    for (const expression of Object.values(DEFAULT_EXPRESSIONS)) {
+      const resolved = resolveExpression(CC4_PRESET, expression);
+      expect(Object.keys(resolved.aus).length).toBe(Object.keys(expression.aus).length);
+    }
+
+    const fishExpressions = getProfileExpressions(BETTA_FISH_PRESET);
+    for (const name of Object.keys(DEFAULT_EXPRESSIONS)) {
+      expect(fishExpressions[name]).not.toBe(DEFAULT_EXPRESSIONS[name]);
+    }
+    const fishAnger = resolveExpression(BETTA_FISH_PRESET, fishExpressions.anger);
+    expect(fishAnger.aus[45]?.value).toBe(1);
+  });
+
+  it('rewrites negative continuum AU weights as continuum values', () => {
+    const resolved = resolveExpression(makeProfile(), { aus: { 53: -0.4 } });
+    expect(resolved.aus).toEqual({});
+    expect(resolved.continuums).toEqual([{ negAU: 54, posAU: 53, value: -0.4 }]);
+  });
+
+  it('sums co-active expressions per AU and clamps instead of last-write-wins', () => {
+    const profile = makeProfile({
+      expressions: {
+        a: { aus: { 12: 0.6, 6: 0.5 }, mixWeights: { 12: 1 } },
+        b: { aus: { 12: 0.8, 1: 1 }, mixWeights: { 12: 0 } },
+      },
+    });
+
+    const single = blendExpressions(profile, { a: 0.5 });
+    expect(single.aus[12].value).toBeCloseTo(0.3);
+
+    const blended = blendExpressions(profile, { a: 1, b: 0.5 });
+    expect(blended.aus[12].value).toBeCloseTo(1);
+    expect(blended.aus[6].value).toBeCloseTo(0.5);
+    expect(blended.aus[1].value).toBeCloseTo(0.5);
+    expect(blended.mixWeights[12]).toBeCloseTo(2 / 3);
+  });
+
+  it('blends continuums and balances by contribution', () => {
+    const profile = makeProfile({
+      expressions: {
+        down: { aus: {}, continuums: [{ negAU: 54, posAU: 53, value: -0.6 }] },
+        up: { aus: {}, continuums: [{ negAU: 54, posAU: 53, value: 0.2 }] },
+        smirkLeft: { aus: { 12: { value: 0.5, balance: -1 } } },
+        smile: { aus: { 12: 0.5 } },
+      },
+    });
+
+    const result = blendExpressions(profile, { down: 1, up: 1, smirkLeft: 1, smile: 1 });
+    expect(result.continuums['54-53'].value).toBeCloseTo(-0.4);
+    expect(result.aus[12].value).toBeCloseTo(1);
+    expect(result.aus[12].balance).toBeCloseTo(-0.5);
+  });
+
+  it('merges profile expressions through extendPresetWithProfile', () => {
+    const merged = extendPresetWithProfile(
+      makeProfile({ expressions: { calm: { aus: { 1: 0.1 } } } }),
+      { expressions: { focus: { aus: { 4: 0.3 } } } }
+    );
+    expect(Object.keys(merged.expressions || {})).toEqual(['calm', 'focus']);
+  });
+});
@@ -0,0 +1,215 @@
+import type {
+  ExpressionAUWeight,
+  ExpressionContinuumWeight,
+  ExpressionDefinition,
+  Profile,
+} from './types';
+
+/**
+ * FACS-grounded prototypes for the basic emotions (Ekman & Friesen EMFACS).
+ * AU ids follow the FACS numbering shared by the built-in human presets;
+ * AUs a profile does not map are dropped during resolution.
+ */
+export const DEFAULT_EXPRESSIONS: Record<string, ExpressionDefinition> = {
+  joy: {
+    label: 'Joy',
+    description: 'AU6 + AU12 (Duchenne smile)',
+    aus: { 6: 0.8, 12: 1, 25: 0.2 },
+  },
+  sadness: {
+    label: 'Sadness',
+    description: 'AU1 + AU4 + AU15, head and gaze lowered',
+    aus: { 1: 0.8, 4: 0.6, 15: 0.8, 17: 0.3 },
+    continuums: [
+      { negAU: 54, posAU: 53, value: -0.15 },
+      { negAU: 64, posAU: 63, value: -0.2 },
+    ],
+  },
+  surprise: {
+    label: 'Surprise',
+    description: 'AU1 + AU2 + AU5 + AU26',
+    aus: { 1: 1, 2: 1, 5: 0.8, 26: 0.6 },
+  },
+  fear: {
+    label: 'Fear',
+    description: 'AU1 + AU2 + AU4 + AU5 + AU7 + AU20 + AU26',
+    aus: { 1: 0.9, 2: 0.6, 4: 0.5, 5: 1, 7: 0.4, 20: 0.8, 26: 0.4 },
+  },
+  anger: {
+    label: 'Anger',
+    description: 'AU4 + AU5 + AU7 + AU23',
+    aus: { 4: 1, 5: 0.6, 7: 0.8, 23: 0.8 },
+  },
+  disgust: {
+    label: 'Disgust',
+    description: 'AU9 + AU15 + AU16',
+    aus: { 9: 1, 15: 0.5, 16: 0.4 },
+  },
+  contempt: {
+    label: 'Contempt',
+    description: 'R12A + R14A (unilateral)',
+    aus: { 12: { value: 0.6, balance: 1 }, 14: { value: 0.8, balance: 1 } },
+  },
+};
+
+export interface ResolvedExpressionAU {
+  value: number;
+  balance?: number;
+}
+
+export interface ResolvedExpression {
+  aus: Record<number, ResolvedExpressionAU>;
+  continuums: ExpressionContinuumWeight[];
+  mixWeights: Record<number, number>;
+}
+
+export interface ExpressionBlendResult {
+  /** AU ID -> blended value (0-1) and balance */
+  aus: Record<number, ResolvedExpressionAU>;
+  /** "negAU-posAU" -> blended continuum value (-1 to 1) */
+  continuums: Record<string, ExpressionContinuumWeight>;
+  /** AU ID -> intensity-weighted mix weight */
+  mixWeights: Record<number, number>;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function normalizeAUWeight(weight: ExpressionAUWeight): ResolvedExpressionAU {
+  if (typeof weight === 'number') return { value: weight };
+  return { value: weight.value, balance: weight.balance };
+}
+
+/**
+ * Whether the profile can drive an AU (morphs on any side or a bone binding).
+ */
+export function isProfileAUMapped(profile: Profile, auId: number): boolean {
+  const morphs = profile.auToMorphs?.[auId];
+  if (morphs && (morphs.left?.length || morphs.right?.length || morphs.center?.length)) {
+    return true;
+  }
+  return Boolean(profile.auToBones?.[auId]?.length);
+}
+
+/**
+ * Built-in defaults merged with profile expressions (profile wins by name).
+ */
+export function getProfileExpressions(profile: Profile): Record<string, ExpressionDefinition> {
+  return { ...DEFAULT_EXPRESSIONS, ...profile.expressions };
+}
+
+export function getProfileExpression(profile: Profile, name: string): ExpressionDefinition | undefined {
+  return getProfileExpressions(profile)[name];
+}
+
+/**
+ * Resolve an expression against a profile: unmapped AUs are dropped and
+ * negative weights on continuum AUs are rewritten as continuum values.
+ */
+export function resolveExpression(profile: Profile, expression: ExpressionDefinition): ResolvedExpression {
+  const aus: Record<number, ResolvedExpressionAU> = {};
+  const continuums: ExpressionContinuumWeight[] = [];
+  const mixWeights: Record<number, number> = {};
+
+  for (const [auIdStr, weight] of Object.entries(expression.aus || {})) {
+    const auId = Number(auIdStr);
+    if (Number.isNaN(auId) || !isProfileAUMapped(profile, auId)) continue;
+    const normalized = normalizeAUWeight(weight);
+    if (!Number.isFinite(normalized.value) || normalized.value === 0) continue;
+
+    if (normalized.value < 0) {
+      const pairInfo = profile.continuumPairs?.[auId];
+      if (!pairInfo || !isProfileAUMapped(profile, pairInfo.pairId)) continue;
+      const negAU = pairInfo.isNegative ? auId : pairInfo.pairId;
+      const posAU = pairInfo.isNegative ? pairInfo.pairId : auId;
+      const value = pairInfo.isNegative ? -normalized.value : normalized.value;
+      continuums.push({ negAU, posAU, value: clamp(value, -1, 1) });
+      continue;
+    }
+
+    aus[auId] = { ...normalized, value: clamp(normalized.value, 0, 1) };
+  }
+
+  for (const continuum of expression.continuums || []) {
+    if (!isProfileAUMapped(profile, continuum.negAU) || !isProfileAUMapped(profile, continuum.posAU)) continue;
+    if (!Number.isFinite(continuum.value) || continuum.value === 0) continue;
+    continuums.push({ ...continuum, value: clamp(continuum.value, -1, 1) });
+  }
+
+  for (const [auIdStr, weight] of Object.entries(expression.mixWeights || {})) {
+    const auId = Number(auIdStr);
+    if (Number.isNaN(auId) || !isProfileAUMapped(profile, auId) || !Number.isFinite(weight)) continue;
+    mixWeights[auId] = clamp(weight, 0, 1);
+  }
+
+  return { aus, continuums, mixWeights };
+}
+
+/**
+ * Blend several active expressions into a single AU target set.
+ *
+ * AU and continuum contributions are summed (scaled by intensity) and
+ * clamped, so co-active expressions layer instead of overwriting each
+ * other. Balances and mix weights are intensity-weighted averages.
+ */
+export function blendExpressions(profile: Profile, intensities: Record<string, number>): ExpressionBlendResult {
+  const expressions = getProfileExpressions(profile);
+  const auSums: Record<number, { value: number; balanceSum: number; balanceWeight: number }> = {};
+  const continuums: Record<string, ExpressionContinuumWeight> = {};
+  const mixSums: Record<number, { sum: number; weight: number }> = {};
+
+  for (const [name, rawIntensity] of Object.entries(intensities)) {
+    const expression = expressions[name];
+    const intensity = clamp(rawIntensity, 0, 1);
+    if (!expression || intensity <= 0) continue;
+
+    const resolved = resolveExpression(profile, expression);
+
+    for (const [auIdStr, weight] of Object.entries(resolved.aus)) {
+      const auId = Number(auIdStr);
+      const contribution = weight.value * intensity;
+      const entry = auSums[auId] ?? { value: 0, balanceSum: 0, balanceWeight: 0 };
+      entry.value += contribution;
+      entry.balanceSum += (weight.balance ?? 0) * contribution;
+      entry.balanceWeight += contribution;
+      auSums[auId] = entry;
+    }
+
+    for (const continuum of resolved.continuums) {
+      const key = `${continuum.negAU}-${continuum.posAU}`;
+      const existing = continuums[key];
+      continuums[key] = {
+        negAU: continuum.negAU,
+        posAU: continuum.posAU,
+        value: (existing?.value ?? 0) + continuum.value * intensity,
+      };
+    }
+
+    for (const [auIdStr, weight] of Object.entries(resolved.mixWeights)) {
+      const auId = Number(auIdStr);
+      const entry = mixSums[auId] ?? { sum: 0, weight: 0 };
+      entry.sum += weight * intensity;
+      entry.weight += intensity;
+      mixSums[auId] = entry;
+    }
+  }
+
+  const aus: Record<number, ResolvedExpressionAU> = {};
+  for (const [auIdStr, entry] of Object.entries(auSums)) {
+    const balance = entry.balanceWeight > 0 ? entry.balanceSum / entry.balanceWeight : 0;
+    aus[Number(auIdStr)] = {
+      value: clamp(entry.value, 0, 1),
+      balance: balance !== 0 ? clamp(balance, -1, 1) : undefined,
+    };
+  }
+
+  for (const continuum of Object.values(continuums)) {
+    continuum.value = clamp(continuum.value, -1, 1);
+  }
+
+  const mixWeights: Record<number, number> = {};
+  for (const [auIdStr, entry] of Object.entries(mixSums)) {
+    if (entry.weight > 0) mixWeights[Number(auIdStr)] = entry.sum / entry.weight;
+  }
+
+  return { aus, continuums, mixWeights };
+}
@@ -195,5 +195,32 @@ export function extendPresetWithProfile(base: Profile, extension?: Partial<Profi
     annotationRegions: mergeAnnotationRegions(base.annotationRegions, extension.annotationRegions),
     disabledRegions,
     hairPhysics: mergeHairPhysicsConfig(base.hairPhysics, extension.hairPhysics),
+    expressions: base.expressions || extension.expressions
+      ? mergeRecord(base.expressions || {}, extension.expressions || {})
+      : undefined,
+    affectAnchors: extension.affectAnchors
+      ? extension.affectAnchors.map((anchor) => ({ ...anchor }))
+      : base.affectAnchors
+        ? base.affectAnchors.map((anchor) => ({ ...anchor }))
+        : undefined,
+    blink: base.blink || extension.blink
+      ? {
+          ...base.blink,
+          ...extension.blink,
+        }
+      : undefined,
+    gazeMotion: base.gazeMotion || extension.gazeMotion
+      ? {
+          ...base.gazeMotion,
+          ...extension.gazeMotion,
+        }
+      : undefined,
+    breathing: base.breathing || extension.breathing
+      ? {
+          ...base.breathing,
+          ...extension.breathing,
+        }
+      : undefined,
+    animationGraph: extension.animationGraph ?? base.animationGraph,
   };
 }
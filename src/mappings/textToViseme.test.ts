@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { CC4_PRESET } from '../presets/cc4';
+import { textToPhonemes, textToVisemeTimeline } from './textToViseme';
+import { getVisemeSlotIndex } from './visemeSystem';
+
+describe('textToPhonemes', () => {
+  it('uses the lexicon for irregular words and rules for the rest', () => {
+    expect(textToPhonemes('The night, knowing thought!')).toEqual([
+      ['DH', 'AH'],
+      ['N', 'AY', 'T'],
+      ['N', 'OW', 'IH', 'NG'],
+      ['TH', 'AO', 'T'],
+    ]);
+    expect(textToPhonemes('make times jumped quickly happy fly')).toEqual([
+      ['M', 'EY', 'K'],
+      ['T', 'AY', 'M', 'Z'],
+      ['JH', 'AH', 'M', 'P', 'T'],
+      ['K', 'W', 'IH', 'K', 'L', 'IY'],
+      ['HH', 'AE', 'P', 'IY'],
+      ['F', 'L', 'AY'],
+    ]);
+  });
+
+  it('spells digits and accepts a custom lexicon', () => {
+    expect(textToPhonemes('3 loom', { loom: 'L UW1 M' })).toEqual([
+      ['TH', 'R', 'IY'],
+      ['L', 'UW', 'M'],
+    ]);
+    expect(textToPhonemes('constructor')[0][0]).toBe('K');
+  });
+});
+
+describe('textToVisemeTimeline', () => {
+  it('is deterministic and scales with speaking rate', () => {
+    const a = textToVisemeTimeline('Hello world, my friend.', CC4_PRESET);
+    const b = textToVisemeTimeline('Hello world, my friend.', CC4_PRESET);
+    expect(a).toEqual(b);
+
+    const fast = textToVisemeTimeline('Hello world my friend', CC4_PRESET, { wordsPerMinute: 300 });
+    const slow = textToVisemeTimeline('Hello world my friend', CC4_PRESET, { wordsPerMinute: 150 });
+    expect(fast.duration).toBeCloseTo(slow.duration / 2);
+  });
+
+  it('maps phonemes to viseme slots and pauses at punctuation', () => {
+    const timeline = textToVisemeTimeline('Mom. Mom', CC4_PRESET, { sentencePause: 0.5 });
+    const bmp = getVisemeSlotIndex(CC4_PRESET, 'b-m-p');
+
+    expect(timeline.cues.map((cue) => cue.index)).toEqual([
+      bmp,
+      getVisemeSlotIndex(CC4_PRESET, 'ah'),
+      bmp,
+      bmp,
+      getVisemeSlotIndex(CC4_PRESET, 'ah'),
+      bmp,
+    ]);
+    const firstWordEnd = timeline.phonemes[2].end;
+    expect(timeline.phonemes[3].start - firstWordEnd).toBeCloseTo(0.5);
+    expect(Object.keys(timeline.curves)).toContain(String(bmp));
+  });
+
+  it('optionally coarticulates the curves', () => {
+    const plain = textToVisemeTimeline('beam me up', CC4_PRESET);
+    const smoothed = textToVisemeTimeline('beam me up', CC4_PRESET, { coarticulation: true });
+    expect(Object.keys(smoothed.curves).sort()).toEqual(Object.keys(plain.curves).sort());
+    expect(smoothed.curves).not.toEqual(plain.curves);
+  });
+});
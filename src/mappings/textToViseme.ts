@@ -0,0 +1,314 @@
+import type { CurvesMap } from '../core/types';
+import type { Profile } from './types';
+import {
+  buildVisemeCurves,
+  parsePhonemeTimings,
+  type PhonemeTiming,
+  type VisemeAlignmentOptions,
+  type VisemeCue,
+} from './visemeAlignment';
+import { coarticulateVisemeCurves, type CoarticulationOptions } from './visemeCoarticulation';
+
+export interface TextToVisemeOptions extends VisemeAlignmentOptions {
+  /** Speaking rate (default: 150) */
+  wordsPerMinute?: number;
+  /** Pause after , ; : in seconds (default: 0.2) */
+  commaPause?: number;
+  /** Pause after . ! ? in seconds (default: 0.4) */
+  sentencePause?: number;
+  /** Extra pronunciations (ARPAbet, space-separated or array) checked before the built-in lexicon */
+  lexicon?: Record<string, string | string[]>;
+  /** Run `coarticulateVisemeCurves` on the result; pass options to tune it (default: false) */
+  coarticulation?: boolean | CoarticulationOptions;
+}
+
+export interface TextVisemeTimeline {
+  /** Timed phonemes (ARPAbet, no stress markers), silences omitted */
+  phonemes: PhonemeTiming[];
+  /** Phonemes resolved to profile viseme slots */
+  cues: VisemeCue[];
+  /** visemeSnippet curves keyed by slot index */
+  curves: CurvesMap;
+  /** Seconds from the first word to the end of the last phoneme */
+  duration: number;
+}
+
+/**
+ * Irregular and high-frequency words the letter-to-sound rules get wrong.
+ */
+export const G2P_LEXICON: Record<string, string> = {
+  a: 'AH',
+  about: 'AH B AW T',
+  again: 'AH G EH N',
+  all: 'AO L',
+  any: 'EH N IY',
+  are: 'AA R',
+  as: 'AE Z',
+  be: 'B IY',
+  been: 'B IH N',
+  both: 'B OW TH',
+  buy: 'B AY',
+  by: 'B AY',
+  come: 'K AH M',
+  could: 'K UH D',
+  do: 'D UW',
+  does: 'D AH Z',
+  done: 'D AH N',
+  eye: 'AY',
+  father: 'F AA DH ER',
+  from: 'F R AH M',
+  give: 'G IH V',
+  gone: 'G AO N',
+  good: 'G UH D',
+  have: 'HH AE V',
+  he: 'HH IY',
+  hello: 'HH AH L OW',
+  here: 'HH IY R',
+  i: 'AY',
+  is: 'IH Z',
+  know: 'N OW',
+  live: 'L IH V',
+  love: 'L AH V',
+  many: 'M EH N IY',
+  me: 'M IY',
+  most: 'M OW S T',
+  mother: 'M AH DH ER',
+  move: 'M UW V',
+  my: 'M AY',
+  no: 'N OW',
+  of: 'AH V',
+  once: 'W AH N S',
+  one: 'W AH N',
+  only: 'OW N L IY',
+  people: 'P IY P AH L',
+  put: 'P UH T',
+  said: 'S EH D',
+  says: 'S EH Z',
+  she: 'SH IY',
+  should: 'SH UH D',
+  so: 'S OW',
+  some: 'S AH M',
+  sure: 'SH UH R',
+  the: 'DH AH',
+  their: 'DH EH R',
+  there: 'DH EH R',
+  they: 'DH EY',
+  this: 'DH IH S',
+  those: 'DH OW Z',
+  to: 'T UW',
+  today: 'T AH D EY',
+  two: 'T UW',
+  very: 'V EH R IY',
+  want: 'W AA N T',
+  was: 'W AA Z',
+  we: 'W IY',
+  were: 'W ER',
+  what: 'W AH T',
+  where: 'W EH R',
+  who: 'HH UW',
+  why: 'W AY',
+  with: 'W IH DH',
+  word: 'W ER D',
+  world: 'W ER L D',
+  would: 'W UH D',
+  you: 'Y UW',
+  your: 'Y AO R',
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+const VOWEL_PHONEMES = new Set([
+  'AA', 'AE', 'AH', 'AO', 'AW', 'AX', 'AY', 'EH', 'ER', 'EY', 'IH', 'IX', 'IY', 'OW', 'OY', 'UH', 'UW',
+]);
+const STOP_PHONEMES = new Set(['P', 'B', 'T', 'D', 'K', 'G']);
+
+/** Average relative phoneme weight of a spoken word, used to scale word durations. */
+const AVERAGE_WORD_WEIGHT = 4.5;
+
+/**
+ * Letter-to-sound rules, tried in order at each position. Lookbehind/lookahead carry the context;
+ * the first rule whose pattern matches at the current letter wins and consumes its match.
+ */
+const LETTER_RULES: Array<[RegExp, string]> = [
+  [/tion/y, 'SH AH N'],
+  [/sion/y, 'ZH AH N'],
+  [/ture/y, 'CH ER'],
+  [/eigh/y, 'EY'],
+  [/ough/y, 'AO'],
+  [/augh/y, 'AO'],
+  [/igh/y, 'AY'],
+  [/tch/y, 'CH'],
+  [/ch/y, 'CH'],
+  [/sh/y, 'SH'],
+  [/th/y, 'TH'],
+  [/ph/y, 'F'],
+  [/wh/y, 'W'],
+  [/ck/y, 'K'],
+  [/ng/y, 'NG'],
+  [/qu/y, 'K W'],
+  [/(?<!.)gh/y, 'G'],
+  [/gh/y, ''],
+  [/(?<!.)kn/y, 'N'],
+  [/(?<!.)wr/y, 'R'],
+  [/mb(?!.)/y, 'M'],
+  [/ee/y, 'IY'],
+  [/ea/y, 'IY'],
+  [/oo/y, 'UW'],
+  [/ou/y, 'AW'],
+  [/ow/y, 'OW'],
+  [/o[iy]/y, 'OY'],
+  [/a[iy]/y, 'EY'],
+  [/a[uw]/y, 'AO'],
+  [/oa/y, 'OW'],
+  [/ie/y, 'IY'],
+  [/ei/y, 'EY'],
+  [/ue/y, 'UW'],
+  [/ew/y, 'UW'],
+  [/ar/y, 'AA R'],
+  [/or/y, 'AO R'],
+  [/[eiu]r(?![aeiouy])/y, 'ER'],
+  // Silent-e lengthens the preceding vowel (make, bike, home, cute, these).
+  [/a(?=[^aeiouy]es?(?!.))/y, 'EY'],
+  [/i(?=[^aeiouy]es?(?!.))/y, 'AY'],
+  [/o(?=[^aeiouy]es?(?!.))/y, 'OW'],
+  [/u(?=[^aeiouy]es?(?!.))/y, 'UW'],
+  [/e(?=[^aeiouy]es?(?!.))/y, 'IY'],
+  [/(?<=[td])ed(?!.)/y, 'IH D'],
+  [/(?<=[pkfx]|[cs]h|s)ed(?!.)/y, 'T'],
+  [/(?<=..)ed(?!.)/y, 'D'],
+  [/(?<=[aeiouy][^aeiouysxz])es(?!.)/y, 'Z'],
+  [/(?<=..)e(?!.)/y, ''],
+  [/(?<!.)y(?=[aeiou])/y, 'Y'],
+  [/(?<=^[^aeiou]+)y(?!.)/y, 'AY'],
+  [/(?<=.[^aeiou])y(?!.)/y, 'IY'],
+  [/(?<=[aeiouy])s(?!.)/y, 'Z'],
+  [/c(?=[eiy])/y, 'S'],
+  [/g(?=[eiy])/y, 'JH'],
+  [/(?<!.)x/y, 'Z'],
+  [/x/y, 'K S'],
+];
+
+const LETTER_PHONEMES: Record<string, string> = {
+  a: 'AE', b: 'B', c: 'K', d: 'D', e: 'EH', f: 'F', g: 'G', h: 'HH', i: 'IH', j: 'JH', k: 'K', l: 'L', m: 'M',
+  n: 'N', o: 'AA', p: 'P', q: 'K', r: 'R', s: 'S', t: 'T', u: 'AH', v: 'V', w: 'W', x: 'K S', y: 'IH', z: 'Z',
+};
+
+const splitPhonemes = (value: string | string[]): string[] =>
+  (Array.isArray(value) ? value : value.split(/\s+/))
+    .map((phoneme) => phoneme.trim().toUpperCase().replace(/\d+$/, ''))
+    .filter(Boolean);
+
+function letterToSound(word: string): string[] {
+  const phonemes: string[] = [];
+  let i = 0;
+  while (i < word.length) {
+    const letter = word[i];
+    // Doubled consonants are pronounced once (ll, ss, tt).
+    if (i > 0 && letter === word[i - 1] && !'aeiou'.includes(letter)) {
+      i += 1;
+      continue;
+    }
+    let matched = false;
+    for (const [pattern, output] of LETTER_RULES) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(word);
+      if (!match) continue;
+      phonemes.push(...splitPhonemes(output));
+      i += Math.max(1, match[0].length);
+      matched = true;
+      break;
+    }
+    if (matched) continue;
+    phonemes.push(...splitPhonemes(LETTER_PHONEMES[letter] ?? ''));
+    i += 1;
+  }
+  return phonemes;
+}
+
+const lookup = <T>(table: Record<string, T>, word: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(table, word) ? table[word] : undefined;
+
+type TextToken = { word: string } | { pause: 'comma' | 'sentence' };
+
+function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const match of text.toLowerCase().matchAll(/[a-z']+|\d|[,;:]|[.!?]+/g)) {
+    const value = match[0];
+    if (/^\d$/.test(value)) tokens.push({ word: DIGIT_WORDS[Number(value)] });
+    else if (/^[,;:]$/.test(value)) tokens.push({ pause: 'comma' });
+    else if (/^[.!?]+$/.test(value)) tokens.push({ pause: 'sentence' });
+    else {
+      const word = value.replace(/^'+|'+$/g, '');
+      if (word) tokens.push({ word });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Offline English grapheme-to-phoneme: lexicon lookup first, then letter-to-sound rules.
+ * Returns one ARPAbet phoneme list per word.
+ */
+export function textToPhonemes(text: string, lexicon: Record<string, string | string[]> = {}): string[][] {
+  return tokenize(text).flatMap((token) => {
+    if (!('word' in token)) return [];
+    const bare = token.word.replace(/'/g, '');
+    const entry = lookup(lexicon, token.word) ?? lookup(G2P_LEXICON, token.word) ?? lookup(lexicon, bare);
+    return [entry !== undefined ? splitPhonemes(entry) : letterToSound(bare)];
+  });
+}
+
+function phonemeWeight(phoneme: string): number {
+  if (VOWEL_PHONEMES.has(phoneme)) return 1.6;
+  if (STOP_PHONEMES.has(phoneme)) return 0.8;
+  return 1;
+}
+
+/**
+ * Build a deterministic viseme timeline for text, without a TTS or network.
+ * Word length follows `wordsPerMinute` scaled by how many (and which) phonemes the word has;
+ * punctuation adds pauses where the mouth relaxes.
+ */
+export function textToVisemeTimeline(
+  text: string,
+  profile: Profile,
+  options: TextToVisemeOptions = {}
+): TextVisemeTimeline {
+  const secondsPerWord = 60 / Math.max(1, options.wordsPerMinute ?? 150);
+  const commaPause = Math.max(0, options.commaPause ?? 0.2);
+  const sentencePause = Math.max(0, options.sentencePause ?? 0.4);
+  const lexicon = options.lexicon ?? {};
+
+  const phonemes: PhonemeTiming[] = [];
+  let time = 0;
+  let end = 0;
+  for (const token of tokenize(text)) {
+    if ('pause' in token) {
+      if (phonemes.length > 0) time += token.pause === 'comma' ? commaPause : sentencePause;
+      continue;
+    }
+    const [wordPhonemes] = textToPhonemes(token.word, lexicon);
+    if (!wordPhonemes || wordPhonemes.length === 0) continue;
+
+    const weights = wordPhonemes.map(phonemeWeight);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const wordDuration = secondsPerWord * Math.max(0.5, Math.min(2, totalWeight / AVERAGE_WORD_WEIGHT));
+    wordPhonemes.forEach((phoneme, index) => {
+      const duration = (weights[index] / totalWeight) * wordDuration;
+      phonemes.push({ phoneme, start: time, end: time + duration });
+      time += duration;
+    });
+    end = time;
+  }
+
+  const cues = parsePhonemeTimings(profile, phonemes);
+  let curves = buildVisemeCurves(cues, options);
+  if (options.coarticulation) {
+    curves = coarticulateVisemeCurves(profile, curves, {
+      ...(options.coarticulation === true ? {} : options.coarticulation),
+      snippetCategory: 'visemeSnippet',
+    });
+  }
+
+  return { phonemes, cues, curves, duration: end };
+}
@@ -5,7 +5,7 @@
  * Profiles define how Action Units map to morphs/bones for a specific rig.
  */
 
-import type { BoneBinding, AUInfo, CompositeRotation } from '../core/types';
+import type { AnimationGraphDefinition, BoneBinding, AUInfo, CompositeRotation } from '../core/types';
 import type { AnnotationRegion } from '../regions/types';
 
 export type { AnnotationRegion } from '../regions/types';
@@ -166,6 +166,217 @@ export interface Profile {
    * Optional: Hair physics defaults for this preset/profile.
    */
   hairPhysics?: HairPhysicsProfileConfig;
+
+  /**
+   * Optional: Named expressions (weighted AU bundles) keyed by expression name.
+   * Merged over the built-in basic-emotion defaults at runtime.
+   */
+  expressions?: Record<string, ExpressionDefinition>;
+
+  /**
+   * Optional: Anchor expressions placed in valence/arousal/dominance space.
+   * Replaces the built-in circumplex anchors when provided.
+   */
+  affectAnchors?: AffectAnchor[];
+
+  /**
+   * Optional: Procedural blink/eyelid defaults for this preset/profile.
+   */
+  blink?: BlinkProfileConfig;
+
+  /**
+   * Optional: Idle gaze micro-motion (microsaccades, drift, glance-aways) for this preset/profile.
+   */
+  gazeMotion?: GazeMotionProfileConfig;
+
+  /**
+   * Optional: Procedural breathing defaults for this preset/profile.
+   */
+  breathing?: BreathingProfileConfig;
+
+  /**
+   * Optional: Animation graph (states over baked clips/snippets) stored with the character.
+   */
+  animationGraph?: AnimationGraphDefinition;
+}
+
+/**
+ * AU weight inside an expression. A bare number is a centered weight;
+ * the object form adds an L/R balance (-1 = left only, 1 = right only).
+ * Negative weights on continuum AUs drive the paired AU.
+ */
+export type ExpressionAUWeight = number | { value: number; balance?: number };
+
+/**
+ * Continuum contribution inside an expression (e.g. head pitch, gaze).
+ */
+export interface ExpressionContinuumWeight {
+  /** AU ID for the negative direction */
+  negAU: number;
+  /** AU ID for the positive direction */
+  posAU: number;
+  /** Continuum value at full intensity (-1 to 1) */
+  value: number;
+}
+
+/**
+ * Named expression - a weighted bundle of AUs, continuum values and mix weights.
+ * Weights are scaled by the expression intensity when applied.
+ */
+export interface ExpressionDefinition {
+  /** Human-readable label for UIs */
+  label?: string;
+  /** Optional description (e.g. the FACS reference) */
+  description?: string;
+  /** AU ID -> weight at full intensity */
+  aus: Record<number, ExpressionAUWeight>;
+  /** Continuum pair values at full intensity */
+  continuums?: ExpressionContinuumWeight[];
+  /** AU ID -> morph/bone mix weight while the expression is active */
+  mixWeights?: Record<number, number>;
+}
+
+/**
+ * Point in affect space. Each axis runs from -1 to 1.
+ */
+export interface AffectPoint {
+  /** Unpleasant (-1) to pleasant (1) */
+  valence: number;
+  /** Deactivated (-1) to activated (1) */
+  arousal: number;
+  /** Optional: submissive (-1) to dominant (1). Omit to work in 2D. */
+  dominance?: number;
+}
+
+/**
+ * Expression anchored at a point in affect space.
+ * An anchor without an expression marks the neutral pose.
+ */
+export interface AffectAnchor extends AffectPoint {
+  /** Expression name (from `expressions` or the built-in defaults) */
+  expression?: string;
+  /** Expression intensity at the anchor (default: 1) */
+  intensity?: number;
+}
+
+/**
+ * Procedural blink and eyelid-follow defaults stored in presets/profiles.
+ * Times are in milliseconds.
+ */
+export interface BlinkProfileConfig {
+  /** Start autonomous blinking when the engine is created (default: false) */
+  enabled?: boolean;
+  /** AUs that close the upper lid (default: [45]) */
+  blinkAUs?: number[];
+  /** AUs that raise the upper lid when the eyes look up (default: [5]) */
+  lidRaiseAUs?: number[];
+  /** Composite rotation nodes whose pitch/yaw drive lid follow and gaze blinks */
+  eyeNodes?: string[];
+  /** Shortest gap between autonomous blinks */
+  minIntervalMs?: number;
+  /** Mean gap between autonomous blinks */
+  meanIntervalMs?: number;
+  /** Probability (0-1) that an autonomous blink is followed by a second one */
+  doubleBlinkChance?: number;
+  /** Lid closing duration */
+  closeMs?: number;
+  /** Time the lid stays closed */
+  holdMs?: number;
+  /** Lid opening duration */
+  openMs?: number;
+  /** Peak blink value (0-1) */
+  amplitude?: number;
+  /** Random variation subtracted from the peak (0-1) */
+  amplitudeJitter?: number;
+  /** Eye rotation change (normalized -1..1 units) within gazeWindowMs that counts as a saccade */
+  gazeBlinkThreshold?: number;
+  /** Probability (0-1) of blinking on a detected saccade */
+  gazeBlinkChance?: number;
+  /** Window for saccade detection */
+  gazeWindowMs?: number;
+  /** Blink AU amount added per unit of downward eye pitch */
+  lidFollowDown?: number;
+  /** Lid raise AU amount added per unit of upward eye pitch */
+  lidFollowUp?: number;
+}
+
+/**
+ * Idle gaze micro-motion configuration.
+ * Angles are in degrees, times in milliseconds. Offsets are added on top of
+ * whatever gaze the app sets on the eye continuum pairs.
+ */
+export interface GazeMotionProfileConfig {
+  /** Start the micro-motion layer when the engine is created (default: false) */
+  enabled?: boolean;
+  /** Composite rotation nodes treated as eyes */
+  eyeNodes?: string[];
+  /** Average microsaccades per second */
+  microsaccadeRate?: number;
+  /** Typical microsaccade size */
+  microsaccadeAmplitude?: number;
+  /** Drift speed of the fixation point (degrees per second) */
+  driftSpeed?: number;
+  /** Furthest the fixation point may wander from the explicit gaze */
+  maxFixationOffset?: number;
+  /** Shortest gap between glance-aways */
+  glanceMinIntervalMs?: number;
+  /** Mean gap between glance-aways (0 disables glances) */
+  glanceMeanIntervalMs?: number;
+  /** Smallest glance-away size */
+  glanceMinAmplitude?: number;
+  /** Largest glance-away size */
+  glanceMaxAmplitude?: number;
+  /** How long a glance-away holds before returning */
+  glanceHoldMs?: number;
+  /** Time constant of saccadic eye movements */
+  saccadeMs?: number;
+  /** Eye range assumed for pairs without bone bindings */
+  fallbackRange?: number;
+}
+
+/**
+ * Breathing rhythm presets.
+ * - calm: even, shallow breaths
+ * - heavy: slower, deeper breaths with more chest and shoulder lift
+ * - sighing: calm breaths with a periodic double-inhale sigh
+ */
+export type BreathingStyle = 'calm' | 'heavy' | 'sighing';
+
+/**
+ * Additive rotation applied to one bone at full inhale (degrees, local Euler axes).
+ */
+export interface BreathingBoneConfig {
+  /** Bone node key (e.g. 'SPINE_02') */
+  node: string;
+  rx?: number;
+  ry?: number;
+  rz?: number;
+}
+
+/**
+ * Procedural breathing layer configuration.
+ */
+export interface BreathingProfileConfig {
+  /** Start breathing when the engine is created (default: false) */
+  enabled?: boolean;
+  /** Breathing rhythm preset */
+  style?: BreathingStyle;
+  /** Breaths per minute at neutral arousal */
+  rate?: number;
+  /** Overall depth multiplier (0 = no motion) */
+  depth?: number;
+  /** Bones and their full-inhale rotations */
+  bones?: BreathingBoneConfig[];
+  /** Optional nostril-flare AUs that follow the inhale */
+  nostrilAUs?: number[];
+  /** Nostril-flare amount at full inhale (0-1) */
+  nostrilAmount?: number;
+  /** Rate increase per unit of affect arousal (0.5 = 50% faster at arousal 1) */
+  arousalRate?: number;
+  /** Depth increase per unit of affect arousal */
+  arousalDepth?: number;
+  /** Time constant for easing rate/depth toward arousal-driven targets */
+  responseMs?: number;
 }
 
 /**
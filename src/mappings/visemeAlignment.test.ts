@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CC4_PRESET } from '../presets/cc4';
+import {
+  alignmentToVisemeCurves,
+  buildVisemeCurves,
+  parseAzureVisemeEvents,
+  parsePhonemeTimings,
+  parsePollySpeechMarks,
+  parseRhubarbCues,
+} from './visemeAlignment';
+import { getVisemeSlotIndex } from './visemeSystem';
+
+const BMP = getVisemeSlotIndex(CC4_PRESET, 'b-m-p');
+const AH = getVisemeSlotIndex(CC4_PRESET, 'ah');
+const EE = getVisemeSlotIndex(CC4_PRESET, 'ee');
+
+describe('viseme alignment parsers', () => {
+  it('parses Azure viseme events and skips silence', () => {
+    const cues = parseAzureVisemeEvents(CC4_PRESET, [
+      { visemeId: 0, audioOffset: 0 },
+      { visemeId: 21, audioOffset: 1_000_000 },
+      { visemeId: 2, audioOffset: 2_000_000 },
+    ]);
+    expect(cues).toEqual([
+      { index: BMP, start: 0.1, end: 0.2 },
+      { index: AH, start: 0.2, end: expect.closeTo(0.32) },
+    ]);
+  });
+
+  it('parses Polly speech marks from the raw stream', () => {
+    const stream = [
+      '{"time":0,"type":"word","start":0,"end":5,"value":"Mia"}',
+      '{"time":0,"type":"viseme","value":"p"}',
+      '{"time":120,"type":"viseme","value":"i"}',
+      '{"time":250,"type":"viseme","value":"sil"}',
+    ].join('\n');
+    expect(parsePollySpeechMarks(CC4_PRESET, stream)).toEqual([
+      { index: BMP, start: 0, end: 0.12 },
+      { index: EE, start: 0.12, end: 0.25 },
+    ]);
+  });
+
+  it('parses Rhubarb TSV and JSON exports', () => {
+    const tsv = '0.00\tX\n0.10\tA\n0.25\tD\n0.40\tX\n';
+    const json = {
+      mouthCues: [
+        { start: 0, end: 0.1, value: 'X' },
+        { start: 0.1, end: 0.25, value: 'A' },
+        { start: 0.25, end: 0.4, value: 'D' },
+      ],
+    };
+    const expected = [
+      { index: BMP, start: 0.1, end: 0.25 },
+      { index: AH, start: 0.25, end: 0.4 },
+    ];
+    expect(parseRhubarbCues(CC4_PRESET, tsv)).toEqual(expected);
+    expect(parseRhubarbCues(CC4_PRESET, json)).toEqual(expected);
+  });
+
+  it('parses generic phoneme timings with stress markers', () => {
+    const cues = parsePhonemeTimings(CC4_PRESET, [
+      { phoneme: 'sil', start: 0, end: 0.1 },
+      { phoneme: 'M', start: 0.1, end: 0.2 },
+      { phoneme: 'AA1', start: 0.2, end: 0.35, weight: 0.7 },
+    ]);
+    expect(cues).toEqual([
+      { index: BMP, start: 0.1, end: 0.2, weight: undefined },
+      { index: AH, start: 0.2, end: 0.35, weight: 0.7 },
+    ]);
+  });
+});
+
+describe('buildVisemeCurves', () => {
+  it('ramps each cue and ends every curve together', () => {
+    const curves = buildVisemeCurves([
+      { index: BMP, start: 0.1, end: 0.2 },
+      { index: AH, start: 0.2, end: 0.4, weight: 0.5 },
+    ], { rampIn: 0.05, rampOut: 0.05 });
+
+    expect(curves[String(BMP)].map((p) => p.intensity)).toEqual([0, 1, 1, 0, 0]);
+    expect(curves[String(AH)][1]).toEqual({ time: 0.2, intensity: 0.5 });
+    const ends = Object.values(curves).map((points) => points[points.length - 1].time);
+    expect(ends[0]).toBeCloseTo(0.45);
+    expect(ends[1]).toBeCloseTo(0.45);
+  });
+
+  it('merges back-to-back cues on the same slot', () => {
+    const curves = buildVisemeCurves([
+      { index: BMP, start: 0.1, end: 0.2 },
+      { index: BMP, start: 0.22, end: 0.3 },
+    ], { rampIn: 0.05, rampOut: 0.05 });
+    expect(curves[String(BMP)].map((p) => p.intensity)).toEqual([0, 1, 1, 0]);
+  });
+
+  it('shifts by the offset and clips what falls before zero', () => {
+    const delayed = buildVisemeCurves([{ index: BMP, start: 0, end: 0.1 }], { offset: 0.5, rampIn: 0.05 });
+    expect(delayed[String(BMP)][1].time).toBeCloseTo(0.5);
+
+    const trimmed = buildVisemeCurves([{ index: BMP, start: 0, end: 0.2 }], { offset: -0.03, rampIn: 0.05 });
+    const points = trimmed[String(BMP)];
+    expect(points[0].time).toBe(0);
+    expect(points[0].intensity).toBeCloseTo(1);
+    expect(points.every((p) => p.time >= 0)).toBe(true);
+  });
+
+  it('converts a whole utterance through the format switch', () => {
+    const curves = alignmentToVisemeCurves(CC4_PRESET, {
+      format: 'phonemes',
+      phonemes: [{ phoneme: 'IY', start: 0, end: 0.2 }],
+    }, { intensity: 0.8 });
+    expect(Object.keys(curves)).toEqual([String(EE)]);
+    expect(Math.max(...curves[String(EE)].map((p) => p.intensity))).toBeCloseTo(0.8);
+  });
+});
@@ -0,0 +1,343 @@
+import type { CurvePoint, CurvesMap } from '../core/types';
+import type { Profile } from './types';
+import { mapProviderVisemeToSlot, type ProviderVisemeEvent } from './visemeSystem';
+
+/**
+ * One timed viseme in an utterance. Times are in seconds from the start of the audio.
+ */
+export interface VisemeCue {
+  /** Profile viseme slot index (curve id in a visemeSnippet) */
+  index: number;
+  start: number;
+  end: number;
+  /** Peak intensity (default: 1) */
+  weight?: number;
+}
+
+/** Azure Speech `VisemeReceived` event (audioOffset is in 100-ns ticks). */
+export interface AzureVisemeEvent {
+  visemeId: number;
+  audioOffset: number;
+}
+
+/** Amazon Polly speech mark (one line of the speech marks stream). */
+export interface PollySpeechMark {
+  /** Offset in milliseconds */
+  time: number;
+  type: string;
+  value: string;
+  start?: number;
+  end?: number;
+}
+
+/** Rhubarb Lip Sync JSON export (`-f json`). */
+export interface RhubarbMouthCues {
+  mouthCues: Array<{ start: number; end: number; value: string }>;
+}
+
+/** Generic phoneme timing, e.g. from a forced aligner. Times in seconds. */
+export interface PhonemeTiming {
+  phoneme: string;
+  start: number;
+  end: number;
+  weight?: number;
+}
+
+export interface VisemeAlignmentOptions {
+  /**
+   * Shift every cue by this many seconds. Positive values delay the mouth relative to
+   * the clip start (e.g. audio scheduled later); negative values trim audio that has
+   * already played. Curve points before 0 are clipped.
+   */
+  offset?: number;
+  /** Seconds to ramp into a viseme before its start (default: 0.06) */
+  rampIn?: number;
+  /** Seconds to ramp out after its end (default: 0.08) */
+  rampOut?: number;
+  /** Multiplier applied to every cue weight (default: 1) */
+  intensity?: number;
+  /** Duration given to the final point-style event that has no explicit end (default: 0.12) */
+  lastCueDuration?: number;
+}
+
+const AZURE_TICKS_PER_SECOND = 10_000_000;
+const DEFAULT_RAMP_IN = 0.06;
+const DEFAULT_RAMP_OUT = 0.08;
+const DEFAULT_LAST_CUE_DURATION = 0.12;
+
+/** Polly viseme codes -> representative ARPAbet phoneme for slot lookup. */
+export const POLLY_VISEME_PHONEMES: Record<string, string> = {
+  p: 'P',
+  t: 'T',
+  S: 'SH',
+  T: 'TH',
+  f: 'F',
+  k: 'K',
+  i: 'IY',
+  r: 'R',
+  s: 'S',
+  u: 'UW',
+  '@': 'AX',
+  a: 'AA',
+  e: 'EY',
+  E: 'EH',
+  o: 'OW',
+  O: 'AO',
+};
+
+/** Rhubarb mouth shapes -> representative ARPAbet phoneme for slot lookup. X is rest. */
+export const RHUBARB_SHAPE_PHONEMES: Record<string, string> = {
+  A: 'P',
+  B: 'T',
+  C: 'EH',
+  D: 'AA',
+  E: 'AO',
+  F: 'UW',
+  G: 'F',
+  H: 'L',
+};
+
+const SILENCE_PHONEMES = new Set(['sil', 'sp', 'spn', 'pau', 'x', '']);
+
+/**
+ * Resolve an event to a slot index. Rest/unknown matches return null so silence
+ * simply lets the mouth relax instead of holding a closed-lip viseme.
+ */
+function resolveSlotIndex(profile: Profile, event: ProviderVisemeEvent): number | null {
+  const match = mapProviderVisemeToSlot(profile, event);
+  if (!match || match.reason === 'rest' || match.reason === 'none') return null;
+  return match.index;
+}
+
+/** Turn point events (onset only) into cues that last until the next event. */
+function pointEventsToCues(
+  events: Array<{ start: number; index: number | null }>,
+  lastCueDuration: number
+): VisemeCue[] {
+  const sorted = [...events].sort((a, b) => a.start - b.start);
+  const cues: VisemeCue[] = [];
+  for (let i = 0; i < sorted.length; i += 1) {
+    const { start, index } = sorted[i];
+    if (index === null) continue;
+    const end = i + 1 < sorted.length ? sorted[i + 1].start : start + lastCueDuration;
+    if (end > start) cues.push({ index, start, end });
+  }
+  return cues;
+}
+
+export function parseAzureVisemeEvents(
+  profile: Profile,
+  events: AzureVisemeEvent[],
+  options: Pick<VisemeAlignmentOptions, 'lastCueDuration'> = {}
+): VisemeCue[] {
+  return pointEventsToCues(
+    events.map((event) => ({
+      start: event.audioOffset / AZURE_TICKS_PER_SECOND,
+      // Azure viseme 0 is silence.
+      index: event.visemeId === 0 ? null : resolveSlotIndex(profile, { provider: 'azure', id: event.visemeId }),
+    })),
+    options.lastCueDuration ?? DEFAULT_LAST_CUE_DURATION
+  );
+}
+
+/**
+ * Parse Polly speech marks, either the raw newline-delimited JSON stream or parsed objects.
+ * Only `viseme` marks are used.
+ */
+export function parsePollySpeechMarks(
+  profile: Profile,
+  marks: string | PollySpeechMark[],
+  options: Pick<VisemeAlignmentOptions, 'lastCueDuration'> = {}
+): VisemeCue[] {
+  const list: PollySpeechMark[] = typeof marks === 'string'
+    ? marks.split(/\r?\n/).filter((line) => line.trim() !== '').flatMap((line) => {
+        try {
+          return [JSON.parse(line) as PollySpeechMark];
+        } catch {
+          console.warn(`[Loom3] parsePollySpeechMarks: Skipping malformed line "${line}"`);
+          return [];
+        }
+      })
+    : marks;
+
+  return pointEventsToCues(
+    list
+      .filter((mark) => mark.type === 'viseme')
+      .map((mark) => {
+        const silent = mark.value === 'sil';
+        const phoneme = POLLY_VISEME_PHONEMES[mark.value];
+        return {
+          start: mark.time / 1000,
+          index: silent ? null : resolveSlotIndex(profile, { provider: 'polly', id: mark.value, phoneme }),
+        };
+      }),
+    options.lastCueDuration ?? DEFAULT_LAST_CUE_DURATION
+  );
+}
+
+/**
+ * Parse Rhubarb Lip Sync output: the JSON export or the TSV export (`start<TAB>shape` per line).
+ */
+export function parseRhubarbCues(
+  profile: Profile,
+  data: string | RhubarbMouthCues,
+  options: Pick<VisemeAlignmentOptions, 'lastCueDuration'> = {}
+): VisemeCue[] {
+  const resolveShape = (shape: string) => {
+    if (shape === 'X') return null;
+    return resolveSlotIndex(profile, { provider: 'rhubarb', id: shape, phoneme: RHUBARB_SHAPE_PHONEMES[shape] });
+  };
+
+  if (typeof data !== 'string') {
+    return data.mouthCues
+      .map((cue) => ({ index: resolveShape(cue.value), start: cue.start, end: cue.end }))
+      .filter((cue): cue is VisemeCue => cue.index !== null && cue.end > cue.start);
+  }
+
+  const events = data
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .flatMap((line) => {
+      const [time, shape] = line.split(/\s+/);
+      const start = Number(time);
+      if (!Number.isFinite(start) || !shape) return [];
+      return [{ start, index: resolveShape(shape) }];
+    });
+  return pointEventsToCues(events, options.lastCueDuration ?? DEFAULT_LAST_CUE_DURATION);
+}
+
+export function parsePhonemeTimings(profile: Profile, phonemes: PhonemeTiming[]): VisemeCue[] {
+  const cues: VisemeCue[] = [];
+  for (const entry of phonemes) {
+    // Strip ARPAbet stress digits (AH0, IY1).
+    const phoneme = entry.phoneme.trim().replace(/\d+$/, '');
+    if (SILENCE_PHONEMES.has(phoneme.toLowerCase()) || !(entry.end > entry.start)) continue;
+    const index = resolveSlotIndex(profile, { provider: 'phoneme', phoneme: phoneme.toUpperCase() });
+    if (index === null) continue;
+    cues.push({ index, start: entry.start, end: entry.end, weight: entry.weight });
+  }
+  return cues;
+}
+
+/**
+ * Clip a curve at time 0, interpolating the value where it crosses.
+ */
+function clipCurveAtZero(points: CurvePoint[]): CurvePoint[] {
+  const firstKept = points.findIndex((point) => point.time >= 0);
+  if (firstKept <= 0) return firstKept === 0 ? points : [];
+  const a = points[firstKept - 1];
+  const b = points[firstKept];
+  const u = (0 - a.time) / Math.max(1e-9, b.time - a.time);
+  const head = { time: 0, intensity: a.intensity + (b.intensity - a.intensity) * u };
+  return b.time === 0 ? points.slice(firstKept) : [head, ...points.slice(firstKept)];
+}
+
+/**
+ * Build a visemeSnippet CurvesMap (curve id = slot index) from timed cues.
+ * Each cue ramps in before its start, holds its weight and ramps out after its end;
+ * back-to-back cues on the same slot are merged so the shape does not flicker.
+ *
+ * Feed the result to `snippetToClip(name, curves, { snippetCategory: 'visemeSnippet' })`.
+ * To join audio that is already playing, pass its current time as `startTime` when playing the clip.
+ */
+export function buildVisemeCurves(cues: VisemeCue[], options: VisemeAlignmentOptions = {}): CurvesMap {
+  const offset = options.offset ?? 0;
+  const rampIn = Math.max(0, options.rampIn ?? DEFAULT_RAMP_IN);
+  const rampOut = Math.max(0, options.rampOut ?? DEFAULT_RAMP_OUT);
+  const intensity = options.intensity ?? 1;
+
+  const bySlot = new Map<number, VisemeCue[]>();
+  for (const cue of cues) {
+    if (!(cue.end > cue.start)) continue;
+    const list = bySlot.get(cue.index) ?? [];
+    list.push(cue);
+    bySlot.set(cue.index, list);
+  }
+
+  let endTime = 0;
+  const curves: CurvesMap = {};
+  for (const [index, slotCues] of bySlot) {
+    slotCues.sort((a, b) => a.start - b.start);
+    const points: CurvePoint[] = [];
+
+    let current: { start: number; end: number; weight: number } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const start = current.start + offset;
+      const end = current.end + offset;
+      points.push(
+        { time: start - rampIn, intensity: 0 },
+        { time: start, intensity: current.weight },
+        { time: end, intensity: current.weight },
+        { time: end + rampOut, intensity: 0 }
+      );
+      endTime = Math.max(endTime, end + rampOut);
+    };
+
+    for (const cue of slotCues) {
+      const weight = Math.max(0, (cue.weight ?? 1) * intensity);
+      if (current && cue.start - current.end <= rampIn + rampOut && weight === current.weight) {
+        current.end = Math.max(current.end, cue.end);
+        continue;
+      }
+      if (current && cue.start - current.end < rampIn + rampOut) {
+        // Different weight on the same slot: hold through the gap and step to the new weight.
+        current.end = cue.start;
+      }
+      flush();
+      current = { start: cue.start, end: cue.end, weight };
+    }
+    flush();
+
+    const merged: CurvePoint[] = [];
+    for (const point of points) {
+      const last = merged[merged.length - 1];
+      if (last && point.time <= last.time) {
+        // Overlapping ramps from adjacent cues: keep the later key at a strictly increasing time.
+        last.intensity = Math.max(last.intensity, point.intensity);
+        continue;
+      }
+      merged.push({ ...point });
+    }
+
+    const clipped = clipCurveAtZero(merged);
+    if (clipped.length > 0) curves[String(index)] = clipped;
+  }
+
+  // Give every curve the same end so the clip duration covers the whole utterance.
+  for (const points of Object.values(curves)) {
+    const last = points[points.length - 1];
+    if (last.time < endTime) points.push({ time: endTime, intensity: 0 });
+  }
+
+  return curves;
+}
+
+export type VisemeAlignmentInput =
+  | { format: 'azure'; events: AzureVisemeEvent[] }
+  | { format: 'polly'; marks: string | PollySpeechMark[] }
+  | { format: 'rhubarb'; data: string | RhubarbMouthCues }
+  | { format: 'phonemes'; phonemes: PhonemeTiming[] };
+
+/**
+ * Convert a whole utterance's alignment into a visemeSnippet CurvesMap for the profile.
+ */
+export function alignmentToVisemeCurves(
+  profile: Profile,
+  input: VisemeAlignmentInput,
+  options: VisemeAlignmentOptions = {}
+): CurvesMap {
+  switch (input.format) {
+    case 'azure':
+      return buildVisemeCurves(parseAzureVisemeEvents(profile, input.events, options), options);
+    case 'polly':
+      return buildVisemeCurves(parsePollySpeechMarks(profile, input.marks, options), options);
+    case 'rhubarb':
+      return buildVisemeCurves(parseRhubarbCues(profile, input.data, options), options);
+    case 'phonemes':
+      return buildVisemeCurves(parsePhonemeTimings(profile, input.phonemes), options);
+    default:
+      return {};
+  }
+}
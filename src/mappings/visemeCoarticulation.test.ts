@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import type { CurvePoint, CurvesMap } from '../core/types';
+import type { Profile } from './types';
+import { visemeCurveId } from '../core/snippetOps';
+import { CC4_PRESET } from '../presets/cc4';
+import { buildVisemeCurves } from './visemeAlignment';
+import { coarticulateVisemeCurves } from './visemeCoarticulation';
+import { getVisemeJawAmounts, getVisemeSlotIndex } from './visemeSystem';
+
+const BMP = getVisemeSlotIndex(CC4_PRESET, 'b-m-p');
+const AH = getVisemeSlotIndex(CC4_PRESET, 'ah');
+const OH = getVisemeSlotIndex(CC4_PRESET, 'oh');
+const EE = getVisemeSlotIndex(CC4_PRESET, 'ee');
+
+function valueAt(points: CurvePoint[], time: number): number {
+  if (time <= points[0].time) return points[0].intensity;
+  for (let i = 1; i < points.length; i += 1) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (time <= b.time) return a.intensity + (b.intensity - a.intensity) * ((time - a.time) / (b.time - a.time));
+  }
+  return points[points.length - 1].intensity;
+}
+
+const visemeSnippet = { snippetCategory: 'visemeSnippet' } as const;
+
+const sampleTimes = (end: number, step = 1 / 120) => Array.from({ length: Math.floor(end / step) }, (_, i) => i * step);
+
+describe('coarticulateVisemeCurves', () => {
+  it('blends neighbouring visemes instead of isolated triangles', () => {
+    const input = buildVisemeCurves([
+      { index: AH, start: 0.1, end: 0.2 },
+      { index: EE, start: 0.2, end: 0.3 },
+    ], { rampIn: 0.001, rampOut: 0.001 });
+    const output = coarticulateVisemeCurves(CC4_PRESET, input, visemeSnippet);
+
+    // The upcoming vowel is anticipated inside the current one.
+    expect(valueAt(input[String(EE)], 0.17)).toBe(0);
+    expect(valueAt(output[String(EE)], 0.17)).toBeGreaterThan(0.05);
+    expect(valueAt(output[String(AH)], 0.17)).toBeLessThan(1);
+    expect(valueAt(output[String(AH)], 0.14)).toBeGreaterThan(0.5);
+
+    for (const time of sampleTimes(0.45)) {
+      const total = Object.values(output).reduce((sum, points) => sum + valueAt(points, time), 0);
+      expect(total).toBeLessThanOrEqual(1 + 1e-6);
+    }
+  });
+
+  it('lets rounding spread further than spread lips', () => {
+    const rounded = coarticulateVisemeCurves(CC4_PRESET, buildVisemeCurves([
+      { index: AH, start: 0.1, end: 0.3 },
+      { index: OH, start: 0.3, end: 0.4 },
+    ]), visemeSnippet);
+    const spread = coarticulateVisemeCurves(CC4_PRESET, buildVisemeCurves([
+      { index: AH, start: 0.1, end: 0.3 },
+      { index: EE, start: 0.3, end: 0.4 },
+    ]), visemeSnippet);
+    expect(valueAt(rounded[String(OH)], 0.24)).toBeGreaterThan(valueAt(spread[String(EE)], 0.24));
+  });
+
+  it('enforces full bilabial closure even for a very short p/b/m', () => {
+    const input = buildVisemeCurves([
+      { index: AH, start: 0.1, end: 0.2 },
+      { index: BMP, start: 0.2, end: 0.215 },
+      { index: AH, start: 0.215, end: 0.35 },
+    ]);
+    const output = coarticulateVisemeCurves(CC4_PRESET, input, { ...visemeSnippet, minClosure: 0.05 });
+
+    for (const time of [0.19, 0.2075, 0.225]) {
+      expect(valueAt(output[String(BMP)], time)).toBeCloseTo(1, 2);
+      expect(valueAt(output[String(AH)], time)).toBeLessThan(0.01);
+    }
+  });
+
+  it('limits how fast the jaw opens', () => {
+    const input: CurvesMap = {
+      [String(AH)]: [
+        { time: 0, intensity: 0 },
+        { time: 0.1, intensity: 0 },
+        { time: 0.101, intensity: 1 },
+        { time: 0.5, intensity: 1 },
+      ],
+    };
+    const jaw = getVisemeJawAmounts(CC4_PRESET)![AH];
+    const output = coarticulateVisemeCurves(CC4_PRESET, input, { ...visemeSnippet, maxJawVelocity: 2 });
+    const times = sampleTimes(0.5, 1 / 60);
+    for (let i = 1; i < times.length; i += 1) {
+      const step = (valueAt(output[String(AH)], times[i]) - valueAt(output[String(AH)], times[i - 1])) * jaw;
+      expect(Math.abs(step)).toBeLessThanOrEqual(2 / 60 + 1e-3);
+    }
+    expect(valueAt(output[String(AH)], 0.45)).toBeCloseTo(1, 2);
+  });
+
+  it('falls back to phoneme hints and jaw amounts for slots without features', () => {
+    const profile: Profile = {
+      auToMorphs: {},
+      auToBones: {},
+      boneNodes: {},
+      morphToMesh: { face: [] },
+      visemeKeys: [],
+      visemeSlots: [
+        { id: 'aa', label: 'AA', order: 0, phonemes: ['AA'], defaultJawAmount: 0.8 },
+        { id: 'mbp', label: 'MBP', order: 1, phonemes: ['M', 'B', 'P'] },
+      ],
+    };
+    const output = coarticulateVisemeCurves(profile, buildVisemeCurves([
+      { index: 0, start: 0.1, end: 0.2 },
+      { index: 1, start: 0.2, end: 0.21 },
+      { index: 0, start: 0.21, end: 0.3 },
+    ]), visemeSnippet);
+    expect(valueAt(output['1'], 0.205)).toBeCloseTo(1, 2);
+    expect(valueAt(output['0'], 0.205)).toBeLessThan(0.01);
+  });
+
+  it('coarticulates viseme:<index> curves and passes AU curves through', () => {
+    const slotCurves = buildVisemeCurves([
+      { index: AH, start: 0.1, end: 0.2 },
+      { index: EE, start: 0.2, end: 0.3 },
+    ], { rampIn: 0.001, rampOut: 0.001 });
+    const smile = [{ time: 0, intensity: 0 }, { time: 0.3, intensity: 1 }];
+    const input: CurvesMap = {
+      [visemeCurveId(AH)]: slotCurves[String(AH)],
+      [visemeCurveId(EE)]: slotCurves[String(EE)],
+      '12': smile,
+      '12L': smile,
+    };
+    const output = coarticulateVisemeCurves(CC4_PRESET, input);
+
+    expect(valueAt(output[visemeCurveId(EE)], 0.17)).toBeGreaterThan(0.05);
+    expect(output['12']).toEqual(smile);
+    expect(output['12L']).toEqual(smile);
+  });
+
+  it('returns an empty map for empty input', () => {
+    expect(coarticulateVisemeCurves(CC4_PRESET, {})).toEqual({});
+  });
+});
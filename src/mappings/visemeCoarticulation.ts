@@ -0,0 +1,250 @@
+import type { CurvePoint, CurvesMap } from '../core/types';
+import { parseVisemeCurveId } from '../core/snippetOps';
+import type { Profile, VisemeSlotFeatures } from './types';
+import { getProfileVisemeSlots, getVisemeJawAmounts } from './visemeSystem';
+
+export interface CoarticulationOptions {
+  /** When 'visemeSnippet', plain numeric curve ids are viseme indices; otherwise only `viseme:<index>` ids are */
+  snippetCategory?: 'auSnippet' | 'visemeSnippet';
+  /** Resampling rate for the output curves in Hz (default: 60) */
+  sampleRate?: number;
+  /**
+   * Seconds past a viseme's held core at which its dominance has fallen to half (default: 0.04).
+   * Scaled per slot: rounded lips reach further, closures and fricatives less.
+   */
+  spread?: number;
+  /** Exponent of the dominance falloff; higher values give a sharper shoulder (default: 2) */
+  falloff?: number;
+  /** Curve value above which a viseme counts as present (default: 0.05) */
+  threshold?: number;
+  /** `lipClosed` feature value at which a slot is treated as bilabial (default: 0.5) */
+  bilabialThreshold?: number;
+  /** Minimum full-closure hold for bilabials in seconds (default: 0.05) */
+  minClosure?: number;
+  /** Maximum jaw-open change per second, in feature units (default: 6) */
+  maxJawVelocity?: number;
+  /** Keyframes that interpolate within this tolerance are dropped from the output (default: 0.002) */
+  tolerance?: number;
+}
+
+interface SlotArticulation {
+  jawOpen: number;
+  lipClosed: number;
+  /** Dominance magnitude */
+  strength: number;
+  /** Half-influence distance in seconds */
+  spread: number;
+}
+
+interface VisemeSegment {
+  id: string;
+  peak: number;
+  coreStart: number;
+  coreEnd: number;
+  articulation: SlotArticulation;
+}
+
+const BILABIAL_PHONEMES = new Set(['P', 'B', 'M']);
+
+function resolveSlotFeatures(profile: Profile): VisemeSlotFeatures[] {
+  const jawAmounts = getVisemeJawAmounts(profile) ?? [];
+  return getProfileVisemeSlots(profile).map((slot, index) => {
+    if (slot.features) {
+      return { ...slot.features, jawOpen: slot.features.jawOpen ?? jawAmounts[index] ?? 0 };
+    }
+    // Slots without authored features fall back to their jaw amount and phoneme hints.
+    const bilabial = (slot.phonemes || []).some((phoneme) => BILABIAL_PHONEMES.has(phoneme.toUpperCase()));
+    return { jawOpen: jawAmounts[index] ?? 0, lipClosed: bilabial ? 1 : 0 };
+  });
+}
+
+function toArticulation(features: VisemeSlotFeatures | undefined, spread: number): SlotArticulation {
+  const lipClosed = features?.lipClosed ?? 0;
+  const lipRound = features?.lipRound ?? 0;
+  const fricative = features?.fricative ?? 0;
+  return {
+    jawOpen: features?.jawOpen ?? 0,
+    lipClosed,
+    // Closures and fricatives resist their neighbours; vowels give way.
+    strength: 1 + 2 * lipClosed + fricative,
+    // Lip rounding is anticipated well ahead of the rounded vowel.
+    spread: spread * Math.max(0.25, Math.min(3, 1 + 1.5 * lipRound - 0.5 * lipClosed - 0.3 * fricative)),
+  };
+}
+
+function sampleCurve(points: CurvePoint[], time: number): number {
+  if (time <= points[0].time) return points[0].intensity;
+  const last = points[points.length - 1];
+  if (time >= last.time) return last.intensity;
+  for (let i = 1; i < points.length; i += 1) {
+    const b = points[i];
+    if (time > b.time) continue;
+    const a = points[i - 1];
+    const span = b.time - a.time;
+    return span > 0 ? a.intensity + (b.intensity - a.intensity) * ((time - a.time) / span) : b.intensity;
+  }
+  return last.intensity;
+}
+
+/** Find each run above the threshold and its held core (where it is at least half its peak). */
+function findSegments(
+  id: string,
+  values: number[],
+  times: number[],
+  threshold: number,
+  articulation: SlotArticulation
+): VisemeSegment[] {
+  const segments: VisemeSegment[] = [];
+  let k = 0;
+  while (k < values.length) {
+    if (values[k] <= threshold) {
+      k += 1;
+      continue;
+    }
+    const runStart = k;
+    while (k < values.length && values[k] > threshold) k += 1;
+    const run = values.slice(runStart, k);
+    const peak = Math.max(...run);
+    const first = run.findIndex((value) => value >= peak * 0.5);
+    let lastIndex = run.length - 1;
+    while (lastIndex > first && run[lastIndex] < peak * 0.5) lastIndex -= 1;
+    segments.push({
+      id,
+      peak,
+      coreStart: times[runStart + first],
+      coreEnd: times[runStart + lastIndex],
+      articulation,
+    });
+  }
+  return segments;
+}
+
+function simplify(times: number[], values: number[], tolerance: number): CurvePoint[] {
+  const points: CurvePoint[] = [{ time: times[0], intensity: values[0] }];
+  let anchor = 0;
+  for (let k = 1; k < values.length - 1; k += 1) {
+    const next = k + 1;
+    // Keep k when dropping it would bend any skipped sample out of tolerance.
+    let fits = true;
+    for (let j = anchor + 1; j < next && fits; j += 1) {
+      const u = (times[j] - times[anchor]) / (times[next] - times[anchor]);
+      const expected = values[anchor] + (values[next] - values[anchor]) * u;
+      fits = Math.abs(expected - values[j]) <= tolerance;
+    }
+    if (!fits) {
+      points.push({ time: times[k], intensity: values[k] });
+      anchor = k;
+    }
+  }
+  if (values.length > 1) points.push({ time: times[times.length - 1], intensity: values[values.length - 1] });
+  return points;
+}
+
+/**
+ * Coarticulate the viseme curves of a curves map: `viseme:<index>` ids, plus
+ * plain slot indices when `snippetCategory` is 'visemeSnippet'. Other curves,
+ * such as the AU curves of a recorded take, pass through unchanged.
+ *
+ * Each viseme run becomes a dominance function in the style of Cohen & Massaro:
+ * at every sample the slots share the mouth in proportion to their dominance, under an
+ * envelope that lets the mouth relax in pauses. Dominance strength and reach come from
+ * the profile's `VisemeSlotFeatures`. The jaw-open trajectory is then rate-limited, and
+ * bilabial slots (lipClosed) are forced to full closure for at least `minClosure`;
+ * closure wins over the jaw limit so lips always seal on p/b/m.
+ */
+export function coarticulateVisemeCurves(
+  profile: Profile,
+  curves: CurvesMap,
+  options: CoarticulationOptions = {}
+): CurvesMap {
+  const slotFeatures = resolveSlotFeatures(profile);
+  const slotIndex = new Map<string, number>();
+  const passthrough: CurvesMap = {};
+  for (const [id, points] of Object.entries(curves)) {
+    if (points.length === 0) continue;
+    const index = parseVisemeCurveId(id)
+      ?? (options.snippetCategory === 'visemeSnippet' && /^\d+$/.test(id) ? Number(id) : null);
+    if (index !== null && index < slotFeatures.length) slotIndex.set(id, index);
+    else passthrough[id] = points.map((point) => ({ ...point }));
+  }
+  const ids = [...slotIndex.keys()];
+  if (ids.length === 0) return passthrough;
+
+  const sampleRate = Math.max(1, options.sampleRate ?? 60);
+  const spread = Math.max(1e-3, options.spread ?? 0.04);
+  const falloff = Math.max(0.5, options.falloff ?? 2);
+  const threshold = options.threshold ?? 0.05;
+  const bilabialThreshold = options.bilabialThreshold ?? 0.5;
+  const minClosure = Math.max(0, options.minClosure ?? 0.05);
+  const maxJawVelocity = options.maxJawVelocity ?? 6;
+  const tolerance = Math.max(0, options.tolerance ?? 0.002);
+
+  const startTime = Math.min(...ids.map((id) => curves[id][0].time));
+  const endTime = Math.max(...ids.map((id) => curves[id][curves[id].length - 1].time));
+  if (!(endTime > startTime)) {
+    return { ...passthrough, ...Object.fromEntries(ids.map((id) => [id, curves[id].map((point) => ({ ...point }))])) };
+  }
+
+  const count = Math.max(2, Math.ceil((endTime - startTime) * sampleRate) + 1);
+  const dt = (endTime - startTime) / (count - 1);
+  const times = Array.from({ length: count }, (_, k) => startTime + k * dt);
+
+  const articulation = new Map(ids.map((id) => [id, toArticulation(slotFeatures[slotIndex.get(id)!], spread)]));
+  const segments = ids.flatMap((id) =>
+    findSegments(id, times.map((time) => sampleCurve(curves[id], time)), times, threshold, articulation.get(id)!)
+  );
+
+  const output: Record<string, number[]> = Object.fromEntries(ids.map((id) => [id, new Array<number>(count).fill(0)]));
+
+  // Dominance blend.
+  for (let k = 0; k < count; k += 1) {
+    const time = times[k];
+    let envelope = 0;
+    let total = 0;
+    const dominance = new Map<string, number>();
+    for (const segment of segments) {
+      const distance = Math.max(0, segment.coreStart - time, time - segment.coreEnd);
+      const shape = Math.pow(2, -Math.pow(distance / segment.articulation.spread, falloff));
+      const value = segment.articulation.strength * shape * segment.peak;
+      envelope = Math.max(envelope, segment.peak * shape);
+      total += value;
+      dominance.set(segment.id, (dominance.get(segment.id) ?? 0) + value);
+    }
+    if (total <= 0) continue;
+    for (const [id, value] of dominance) output[id][k] = envelope * (value / total);
+  }
+
+  // Jaw velocity limit: scale jaw-opening slots so the summed jaw opens/closes no faster than allowed.
+  if (maxJawVelocity > 0) {
+    const maxStep = maxJawVelocity * dt;
+    const jawAt = (k: number) => ids.reduce((sum, id) => sum + output[id][k] * articulation.get(id)!.jawOpen, 0);
+    let previous = jawAt(0);
+    for (let k = 1; k < count; k += 1) {
+      const jaw = jawAt(k);
+      const limited = Math.max(previous - maxStep, Math.min(previous + maxStep, jaw));
+      if (jaw > 0 && Math.abs(limited - jaw) > 1e-9) {
+        const ratio = limited / jaw;
+        for (const id of ids) {
+          if (articulation.get(id)!.jawOpen > 0) output[id][k] = Math.min(1, output[id][k] * ratio);
+        }
+      }
+      previous = jawAt(k);
+    }
+  }
+
+  // Bilabial closure: hold the closed slot at its peak and suppress the others around its centre.
+  for (const segment of segments) {
+    if (segment.articulation.lipClosed < bilabialThreshold) continue;
+    const centre = (segment.coreStart + segment.coreEnd) / 2;
+    const half = Math.max(minClosure, segment.coreEnd - segment.coreStart) / 2;
+    const seal = Math.min(1, segment.peak * segment.articulation.lipClosed);
+    for (let k = 0; k < count; k += 1) {
+      if (Math.abs(times[k] - centre) > half + 1e-9) continue;
+      for (const id of ids) {
+        output[id][k] = id === segment.id ? Math.max(output[id][k], segment.peak) : output[id][k] * (1 - seal);
+      }
+    }
+  }
+
+  return { ...passthrough, ...Object.fromEntries(ids.map((id) => [id, simplify(times, output[id], tolerance)])) };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VRM_PRESET } from '../presets/vrm';
+import { getVisemeBindingTargets, getVisemeSlotIndex } from './visemeSystem';
+import { profileFromVRM, readVRMExtension } from './vrmProfile';
+import type { VRMGltfJson } from './vrmProfile';
+
+const FACE_TARGETS = ['Fcl_MTH_A', 'Fcl_MTH_I', 'Fcl_MTH_U', 'Fcl_MTH_E', 'Fcl_MTH_O', 'Fcl_EYE_Close_L', 'Fcl_EYE_Close_R', 'Fcl_ALL_Joy'];
+
+const VRM1: VRMGltfJson = {
+  nodes: [
+    { name: 'Hips' },
+    { name: 'Head' },
+    { name: 'Face', mesh: 0 },
+    { name: 'Left Eye' },
+    { name: 'Left Leg' },
+  ],
+  meshes: [{ name: 'FaceMesh', extras: { targetNames: FACE_TARGETS }, primitives: [{}] }],
+  extensions: {
+    VRMC_vrm: {
+      meta: { name: 'Sample' },
+      humanoid: { humanBones: { hips: { node: 0 }, head: { node: 1 }, leftEye: { node: 3 }, leftUpperLeg: { node: 4 }, upperChest: { node: 0 } } },
+      expressions: {
+        preset: {
+          aa: { morphTargetBinds: [{ node: 2, index: 0, weight: 1 }] },
+          ou: { morphTargetBinds: [{ node: 2, index: 2, weight: 0.8 }] },
+          blinkLeft: { morphTargetBinds: [{ node: 2, index: 5 }] },
+          blinkRight: { morphTargetBinds: [{ node: 2, index: 6 }] },
+          happy: { morphTargetBinds: [{ node: 2, index: 7 }] },
+        },
+        custom: { smirk: { morphTargetBinds: [{ node: 2, index: 3, weight: 0.5 }] } },
+      },
+      lookAt: { type: 'bone' },
+    },
+  },
+};
+
+const VRM0: VRMGltfJson = {
+  nodes: [{ name: 'J_Bip_C_Head' }, { name: 'Body', mesh: 0 }],
+  meshes: [{ name: 'Body', primitives: [{}, {}] }],
+  extensions: {
+    VRM: {
+      meta: { title: 'Legacy' },
+      humanoid: { humanBones: [{ bone: 'head', node: 0 }] },
+      blendShapeMaster: {
+        blendShapeGroups: [
+          { name: 'A', presetName: 'a', binds: [{ mesh: 0, index: 4, weight: 100 }] },
+          { name: 'Blink', presetName: 'blink', binds: [{ mesh: 0, index: 9, weight: 50 }] },
+          { name: 'Wink', presetName: 'unknown', binds: [{ mesh: 0, index: 2 }] },
+        ],
+      },
+      firstPerson: { lookAtTypeName: 'BlendShape' },
+    },
+  },
+};
+
+describe('readVRMExtension', () => {
+  it('resolves VRM 1.0 binds to node-named meshes and target names', () => {
+    const data = readVRMExtension(VRM1)!;
+    expect(data.version).toBe('1.0');
+    expect(data.expressions.ou).toEqual([{ mesh: 'Face', morph: 'Fcl_MTH_U', weight: 0.8 }]);
+    expect(data.expressions.smirk).toEqual([{ mesh: 'Face', morph: 'Fcl_MTH_E', weight: 0.5 }]);
+    expect(data.boneNodes).toEqual({ HIPS: 'Hips', HEAD: 'Head', EYE_L: 'Left_Eye', UPPERLEG_L: 'Left_Leg' });
+    expect(data.meshNames).toEqual(['Face']);
+  });
+
+  it('normalizes VRM 0.x preset names, weights and multi-primitive meshes', () => {
+    const data = readVRMExtension(VRM0)!;
+    expect(data.version).toBe('0.x');
+    expect(data.lookAtType).toBe('expression');
+    expect(Object.keys(data.expressions)).toEqual(['aa', 'blink', 'Wink']);
+    expect(data.expressions.blink).toEqual([
+      { mesh: 'Body', morph: 9, weight: 0.5 },
+      { mesh: 'Body_1', morph: 9, weight: 0.5 },
+    ]);
+  });
+
+  it('returns null for plain glTF', () => {
+    expect(readVRMExtension({ nodes: [] })).toBeNull();
+  });
+});
+
+describe('profileFromVRM', () => {
+  it('replaces expression names with the bound morph targets', () => {
+    const profile = profileFromVRM(VRM1);
+    expect(profile.name).toBe('VRM: Sample');
+    expect(profile.morphToMesh.face).toEqual(['Face']);
+    expect(profile.auToMorphs[43]).toEqual({ left: ['Fcl_EYE_Close_L'], right: ['Fcl_EYE_Close_R'], center: [] });
+    expect(profile.auToMorphs[12].center).toEqual(['Fcl_ALL_Joy']);
+    expect(profile.boneNodes.HEAD).toBe('Head');
+
+    const ah = getVisemeBindingTargets(profile, getVisemeSlotIndex(profile, 'ah'));
+    const woo = getVisemeBindingTargets(profile, getVisemeSlotIndex(profile, 'w-oo'));
+    expect(ah).toEqual([{ morph: 'Fcl_MTH_A', weight: 1 }]);
+    expect(woo[0].morph).toBe('Fcl_MTH_U');
+    expect(woo[0].weight).toBeCloseTo(0.8);
+    expect(getVisemeBindingTargets(profile, getVisemeSlotIndex(profile, 'b-m-p'))).toEqual([]);
+  });
+
+  it('picks eye bones or look expressions from the look-at type', () => {
+    const boneLook = profileFromVRM(VRM1);
+    expect(boneLook.auToBones[61]).toBeDefined();
+    expect(boneLook.auToMorphs[61].center).toEqual([]);
+
+    const expressionLook = profileFromVRM(VRM0);
+    expect(expressionLook.auToBones[61]).toBeUndefined();
+    expect(expressionLook.auToMorphs[43].center).toEqual([9]);
+    expect(expressionLook.boneNodes).toEqual({ HEAD: 'J_Bip_C_Head' });
+  });
+
+  it('falls back to the preset with a warning when the glTF is not VRM', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const profile = profileFromVRM({}, { name: 'Custom' });
+    expect(warn).toHaveBeenCalled();
+    expect(profile.name).toBe('Custom');
+    expect(profile.auToMorphs[26]).toEqual(VRM_PRESET.auToMorphs[26]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,260 @@
+import type { BoneBinding } from '../core/types';
+import type { MorphTargetRef, MorphTargetsBySide, Profile, VisemeBinding } from './types';
+import { extendPresetWithProfile } from './extendPresetWithProfile';
+import {
+  VRM_BONE_NODES,
+  VRM_EYE_BONE_AUS,
+  VRM_HUMAN_BONE_KEYS,
+  VRM_PRESET,
+  normalizeVRMExpressionName,
+} from '../presets/vrm';
+
+interface VRMGltfNode {
+  name?: string;
+  mesh?: number;
+}
+
+interface VRMGltfMesh {
+  name?: string;
+  extras?: { targetNames?: string[] };
+  primitives?: Array<{ extras?: { targetNames?: string[] } }>;
+}
+
+interface VRM1Expression {
+  morphTargetBinds?: Array<{ node: number; index: number; weight?: number }>;
+}
+
+interface VRM1Extension {
+  meta?: { name?: string };
+  humanoid?: { humanBones?: Record<string, { node: number }> };
+  expressions?: {
+    preset?: Record<string, VRM1Expression>;
+    custom?: Record<string, VRM1Expression>;
+  };
+  lookAt?: { type?: 'bone' | 'expression' };
+}
+
+interface VRM0Extension {
+  meta?: { title?: string };
+  humanoid?: { humanBones?: Array<{ bone: string; node: number }> };
+  blendShapeMaster?: {
+    blendShapeGroups?: Array<{
+      name?: string;
+      presetName?: string;
+      binds?: Array<{ mesh: number; index: number; weight?: number }>;
+    }>;
+  };
+  firstPerson?: { lookAtTypeName?: 'Bone' | 'BlendShape' };
+}
+
+/** The parts of a parsed glTF JSON document that VRM profile building reads. */
+export interface VRMGltfJson {
+  nodes?: VRMGltfNode[];
+  meshes?: VRMGltfMesh[];
+  extensions?: {
+    VRMC_vrm?: VRM1Extension;
+    VRM?: VRM0Extension;
+    [name: string]: unknown;
+  };
+}
+
+/** One expression bind resolved to a three.js mesh name and morph target. */
+export interface VRMMorphBind {
+  mesh: string;
+  /** Target name from `extras.targetNames`, or the morph index when the glTF has no names */
+  morph: MorphTargetRef;
+  /** 0-1 (VRM 0.x weights are rescaled from 0-100) */
+  weight: number;
+}
+
+export interface VRMExtensionData {
+  version: '0.x' | '1.0';
+  name?: string;
+  /** Binds per expression, keyed by VRM 1.0 name (custom expressions keep their own name) */
+  expressions: Record<string, VRMMorphBind[]>;
+  /** Loom3 bone key to node name, from the humanoid table */
+  boneNodes: Record<string, string>;
+  lookAtType: 'bone' | 'expression';
+  /** Every mesh referenced by an expression bind */
+  meshNames: string[];
+}
+
+/** Mirrors three's PropertyBinding.sanitizeNodeName, which GLTFLoader applies to node names. */
+const sanitizeNodeName = (name: string) => name.replace(/\s/g, '_').replace(/[\[\]\.:\/]/g, '');
+
+/**
+ * Names GLTFLoader gives the mesh objects of a node: single-primitive meshes take
+ * the node name, multi-primitive meshes become children named after the glTF mesh
+ * (`Face`, `Face_1`, ...).
+ */
+function meshObjectNames(gltf: VRMGltfJson, nodeIndex: number): string[] {
+  const node = gltf.nodes?.[nodeIndex];
+  const mesh = node?.mesh !== undefined ? gltf.meshes?.[node.mesh] : undefined;
+  if (!node || !mesh) return [];
+  const primitiveCount = mesh.primitives?.length ?? 1;
+  if (primitiveCount <= 1) {
+    const name = node.name ?? mesh.name;
+    return name ? [sanitizeNodeName(name)] : [];
+  }
+  const base = sanitizeNodeName(mesh.name ?? `mesh_${node.mesh}`);
+  return Array.from({ length: primitiveCount }, (_, i) => (i === 0 ? base : `${base}_${i}`));
+}
+
+function targetName(mesh: VRMGltfMesh | undefined, index: number): MorphTargetRef {
+  const names = mesh?.extras?.targetNames ?? mesh?.primitives?.[0]?.extras?.targetNames;
+  return names?.[index] ?? index;
+}
+
+function resolveBinds(gltf: VRMGltfJson, nodeIndex: number, index: number, weight: number): VRMMorphBind[] {
+  const node = gltf.nodes?.[nodeIndex];
+  const mesh = node?.mesh !== undefined ? gltf.meshes?.[node.mesh] : undefined;
+  const morph = targetName(mesh, index);
+  return meshObjectNames(gltf, nodeIndex).map((meshName) => ({ mesh: meshName, morph, weight }));
+}
+
+function readVRM1(gltf: VRMGltfJson, ext: VRM1Extension): VRMExtensionData {
+  const expressions: Record<string, VRMMorphBind[]> = {};
+  const groups = { ...ext.expressions?.custom, ...ext.expressions?.preset };
+  for (const [name, expression] of Object.entries(groups)) {
+    expressions[normalizeVRMExpressionName(name) ?? name] = (expression.morphTargetBinds ?? [])
+      .flatMap((bind) => resolveBinds(gltf, bind.node, bind.index, bind.weight ?? 1));
+  }
+
+  const boneNodes: Record<string, string> = {};
+  for (const [bone, entry] of Object.entries(ext.humanoid?.humanBones ?? {})) {
+    const key = VRM_HUMAN_BONE_KEYS[bone];
+    const nodeName = gltf.nodes?.[entry.node]?.name;
+    if (key && nodeName) boneNodes[key] = sanitizeNodeName(nodeName);
+  }
+
+  return {
+    version: '1.0',
+    name: ext.meta?.name,
+    expressions,
+    boneNodes,
+    lookAtType: ext.lookAt?.type === 'expression' ? 'expression' : 'bone',
+    meshNames: collectMeshNames(expressions),
+  };
+}
+
+function readVRM0(gltf: VRMGltfJson, ext: VRM0Extension): VRMExtensionData {
+  // 0.x binds reference meshes, not nodes; use every node that instances the mesh.
+  const nodesByMesh = new Map<number, number[]>();
+  (gltf.nodes ?? []).forEach((node, index) => {
+    if (node.mesh === undefined) return;
+    nodesByMesh.set(node.mesh, [...(nodesByMesh.get(node.mesh) ?? []), index]);
+  });
+
+  const expressions: Record<string, VRMMorphBind[]> = {};
+  for (const group of ext.blendShapeMaster?.blendShapeGroups ?? []) {
+    const preset = group.presetName && group.presetName !== 'unknown'
+      ? normalizeVRMExpressionName(group.presetName)
+      : undefined;
+    const name = preset ?? group.name;
+    if (!name) continue;
+    expressions[name] = (group.binds ?? []).flatMap((bind) =>
+      (nodesByMesh.get(bind.mesh) ?? []).flatMap((nodeIndex) =>
+        resolveBinds(gltf, nodeIndex, bind.index, (bind.weight ?? 100) / 100)
+      )
+    );
+  }
+
+  const boneNodes: Record<string, string> = {};
+  for (const entry of ext.humanoid?.humanBones ?? []) {
+    const key = VRM_HUMAN_BONE_KEYS[entry.bone];
+    const nodeName = gltf.nodes?.[entry.node]?.name;
+    if (key && nodeName) boneNodes[key] = sanitizeNodeName(nodeName);
+  }
+
+  return {
+    version: '0.x',
+    name: ext.meta?.title,
+    expressions,
+    boneNodes,
+    lookAtType: ext.firstPerson?.lookAtTypeName === 'BlendShape' ? 'expression' : 'bone',
+    meshNames: collectMeshNames(expressions),
+  };
+}
+
+function collectMeshNames(expressions: Record<string, VRMMorphBind[]>): string[] {
+  return Array.from(new Set(Object.values(expressions).flatMap((binds) => binds.map((bind) => bind.mesh))));
+}
+
+/**
+ * Read the VRM 1.0 (`VRMC_vrm`) or VRM 0.x (`VRM`) extension of a parsed glTF
+ * JSON document (e.g. `gltf.parser.json` from GLTFLoader).
+ * Returns null when the document carries neither extension.
+ */
+export function readVRMExtension(gltf: VRMGltfJson): VRMExtensionData | null {
+  const vrm1 = gltf.extensions?.VRMC_vrm;
+  if (vrm1) return readVRM1(gltf, vrm1);
+  const vrm0 = gltf.extensions?.VRM;
+  if (vrm0) return readVRM0(gltf, vrm0);
+  return null;
+}
+
+/**
+ * Build a profile from a VRM glTF: the VRM preset's expression-name morph keys
+ * are replaced with the morph targets each expression binds, `boneNodes` come
+ * from the humanoid table, and eye gaze uses bones or expressions depending on
+ * the model's look-at type. `extension` is applied last, as with
+ * `extendPresetWithProfile`.
+ */
+export function profileFromVRM(gltf: VRMGltfJson, extension?: Partial<Profile>): Profile {
+  const data = readVRMExtension(gltf);
+  if (!data) {
+    console.warn('[Loom3] profileFromVRM: glTF has no VRMC_vrm or VRM extension, using VRM_PRESET as-is');
+    return extendPresetWithProfile(VRM_PRESET, extension);
+  }
+
+  const refsFor = (expression: MorphTargetRef): MorphTargetRef[] =>
+    Array.from(new Set((data.expressions[String(expression)] ?? []).map((bind) => bind.morph)));
+
+  const auToMorphs: Record<number, MorphTargetsBySide> = {};
+  for (const [au, entry] of Object.entries(VRM_PRESET.auToMorphs)) {
+    auToMorphs[Number(au)] = {
+      left: entry.left.flatMap(refsFor),
+      right: entry.right.flatMap(refsFor),
+      center: entry.center.flatMap(refsFor),
+    };
+  }
+  // Models without per-eye blinks still close both eyes through `blink`.
+  for (const au of [43, 45]) {
+    const blink = auToMorphs[au];
+    if (blink.left.length === 0 && blink.right.length === 0) blink.center = refsFor('blink');
+  }
+
+  const auToBones: Record<number, BoneBinding[]> = { ...VRM_PRESET.auToBones };
+  if (data.lookAtType === 'expression') {
+    for (const au of VRM_EYE_BONE_AUS) delete auToBones[au];
+  } else {
+    for (const au of VRM_EYE_BONE_AUS) auToMorphs[au] = { left: [], right: [], center: [] };
+  }
+
+  const visemeBindings: Record<string, VisemeBinding> = {};
+  for (const [slotId, binding] of Object.entries(VRM_PRESET.visemeBindings ?? {})) {
+    const weights = new Map<MorphTargetRef, number>();
+    for (const target of binding.targets ?? []) {
+      for (const bind of data.expressions[String(target.morph)] ?? []) {
+        const weight = (target.weight ?? 1) * bind.weight;
+        weights.set(bind.morph, Math.max(weights.get(bind.morph) ?? 0, weight));
+      }
+    }
+    visemeBindings[slotId] = {
+      targets: Array.from(weights, ([morph, weight]) => ({ morph, weight })),
+    };
+  }
+
+  const built: Profile = {
+    ...VRM_PRESET,
+    name: data.name ? `VRM: ${data.name}` : VRM_PRESET.name,
+    auToMorphs,
+    auToBones,
+    boneNodes: Object.keys(data.boneNodes).length > 0 ? data.boneNodes : { ...VRM_BONE_NODES },
+    morphToMesh: { face: data.meshNames },
+    visemeBindings,
+    visemeKeys: (VRM_PRESET.visemeSlots ?? []).map((slot) => visemeBindings[slot.id]?.targets?.[0]?.morph ?? ''),
+  };
+
+  return extendPresetWithProfile(built, extension);
+}
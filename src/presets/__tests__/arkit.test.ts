@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ARKIT_AU_TO_MORPHS,
+  ARKIT_BLENDSHAPES,
+  ARKIT_PRESET,
+  ARKIT_VISEME_BINDINGS,
+  ARKIT_VISEME_KEYS,
+  ARKIT_VISEME_SLOTS,
+} from '../arkit';
+import { CC4_VISEME_SLOTS } from '../cc4';
+import { getPreset } from '../index';
+
+describe('ARKit Preset', () => {
+  it('lists the 52 canonical blendshapes once each', () => {
+    expect(ARKIT_BLENDSHAPES).toHaveLength(52);
+    expect(new Set(ARKIT_BLENDSHAPES).size).toBe(52);
+  });
+
+  it('only maps AUs to ARKit blendshape names, split by side', () => {
+    const known = new Set<string>(ARKIT_BLENDSHAPES);
+    for (const mapping of Object.values(ARKIT_AU_TO_MORPHS)) {
+      for (const name of [...mapping.left, ...mapping.right, ...mapping.center]) {
+        expect(known.has(String(name))).toBe(true);
+      }
+    }
+    expect(ARKIT_AU_TO_MORPHS[12]).toEqual({ left: ['mouthSmileLeft'], right: ['mouthSmileRight'], center: [] });
+    expect(ARKIT_AU_TO_MORPHS[26].center).toEqual(['jawOpen']);
+  });
+
+  it('approximates every CC4 viseme slot with weighted ARKit shapes', () => {
+    expect(ARKIT_VISEME_SLOTS.map((slot) => slot.id)).toEqual(CC4_VISEME_SLOTS.map((slot) => slot.id));
+    expect(ARKIT_VISEME_SLOTS.every((slot) => !slot.matchers)).toBe(true);
+    for (const slot of ARKIT_VISEME_SLOTS) {
+      const targets = ARKIT_VISEME_BINDINGS[slot.id]?.targets ?? [];
+      expect(targets.length).toBeGreaterThan(0);
+      expect(ARKIT_BLENDSHAPES).toContain(targets[0].morph);
+    }
+    expect(ARKIT_VISEME_KEYS).toHaveLength(ARKIT_VISEME_SLOTS.length);
+  });
+
+  it('is available through getPreset', () => {
+    expect(getPreset('arkit')).toBe(ARKIT_PRESET);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GENESIS8_BONE_NODES,
+  GENESIS8_PRESET,
+  GENESIS9_BONE_NODES,
+  GENESIS9_PRESET,
+  GENESIS_AU_TO_MORPHS,
+  GENESIS_MORPH_PREFIX,
+  GENESIS_VISEME_KEYS,
+  GENESIS_VISEME_SLOTS,
+} from '../genesis';
+import { validateMappingConfig, validateMappings } from '../../validation/validateMappings';
+
+/** Every FACS unit and viseme control the preset references, as Daz names them. */
+function genesisMorphNames(suffix = ''): string[] {
+  const keys = new Set<string>();
+  for (const mapping of Object.values(GENESIS_AU_TO_MORPHS)) {
+    for (const key of [...mapping.left, ...mapping.right, ...mapping.center]) keys.add(String(key));
+  }
+  GENESIS_VISEME_KEYS.forEach((key) => keys.add(key));
+  return [...keys].map((key) => `${GENESIS_MORPH_PREFIX}${key}${suffix}`);
+}
+
+function dictionary(names: string[]): Record<string, number> {
+  return Object.fromEntries(names.map((name, index) => [name, index]));
+}
+
+describe('Genesis Preset', () => {
+  it('has a consistent mapping config', () => {
+    expect(validateMappingConfig(GENESIS9_PRESET).errors).toEqual([]);
+    expect(GENESIS_VISEME_KEYS).toHaveLength(GENESIS_VISEME_SLOTS.length);
+  });
+
+  it('validates cleanly against a synthetic Genesis 9 export', () => {
+    const morphs = dictionary([...genesisMorphNames(), 'facs_bs_MouthLeft', 'body_bs_Breathe']);
+    const meshes = [
+      { name: 'Genesis9', morphTargetDictionary: morphs },
+      { name: 'Genesis9Eyelashes', morphTargetDictionary: dictionary(['facs_jnt_EyeBlinkLeft', 'facs_jnt_EyeBlinkRight']) },
+      { name: 'Genesis9Eyes', morphTargetDictionary: {} },
+      { name: 'Genesis9Mouth', morphTargetDictionary: {} },
+    ];
+    const skeleton = { bones: [...Object.values(GENESIS9_BONE_NODES), 'hip', 'pelvis'].map((name) => ({ name })) };
+
+    const result = validateMappings(meshes, skeleton, GENESIS9_PRESET);
+    expect(result.valid).toBe(true);
+    expect(result.missingMorphs).toEqual([]);
+    expect(result.missingBones).toEqual([]);
+    expect(result.foundBones).toEqual(expect.arrayContaining(['head', 'l_eye', 'lowerjaw']));
+    expect(result.unmappedMorphs).toEqual(expect.arrayContaining(['facs_bs_MouthLeft']));
+    expect(result.missingMeshes).toEqual([]);
+    expect(result.score).toBeGreaterThanOrEqual(90);
+  });
+
+  it('accepts Daz _div2 split suffixes and Genesis 8.1 bone names', () => {
+    const meshes = [{ name: 'Genesis8_1Female', morphTargetDictionary: dictionary(genesisMorphNames('_div2')) }];
+    const skeleton = { bones: Object.values(GENESIS8_BONE_NODES).map((name) => ({ name })) };
+
+    const result = validateMappings(meshes, skeleton, GENESIS8_PRESET);
+    expect(result.missingMorphs).toEqual([]);
+    expect(result.foundBones).toEqual(expect.arrayContaining(['lEye', 'lowerJaw']));
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports CC4-only rigs as incompatible', () => {
+    const meshes = [{ name: 'CC_Base_Body', morphTargetDictionary: dictionary(['Brow_Raise_Inner_L', 'Mouth_Smile_L']) }];
+    const skeleton = { bones: [{ name: 'CC_Base_Head' }] };
+    expect(validateMappings(meshes, skeleton, GENESIS9_PRESET).score).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Object3D } from 'three';
+import { Loom3 } from '../../engines/three/Loom3';
+import {
+  MIXAMO_AU_INFO,
+  MIXAMO_BONE_BINDINGS,
+  MIXAMO_BONE_NODES,
+  MIXAMO_PRESET,
+  detectMixamoBonePrefix,
+  mixamoHasLeftRightBones,
+} from '../mixamo';
+
+function makeMixamoRig(prefix: string) {
+  const model = new Object3D();
+  let parent = model;
+  for (const base of ['Hips', 'Spine', 'Spine1', 'Spine2', 'Neck', 'Head']) {
+    const bone = new Object3D();
+    bone.name = `${prefix}${base}`;
+    parent.add(bone);
+    parent = bone;
+  }
+  for (const base of ['LeftShoulder', 'RightShoulder']) {
+    const bone = new Object3D();
+    bone.name = `${prefix}${base}`;
+    model.getObjectByName(`${prefix}Spine2`)!.add(bone);
+  }
+  return model;
+}
+
+describe('Mixamo Preset', () => {
+  it('binds every AU to known bone keys and documents it', () => {
+    const keys = new Set(Object.keys(MIXAMO_BONE_NODES));
+    for (const [au, bindings] of Object.entries(MIXAMO_BONE_BINDINGS)) {
+      expect(MIXAMO_AU_INFO[au]).toBeDefined();
+      for (const binding of bindings) expect(keys.has(binding.node)).toBe(true);
+    }
+    expect(mixamoHasLeftRightBones(116)).toBe(true);
+    expect(mixamoHasLeftRightBones(51)).toBe(false);
+  });
+
+  it('detects the bone prefix a rig actually uses', () => {
+    expect(detectMixamoBonePrefix(['Armature', 'mixamorigHips'])).toBe('mixamorig');
+    expect(detectMixamoBonePrefix(['mixamorig:Hips'])).toBe('mixamorig:');
+    expect(detectMixamoBonePrefix(['mixamorig2:Hips'])).toBe('mixamorig2:');
+    expect(detectMixamoBonePrefix(['Hips'])).toBeUndefined();
+  });
+
+  it('drives head, torso lean and shrug on a prefixed rig without jaw or eyes', () => {
+    const engine = new Loom3({ presetType: 'mixamo' });
+    engine.onReady({ model: makeMixamoRig('mixamorig'), meshes: [] });
+
+    engine.setAU(54, 1);
+    engine.setAU(110, 1);
+    engine.setAU(116, 1);
+    engine.setAU(26, 1);
+    engine.update(1 / 60);
+
+    const bones = engine.getBones();
+    expect(bones.JAW).toBeUndefined();
+    expect(bones.HEAD.rotation[0]).toBeCloseTo(30);
+    expect(bones.NECK.rotation[0]).toBeCloseTo(12);
+    expect(bones.SPINE_01.rotation[0]).toBeCloseTo(12);
+    expect(bones.CLAVICLE_L.rotation[2]).toBeCloseTo(15);
+    expect(bones.CLAVICLE_R.rotation[2]).toBeCloseTo(-15);
+  });
+
+  it('resolves colon-prefixed names through a profile bonePrefix override', () => {
+    const engine = new Loom3({ presetType: 'mixamo', profile: { bonePrefix: 'mixamorig:' } });
+    engine.onReady({ model: makeMixamoRig('mixamorig:'), meshes: [] });
+    expect(Object.keys(engine.getBones())).toContain('HEAD');
+    expect(MIXAMO_PRESET.bonePrefix).toBe('mixamorig');
+  });
+});
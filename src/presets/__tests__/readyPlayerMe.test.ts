@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ARKIT_BLENDSHAPES } from '../arkit';
+import { OCULUS_VISEME_KEYS, OCULUS_VISEME_SLOTS, RPM_PRESET } from '../readyPlayerMe';
+import { getMeshNamesForAUProfile, getVisemeBindingTargets, mapProviderVisemeToSlot } from '../../mappings/visemeSystem';
+import { validateMappings } from '../../validation/validateMappings';
+
+describe('Ready Player Me Preset', () => {
+  it('binds the 15 Oculus viseme morphs in OVRLipSync order', () => {
+    expect(OCULUS_VISEME_KEYS).toEqual([
+      'viseme_sil', 'viseme_PP', 'viseme_FF', 'viseme_TH', 'viseme_DD',
+      'viseme_kk', 'viseme_CH', 'viseme_SS', 'viseme_nn', 'viseme_RR',
+      'viseme_aa', 'viseme_E', 'viseme_I', 'viseme_O', 'viseme_U',
+    ]);
+    expect(getVisemeBindingTargets(RPM_PRESET, 12)).toEqual([{ morph: 'viseme_I', weight: 1 }]);
+  });
+
+  it('maps Oculus and Azure provider ids onto the same slots', () => {
+    const slot = (provider: string, id: string | number) => mapProviderVisemeToSlot(RPM_PRESET, { provider, id })?.slotId;
+    expect(slot('oculus', 1)).toBe('PP');
+    expect(slot('oculus', 'ou')).toBe('U');
+    expect(slot('azure', 21)).toBe('PP');
+    expect(slot('azure', 6)).toBe('I');
+    expect(slot('azure', 0)).toBe('sil');
+    expect(new Set(OCULUS_VISEME_SLOTS.flatMap((s) => s.providerIds?.azure ?? [])).size).toBe(22);
+  });
+
+  it('routes eye and tongue AUs to the Wolf3D meshes that carry them', () => {
+    expect(getMeshNamesForAUProfile(RPM_PRESET, 12)).toEqual(['Wolf3D_Head', 'Wolf3D_Teeth']);
+    expect(getMeshNamesForAUProfile(RPM_PRESET, 61)).toEqual(['EyeLeft', 'EyeRight', 'Wolf3D_Head']);
+    expect(getMeshNamesForAUProfile(RPM_PRESET, 19)).toEqual(['Wolf3D_Teeth']);
+  });
+
+  it('validates against a synthetic Ready Player Me export', () => {
+    const head = Object.fromEntries([...ARKIT_BLENDSHAPES, ...OCULUS_VISEME_KEYS].map((name, index) => [name, index]));
+    const eye = { eyeLookInLeft: 0, eyeLookOutLeft: 1, eyeLookUpLeft: 2, eyeLookDownLeft: 3 };
+    const meshes = [
+      { name: 'Wolf3D_Head', morphTargetDictionary: head },
+      { name: 'Wolf3D_Teeth', morphTargetDictionary: head },
+      { name: 'EyeLeft', morphTargetDictionary: eye },
+      { name: 'EyeRight', morphTargetDictionary: eye },
+    ];
+    const skeleton = { bones: ['Hips', 'Spine', 'Spine1', 'Spine2', 'Neck', 'Head', 'LeftEye', 'RightEye'].map((name) => ({ name })) };
+
+    const result = validateMappings(meshes, skeleton, RPM_PRESET);
+    expect(result.valid).toBe(true);
+    expect(result.missingMorphs).toEqual([]);
+    expect(result.missingMeshes).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * ARKit Preset - Apple ARKit 52 blendshape AU mappings
+ *
+ * FACS Action Unit mappings for avatars that ship Apple's ARKit blendshape names
+ * (Ready Player Me, Live Link Face exports, MetaHuman-style ARKit targets, VRoid
+ * perfect-sync models). ARKit has no viseme shapes, so each viseme slot is a weighted
+ * blend of mouth and jaw shapes. Morph meshes vary per asset: face meshes are
+ * auto-detected unless a profile sets `morphToMesh.face`.
+ */
+
+import type { Profile, MorphTargetsBySide, VisemeBinding, VisemeSlot } from '../mappings/types';
+import type { BoneBinding, CompositeRotation } from '../core/types';
+import { AU_INFO, CC4_VISEME_SLOTS, VISEME_JAW_AMOUNTS } from './cc4';
+
+// ============================================================================
+// ARKIT BLENDSHAPES - The 52 canonical names
+// ============================================================================
+
+export const ARKIT_BLENDSHAPES = [
+  'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight',
+  'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
+  'eyeBlinkLeft', 'eyeBlinkRight', 'eyeLookDownLeft', 'eyeLookDownRight', 'eyeLookInLeft', 'eyeLookInRight',
+  'eyeLookOutLeft', 'eyeLookOutRight', 'eyeLookUpLeft', 'eyeLookUpRight', 'eyeSquintLeft', 'eyeSquintRight',
+  'eyeWideLeft', 'eyeWideRight',
+  'jawForward', 'jawLeft', 'jawOpen', 'jawRight',
+  'mouthClose', 'mouthDimpleLeft', 'mouthDimpleRight', 'mouthFrownLeft', 'mouthFrownRight', 'mouthFunnel',
+  'mouthLeft', 'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthPressLeft', 'mouthPressRight', 'mouthPucker',
+  'mouthRight', 'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper', 'mouthSmileLeft',
+  'mouthSmileRight', 'mouthStretchLeft', 'mouthStretchRight', 'mouthUpperUpLeft', 'mouthUpperUpRight',
+  'noseSneerLeft', 'noseSneerRight',
+  'tongueOut',
+] as const;
+
+export type ARKitBlendshape = typeof ARKIT_BLENDSHAPES[number];
+
+// ============================================================================
+// AU TO MORPHS - Maps AU IDs to ARKit blendshapes
+// ============================================================================
+
+const bilateral = (left: ARKitBlendshape, right: ARKitBlendshape): MorphTargetsBySide => ({
+  left: [left],
+  right: [right],
+  center: [],
+});
+
+const center = (...keys: ARKitBlendshape[]): MorphTargetsBySide => ({ left: [], right: [], center: keys });
+
+export const ARKIT_AU_TO_MORPHS: Record<number, MorphTargetsBySide> = {
+  1: center('browInnerUp'),
+  2: bilateral('browOuterUpLeft', 'browOuterUpRight'),
+  4: bilateral('browDownLeft', 'browDownRight'),
+  5: bilateral('eyeWideLeft', 'eyeWideRight'),
+  6: bilateral('cheekSquintLeft', 'cheekSquintRight'),
+  7: bilateral('eyeSquintLeft', 'eyeSquintRight'),
+  8: center('mouthClose'),
+  9: bilateral('noseSneerLeft', 'noseSneerRight'),
+  10: bilateral('mouthUpperUpLeft', 'mouthUpperUpRight'),
+  12: bilateral('mouthSmileLeft', 'mouthSmileRight'),
+  14: bilateral('mouthDimpleLeft', 'mouthDimpleRight'),
+  15: bilateral('mouthFrownLeft', 'mouthFrownRight'),
+  16: bilateral('mouthLowerDownLeft', 'mouthLowerDownRight'),
+  17: center('mouthShrugLower', 'mouthShrugUpper'),
+  18: center('mouthPucker'),
+  19: center('tongueOut'),
+  20: bilateral('mouthStretchLeft', 'mouthStretchRight'),
+  22: center('mouthFunnel'),
+  23: bilateral('mouthPressLeft', 'mouthPressRight'),
+  24: bilateral('mouthPressLeft', 'mouthPressRight'),
+  25: center('jawOpen'),
+  26: center('jawOpen'),
+  27: center('jawOpen'),
+  28: center('mouthRollUpper', 'mouthRollLower'),
+  29: center('jawForward'),
+  30: center('jawLeft'),
+  32: center('mouthRollLower'),
+  34: center('cheekPuff'),
+  35: center('jawRight'),
+  43: bilateral('eyeBlinkLeft', 'eyeBlinkRight'),
+  45: bilateral('eyeBlinkLeft', 'eyeBlinkRight'),
+  // Gaze: for the left eye "out" is toward the character's left, for the right eye "in" is.
+  61: bilateral('eyeLookOutLeft', 'eyeLookInRight'),
+  62: bilateral('eyeLookInLeft', 'eyeLookOutRight'),
+  63: bilateral('eyeLookUpLeft', 'eyeLookUpRight'),
+  64: bilateral('eyeLookDownLeft', 'eyeLookDownRight'),
+  65: center('eyeLookOutLeft'),
+  66: center('eyeLookInLeft'),
+  67: center('eyeLookUpLeft'),
+  68: center('eyeLookDownLeft'),
+  69: center('eyeLookInRight'),
+  70: center('eyeLookOutRight'),
+  71: center('eyeLookUpRight'),
+  72: center('eyeLookDownRight'),
+};
+
+// ============================================================================
+// AU TO BONES - Head only; ARKit itself defines no skeleton
+// ============================================================================
+
+export const ARKIT_BONE_AU_TO_BINDINGS: Record<number, BoneBinding[]> = {
+  51: [{ node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 60 }],
+  52: [{ node: 'HEAD', channel: 'ry', scale: -1, maxDegrees: 60 }],
+  53: [{ node: 'HEAD', channel: 'rx', scale: -1, maxDegrees: 30 }],
+  54: [{ node: 'HEAD', channel: 'rx', scale: 1, maxDegrees: 30 }],
+  55: [{ node: 'HEAD', channel: 'rz', scale: -1, maxDegrees: 25 }],
+  56: [{ node: 'HEAD', channel: 'rz', scale: 1, maxDegrees: 25 }],
+};
+
+export const ARKIT_COMPOSITE_ROTATIONS: CompositeRotation[] = [
+  {
+    node: 'HEAD',
+    pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+    yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+    roll: { aus: [55, 56], axis: 'rz', negative: 55, positive: 56 },
+  },
+];
+
+/** Common skeleton names on ARKit-ready avatars; override per asset as needed. */
+export const ARKIT_BONE_NODES = {
+  HEAD: 'Head',
+  NECK: 'Neck',
+  EYE_L: 'LeftEye',
+  EYE_R: 'RightEye',
+} as const;
+
+export const ARKIT_CONTINUUM_PAIRS_MAP: NonNullable<Profile['continuumPairs']> = {
+  61: { pairId: 62, isNegative: true, axis: 'yaw', node: 'EYE_L' },
+  62: { pairId: 61, isNegative: false, axis: 'yaw', node: 'EYE_L' },
+  64: { pairId: 63, isNegative: true, axis: 'pitch', node: 'EYE_L' },
+  63: { pairId: 64, isNegative: false, axis: 'pitch', node: 'EYE_L' },
+  65: { pairId: 66, isNegative: true, axis: 'yaw', node: 'EYE_L' },
+  66: { pairId: 65, isNegative: false, axis: 'yaw', node: 'EYE_L' },
+  68: { pairId: 67, isNegative: true, axis: 'pitch', node: 'EYE_L' },
+  67: { pairId: 68, isNegative: false, axis: 'pitch', node: 'EYE_L' },
+  69: { pairId: 70, isNegative: true, axis: 'yaw', node: 'EYE_R' },
+  70: { pairId: 69, isNegative: false, axis: 'yaw', node: 'EYE_R' },
+  72: { pairId: 71, isNegative: true, axis: 'pitch', node: 'EYE_R' },
+  71: { pairId: 72, isNegative: false, axis: 'pitch', node: 'EYE_R' },
+  51: { pairId: 52, isNegative: true, axis: 'yaw', node: 'HEAD' },
+  52: { pairId: 51, isNegative: false, axis: 'yaw', node: 'HEAD' },
+  54: { pairId: 53, isNegative: true, axis: 'pitch', node: 'HEAD' },
+  53: { pairId: 54, isNegative: false, axis: 'pitch', node: 'HEAD' },
+  55: { pairId: 56, isNegative: true, axis: 'roll', node: 'HEAD' },
+  56: { pairId: 55, isNegative: false, axis: 'roll', node: 'HEAD' },
+  30: { pairId: 35, isNegative: true, axis: 'yaw', node: 'JAW' },
+  35: { pairId: 30, isNegative: false, axis: 'yaw', node: 'JAW' },
+};
+
+// ============================================================================
+// VISEMES - Approximated from ARKit mouth shapes
+// ============================================================================
+
+export const ARKIT_VISEME_SYSTEM_ID = 'arkit-52-approx-15';
+
+/** Same slots (ids, phonemes, provider ids, features) as CC4, without CC4 morph-name matchers. */
+export const ARKIT_VISEME_SLOTS: VisemeSlot[] = CC4_VISEME_SLOTS.map(({ matchers: _matchers, ...slot }) => ({ ...slot }));
+
+const blend = (...targets: Array<[ARKitBlendshape, number]>): VisemeBinding => ({
+  targets: targets.map(([morph, weight]) => ({ morph, weight })),
+});
+
+export const ARKIT_VISEME_BINDINGS: Record<string, VisemeBinding> = {
+  ae: blend(['jawOpen', 0.45], ['mouthStretchLeft', 0.3], ['mouthStretchRight', 0.3]),
+  ah: blend(['jawOpen', 0.65], ['mouthLowerDownLeft', 0.2], ['mouthLowerDownRight', 0.2]),
+  'b-m-p': blend(['mouthClose', 0.5], ['mouthPressLeft', 0.4], ['mouthPressRight', 0.4]),
+  'ch-j': blend(['mouthFunnel', 0.55], ['jawOpen', 0.15], ['mouthShrugUpper', 0.2]),
+  ee: blend(['mouthSmileLeft', 0.35], ['mouthSmileRight', 0.35], ['mouthStretchLeft', 0.25], ['mouthStretchRight', 0.25], ['jawOpen', 0.1]),
+  er: blend(['mouthPucker', 0.4], ['mouthFunnel', 0.2], ['jawOpen', 0.2]),
+  'f-v': blend(['mouthRollLower', 0.55], ['mouthUpperUpLeft', 0.25], ['mouthUpperUpRight', 0.25]),
+  ih: blend(['jawOpen', 0.2], ['mouthStretchLeft', 0.25], ['mouthStretchRight', 0.25]),
+  'k-g-h-ng': blend(['jawOpen', 0.3], ['mouthStretchLeft', 0.1], ['mouthStretchRight', 0.1]),
+  oh: blend(['mouthFunnel', 0.6], ['jawOpen', 0.4]),
+  r: blend(['mouthPucker', 0.45], ['jawOpen', 0.2]),
+  's-z': blend(['mouthStretchLeft', 0.35], ['mouthStretchRight', 0.35], ['mouthClose', 0.1], ['jawOpen', 0.05]),
+  't-l-d-n': blend(['jawOpen', 0.25], ['mouthShrugUpper', 0.1]),
+  th: blend(['tongueOut', 0.35], ['jawOpen', 0.15]),
+  'w-oo': blend(['mouthPucker', 0.8], ['mouthFunnel', 0.3], ['jawOpen', 0.1]),
+};
+
+/** Primary shape per viseme slot, for consumers that only read `visemeKeys`. */
+export const ARKIT_VISEME_KEYS: string[] = ARKIT_VISEME_SLOTS.map(
+  (slot) => String(ARKIT_VISEME_BINDINGS[slot.id]?.targets?.[0]?.morph ?? '')
+);
+
+// ============================================================================
+// ARKIT_PRESET - Main export for Profile
+// ============================================================================
+
+export const ARKIT_PRESET: Profile = {
+  name: 'Apple ARKit (52 blendshapes)',
+  animalType: 'human',
+  auToMorphs: ARKIT_AU_TO_MORPHS,
+  auToBones: ARKIT_BONE_AU_TO_BINDINGS,
+  boneNodes: ARKIT_BONE_NODES,
+  compositeRotations: ARKIT_COMPOSITE_ROTATIONS,
+  // Empty face list lets Loom3 auto-detect the head mesh that carries the shapes.
+  morphToMesh: { face: [] },
+  visemeKeys: ARKIT_VISEME_KEYS,
+  visemeSystemId: ARKIT_VISEME_SYSTEM_ID,
+  visemeSlots: ARKIT_VISEME_SLOTS,
+  visemeBindings: ARKIT_VISEME_BINDINGS,
+  // Only used when a profile adds a JAW bone; the bindings above already open the jaw morph.
+  visemeJawAmounts: VISEME_JAW_AMOUNTS,
+  auInfo: AU_INFO,
+  continuumPairs: ARKIT_CONTINUUM_PAIRS_MAP,
+};
+
+export default ARKIT_PRESET;
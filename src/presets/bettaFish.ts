@@ -19,7 +19,14 @@
  */
 
 import type { BoneBinding, AUInfo, CompositeRotation } from '../core/types';
-import type { AnnotationRegion, MeshInfo, MeshCategory, Profile } from '../mappings/types';
+import type {
+  AffectAnchor,
+  AnnotationRegion,
+  ExpressionDefinition,
+  MeshInfo,
+  MeshCategory,
+  Profile,
+} from '../mappings/types';
 import { checkBindingsForLeftRight } from './cc4';
 
 // ============================================================================
@@ -953,6 +960,76 @@ export const ANNOTATION_REGIONS: AnnotationRegion[] = [
   },
 ];
 
+// ============================================================================
+// EXPRESSIONS & AFFECT - Basic emotions mapped to betta body language
+// Overrides the FACS defaults by name so the same expression/affect API
+// drives fins, gills and posture instead of human AU numbers.
+// ============================================================================
+
+export const EXPRESSIONS: Record<string, ExpressionDefinition> = {
+  joy: {
+    label: 'Joy',
+    description: 'Relaxed open tail and lifted pectorals',
+    aus: { 14: 0.5, 20: 0.3, 22: 0.3 },
+    continuums: [{ negAU: 5, posAU: 4, value: 0.15 }],
+  },
+  sadness: {
+    label: 'Sadness',
+    description: 'Clamped tail, drooping fins, nose down',
+    aus: { 15: 0.7, 21: 0.3, 23: 0.3 },
+    continuums: [{ negAU: 5, posAU: 4, value: -0.3 }],
+  },
+  surprise: {
+    label: 'Surprise',
+    description: 'Quick gill flare with pectorals forward',
+    aus: { 45: 0.6, 46: 0.6, 14: 0.6, 24: 0.5, 26: 0.5 },
+  },
+  fear: {
+    label: 'Fear',
+    description: 'Fins clamped back against the body',
+    aus: { 15: 1, 25: 0.6, 27: 0.6, 31: 0.5, 33: 0.5 },
+    continuums: [{ negAU: 5, posAU: 4, value: -0.2 }],
+  },
+  anger: {
+    label: 'Anger',
+    description: 'Gill and fin flare',
+    aus: { 45: 1, 46: 1, 14: 1, 30: 0.6, 32: 0.6 },
+  },
+  disgust: {
+    label: 'Disgust',
+    description: 'Turning away with slightly flared gills',
+    aus: { 45: 0.3, 46: 0.3 },
+    continuums: [{ negAU: 2, posAU: 3, value: -0.3 }],
+  },
+  contempt: {
+    label: 'Contempt',
+    description: 'Side-on posture with partial tail spread',
+    aus: { 14: 0.3 },
+    continuums: [{ negAU: 2, posAU: 3, value: 0.2 }],
+  },
+  flare: {
+    label: 'Flare',
+    description: 'Full territorial display',
+    aus: { 45: 1, 46: 1, 14: 1, 20: 0.8, 22: 0.8, 30: 0.8, 32: 0.8 },
+    continuums: [{ negAU: 5, posAU: 4, value: 0.1 }],
+  },
+};
+
+/**
+ * Affect anchors - high-arousal dominant affect maps to the territorial
+ * flare rather than a facial anger pose.
+ */
+export const AFFECT_ANCHORS: AffectAnchor[] = [
+  { valence: 0, arousal: 0, dominance: 0 },
+  { expression: 'joy', valence: 0.76, arousal: 0.48, dominance: 0.35 },
+  { expression: 'surprise', valence: 0.4, arousal: 0.67, dominance: -0.13 },
+  { expression: 'fear', valence: -0.64, arousal: 0.6, dominance: -0.43 },
+  { expression: 'anger', valence: -0.51, arousal: 0.59, dominance: 0.25 },
+  { expression: 'flare', valence: -0.3, arousal: 0.9, dominance: 0.8 },
+  { expression: 'disgust', valence: -0.6, arousal: 0.35, dominance: 0.11 },
+  { expression: 'sadness', valence: -0.63, arousal: -0.27, dominance: -0.33 },
+];
+
 // ============================================================================
 // PRESET EXPORT
 // ============================================================================
@@ -979,6 +1056,10 @@ const BETTA_FISH_PROFILE: Profile = {
   auMixDefaults: {} as Record<number, number>,  // No mixed AUs (morph+bone) in this model
   continuumPairs: CONTINUUM_PAIRS_MAP,
   continuumLabels: CONTINUUM_LABELS,
+  expressions: EXPRESSIONS,
+  affectAnchors: AFFECT_ANCHORS,
+  // No eyelids - AU 45/5 are gill/pitch controls on this rig
+  blink: { blinkAUs: [], lidRaiseAUs: [] },
 };
 
 export const BETTA_FISH_PRESET = {
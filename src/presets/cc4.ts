@@ -899,6 +899,7 @@ export const CC4_SUFFIX_PATTERN = '_\\d+$|\\.\\d+$';
 // Canonical CC4 bone names WITHOUT prefix (engine will prepend CC4_BONE_PREFIX).
 // This allows fuzzy matching for models with suffixed bone names.
 export const CC4_BONE_NODES = {
+  HIPS: 'Hip',
   EYE_L: 'L_Eye',
   EYE_R: 'R_Eye',
   HEAD: 'Head',
@@ -910,8 +911,16 @@ export const CC4_BONE_NODES = {
   SPINE_02: 'Spine02',
   CLAVICLE_L: 'L_Clavicle',
   CLAVICLE_R: 'R_Clavicle',
+  UPPERARM_L: 'L_Upperarm',
+  UPPERARM_R: 'R_Upperarm',
+  LOWERARM_L: 'L_Forearm',
+  LOWERARM_R: 'R_Forearm',
   HAND_L: 'L_Hand',
   HAND_R: 'R_Hand',
+  UPPERLEG_L: 'L_Thigh',
+  UPPERLEG_R: 'R_Thigh',
+  LOWERLEG_L: 'L_Calf',
+  LOWERLEG_R: 'R_Calf',
   FOOT_L: 'L_Foot',
   FOOT_R: 'R_Foot',
   TOEBASE_L: 'L_ToeBase',
@@ -0,0 +1,311 @@
+/**
+ * Genesis Preset - Daz Genesis 9 (and 8.1) AU mappings
+ *
+ * Genesis 9 ships FACS expression units as morphs named `facs_bs_*` (blendshape
+ * units) and `facs_jnt_*` (joint-corrective units), plus `facs_ctrl_v*` viseme
+ * controls. The shared `facs_` part is applied through `morphPrefix`, so keys
+ * below are written without it. Exporters that keep Daz's `_div2` split
+ * suffixes are covered by `suffixPattern`.
+ *
+ * Genesis 8.1 uses the same FACS units with camelCase bone names (`lEye`,
+ * `lowerJaw`); `GENESIS8_PRESET` swaps in those bones.
+ */
+
+import type { MeshInfo, MorphCategory, MorphTargetsBySide, Profile, VisemeSlot } from '../mappings/types';
+import type { BoneBinding, CompositeRotation } from '../core/types';
+import { AU_INFO, CC4_VISEME_SLOTS, VISEME_JAW_AMOUNTS } from './cc4';
+
+export const GENESIS_MORPH_PREFIX = 'facs_';
+
+/** Numbered re-export suffixes plus Daz `_div2` split-morph suffixes. */
+export const GENESIS_SUFFIX_PATTERN = '_div\\d+$|_\\d+$|\\.\\d+$';
+
+// ============================================================================
+// AU TO MORPHS - Genesis FACS units (without the `facs_` prefix)
+// ============================================================================
+
+const bilateral = (base: string): MorphTargetsBySide => ({
+  left: [`${base}Left`],
+  right: [`${base}Right`],
+  center: [],
+});
+
+const center = (...keys: string[]): MorphTargetsBySide => ({ left: [], right: [], center: keys });
+
+export const GENESIS_AU_TO_MORPHS: Record<number, MorphTargetsBySide> = {
+  // Brows
+  1: bilateral('bs_BrowInnerUp'),
+  2: bilateral('bs_BrowOuterUp'),
+  4: bilateral('bs_BrowDown'),
+  // Lids and cheeks
+  5: bilateral('bs_EyeWide'),
+  6: bilateral('bs_CheekSquint'),
+  7: bilateral('bs_EyeSquint'),
+  43: bilateral('jnt_EyeBlink'),
+  45: bilateral('jnt_EyeBlink'),
+  // Nose and mouth
+  8: center('bs_MouthClose'),
+  9: bilateral('bs_NoseSneer'),
+  10: bilateral('bs_MouthUpperUp'),
+  12: bilateral('bs_MouthSmile'),
+  14: bilateral('bs_MouthDimple'),
+  15: bilateral('bs_MouthFrown'),
+  16: bilateral('bs_MouthLowerDown'),
+  17: center('bs_MouthShrugLower'),
+  18: center('bs_MouthPucker'),
+  20: bilateral('bs_MouthStretch'),
+  22: center('bs_MouthFunnel'),
+  23: bilateral('bs_MouthPress'),
+  24: bilateral('bs_MouthPress'),
+  28: center('bs_MouthRollUpper', 'bs_MouthRollLower'),
+  32: center('bs_MouthRollLower'),
+  34: center('bs_CheekPuff'),
+  // Jaw and tongue
+  19: center('bs_TongueOut'),
+  25: center('jnt_JawOpen'),
+  26: center('jnt_JawOpen'),
+  27: center('jnt_JawOpen'),
+  29: center('jnt_JawForward'),
+  30: center('jnt_JawLeft'),
+  35: center('jnt_JawRight'),
+};
+
+// ============================================================================
+// BONES
+// ============================================================================
+
+export const GENESIS9_BONE_NODES = {
+  HIPS: 'hip',
+  HEAD: 'head',
+  NECK: 'neck1',
+  NECK_TWIST: 'neck2',
+  JAW: 'lowerjaw',
+  TONGUE: 'tongue01',
+  EYE_L: 'l_eye',
+  EYE_R: 'r_eye',
+  SPINE_01: 'spine2',
+  SPINE_02: 'spine3',
+  CLAVICLE_L: 'l_shoulder',
+  CLAVICLE_R: 'r_shoulder',
+  UPPERARM_L: 'l_upperarm',
+  UPPERARM_R: 'r_upperarm',
+  LOWERARM_L: 'l_forearm',
+  LOWERARM_R: 'r_forearm',
+  HAND_L: 'l_hand',
+  HAND_R: 'r_hand',
+  UPPERLEG_L: 'l_thigh',
+  UPPERLEG_R: 'r_thigh',
+  LOWERLEG_L: 'l_shin',
+  LOWERLEG_R: 'r_shin',
+  FOOT_L: 'l_foot',
+  FOOT_R: 'r_foot',
+  TOEBASE_L: 'l_toes',
+  TOEBASE_R: 'r_toes',
+} as const;
+
+export const GENESIS8_BONE_NODES = {
+  HIPS: 'hip',
+  HEAD: 'head',
+  NECK: 'neckLower',
+  NECK_TWIST: 'neckUpper',
+  JAW: 'lowerJaw',
+  TONGUE: 'tongue01',
+  EYE_L: 'lEye',
+  EYE_R: 'rEye',
+  SPINE_01: 'abdomenUpper',
+  SPINE_02: 'chestLower',
+  CLAVICLE_L: 'lCollar',
+  CLAVICLE_R: 'rCollar',
+  UPPERARM_L: 'lShldrBend',
+  UPPERARM_R: 'rShldrBend',
+  LOWERARM_L: 'lForearmBend',
+  LOWERARM_R: 'rForearmBend',
+  HAND_L: 'lHand',
+  HAND_R: 'rHand',
+  UPPERLEG_L: 'lThighBend',
+  UPPERLEG_R: 'rThighBend',
+  LOWERLEG_L: 'lShin',
+  LOWERLEG_R: 'rShin',
+  FOOT_L: 'lFoot',
+  FOOT_R: 'rFoot',
+  TOEBASE_L: 'lToe',
+  TOEBASE_R: 'rToe',
+} as const;
+
+// Jaw AUs are mixed: the jnt_ morph carries the lip/cheek correctives, the bone opens the jaw.
+export const GENESIS_BONE_AU_TO_BINDINGS: Record<number, BoneBinding[]> = {
+  25: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 8 }],
+  26: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 18 }],
+  27: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 25 }],
+  30: [{ node: 'JAW', channel: 'ry', scale: 1, maxDegrees: 6 }],
+  35: [{ node: 'JAW', channel: 'ry', scale: -1, maxDegrees: 6 }],
+  51: [
+    { node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 45 },
+    { node: 'NECK', channel: 'ry', scale: 1, maxDegrees: 20 },
+  ],
+  52: [
+    { node: 'HEAD', channel: 'ry', scale: -1, maxDegrees: 45 },
+    { node: 'NECK', channel: 'ry', scale: -1, maxDegrees: 20 },
+  ],
+  53: [
+    { node: 'HEAD', channel: 'rx', scale: -1, maxDegrees: 25 },
+    { node: 'NECK', channel: 'rx', scale: -1, maxDegrees: 10 },
+  ],
+  54: [
+    { node: 'HEAD', channel: 'rx', scale: 1, maxDegrees: 30 },
+    { node: 'NECK', channel: 'rx', scale: 1, maxDegrees: 12 },
+  ],
+  55: [{ node: 'HEAD', channel: 'rz', scale: -1, maxDegrees: 25 }],
+  56: [{ node: 'HEAD', channel: 'rz', scale: 1, maxDegrees: 25 }],
+  61: [
+    { node: 'EYE_L', channel: 'ry', scale: 1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: 1, maxDegrees: 25, side: 'right' },
+  ],
+  62: [
+    { node: 'EYE_L', channel: 'ry', scale: -1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: -1, maxDegrees: 25, side: 'right' },
+  ],
+  63: [
+    { node: 'EYE_L', channel: 'rx', scale: -1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: -1, maxDegrees: 20, side: 'right' },
+  ],
+  64: [
+    { node: 'EYE_L', channel: 'rx', scale: 1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: 1, maxDegrees: 20, side: 'right' },
+  ],
+};
+
+export const GENESIS_AU_MIX_DEFAULTS: Record<number, number> = {
+  25: 0.5, 26: 0.5, 27: 0.5,
+  30: 0.5, 35: 0.5,
+};
+
+const EYE_AXES: Omit<CompositeRotation, 'node'> = {
+  pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+  yaw: { aus: [61, 62], axis: 'ry', negative: 61, positive: 62 },
+  roll: null,
+};
+
+export const GENESIS_COMPOSITE_ROTATIONS: CompositeRotation[] = [
+  {
+    node: 'JAW',
+    pitch: { aus: [25, 26, 27], axis: 'rx' },
+    yaw: { aus: [30, 35], axis: 'ry', negative: 30, positive: 35 },
+    roll: null,
+  },
+  {
+    node: 'HEAD',
+    pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+    yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+    roll: { aus: [55, 56], axis: 'rz', negative: 55, positive: 56 },
+  },
+  {
+    node: 'NECK',
+    pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+    yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+    roll: null,
+  },
+  { node: 'EYE_L', ...EYE_AXES },
+  { node: 'EYE_R', ...EYE_AXES },
+];
+
+export const GENESIS_CONTINUUM_PAIRS_MAP: NonNullable<Profile['continuumPairs']> = {
+  61: { pairId: 62, isNegative: true, axis: 'yaw', node: 'EYE_L' },
+  62: { pairId: 61, isNegative: false, axis: 'yaw', node: 'EYE_L' },
+  64: { pairId: 63, isNegative: true, axis: 'pitch', node: 'EYE_L' },
+  63: { pairId: 64, isNegative: false, axis: 'pitch', node: 'EYE_L' },
+  51: { pairId: 52, isNegative: true, axis: 'yaw', node: 'HEAD' },
+  52: { pairId: 51, isNegative: false, axis: 'yaw', node: 'HEAD' },
+  54: { pairId: 53, isNegative: true, axis: 'pitch', node: 'HEAD' },
+  53: { pairId: 54, isNegative: false, axis: 'pitch', node: 'HEAD' },
+  55: { pairId: 56, isNegative: true, axis: 'roll', node: 'HEAD' },
+  56: { pairId: 55, isNegative: false, axis: 'roll', node: 'HEAD' },
+  30: { pairId: 35, isNegative: true, axis: 'yaw', node: 'JAW' },
+  35: { pairId: 30, isNegative: false, axis: 'yaw', node: 'JAW' },
+};
+
+// ============================================================================
+// VISEMES - Genesis viseme controls mapped onto the CC4 slot layout
+// ============================================================================
+
+export const GENESIS_VISEME_SYSTEM_ID = 'genesis-ctrl-15';
+
+/** Same slots (ids, phonemes, provider ids, features) as CC4, without CC4 morph-name matchers. */
+export const GENESIS_VISEME_SLOTS: VisemeSlot[] = CC4_VISEME_SLOTS.map(({ matchers: _matchers, ...slot }) => ({ ...slot }));
+
+/** Viseme control per slot, in `GENESIS_VISEME_SLOTS` order (without the `facs_` prefix). */
+export const GENESIS_VISEME_KEYS: string[] = [
+  'ctrl_vEH', // ae
+  'ctrl_vAA', // ah
+  'ctrl_vM', // b-m-p
+  'ctrl_vCH', // ch-j
+  'ctrl_vEE', // ee
+  'ctrl_vER', // er
+  'ctrl_vF', // f-v
+  'ctrl_vIH', // ih
+  'ctrl_vK', // k-g-h-ng
+  'ctrl_vOW', // oh
+  'ctrl_vR', // r
+  'ctrl_vS', // s-z
+  'ctrl_vL', // t-l-d-n
+  'ctrl_vTH', // th
+  'ctrl_vUW', // w-oo
+];
+
+// ============================================================================
+// MESHES
+// ============================================================================
+
+export const GENESIS9_MORPH_TO_MESH: Record<MorphCategory, string[]> = {
+  // Eyelashes carry the same FACS units so they follow blinks and brows.
+  face: ['Genesis9', 'Genesis9Eyelashes'],
+  viseme: ['Genesis9'],
+  eye: ['Genesis9Eyes'],
+  tongue: ['Genesis9Mouth'],
+  hair: [],
+};
+
+export const GENESIS9_MESHES: Record<string, MeshInfo> = {
+  Genesis9: { category: 'body', morphCount: 0 },
+  Genesis9Eyes: { category: 'eye', morphCount: 0, material: { renderOrder: -10 } },
+  Genesis9Mouth: { category: 'teeth', morphCount: 0 },
+  Genesis9Eyelashes: { category: 'eyelash', morphCount: 0, material: { renderOrder: 2, transparent: true } },
+  Genesis9Tear: { category: 'tearLine', morphCount: 0, material: { renderOrder: 2, transparent: true } },
+};
+
+// ============================================================================
+// GENESIS PRESETS - Main exports for Profile
+// ============================================================================
+
+export const GENESIS9_PRESET: Profile = {
+  name: 'Daz Genesis 9',
+  animalType: 'human',
+  auToMorphs: GENESIS_AU_TO_MORPHS,
+  auToBones: GENESIS_BONE_AU_TO_BINDINGS,
+  boneNodes: GENESIS9_BONE_NODES,
+  morphPrefix: GENESIS_MORPH_PREFIX,
+  suffixPattern: GENESIS_SUFFIX_PATTERN,
+  morphToMesh: GENESIS9_MORPH_TO_MESH,
+  visemeKeys: GENESIS_VISEME_KEYS,
+  visemeSystemId: GENESIS_VISEME_SYSTEM_ID,
+  visemeSlots: GENESIS_VISEME_SLOTS,
+  visemeMeshCategory: 'viseme',
+  visemeJawAmounts: VISEME_JAW_AMOUNTS,
+  auMixDefaults: GENESIS_AU_MIX_DEFAULTS,
+  auInfo: AU_INFO,
+  compositeRotations: GENESIS_COMPOSITE_ROTATIONS,
+  continuumPairs: GENESIS_CONTINUUM_PAIRS_MAP,
+  meshes: GENESIS9_MESHES,
+};
+
+/** Genesis 8.1: same FACS units, camelCase bones; mesh names vary per figure, so the face is auto-detected. */
+export const GENESIS8_PRESET: Profile = {
+  ...GENESIS9_PRESET,
+  name: 'Daz Genesis 8.1',
+  boneNodes: GENESIS8_BONE_NODES,
+  morphToMesh: { face: [] },
+  visemeMeshCategory: undefined,
+  meshes: undefined,
+};
+
+export default GENESIS9_PRESET;
@@ -1,5 +1,14 @@
 import { describe, expect, it } from 'vitest';
-import { BETTA_FISH_PRESET, FISH_AU_MAPPING_CONFIG, getPreset } from './index';
+import {
+  BETTA_FISH_PRESET,
+  FISH_AU_MAPPING_CONFIG,
+  GENESIS8_PRESET,
+  GENESIS9_PRESET,
+  MIXAMO_PRESET,
+  RPM_PRESET,
+  VRM_PRESET,
+  getPreset,
+} from './index';
 
 describe('getPreset', () => {
   it('returns the single Betta fish preset object for fish aliases', () => {
@@ -7,6 +16,25 @@ describe('getPreset', () => {
     expect(getPreset('skeletal')).toBe(BETTA_FISH_PRESET);
   });
 
+  it('returns the VRM preset for vrm', () => {
+    expect(getPreset('vrm')).toBe(VRM_PRESET);
+  });
+
+  it('returns the Mixamo preset for mixamo', () => {
+    expect(getPreset('mixamo')).toBe(MIXAMO_PRESET);
+  });
+
+  it('returns Genesis 9 by default and Genesis 8.1 on request', () => {
+    expect(getPreset('genesis')).toBe(GENESIS9_PRESET);
+    expect(getPreset('genesis9')).toBe(GENESIS9_PRESET);
+    expect(getPreset('genesis8')).toBe(GENESIS8_PRESET);
+  });
+
+  it('returns the Ready Player Me preset for rpm aliases', () => {
+    expect(getPreset('rpm')).toBe(RPM_PRESET);
+    expect(getPreset('readyplayerme')).toBe(RPM_PRESET);
+  });
+
   it('keeps the legacy fish mapping alias pointed at the real fish preset', () => {
     expect(FISH_AU_MAPPING_CONFIG).toBe(BETTA_FISH_PRESET);
   });
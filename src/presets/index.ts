@@ -23,12 +23,98 @@ export {
   BONE_BINDINGS as FISH_BONE_BINDINGS,
   COMPOSITE_ROTATIONS as FISH_COMPOSITE_ROTATIONS,
   EYE_MESH_NODES as FISH_EYE_MESH_NODES,
+  EXPRESSIONS as FISH_EXPRESSIONS,
+  AFFECT_ANCHORS as FISH_AFFECT_ANCHORS,
 } from './bettaFish';
 
+// ARKit preset (Apple's 52 blendshape names)
+import { ARKIT_PRESET } from './arkit';
+export {
+  ARKIT_PRESET,
+  ARKIT_BLENDSHAPES,
+  ARKIT_AU_TO_MORPHS,
+  ARKIT_BONE_AU_TO_BINDINGS,
+  ARKIT_BONE_NODES,
+  ARKIT_COMPOSITE_ROTATIONS,
+  ARKIT_CONTINUUM_PAIRS_MAP,
+  ARKIT_VISEME_SYSTEM_ID,
+  ARKIT_VISEME_SLOTS,
+  ARKIT_VISEME_BINDINGS,
+  ARKIT_VISEME_KEYS,
+} from './arkit';
+export type { ARKitBlendshape } from './arkit';
+
+// VRM preset (VRM 0.x / 1.0 expressions and humanoid bones)
+import { VRM_PRESET } from './vrm';
+export {
+  VRM_PRESET,
+  VRM_EXPRESSION_NAMES,
+  VRM0_EXPRESSION_ALIASES,
+  VRM_AU_TO_MORPHS,
+  VRM_HUMAN_BONE_KEYS,
+  VRM_BONE_NODES,
+  VRM_BONE_AU_TO_BINDINGS,
+  VRM_COMPOSITE_ROTATIONS,
+  VRM_CONTINUUM_PAIRS_MAP,
+  VRM_VISEME_SYSTEM_ID,
+  VRM_VISEME_SLOTS,
+  VRM_VISEME_BINDINGS,
+  VRM_VISEME_KEYS,
+  normalizeVRMExpressionName,
+} from './vrm';
+export type { VRMExpressionName } from './vrm';
+
+// Mixamo preset (body-only skeletal rigs)
+import { MIXAMO_PRESET } from './mixamo';
+export {
+  MIXAMO_PRESET,
+  MIXAMO_BONE_PREFIX,
+  MIXAMO_BONE_NODES,
+  MIXAMO_BONE_BINDINGS,
+  MIXAMO_AU_INFO,
+  MIXAMO_CONTINUUM_PAIRS_MAP,
+  MIXAMO_COMPOSITE_ROTATIONS,
+  detectMixamoBonePrefix,
+  mixamoHasLeftRightBones,
+} from './mixamo';
+
+// Daz Genesis presets (Genesis 9 FACS units, Genesis 8.1 bones)
+import { GENESIS8_PRESET, GENESIS9_PRESET } from './genesis';
+export {
+  GENESIS9_PRESET,
+  GENESIS8_PRESET,
+  GENESIS_MORPH_PREFIX,
+  GENESIS_SUFFIX_PATTERN,
+  GENESIS_AU_TO_MORPHS,
+  GENESIS9_BONE_NODES,
+  GENESIS8_BONE_NODES,
+  GENESIS_BONE_AU_TO_BINDINGS,
+  GENESIS_AU_MIX_DEFAULTS,
+  GENESIS_COMPOSITE_ROTATIONS,
+  GENESIS_CONTINUUM_PAIRS_MAP,
+  GENESIS_VISEME_SYSTEM_ID,
+  GENESIS_VISEME_SLOTS,
+  GENESIS_VISEME_KEYS,
+  GENESIS9_MORPH_TO_MESH,
+  GENESIS9_MESHES,
+} from './genesis';
+
+// Ready Player Me preset (ARKit shapes plus Oculus visemes)
+import { RPM_PRESET } from './readyPlayerMe';
+export {
+  RPM_PRESET,
+  RPM_BONE_NODES,
+  RPM_MORPH_TO_MESH,
+  RPM_AU_FACEPART_TO_MESH_CATEGORY,
+  OCULUS_VISEME_SYSTEM_ID,
+  OCULUS_VISEME_SLOTS,
+  OCULUS_VISEME_KEYS,
+} from './readyPlayerMe';
+
 /**
  * Preset types that can be passed to Loom3
  */
-export type PresetType = 'cc4' | 'skeletal' | 'fish' | 'custom';
+export type PresetType = 'cc4' | 'arkit' | 'vrm' | 'mixamo' | 'genesis' | 'genesis9' | 'genesis8' | 'rpm' | 'readyplayerme' | 'skeletal' | 'fish' | 'custom';
 
 // Import CC4_PRESET at module level for getPreset
 import { CC4_PRESET } from './cc4';
@@ -42,6 +128,20 @@ export function getPreset(presetType: PresetType | string | undefined) {
     case 'fish':
     case 'skeletal':
       return BETTA_FISH_PRESET;
+    case 'arkit':
+      return ARKIT_PRESET;
+    case 'vrm':
+      return VRM_PRESET;
+    case 'mixamo':
+      return MIXAMO_PRESET;
+    case 'genesis':
+    case 'genesis9':
+      return GENESIS9_PRESET;
+    case 'genesis8':
+      return GENESIS8_PRESET;
+    case 'rpm':
+    case 'readyplayerme':
+      return RPM_PRESET;
     case 'cc4':
     case 'custom':
     default:
@@ -0,0 +1,307 @@
+/**
+ * Mixamo Preset - Skeletal mappings for Mixamo auto-rigged characters
+ *
+ * Body-only rigs: no morph targets, so every action unit is a bone rotation.
+ * Head and eye AUs keep their FACS ids (51-56, 61-64) so code written against
+ * CC4 drives these characters too; torso lean and shoulder shrug get their own
+ * ids (110-116). Jaw and eye bones only exist on some Mixamo characters; their
+ * AUs are no-ops when the bones are missing.
+ *
+ * Axes follow Mixamo's bone orientation (bone Y along the limb, Z forward).
+ */
+
+import type { AUInfo, BoneBinding, CompositeRotation } from '../core/types';
+import type { MorphTargetsBySide, Profile } from '../mappings/types';
+import { checkBindingsForLeftRight } from './cc4';
+
+// ============================================================================
+// BONE NAMES
+// ============================================================================
+
+/**
+ * Mixamo exports name bones `mixamorig:Hips`. three's FBX and glTF loaders strip
+ * the colon (`mixamorigHips`), so that is the default; use
+ * `detectMixamoBonePrefix()` for raw names or numbered rigs (`mixamorig1:`).
+ */
+export const MIXAMO_BONE_PREFIX = 'mixamorig';
+
+export const MIXAMO_BONE_NODES = {
+  HIPS: 'Hips',
+  SPINE_01: 'Spine',
+  SPINE_02: 'Spine1',
+  SPINE_03: 'Spine2',
+  NECK: 'Neck',
+  HEAD: 'Head',
+  JAW: 'Jaw',
+  EYE_L: 'LeftEye',
+  EYE_R: 'RightEye',
+  CLAVICLE_L: 'LeftShoulder',
+  CLAVICLE_R: 'RightShoulder',
+  UPPERARM_L: 'LeftArm',
+  UPPERARM_R: 'RightArm',
+  LOWERARM_L: 'LeftForeArm',
+  LOWERARM_R: 'RightForeArm',
+  HAND_L: 'LeftHand',
+  HAND_R: 'RightHand',
+  UPPERLEG_L: 'LeftUpLeg',
+  UPPERLEG_R: 'RightUpLeg',
+  LOWERLEG_L: 'LeftLeg',
+  LOWERLEG_R: 'RightLeg',
+  FOOT_L: 'LeftFoot',
+  FOOT_R: 'RightFoot',
+  TOEBASE_L: 'LeftToeBase',
+  TOEBASE_R: 'RightToeBase',
+} as const;
+
+/**
+ * Find the Mixamo bone prefix actually used by a skeleton (`mixamorig`,
+ * `mixamorig:`, `mixamorig2`, ...) from its bone or node names.
+ * Returns undefined when no Mixamo hips bone is present.
+ */
+export function detectMixamoBonePrefix(names: Iterable<string>): string | undefined {
+  for (const name of names) {
+    const match = /^(mixamorig\d*:?)Hips$/.exec(name);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+// ============================================================================
+// AU IDS
+// ============================================================================
+
+// Jaw (AU 25-27, FACS): lips part / jaw drop / mouth stretch on the JAW bone
+// Head (AU 51-56, FACS): turn left/right, up/down, tilt left/right
+// Eyes (AU 61-64, FACS): left/right, up/down
+// Torso (AU 110-115): lean forward/back, lean left/right, turn left/right
+// Shoulders (AU 116): shrug, bilateral with balance
+
+// ============================================================================
+// BONE BINDINGS - Map AU IDs to bone rotations
+// ============================================================================
+
+export const MIXAMO_BONE_BINDINGS: Record<number, BoneBinding[]> = {
+  // ========== JAW (AU 25-27) ==========
+  25: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 8 }],
+  26: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 18 }],
+  27: [{ node: 'JAW', channel: 'rx', scale: 1, maxDegrees: 25 }],
+
+  // ========== HEAD (AU 51-56) ==========
+  // The neck carries a third of each head motion so turns don't hinge at one joint.
+  51: [
+    { node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 45 },
+    { node: 'NECK', channel: 'ry', scale: 1, maxDegrees: 20 },
+  ],
+  52: [
+    { node: 'HEAD', channel: 'ry', scale: -1, maxDegrees: 45 },
+    { node: 'NECK', channel: 'ry', scale: -1, maxDegrees: 20 },
+  ],
+  53: [
+    { node: 'HEAD', channel: 'rx', scale: -1, maxDegrees: 25 },
+    { node: 'NECK', channel: 'rx', scale: -1, maxDegrees: 10 },
+  ],
+  54: [
+    { node: 'HEAD', channel: 'rx', scale: 1, maxDegrees: 30 },
+    { node: 'NECK', channel: 'rx', scale: 1, maxDegrees: 12 },
+  ],
+  55: [
+    { node: 'HEAD', channel: 'rz', scale: -1, maxDegrees: 20 },
+    { node: 'NECK', channel: 'rz', scale: -1, maxDegrees: 8 },
+  ],
+  56: [
+    { node: 'HEAD', channel: 'rz', scale: 1, maxDegrees: 20 },
+    { node: 'NECK', channel: 'rz', scale: 1, maxDegrees: 8 },
+  ],
+
+  // ========== EYES (AU 61-64) ==========
+  61: [
+    { node: 'EYE_L', channel: 'ry', scale: 1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: 1, maxDegrees: 25, side: 'right' },
+  ],
+  62: [
+    { node: 'EYE_L', channel: 'ry', scale: -1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: -1, maxDegrees: 25, side: 'right' },
+  ],
+  63: [
+    { node: 'EYE_L', channel: 'rx', scale: -1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: -1, maxDegrees: 20, side: 'right' },
+  ],
+  64: [
+    { node: 'EYE_L', channel: 'rx', scale: 1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: 1, maxDegrees: 20, side: 'right' },
+  ],
+
+  // ========== TORSO (AU 110-115) ==========
+  // Spread across the three spine bones, heaviest at the base.
+  110: [
+    { node: 'SPINE_01', channel: 'rx', scale: 1, maxDegrees: 12 },
+    { node: 'SPINE_02', channel: 'rx', scale: 1, maxDegrees: 10 },
+    { node: 'SPINE_03', channel: 'rx', scale: 1, maxDegrees: 8 },
+  ],
+  111: [
+    { node: 'SPINE_01', channel: 'rx', scale: -1, maxDegrees: 8 },
+    { node: 'SPINE_02', channel: 'rx', scale: -1, maxDegrees: 6 },
+    { node: 'SPINE_03', channel: 'rx', scale: -1, maxDegrees: 5 },
+  ],
+  112: [
+    { node: 'SPINE_01', channel: 'rz', scale: -1, maxDegrees: 8 },
+    { node: 'SPINE_02', channel: 'rz', scale: -1, maxDegrees: 6 },
+    { node: 'SPINE_03', channel: 'rz', scale: -1, maxDegrees: 5 },
+  ],
+  113: [
+    { node: 'SPINE_01', channel: 'rz', scale: 1, maxDegrees: 8 },
+    { node: 'SPINE_02', channel: 'rz', scale: 1, maxDegrees: 6 },
+    { node: 'SPINE_03', channel: 'rz', scale: 1, maxDegrees: 5 },
+  ],
+  114: [
+    { node: 'SPINE_01', channel: 'ry', scale: 1, maxDegrees: 10 },
+    { node: 'SPINE_02', channel: 'ry', scale: 1, maxDegrees: 10 },
+    { node: 'SPINE_03', channel: 'ry', scale: 1, maxDegrees: 10 },
+  ],
+  115: [
+    { node: 'SPINE_01', channel: 'ry', scale: -1, maxDegrees: 10 },
+    { node: 'SPINE_02', channel: 'ry', scale: -1, maxDegrees: 10 },
+    { node: 'SPINE_03', channel: 'ry', scale: -1, maxDegrees: 10 },
+  ],
+
+  // ========== SHOULDERS (AU 116) ==========
+  116: [
+    { node: 'CLAVICLE_L', channel: 'rz', scale: 1, maxDegrees: 15, side: 'left' },
+    { node: 'CLAVICLE_R', channel: 'rz', scale: -1, maxDegrees: 15, side: 'right' },
+  ],
+};
+
+// ============================================================================
+// AU INFO - facePart groups controls in the UI
+// ============================================================================
+
+export const MIXAMO_AU_INFO: Record<string, AUInfo> = {
+  // Jaw
+  '25': { id: '25', name: 'Lips Part', faceArea: 'Lower', facePart: 'Jaw' },
+  '26': { id: '26', name: 'Jaw Drop', faceArea: 'Lower', facePart: 'Jaw' },
+  '27': { id: '27', name: 'Mouth Stretch', faceArea: 'Lower', facePart: 'Jaw' },
+
+  // Head
+  '51': { id: '51', name: 'Head Turn Left', faceArea: 'Upper', facePart: 'Head' },
+  '52': { id: '52', name: 'Head Turn Right', faceArea: 'Upper', facePart: 'Head' },
+  '53': { id: '53', name: 'Head Up', faceArea: 'Upper', facePart: 'Head' },
+  '54': { id: '54', name: 'Head Down', faceArea: 'Upper', facePart: 'Head' },
+  '55': { id: '55', name: 'Head Tilt Left', faceArea: 'Upper', facePart: 'Head' },
+  '56': { id: '56', name: 'Head Tilt Right', faceArea: 'Upper', facePart: 'Head' },
+
+  // Eyes
+  '61': { id: '61', name: 'Eyes Turn Left', faceArea: 'Upper', facePart: 'Eye' },
+  '62': { id: '62', name: 'Eyes Turn Right', faceArea: 'Upper', facePart: 'Eye' },
+  '63': { id: '63', name: 'Eyes Up', faceArea: 'Upper', facePart: 'Eye' },
+  '64': { id: '64', name: 'Eyes Down', faceArea: 'Upper', facePart: 'Eye' },
+
+  // Torso
+  '110': { id: '110', name: 'Lean Forward', facePart: 'Torso' },
+  '111': { id: '111', name: 'Lean Back', facePart: 'Torso' },
+  '112': { id: '112', name: 'Lean Left', facePart: 'Torso' },
+  '113': { id: '113', name: 'Lean Right', facePart: 'Torso' },
+  '114': { id: '114', name: 'Torso Turn Left', facePart: 'Torso' },
+  '115': { id: '115', name: 'Torso Turn Right', facePart: 'Torso' },
+
+  // Shoulders
+  '116': { id: '116', name: 'Shoulder Shrug', facePart: 'Shoulders' },
+};
+
+// ============================================================================
+// CONTINUUM PAIRS - Bidirectional sliders
+// ============================================================================
+
+export const MIXAMO_CONTINUUM_PAIRS_MAP: NonNullable<Profile['continuumPairs']> = {
+  51: { pairId: 52, isNegative: true, axis: 'yaw', node: 'HEAD' },
+  52: { pairId: 51, isNegative: false, axis: 'yaw', node: 'HEAD' },
+  54: { pairId: 53, isNegative: true, axis: 'pitch', node: 'HEAD' },
+  53: { pairId: 54, isNegative: false, axis: 'pitch', node: 'HEAD' },
+  55: { pairId: 56, isNegative: true, axis: 'roll', node: 'HEAD' },
+  56: { pairId: 55, isNegative: false, axis: 'roll', node: 'HEAD' },
+  61: { pairId: 62, isNegative: true, axis: 'yaw', node: 'EYE_L' },
+  62: { pairId: 61, isNegative: false, axis: 'yaw', node: 'EYE_L' },
+  64: { pairId: 63, isNegative: true, axis: 'pitch', node: 'EYE_L' },
+  63: { pairId: 64, isNegative: false, axis: 'pitch', node: 'EYE_L' },
+  111: { pairId: 110, isNegative: true, axis: 'pitch', node: 'SPINE_01' },
+  110: { pairId: 111, isNegative: false, axis: 'pitch', node: 'SPINE_01' },
+  112: { pairId: 113, isNegative: true, axis: 'roll', node: 'SPINE_01' },
+  113: { pairId: 112, isNegative: false, axis: 'roll', node: 'SPINE_01' },
+  114: { pairId: 115, isNegative: true, axis: 'yaw', node: 'SPINE_01' },
+  115: { pairId: 114, isNegative: false, axis: 'yaw', node: 'SPINE_01' },
+};
+
+// ============================================================================
+// COMPOSITE ROTATIONS - How AUs combine per bone axis
+// ============================================================================
+
+const HEAD_AXES: Omit<CompositeRotation, 'node'> = {
+  pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+  yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+  roll: { aus: [55, 56], axis: 'rz', negative: 55, positive: 56 },
+};
+
+const SPINE_AXES: Omit<CompositeRotation, 'node'> = {
+  pitch: { aus: [111, 110], axis: 'rx', negative: 111, positive: 110 },
+  yaw: { aus: [114, 115], axis: 'ry', negative: 114, positive: 115 },
+  roll: { aus: [112, 113], axis: 'rz', negative: 112, positive: 113 },
+};
+
+const EYE_AXES: Omit<CompositeRotation, 'node'> = {
+  pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+  yaw: { aus: [61, 62], axis: 'ry', negative: 61, positive: 62 },
+  roll: null,
+};
+
+export const MIXAMO_COMPOSITE_ROTATIONS: CompositeRotation[] = [
+  { node: 'JAW', pitch: { aus: [25, 26, 27], axis: 'rx' }, yaw: null, roll: null },
+  { node: 'HEAD', ...HEAD_AXES },
+  { node: 'NECK', ...HEAD_AXES },
+  { node: 'EYE_L', ...EYE_AXES },
+  { node: 'EYE_R', ...EYE_AXES },
+  { node: 'SPINE_01', ...SPINE_AXES },
+  { node: 'SPINE_02', ...SPINE_AXES },
+  { node: 'SPINE_03', ...SPINE_AXES },
+  { node: 'CLAVICLE_L', pitch: null, yaw: null, roll: { aus: [116], axis: 'rz' } },
+  { node: 'CLAVICLE_R', pitch: null, yaw: null, roll: { aus: [116], axis: 'rz' } },
+];
+
+// ============================================================================
+// MIXAMO_PRESET - Main export for Profile
+// ============================================================================
+
+export const MIXAMO_PRESET: Profile = {
+  name: 'Mixamo',
+  animalType: 'human',
+  auToBones: MIXAMO_BONE_BINDINGS,
+  boneNodes: MIXAMO_BONE_NODES,
+  bonePrefix: MIXAMO_BONE_PREFIX,
+  // Suffix pattern for fuzzy matching (Blender re-exports add .001)
+  suffixPattern: '_\\d+$|\\.\\d+$',
+  auToMorphs: {} as Record<number, MorphTargetsBySide>,
+  morphToMesh: {},
+  visemeKeys: [],
+  auInfo: MIXAMO_AU_INFO,
+  compositeRotations: MIXAMO_COMPOSITE_ROTATIONS,
+  continuumPairs: MIXAMO_CONTINUUM_PAIRS_MAP,
+  // No eyelids to blink
+  blink: { blinkAUs: [], lidRaiseAUs: [] },
+  // Mixamo spines have three bones; breathe through the upper two and the shoulders.
+  breathing: {
+    bones: [
+      { node: 'SPINE_02', rx: -0.8 },
+      { node: 'SPINE_03', rx: -1.2 },
+      { node: 'CLAVICLE_L', rz: 1.2 },
+      { node: 'CLAVICLE_R', rz: -1.2 },
+    ],
+  },
+};
+
+/**
+ * Check if an AU has bilateral bone bindings (L and R nodes)
+ * Used to determine if a balance slider should be shown
+ */
+export const mixamoHasLeftRightBones = (auId: number): boolean => {
+  return checkBindingsForLeftRight(MIXAMO_BONE_BINDINGS[auId]);
+};
+
+export default MIXAMO_PRESET;
@@ -0,0 +1,239 @@
+/**
+ * Ready Player Me Preset - ARKit blendshapes plus Oculus visemes
+ *
+ * Ready Player Me (Wolf3D) avatars carry the 52 ARKit shapes and the 15 Oculus
+ * `viseme_*` morphs on `Wolf3D_Head` / `Wolf3D_Teeth`, with eye-look shapes on
+ * the separate `EyeLeft` / `EyeRight` meshes. AU mappings come from the ARKit
+ * preset; visemes use the Oculus slot layout instead of the CC4 one.
+ */
+
+import type { MorphCategory, Profile, VisemeSlot } from '../mappings/types';
+import {
+  ARKIT_AU_TO_MORPHS,
+  ARKIT_BONE_AU_TO_BINDINGS,
+  ARKIT_COMPOSITE_ROTATIONS,
+  ARKIT_CONTINUUM_PAIRS_MAP,
+} from './arkit';
+import { AU_INFO } from './cc4';
+
+// ============================================================================
+// OCULUS VISEMES - OVRLipSync order, which is also Ready Player Me's
+// ============================================================================
+
+export const OCULUS_VISEME_SYSTEM_ID = 'oculus-15';
+
+const oculusMatcher = (id: string) => `(^|[_ .-])viseme[_ .-]?${id}$`;
+
+/**
+ * Oculus viseme slots. `oculus` provider ids are OVRLipSync indices; `azure` /
+ * `sapi` ids follow the Azure viseme chart (0 silence ... 21 p/b/m).
+ */
+export const OCULUS_VISEME_SLOTS: VisemeSlot[] = [
+  {
+    id: 'sil',
+    label: 'sil',
+    order: 0,
+    providerIds: { oculus: [0, 'sil'], azure: [0], sapi: [0] },
+    phonemes: ['SIL', 'SP'],
+    matchers: [oculusMatcher('sil')],
+    features: { jawOpen: 0 },
+  },
+  {
+    id: 'PP',
+    label: 'PP',
+    order: 1,
+    providerIds: { oculus: [1, 'PP'], azure: [21], sapi: [21] },
+    phonemes: ['B', 'M', 'P'],
+    matchers: [oculusMatcher('PP')],
+    features: { jawOpen: 0, lipClosed: 1 },
+  },
+  {
+    id: 'FF',
+    label: 'FF',
+    order: 2,
+    providerIds: { oculus: [2, 'FF'], azure: [18], sapi: [18] },
+    phonemes: ['F', 'V'],
+    matchers: [oculusMatcher('FF')],
+    features: { jawOpen: 0.1, fricative: 1 },
+  },
+  {
+    id: 'TH',
+    label: 'TH',
+    order: 3,
+    providerIds: { oculus: [3, 'TH'], azure: [17], sapi: [17] },
+    phonemes: ['TH', 'DH'],
+    matchers: [oculusMatcher('TH')],
+    features: { jawOpen: 0.2, tongueTip: 1, fricative: 0.6 },
+  },
+  {
+    id: 'DD',
+    label: 'DD',
+    order: 4,
+    providerIds: { oculus: [4, 'DD'], azure: [19], sapi: [19] },
+    phonemes: ['D', 'T'],
+    matchers: [oculusMatcher('DD')],
+    features: { jawOpen: 0.25, tongueTip: 1 },
+  },
+  {
+    id: 'kk',
+    label: 'kk',
+    order: 5,
+    providerIds: { oculus: [5, 'kk'], azure: [20], sapi: [20] },
+    phonemes: ['K', 'G', 'NG'],
+    matchers: [oculusMatcher('kk')],
+    features: { jawOpen: 0.35 },
+  },
+  {
+    id: 'CH',
+    label: 'CH',
+    order: 6,
+    providerIds: { oculus: [6, 'CH'], azure: [16], sapi: [16] },
+    phonemes: ['CH', 'JH', 'SH', 'ZH'],
+    matchers: [oculusMatcher('CH')],
+    features: { jawOpen: 0.2, lipRound: 0.4, fricative: 0.8 },
+  },
+  {
+    id: 'SS',
+    label: 'SS',
+    order: 7,
+    providerIds: { oculus: [7, 'SS'], azure: [15], sapi: [15] },
+    phonemes: ['S', 'Z'],
+    matchers: [oculusMatcher('SS')],
+    features: { jawOpen: 0.1, lipSpread: 0.4, fricative: 1 },
+  },
+  {
+    id: 'nn',
+    label: 'nn',
+    order: 8,
+    providerIds: { oculus: [8, 'nn'], azure: [14], sapi: [14] },
+    phonemes: ['N', 'L'],
+    matchers: [oculusMatcher('nn')],
+    features: { jawOpen: 0.2, tongueTip: 1, nasal: 1 },
+  },
+  {
+    id: 'RR',
+    label: 'RR',
+    order: 9,
+    providerIds: { oculus: [9, 'RR'], azure: [5, 13], sapi: [5, 13] },
+    phonemes: ['R', 'ER'],
+    matchers: [oculusMatcher('RR')],
+    features: { jawOpen: 0.25, lipRound: 0.5 },
+  },
+  {
+    id: 'aa',
+    label: 'aa',
+    order: 10,
+    providerIds: { oculus: [10, 'aa'], azure: [1, 2, 9, 11, 12], sapi: [1, 2, 9, 11, 12] },
+    phonemes: ['AA', 'AE', 'AH', 'AX', 'AW', 'AY', 'HH'],
+    matchers: [oculusMatcher('aa')],
+    features: { jawOpen: 0.9 },
+  },
+  {
+    id: 'E',
+    label: 'E',
+    order: 11,
+    providerIds: { oculus: [11, 'E'], azure: [4], sapi: [4] },
+    phonemes: ['EH', 'EY'],
+    matchers: [oculusMatcher('E')],
+    features: { jawOpen: 0.55, lipSpread: 0.4 },
+  },
+  {
+    id: 'I',
+    label: 'I',
+    order: 12,
+    providerIds: { oculus: [12, 'ih'], azure: [6], sapi: [6] },
+    phonemes: ['IH', 'IY', 'Y'],
+    matchers: [oculusMatcher('I')],
+    features: { jawOpen: 0.25, lipSpread: 0.8 },
+  },
+  {
+    id: 'O',
+    label: 'O',
+    order: 13,
+    providerIds: { oculus: [13, 'oh'], azure: [3, 8, 10], sapi: [3, 8, 10] },
+    phonemes: ['AO', 'OW', 'OY'],
+    matchers: [oculusMatcher('O')],
+    features: { jawOpen: 0.6, lipRound: 0.8 },
+  },
+  {
+    id: 'U',
+    label: 'U',
+    order: 14,
+    providerIds: { oculus: [14, 'ou'], azure: [7], sapi: [7] },
+    phonemes: ['UH', 'UW', 'W'],
+    matchers: [oculusMatcher('U')],
+    features: { jawOpen: 0.2, lipRound: 1 },
+  },
+];
+
+export const OCULUS_VISEME_KEYS: string[] = OCULUS_VISEME_SLOTS.map((slot) => `viseme_${slot.id}`);
+
+// ============================================================================
+// BONES AND MESHES
+// ============================================================================
+
+/** Ready Player Me armatures use Mixamo bone names without the `mixamorig` prefix. */
+export const RPM_BONE_NODES = {
+  HIPS: 'Hips',
+  SPINE_01: 'Spine',
+  SPINE_02: 'Spine1',
+  SPINE_03: 'Spine2',
+  NECK: 'Neck',
+  HEAD: 'Head',
+  EYE_L: 'LeftEye',
+  EYE_R: 'RightEye',
+  CLAVICLE_L: 'LeftShoulder',
+  CLAVICLE_R: 'RightShoulder',
+  UPPERARM_L: 'LeftArm',
+  UPPERARM_R: 'RightArm',
+  LOWERARM_L: 'LeftForeArm',
+  LOWERARM_R: 'RightForeArm',
+  HAND_L: 'LeftHand',
+  HAND_R: 'RightHand',
+  UPPERLEG_L: 'LeftUpLeg',
+  UPPERLEG_R: 'RightUpLeg',
+  LOWERLEG_L: 'LeftLeg',
+  LOWERLEG_R: 'RightLeg',
+  FOOT_L: 'LeftFoot',
+  FOOT_R: 'RightFoot',
+  TOEBASE_L: 'LeftToeBase',
+  TOEBASE_R: 'RightToeBase',
+} as const;
+
+export const RPM_MORPH_TO_MESH: Record<MorphCategory, string[]> = {
+  // Teeth carry jawOpen/mouthOpen and the visemes so they move with the lips.
+  face: ['Wolf3D_Head', 'Wolf3D_Teeth'],
+  viseme: ['Wolf3D_Head', 'Wolf3D_Teeth'],
+  // Eye-look shapes move both the eyeballs and the lids around them.
+  eye: ['EyeLeft', 'EyeRight', 'Wolf3D_Head'],
+  tongue: ['Wolf3D_Teeth'],
+  hair: [],
+};
+
+export const RPM_AU_FACEPART_TO_MESH_CATEGORY: Record<string, MorphCategory> = {
+  Eyes: 'eye',
+  Tongue: 'tongue',
+};
+
+// ============================================================================
+// RPM_PRESET - Main export for Profile
+// ============================================================================
+
+export const RPM_PRESET: Profile = {
+  name: 'Ready Player Me',
+  animalType: 'human',
+  auToMorphs: ARKIT_AU_TO_MORPHS,
+  auToBones: ARKIT_BONE_AU_TO_BINDINGS,
+  boneNodes: RPM_BONE_NODES,
+  compositeRotations: ARKIT_COMPOSITE_ROTATIONS,
+  morphToMesh: RPM_MORPH_TO_MESH,
+  auFacePartToMeshCategory: RPM_AU_FACEPART_TO_MESH_CATEGORY,
+  visemeKeys: OCULUS_VISEME_KEYS,
+  visemeSystemId: OCULUS_VISEME_SYSTEM_ID,
+  visemeSlots: OCULUS_VISEME_SLOTS,
+  visemeMeshCategory: 'viseme',
+  auInfo: AU_INFO,
+  continuumPairs: ARKIT_CONTINUUM_PAIRS_MAP,
+};
+
+export default RPM_PRESET;
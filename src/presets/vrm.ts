@@ -0,0 +1,265 @@
+/**
+ * VRM Preset - VRM 0.x / 1.0 humanoid and expression mappings
+ *
+ * VRM avatars expose named expressions (`aa`, `blinkLeft`, `happy`, ...) whose
+ * binds point at per-model mesh/morph indices, and a `humanoid` bone table.
+ * This preset uses the VRM 1.0 expression names as morph keys, which only
+ * resolve on models that name their shape keys after the expressions; use
+ * `profileFromVRM()` to resolve the binds of a loaded glTF into a real profile.
+ * Axes follow VRM 1.0 (model faces +Z, Y up).
+ */
+
+import type { Profile, MorphTargetsBySide, VisemeBinding, VisemeSlot } from '../mappings/types';
+import type { BoneBinding, CompositeRotation } from '../core/types';
+import { AU_INFO, CC4_VISEME_SLOTS, VISEME_JAW_AMOUNTS } from './cc4';
+
+// ============================================================================
+// EXPRESSION NAMES - VRM 1.0 presets and VRM 0.x aliases
+// ============================================================================
+
+export const VRM_EXPRESSION_NAMES = [
+  'happy', 'angry', 'sad', 'relaxed', 'surprised',
+  'aa', 'ih', 'ou', 'ee', 'oh',
+  'blink', 'blinkLeft', 'blinkRight',
+  'lookUp', 'lookDown', 'lookLeft', 'lookRight',
+  'neutral',
+] as const;
+
+export type VRMExpressionName = typeof VRM_EXPRESSION_NAMES[number];
+
+/** VRM 0.x `blendShapeGroups[].presetName` values and their VRM 1.0 equivalents. */
+export const VRM0_EXPRESSION_ALIASES: Record<string, VRMExpressionName> = {
+  a: 'aa',
+  i: 'ih',
+  u: 'ou',
+  e: 'ee',
+  o: 'oh',
+  blink: 'blink',
+  blink_l: 'blinkLeft',
+  blink_r: 'blinkRight',
+  joy: 'happy',
+  angry: 'angry',
+  sorrow: 'sad',
+  fun: 'relaxed',
+  surprised: 'surprised',
+  lookup: 'lookUp',
+  lookdown: 'lookDown',
+  lookleft: 'lookLeft',
+  lookright: 'lookRight',
+  neutral: 'neutral',
+};
+
+/**
+ * Map a VRM 0.x preset name or a VRM 1.0 expression name to its VRM 1.0 name.
+ * Returns undefined for custom expressions.
+ */
+export function normalizeVRMExpressionName(name: string): VRMExpressionName | undefined {
+  const exact = VRM_EXPRESSION_NAMES.find((candidate) => candidate === name);
+  if (exact) return exact;
+  const lower = name.toLowerCase();
+  return VRM0_EXPRESSION_ALIASES[lower]
+    ?? VRM_EXPRESSION_NAMES.find((candidate) => candidate.toLowerCase() === lower);
+}
+
+// ============================================================================
+// AU TO MORPHS - VRM expressions are whole-face, so each drives its nearest AU
+// ============================================================================
+
+const center = (...keys: VRMExpressionName[]): MorphTargetsBySide => ({ left: [], right: [], center: keys });
+
+export const VRM_AU_TO_MORPHS: Record<number, MorphTargetsBySide> = {
+  4: center('angry'),
+  5: center('surprised'),
+  12: center('happy'),
+  15: center('sad'),
+  26: center('aa'),
+  43: { left: ['blinkLeft'], right: ['blinkRight'], center: [] },
+  45: { left: ['blinkLeft'], right: ['blinkRight'], center: [] },
+  61: center('lookLeft'),
+  62: center('lookRight'),
+  63: center('lookUp'),
+  64: center('lookDown'),
+};
+
+// ============================================================================
+// HUMANOID BONES
+// ============================================================================
+
+/** VRM humanoid bone names to Loom3 bone keys. */
+export const VRM_HUMAN_BONE_KEYS: Record<string, string> = {
+  hips: 'HIPS',
+  spine: 'SPINE_01',
+  chest: 'SPINE_02',
+  neck: 'NECK',
+  head: 'HEAD',
+  jaw: 'JAW',
+  leftEye: 'EYE_L',
+  rightEye: 'EYE_R',
+  leftShoulder: 'CLAVICLE_L',
+  rightShoulder: 'CLAVICLE_R',
+  leftUpperArm: 'UPPERARM_L',
+  rightUpperArm: 'UPPERARM_R',
+  leftLowerArm: 'LOWERARM_L',
+  rightLowerArm: 'LOWERARM_R',
+  leftHand: 'HAND_L',
+  rightHand: 'HAND_R',
+  leftUpperLeg: 'UPPERLEG_L',
+  rightUpperLeg: 'UPPERLEG_R',
+  leftLowerLeg: 'LOWERLEG_L',
+  rightLowerLeg: 'LOWERLEG_R',
+  leftFoot: 'FOOT_L',
+  rightFoot: 'FOOT_R',
+  leftToes: 'TOEBASE_L',
+  rightToes: 'TOEBASE_R',
+};
+
+/** VRoid Studio skeleton names; `profileFromVRM()` replaces these with the model's humanoid table. */
+export const VRM_BONE_NODES: Record<string, string> = {
+  HIPS: 'J_Bip_C_Hips',
+  SPINE_01: 'J_Bip_C_Spine',
+  SPINE_02: 'J_Bip_C_Chest',
+  NECK: 'J_Bip_C_Neck',
+  HEAD: 'J_Bip_C_Head',
+  EYE_L: 'J_Adj_L_FaceEye',
+  EYE_R: 'J_Adj_R_FaceEye',
+  CLAVICLE_L: 'J_Bip_L_Shoulder',
+  CLAVICLE_R: 'J_Bip_R_Shoulder',
+  UPPERARM_L: 'J_Bip_L_UpperArm',
+  UPPERARM_R: 'J_Bip_R_UpperArm',
+  LOWERARM_L: 'J_Bip_L_LowerArm',
+  LOWERARM_R: 'J_Bip_R_LowerArm',
+  HAND_L: 'J_Bip_L_Hand',
+  HAND_R: 'J_Bip_R_Hand',
+  UPPERLEG_L: 'J_Bip_L_UpperLeg',
+  UPPERLEG_R: 'J_Bip_R_UpperLeg',
+  LOWERLEG_L: 'J_Bip_L_LowerLeg',
+  LOWERLEG_R: 'J_Bip_R_LowerLeg',
+  FOOT_L: 'J_Bip_L_Foot',
+  FOOT_R: 'J_Bip_R_Foot',
+  TOEBASE_L: 'J_Bip_L_ToeBase',
+  TOEBASE_R: 'J_Bip_R_ToeBase',
+};
+
+/** Gaze AUs that rotate eye bones; dropped by `profileFromVRM()` when the model looks with expressions. */
+export const VRM_EYE_BONE_AUS = [61, 62, 63, 64] as const;
+
+export const VRM_BONE_AU_TO_BINDINGS: Record<number, BoneBinding[]> = {
+  51: [{ node: 'HEAD', channel: 'ry', scale: 1, maxDegrees: 60 }],
+  52: [{ node: 'HEAD', channel: 'ry', scale: -1, maxDegrees: 60 }],
+  53: [{ node: 'HEAD', channel: 'rx', scale: -1, maxDegrees: 30 }],
+  54: [{ node: 'HEAD', channel: 'rx', scale: 1, maxDegrees: 30 }],
+  55: [{ node: 'HEAD', channel: 'rz', scale: -1, maxDegrees: 25 }],
+  56: [{ node: 'HEAD', channel: 'rz', scale: 1, maxDegrees: 25 }],
+  61: [
+    { node: 'EYE_L', channel: 'ry', scale: 1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: 1, maxDegrees: 25, side: 'right' },
+  ],
+  62: [
+    { node: 'EYE_L', channel: 'ry', scale: -1, maxDegrees: 25, side: 'left' },
+    { node: 'EYE_R', channel: 'ry', scale: -1, maxDegrees: 25, side: 'right' },
+  ],
+  63: [
+    { node: 'EYE_L', channel: 'rx', scale: -1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: -1, maxDegrees: 20, side: 'right' },
+  ],
+  64: [
+    { node: 'EYE_L', channel: 'rx', scale: 1, maxDegrees: 20, side: 'left' },
+    { node: 'EYE_R', channel: 'rx', scale: 1, maxDegrees: 20, side: 'right' },
+  ],
+};
+
+export const VRM_COMPOSITE_ROTATIONS: CompositeRotation[] = [
+  {
+    node: 'HEAD',
+    pitch: { aus: [54, 53], axis: 'rx', negative: 54, positive: 53 },
+    yaw: { aus: [51, 52], axis: 'ry', negative: 51, positive: 52 },
+    roll: { aus: [55, 56], axis: 'rz', negative: 55, positive: 56 },
+  },
+  {
+    node: 'EYE_L',
+    pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+    yaw: { aus: [61, 62], axis: 'ry', negative: 61, positive: 62 },
+    roll: null,
+  },
+  {
+    node: 'EYE_R',
+    pitch: { aus: [64, 63], axis: 'rx', negative: 64, positive: 63 },
+    yaw: { aus: [61, 62], axis: 'ry', negative: 61, positive: 62 },
+    roll: null,
+  },
+];
+
+export const VRM_CONTINUUM_PAIRS_MAP: NonNullable<Profile['continuumPairs']> = {
+  61: { pairId: 62, isNegative: true, axis: 'yaw', node: 'EYE_L' },
+  62: { pairId: 61, isNegative: false, axis: 'yaw', node: 'EYE_L' },
+  64: { pairId: 63, isNegative: true, axis: 'pitch', node: 'EYE_L' },
+  63: { pairId: 64, isNegative: false, axis: 'pitch', node: 'EYE_L' },
+  51: { pairId: 52, isNegative: true, axis: 'yaw', node: 'HEAD' },
+  52: { pairId: 51, isNegative: false, axis: 'yaw', node: 'HEAD' },
+  54: { pairId: 53, isNegative: true, axis: 'pitch', node: 'HEAD' },
+  53: { pairId: 54, isNegative: false, axis: 'pitch', node: 'HEAD' },
+  55: { pairId: 56, isNegative: true, axis: 'roll', node: 'HEAD' },
+  56: { pairId: 55, isNegative: false, axis: 'roll', node: 'HEAD' },
+};
+
+// ============================================================================
+// VISEMES - The 15 CC4 slots approximated with VRM's five vowels
+// ============================================================================
+
+export const VRM_VISEME_SYSTEM_ID = 'vrm-5-approx-15';
+
+/** Same slots (ids, phonemes, provider ids, features) as CC4, without CC4 morph-name matchers. */
+export const VRM_VISEME_SLOTS: VisemeSlot[] = CC4_VISEME_SLOTS.map(({ matchers: _matchers, ...slot }) => ({ ...slot }));
+
+const blend = (...targets: Array<[VRMExpressionName, number]>): VisemeBinding => ({
+  targets: targets.map(([morph, weight]) => ({ morph, weight })),
+});
+
+/** Bilabials have no VRM vowel, so `b-m-p` binds nothing and simply lets the mouth close. */
+export const VRM_VISEME_BINDINGS: Record<string, VisemeBinding> = {
+  ae: blend(['aa', 0.6], ['ee', 0.3]),
+  ah: blend(['aa', 1]),
+  'b-m-p': { targets: [] },
+  'ch-j': blend(['ou', 0.4], ['ih', 0.3]),
+  ee: blend(['ee', 1]),
+  er: blend(['oh', 0.3], ['ou', 0.3]),
+  'f-v': blend(['ih', 0.3]),
+  ih: blend(['ih', 1]),
+  'k-g-h-ng': blend(['aa', 0.3], ['ih', 0.2]),
+  oh: blend(['oh', 1]),
+  r: blend(['ou', 0.5]),
+  's-z': blend(['ih', 0.4], ['ee', 0.2]),
+  't-l-d-n': blend(['ih', 0.3], ['aa', 0.1]),
+  th: blend(['aa', 0.2], ['ih', 0.2]),
+  'w-oo': blend(['ou', 1]),
+};
+
+/** Primary expression per viseme slot; empty for slots that bind nothing. */
+export const VRM_VISEME_KEYS: string[] = VRM_VISEME_SLOTS.map(
+  (slot) => String(VRM_VISEME_BINDINGS[slot.id]?.targets?.[0]?.morph ?? '')
+);
+
+// ============================================================================
+// VRM_PRESET - Main export for Profile
+// ============================================================================
+
+export const VRM_PRESET: Profile = {
+  name: 'VRM Humanoid',
+  animalType: 'human',
+  auToMorphs: VRM_AU_TO_MORPHS,
+  auToBones: VRM_BONE_AU_TO_BINDINGS,
+  boneNodes: VRM_BONE_NODES,
+  compositeRotations: VRM_COMPOSITE_ROTATIONS,
+  // Empty face list lets Loom3 auto-detect the head mesh that carries the shapes.
+  morphToMesh: { face: [] },
+  visemeKeys: VRM_VISEME_KEYS,
+  visemeSystemId: VRM_VISEME_SYSTEM_ID,
+  visemeSlots: VRM_VISEME_SLOTS,
+  visemeBindings: VRM_VISEME_BINDINGS,
+  // VRM humanoids rarely rig a jaw bone; the `aa`-based bindings open the mouth instead.
+  visemeJawAmounts: VISEME_JAW_AMOUNTS,
+  auInfo: AU_INFO,
+  continuumPairs: VRM_CONTINUUM_PAIRS_MAP,
+};
+
+export default VRM_PRESET;
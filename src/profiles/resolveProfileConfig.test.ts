@@ -493,4 +493,15 @@ describe('resolveProfileFromPreset', () => {
       morphCount: 1,
     });
   });
+
+  it('carries an animation graph stored in the character config', () => {
+    const animationGraph = {
+      parameters: { speed: { type: 'float' as const } },
+      states: [{ name: 'idle', clip: 'Idle' }, { name: 'walk', clip: 'Walk' }],
+      transitions: [{ from: 'idle', to: 'walk', conditions: [{ parameter: 'speed', op: '>' as const, value: 0.1 }] }],
+    };
+    const extendedPreset = resolveProfileFromPreset(createConfig({ animationGraph }));
+
+    expect(extendedPreset?.animationGraph).toEqual(animationGraph);
+  });
 });
@@ -46,6 +46,12 @@ const PROFILE_OVERRIDE_KEYS = [
   'annotationRegions',
   'disabledRegions',
   'hairPhysics',
+  'expressions',
+  'affectAnchors',
+  'blink',
+  'gazeMotion',
+  'breathing',
+  'animationGraph',
 ] as const satisfies readonly (keyof Profile)[];
 
 function isPlainObject(value: unknown): value is Record<string, unknown> {